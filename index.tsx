@@ -2,14 +2,43 @@
 import React, { useState, useMemo, useEffect, FC, useRef, useCallback } from 'react';
 import { createPortal } from 'react-dom';
 import ReactDOM from 'react-dom/client';
-import { Department, Employee, Task, Project } from './types';
-import { getProjects, getDepartments, getEmployees, addProject, updateProject, deleteProject, addTask, updateTask, deleteTask, updateProjects, updateTaskPositions, initSupabase, getSupabaseConfig, isSupabaseEnabled, subscribeToChanges, checkConnectionAndSeed, hasAdminPassword, verifyAdminPassword, setAdminPassword, isGlobalConfigured, isGlobalPassword, initSupabaseFromUrl, getShareableConfigLink, getRemoteSettings, saveRemoteSettings, addDepartment, deleteDepartment, addEmployee, deleteEmployee } from './services/apiService';
+import { Department, Employee, Task, TaskKind, Project, TaskDependency, DependencyType, Baseline, BaselineTask, AppData, SyncEntry, SyncEntryStatus, SyncStatus, AuditEntry, AuditAction, AuditEntityType, AuditChange, AuthUser, UserRole, UserRoleAssignment, CalendarFeed } from './types';
+import { getProjects, getDepartments, getEmployees, getDependencies, getBaselines, initSupabase, getSupabaseConfig, initServer, getServerConfig, getConnectionMode, ConnectionMode, subscribeToChanges, checkConnectionAndSeed, isGlobalConfigured, initSupabaseFromUrl, getShareableConfigLink, getRemoteSettings, saveRemoteSettings, getAuditLog, getActorName, setActorName, isAuthAvailable, getCurrentUser, signInWithPassword, sendMagicLink, signOut, subscribeToAuthChanges, getMyRole, getUserRoles, updateUserRole, getCalendarFeeds, createCalendarFeed, revokeCalendarFeed, getCalendarFeedUrl, getLocalSnapshot, importAppData, getSyncStatus, subscribeToSyncStatus, replaySyncQueue, retrySyncEntry, discardSyncEntry, getRemoteCache } from './services/apiService';
+import { VersionConflictError } from './services/dataService';
 import { addDays, getDaysBetween, formatDate } from './utils/dateUtils';
-import { ChevronLeftIcon, ChevronRightIcon, CalendarIcon, FilterIcon, PlusIcon, FolderIcon, ChevronDownIcon, XMarkIcon, PencilIcon, TrashIcon, GripVerticalIcon, SunIcon, MoonIcon } from './components/icons';
+import { wouldCreateCycle } from './utils/dependencyUtils';
+import { computeCriticalPath, CriticalPathResult, TaskSchedule } from './utils/criticalPathUtils';
+import { WorkCalendar, DEFAULT_WORK_CALENDAR, CompanyDayOff, getKoreanHolidays, hasLunarHolidays, getNonWorkingDayName, countWorkingDays, getWorkingEndDate, nextWorkingDay } from './utils/calendarUtils';
+import { UndoStep, HistoryState, recordHistory, undo, redo, getHistoryState, subscribeToHistory, clearHistory, undoableAddProject, undoableUpdateProject, undoableDeleteProject, undoableAddTask, undoableUpdateTask, undoableDeleteTask, undoableReorderProjects, undoableReorderTasks, undoableAddDependency, undoableDeleteDependency, undoableAddBaseline, undoableDeleteBaseline, undoableAddDepartment, undoableDeleteDepartment, undoableAddEmployee, undoableDeleteEmployee } from './services/historyService';
+import { packIntoLanes } from './utils/laneUtils';
+import { Permissions, ROLE_LABELS, getPermissions } from './utils/permissionUtils';
+import { SPREADSHEET_COLUMNS, REQUIRED_FIELDS, ColumnMapping, ImportRow, buildExportRows, guessColumnMapping, getMissingFields, validateImportRows } from './utils/spreadsheetUtils';
+import { exportCsv, exportXlsx, readSpreadsheetFile } from './services/spreadsheetService';
+import { CalendarScope, CalendarScopeType, CALENDAR_SCOPE_LABELS, getScopeKey, getScopeName, getScopeTasks, buildICalendar } from './utils/icalUtils';
+import { downloadBlob } from './utils/downloadUtils';
+import { applyProjectChanges, applyDepartmentChanges, applyEmployeeChanges, applyDependencyChanges, applyBaselineChanges } from './utils/realtimeUtils';
+import { ConflictField, ConflictChoice, toConflictValue, changedFields, getConflictFields, mergeEdit, collectVersions, isSameOrder } from './utils/conflictUtils';
+import { BACKUP_SETTING_KEYS, BackupSettings, BackupEntity, BACKUP_ENTITY_LABELS, ConflictStrategy, CONFLICT_STRATEGY_LABELS, ImportOutcome, IMPORT_OUTCOME_LABELS, ImportPlan, createBackupFile, parseBackupFile, countRecords, planImport } from './utils/backupUtils';
+import { PaperSize, PAPER_SIZES, buildPrintRows, paginateRows, getPrintBodyHeight } from './utils/printLayoutUtils';
+import { ChartExportOptions, exportChartPdf, exportChartPng, printChart } from './services/chartExportService';
+import { draftTaskFromText, draftPlanFromBrief, writeReportNarrative, isGeminiConfigured } from './services/geminiService';
+import { TaskDraft } from './utils/taskEntryUtils';
+import { getWeekStart, buildWeeklyReport, countReportItems, reportToMarkdown, reportToHtml } from './utils/reportUtils';
+import { PlanRow, PlanRowSchedule, newPlanRowKey, schedulePlanRows, parsePredecessorNumbers, formatPredecessorNumbers, describePlanSpan } from './utils/planUtils';
+import { getTaskVariance, getProjectFinishVariance, getActiveBaseline, formatVariance } from './utils/baselineUtils';
+import { ResourceLoad, computeResourceLoad, findOverallocatedTaskIds, getPeakLoad, getBookingConflicts, MAX_TASKS_PER_DAY } from './utils/resourceUtils';
+import { ZoomLevel, ZOOM_LEVELS, ZOOM_LABELS, TimelineColumn, getPixelsPerDay, startOfZoomUnit, shiftByZoomUnit, buildTimelineColumns, groupTimelineColumns, columnContainsDate } from './utils/timelineUtils';
+import { ChevronLeftIcon, ChevronRightIcon, CalendarIcon, FilterIcon, PlusIcon, FolderIcon, ChevronDownIcon, XMarkIcon, PencilIcon, TrashIcon, GripVerticalIcon, SunIcon, MoonIcon, UsersIcon, ArrowUturnLeftIcon, ArrowUturnRightIcon, ArrowDownTrayIcon, ArrowUpTrayIcon, PrinterIcon, SparklesIcon, DocumentTextIcon } from './components/icons';
 
 // Settings Constants Keys
 const SETTINGS_KEY = 'gantt-ui-settings-v2';
 const GANTT_COLUMN_WIDTHS_KEY = 'ganttColumnWidths';
+const ZOOM_LEVEL_KEY = 'gantt-zoom-level';
+const WORK_CALENDAR_KEY = 'gantt-work-calendar';
+const RESOURCE_PANEL_KEY = 'gantt-resource-panel';
+const VIEW_MODE_KEY = 'gantt-view-mode';
+const PEOPLE_ORDER_KEY = 'gantt-people-order';
+const ACTIVE_BASELINES_KEY = 'gantt-active-baselines';
 const MIN_DAYS_IN_VIEW = 30; // Changed from fixed constant to minimum value
 const MIN_COLUMN_WIDTH = 50;
 
@@ -20,6 +49,7 @@ interface UISettings {
     taskBarHeight: number;
     fontSize: number;
     headerFontSize: number;
+    showVarianceColumn?: boolean;
 }
 
 const DEFAULT_SETTINGS: UISettings = {
@@ -29,6 +59,7 @@ const DEFAULT_SETTINGS: UISettings = {
     taskBarHeight: 32,
     fontSize: 13,
     headerFontSize: 10,
+    showVarianceColumn: false,
 };
 
 const DEFAULT_COLUMN_WIDTHS = {
@@ -36,6 +67,76 @@ const DEFAULT_COLUMN_WIDTHS = {
     department: 100,
     author: 100,
     progress: 100,
+    variance: 90,
+};
+
+const DEPENDENCY_TYPE_LABELS: Record<DependencyType, string> = {
+    FS: '완료→시작 (FS)',
+    SS: '시작→시작 (SS)',
+    FF: '완료→완료 (FF)',
+};
+
+// A predecessor link as edited in TaskModal (id is set for links that already exist)
+// 'project': project → task rows, 'people': department → employee swimlanes
+type GanttViewMode = 'project' | 'people';
+
+const VIEW_MODE_LABELS: Record<GanttViewMode, string> = {
+    project: '프로젝트',
+    people: '인원',
+};
+
+// Manual row order of the people view (ids not listed keep their natural order at the end)
+interface PeopleOrder {
+    departments: string[];
+    employees: string[];
+}
+
+interface PredecessorDraft {
+    id?: string;
+    predecessorId: string;
+    type: DependencyType;
+    lagDays: number;
+}
+
+interface TaskFormData {
+    name: string;
+    kind: TaskKind;
+    employeeId: string;
+    startDate: string;
+    duration: number;
+    description: string;
+    predecessors: PredecessorDraft[];
+}
+
+// Milestones are excluded: they mark a date rather than a piece of work
+const getAverageProgress = (tasks: Task[]) => {
+    const workTasks = tasks.filter(t => t.kind !== 'milestone');
+    const totalProgress = workTasks.reduce((sum, task) => sum + (task.progress || 0), 0);
+    return workTasks.length > 0 ? Math.round(totalProgress / workTasks.length) : 0;
+};
+
+// Horizontal placement of a bar on the timeline, shared by bars and dependency arrows
+// Bars in the people view are coloured by project, so the colour has to be stable per project
+const PROJECT_COLORS = ['bg-indigo-500', 'bg-emerald-500', 'bg-sky-500', 'bg-violet-500', 'bg-orange-500', 'bg-teal-500', 'bg-pink-500', 'bg-lime-500'];
+const getProjectColor = (projectId: string) => {
+    let hash = 0;
+    for (let i = 0; i < projectId.length; i++) hash = (hash * 31 + projectId.charCodeAt(i)) | 0;
+    return PROJECT_COLORS[Math.abs(hash) % PROJECT_COLORS.length];
+};
+
+const sortByOrder = <T extends { id: string }>(items: T[], order: string[]): T[] => {
+    const rank = new Map(order.map((id, index) => [id, index]));
+    return [...items].sort((a, b) => (rank.get(a.id) ?? order.length) - (rank.get(b.id) ?? order.length));
+};
+
+// Late is bad, early is good
+const getVarianceClass = (days: number) => days > 0 ? 'text-rose-500 dark:text-rose-400' : days < 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-gray-900 dark:text-white';
+
+const getBarGeometry = (startDate: Date, endDate: Date, viewStartDate: Date, dayWidth: number) => {
+    const startOffsetDays = getDaysBetween(viewStartDate, startDate) - 1;
+    const durationDays = getDaysBetween(startDate, endDate);
+    // Keep very short bars visible at coarse zoom levels
+    return { left: startOffsetDays * dayWidth, width: Math.max(durationDays * dayWidth - 4, 4), durationDays };
 };
 
 // --- Custom Icons ---
@@ -75,11 +176,11 @@ const Tooltip: FC<{ content: React.ReactNode; children: React.ReactNode }> = ({
     );
 };
 
-const ModalBase: FC<{ isOpen: boolean; onClose: () => void; children: React.ReactNode; title?: string }> = ({ isOpen, onClose, children, title }) => {
+const ModalBase: FC<{ isOpen: boolean; onClose: () => void; children: React.ReactNode; title?: string; wide?: boolean }> = ({ isOpen, onClose, children, title, wide }) => {
     if (!isOpen) return null;
     return (
         <div className="fixed inset-0 bg-black/30 dark:bg-black/70 backdrop-blur-sm flex items-end sm:items-center justify-center z-[100] p-0 sm:p-4 transition-all" onClick={onClose}>
-            <div className="bg-white dark:bg-gray-800 rounded-t-2xl sm:rounded-lg shadow-2xl p-6 w-full max-w-md max-h-[85vh] overflow-y-auto border border-gray-200 dark:border-gray-700 custom-scrollbar transition-colors" onClick={e => e.stopPropagation()}>
+            <div className={`bg-white dark:bg-gray-800 rounded-t-2xl sm:rounded-lg shadow-2xl p-6 w-full ${wide ? 'max-w-3xl' : 'max-w-md'} max-h-[85vh] overflow-y-auto border border-gray-200 dark:border-gray-700 custom-scrollbar transition-colors`} onClick={e => e.stopPropagation()}>
                 {title && (
                     <div className="flex justify-between items-center mb-6">
                         <h3 className="text-xl font-bold text-gray-900 dark:text-white">{title}</h3>
@@ -92,6 +193,123 @@ const ModalBase: FC<{ isOpen: boolean; onClose: () => void; children: React.Reac
     );
 };
 
+// --- Audit Log ---
+const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+    create: '생성',
+    update: '수정',
+    delete: '삭제',
+    reorder: '순서 변경',
+    restore: '복원',
+};
+
+const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+    project: '프로젝트',
+    task: '태스크',
+    department: '부서',
+    employee: '직원',
+    dependency: '연결',
+    baseline: '베이스라인',
+    user: '사용자',
+};
+
+const AUDIT_FIELD_LABELS: Record<string, string> = {
+    name: '이름',
+    kind: '유형',
+    startDate: '시작일',
+    endDate: '종료일',
+    employeeId: '담당자',
+    progress: '진행률',
+    description: '설명',
+    departmentId: '부서',
+    predecessorId: '선행 작업',
+    successorId: '후행 작업',
+    type: '연결 유형',
+    lagDays: '지연 일수',
+    order: '순서',
+    taskOrder: '태스크 순서',
+    role: '권한',
+    importedTasks: '가져온 태스크',
+};
+
+const AUDIT_ACTION_CLASSES: Record<AuditAction, string> = {
+    create: 'bg-emerald-500/10 text-emerald-600 dark:text-emerald-400',
+    update: 'bg-indigo-500/10 text-indigo-600 dark:text-indigo-400',
+    delete: 'bg-rose-500/10 text-rose-600 dark:text-rose-400',
+    reorder: 'bg-gray-500/10 text-gray-600 dark:text-gray-300',
+    restore: 'bg-amber-500/10 text-amber-600 dark:text-amber-400',
+};
+
+// Ids in an entry are shown by the name they have now, or as-is once the record is gone
+const formatAuditValue = (field: string, value: AuditChange['before'], names: Map<string, string>) => {
+    if (value === null) return '—';
+    if (field === 'progress') return `${value}%`;
+    if (field === 'kind') return value === 'milestone' ? '마일스톤' : '태스크';
+    if (field === 'type') return DEPENDENCY_TYPE_LABELS[value as DependencyType] || String(value);
+    if (field === 'role') return ROLE_LABELS[value as UserRole] || String(value);
+    return names.get(String(value)) || String(value);
+};
+
+const formatAuditTime = (date: Date) => date.toLocaleString('ko-KR', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Loads on mount, so parents only render it while its tab is visible
+const AuditLogPanel: FC<{ entityId?: string; names: Map<string, string>; showEntity?: boolean }> = ({ entityId, names, showEntity }) => {
+    const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+    const [error, setError] = useState(false);
+
+    const load = useCallback(async () => {
+        setError(false);
+        try {
+            setEntries(await getAuditLog({ entityId, limit: entityId ? 200 : 100 }));
+        } catch {
+            setError(true);
+        }
+    }, [entityId]);
+
+    useEffect(() => { load(); }, [load]);
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between">
+                <p className="text-[11px] text-gray-500 dark:text-gray-400">{entries ? `최근 ${entries.length}건` : '불러오는 중...'}</p>
+                <button type="button" onClick={load} className="text-[11px] font-bold text-indigo-500 dark:text-indigo-400 hover:text-indigo-600 dark:hover:text-indigo-300">새로고침</button>
+            </div>
+            {error && <p className="text-xs text-rose-500 dark:text-rose-400">변경 기록을 불러오지 못했습니다.</p>}
+            {entries && entries.length === 0 && <p className="text-xs text-gray-400 dark:text-gray-500">기록된 변경 사항이 없습니다.</p>}
+            <ol className="max-h-96 overflow-y-auto space-y-2 pr-1 custom-scrollbar">
+                {entries?.map(entry => (
+                    <li key={entry.id} className="bg-gray-100/50 dark:bg-gray-700/30 p-3 rounded-lg border border-gray-200 dark:border-gray-700/50 space-y-1.5">
+                        <div className="flex items-center gap-2 text-xs">
+                            <span className={`px-1.5 py-0.5 rounded font-bold text-[10px] ${AUDIT_ACTION_CLASSES[entry.action]}`}>{AUDIT_ACTION_LABELS[entry.action]}</span>
+                            {showEntity && <span className="font-bold text-gray-800 dark:text-gray-200 truncate">{AUDIT_ENTITY_LABELS[entry.entityType]} {entry.entityName || ''}</span>}
+                            <span className="ml-auto shrink-0 text-[10px] text-gray-500 font-mono">{formatAuditTime(new Date(entry.timestamp))}</span>
+                        </div>
+                        <p className="text-[10px] text-gray-500 dark:text-gray-400">{entry.actor}{entry.note ? ` · ${entry.note}` : ''}</p>
+                        {entry.changes.map(change => (
+                            <p key={change.field} className="text-[11px] text-gray-700 dark:text-gray-300 break-words">
+                                <span className="font-bold text-gray-500 dark:text-gray-400">{AUDIT_FIELD_LABELS[change.field] || change.field}</span>{' '}
+                                {change.before !== null && <><span className="line-through opacity-60">{formatAuditValue(change.field, change.before, names)}</span>{' → '}</>}
+                                <span>{formatAuditValue(change.field, change.after, names)}</span>
+                            </p>
+                        ))}
+                    </li>
+                ))}
+            </ol>
+        </div>
+    );
+};
+
+// id → display name for every record an audit entry may point at
+const buildAuditNames = (projects: Project[], departments: Department[], employees: Employee[]) => {
+    const names = new Map<string, string>();
+    projects.forEach(p => {
+        names.set(p.id, p.name);
+        p.tasks.forEach(t => names.set(t.id, t.name));
+    });
+    departments.forEach(d => names.set(d.id, d.name));
+    employees.forEach(e => names.set(e.id, e.name));
+    return names;
+};
+
 // --- Settings Component ---
 const SliderField: FC<{ label: string; value: number; min: number; max: number; onChange: (v: number) => void; colorClass: string; unit?: string }> = ({ label, value, min, max, onChange, colorClass, unit = 'px' }) => {
     const [localValue, setLocalValue] = useState(value);
@@ -116,29 +334,91 @@ const SliderField: FC<{ label: string; value: number; min: number; max: number;
     );
 };
 
+const UserRolesPanel: FC<{ departments: Department[]; currentUser: AuthUser | null }> = ({ departments, currentUser }) => {
+    const [assignments, setAssignments] = useState<UserRoleAssignment[]>([]);
+
+    useEffect(() => {
+        getUserRoles().then(setAssignments).catch(e => console.error(e));
+    }, []);
+
+    const handleChange = async (assignment: UserRoleAssignment) => {
+        const previous = assignments.find(a => a.userId === assignment.userId);
+        if (previous?.role === 'admin' && assignment.role !== 'admin' && assignments.filter(a => a.role === 'admin').length === 1) {
+            alert('관리자는 최소 한 명 이상이어야 합니다.');
+            return;
+        }
+        if (assignment.role === 'department_manager' && !assignment.departmentId) assignment = { ...assignment, departmentId: departments[0]?.id };
+        try {
+            await updateUserRole(assignment);
+            setAssignments(prev => prev.map(a => a.userId === assignment.userId ? assignment : a));
+        } catch (e) {
+            console.error(e);
+            alert('권한 변경 실패');
+        }
+    };
+
+    return (
+        <section className="space-y-5">
+            <h4 className="text-xs font-bold text-violet-500 dark:text-violet-400 uppercase tracking-widest border-b border-violet-500/20 dark:border-violet-400/20 pb-2">사용자 권한</h4>
+            <p className="text-[11px] text-gray-500 dark:text-gray-400 leading-relaxed">새로 가입한 계정은 뷰어로 시작합니다. 부서 관리자는 소속 부서 직원에게 배정된 태스크만 수정할 수 있습니다.</p>
+            <div className="max-h-60 overflow-y-auto space-y-1 pr-1 custom-scrollbar">
+                {assignments.length === 0 && <p className="text-xs text-gray-400 dark:text-gray-500">등록된 사용자가 없습니다.</p>}
+                {assignments.map(a => (
+                    <div key={a.userId} className="flex items-center gap-2 bg-gray-100/50 dark:bg-gray-700/30 p-2 rounded-lg border border-gray-200 dark:border-gray-700/50">
+                        <span className="flex-grow min-w-0 truncate text-xs font-bold text-gray-800 dark:text-gray-200" title={a.email}>{a.email}{a.userId === currentUser?.id ? ' (나)' : ''}</span>
+                        <select value={a.role} onChange={e => handleChange({ ...a, role: e.target.value as UserRole })} className="w-24 bg-gray-100 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-lg p-1.5 text-gray-900 dark:text-white text-xs outline-none appearance-none">
+                            {(Object.keys(ROLE_LABELS) as UserRole[]).map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                        </select>
+                        {a.role === 'department_manager' && (
+                            <select value={a.departmentId || ''} onChange={e => handleChange({ ...a, departmentId: e.target.value })} className="w-24 bg-gray-100 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-lg p-1.5 text-gray-900 dark:text-white text-xs outline-none appearance-none">
+                                {departments.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                            </select>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </section>
+    );
+};
+
 interface SettingsModalProps {
     isOpen: boolean;
     onClose: () => void;
     settings: UISettings;
     setSettings: (s: UISettings) => void;
-    onSaveSupabase: (url: string, key: string) => void;
+    // key: the Supabase anon key, or the self-hosted server's access token
+    onSaveConnection: (mode: ConnectionMode, url: string, key: string) => void;
     departments: Department[];
     employees: Employee[];
     onAddDepartment: (name: string) => void;
     onDeleteDepartment: (id: string) => void;
     onAddEmployee: (name: string, deptId: string) => void;
     onDeleteEmployee: (id: string) => void;
+    workCalendar: WorkCalendar;
+    onWorkCalendarChange: (calendar: WorkCalendar) => void;
+    projects: Project[];
+    currentUser: AuthUser | null;
+    permissions: Permissions;
+    rolesMissing: boolean;
+    onOpenBackup: () => void;
 }
 
-const SettingsModal: FC<SettingsModalProps> = ({ isOpen, onClose, settings, setSettings, onSaveSupabase, departments, employees, onAddDepartment, onDeleteDepartment, onAddEmployee, onDeleteEmployee }) => {
+const WEEKDAY_LABELS = ['일', '월', '화', '수', '목', '금', '토'];
+
+const SettingsModal: FC<SettingsModalProps> = ({ isOpen, onClose, settings, setSettings, onSaveConnection, departments, employees, onAddDepartment, onDeleteDepartment, onAddEmployee, onDeleteEmployee, workCalendar, onWorkCalendarChange, projects, currentUser, permissions, rolesMissing, onOpenBackup }) => {
     const update = useCallback((key: keyof UISettings, val: any) => setSettings({ ...settings, [key]: val }), [settings, setSettings]);
+    const [connectionMode, setConnectionMode] = useState<ConnectionMode>('local');
     const [sbUrl, setSbUrl] = useState('');
     const [sbKey, setSbKey] = useState('');
-    const [adminPwd, setAdminPwd] = useState('');
-    const [isProtected, setIsProtected] = useState(false);
+    const [serverUrl, setServerUrl] = useState('');
+    const [serverToken, setServerToken] = useState('');
     const [isGlobalConfig, setIsGlobalConfig] = useState(false);
-    const [isGlobalPwd, setIsGlobalPwd] = useState(false);
-    const [activeTab, setActiveTab] = useState<'general' | 'data'>('general');
+    const [actorName, setActorNameInput] = useState('');
+    const [activeTab, setActiveTab] = useState<'general' | 'data' | 'calendar' | 'activity'>('general');
+    const auditNames = useMemo(() => buildAuditNames(projects, departments, employees), [projects, departments, employees]);
+
+    // Work Calendar State
+    const [newDayOff, setNewDayOff] = useState<CompanyDayOff>({ date: '', name: '' });
 
     // Data Management State
     const [newDeptName, setNewDeptName] = useState('');
@@ -151,28 +431,45 @@ const SettingsModal: FC<SettingsModalProps> = ({ isOpen, onClose, settings, setS
             setSbUrl(config.url);
             setSbKey(config.key);
         }
-        setIsProtected(hasAdminPassword());
+        setServerUrl(getServerConfig()?.url || '');
+        setServerToken(getServerConfig()?.token || '');
+        setConnectionMode(getConnectionMode());
         setIsGlobalConfig(isGlobalConfigured());
-        setIsGlobalPwd(isGlobalPassword());
+        setActorNameInput(getActorName());
         if (departments.length > 0) setNewEmpDeptId(departments[0].id);
     }, [isOpen, departments]);
 
     const handleSave = () => {
-        if (!isGlobalConfig) onSaveSupabase(sbUrl, sbKey);
-        if (adminPwd && !isGlobalPwd) setAdminPassword(adminPwd);
+        // The environment's Supabase needs no details, so it is only reconnected when coming from another mode
+        if (!(isGlobalConfig && connectionMode === 'supabase' && getConnectionMode() === 'supabase')) {
+            onSaveConnection(connectionMode, connectionMode === 'server' ? serverUrl : sbUrl, connectionMode === 'server' ? serverToken : sbKey);
+        }
+        if (!currentUser) setActorName(actorName);
         onClose();
     };
 
     const copySql = () => {
+        // The admin is named here: "whoever signs up first" could be anyone while signups are open
+        const adminEmail = window.prompt('관리자로 지정할 계정의 이메일을 입력하세요.\nSupabase 대시보드의 Authentication에서 먼저 만든 계정이어야 합니다. 비워 두면 관리자를 지정하지 않습니다.', currentUser?.email || '');
+        if (adminEmail === null) return;
+        const adminSql = adminEmail.trim()
+            ? `-- 관리자 지정 (다시 실행해도 다른 계정의 권한은 바뀌지 않음)
+update user_roles set role = 'admin', department_id = null where lower(email) = lower('${adminEmail.trim().replace(/'/g, "''")}');`
+            : `-- 관리자 지정: 아래 줄의 이메일을 관리자 계정으로 바꾸고 주석을 풀어 실행
+-- update user_roles set role = 'admin', department_id = null where lower(email) = lower('admin@example.com');`;
         const sql = `
 -- 1. 테이블 생성 (기존에 없으면 생성)
-create table if not exists projects (id text primary key, name text, position int default 0, created_at timestamptz default now());
+create table if not exists projects (id text primary key, name text, position int default 0, version int default 0, created_at timestamptz default now());
 create table if not exists departments (id text primary key, name text);
 create table if not exists employees (id text primary key, name text, department_id text references departments(id) on delete set null);
-create table if not exists tasks (id text primary key, name text, start_date text, end_date text, color text, employee_id text references employees(id), progress int, description text, position int default 0, project_id text references projects(id) on delete cascade);
+create table if not exists tasks (id text primary key, name text, kind text default 'task', start_date text, end_date text, color text, employee_id text references employees(id), progress int, description text, position int default 0, sequence int default 0, version int default 0, project_id text references projects(id) on delete cascade);
 create table if not exists system_settings (key text primary key, value jsonb);
+create table if not exists task_dependencies (id text primary key, predecessor_id text references tasks(id) on delete cascade, successor_id text references tasks(id) on delete cascade, type text default 'FS', lag_days int default 0);
+create table if not exists project_baselines (id text primary key, project_id text references projects(id) on delete cascade, name text, tasks jsonb, created_at timestamptz default now());
+create table if not exists audit_log (id text primary key, created_at timestamptz default now(), actor text, action text, entity_type text, entity_id text, entity_name text, project_id text, note text, changes jsonb);
+create index if not exists audit_log_entity_idx on audit_log (entity_id, created_at desc);
 
--- 2. 컬럼 마이그레이션 (기존에 테이블은 있지만 position 컬럼이 없는 경우 대응)
+-- 2. 컬럼 마이그레이션 (기존에 테이블은 있지만 position / kind / sequence / version 컬럼이 없는 경우 대응)
 DO $$ 
 BEGIN 
     IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='projects' AND column_name='position') THEN
@@ -181,6 +478,58 @@ BEGIN
     IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='tasks' AND column_name='position') THEN
         ALTER TABLE tasks ADD COLUMN position int DEFAULT 0;
     END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='tasks' AND column_name='kind') THEN
+        ALTER TABLE tasks ADD COLUMN kind text DEFAULT 'task';
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='tasks' AND column_name='sequence') THEN
+        ALTER TABLE tasks ADD COLUMN sequence int DEFAULT 0;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='projects' AND column_name='version') THEN
+        ALTER TABLE projects ADD COLUMN version int DEFAULT 0;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='tasks' AND column_name='version') THEN
+        ALTER TABLE tasks ADD COLUMN version int DEFAULT 0;
+    END IF;
+END $$;
+
+-- 태스크 내용이 바뀔 때마다 sequence 증가 (캘린더 구독의 SEQUENCE 번호)
+create or replace function public.bump_task_sequence() returns trigger language plpgsql as $$
+BEGIN
+    IF (new.name, new.kind, new.start_date, new.end_date, new.employee_id, new.progress, new.description)
+        IS DISTINCT FROM (old.name, old.kind, old.start_date, old.end_date, old.employee_id, old.progress, old.description) THEN
+        new.sequence := coalesce(old.sequence, 0) + 1;
+    ELSE
+        new.sequence := old.sequence;
+    END IF;
+    RETURN new;
+END $$;
+drop trigger if exists tasks_bump_sequence on tasks;
+create trigger tasks_bump_sequence before update on tasks for each row execute function public.bump_task_sequence();
+
+-- 모든 수정마다 version 증가 (앱은 읽었던 version일 때만 저장해 동시 편집으로 덮어쓰는 것을 막음)
+create or replace function public.bump_row_version() returns trigger language plpgsql as $$
+BEGIN
+    new.version := coalesce(old.version, 0) + 1;
+    RETURN new;
+END $$;
+drop trigger if exists projects_bump_version on projects;
+create trigger projects_bump_version before update on projects for each row execute function public.bump_row_version();
+drop trigger if exists tasks_bump_version on tasks;
+create trigger tasks_bump_version before update on tasks for each row execute function public.bump_row_version();
+
+-- 순서 변경: 화면에 보였던 version 그대로인지 확인하고 position만 한 번에 변경 (하나라도 바뀌었으면 아무것도 옮기지 않음)
+create or replace function public.set_positions(target text, ids text[], expected jsonb default '{}') returns table (id text, version int) language plpgsql as $$
+DECLARE stale boolean;
+BEGIN
+    IF target NOT IN ('projects', 'tasks') THEN
+        RAISE EXCEPTION 'set_positions: unknown table %', target;
+    END IF;
+    EXECUTE format('SELECT EXISTS (SELECT 1 FROM jsonb_each_text($1) e LEFT JOIN (SELECT r.id, r.version FROM %I r WHERE r.id IN (SELECT jsonb_object_keys($1)) FOR UPDATE) cur ON cur.id = e.key WHERE cur.version IS DISTINCT FROM e.value::int)', target)
+        INTO stale USING expected;
+    IF stale THEN
+        RAISE EXCEPTION 'set_positions: stale order' USING ERRCODE = '40001';
+    END IF;
+    RETURN QUERY EXECUTE format('UPDATE %I r SET position = o.n - 1 FROM unnest($1) WITH ORDINALITY o(id, n) WHERE r.id = o.id RETURNING r.id, r.version', target) USING ids;
 END $$;
 
 -- 3. 실시간(Realtime) 복제 활성화 (publication 존재 여부 체크 후 생성)
@@ -196,12 +545,123 @@ EXCEPTION
         RAISE NOTICE 'Realtime publication setup skipped or already exists';
 END $$;
 
--- 4. Row Level Security (RLS) 비활성화 (개발 편의를 위해 전체 공개 설정)
-ALTER TABLE projects DISABLE ROW LEVEL SECURITY;
-ALTER TABLE tasks DISABLE ROW LEVEL SECURITY;
-ALTER TABLE departments DISABLE ROW LEVEL SECURITY;
-ALTER TABLE employees DISABLE ROW LEVEL SECURITY;
-ALTER TABLE system_settings DISABLE ROW LEVEL SECURITY;
+DO $$
+BEGIN
+    ALTER PUBLICATION supabase_realtime ADD TABLE task_dependencies;
+EXCEPTION
+    WHEN OTHERS THEN
+        RAISE NOTICE 'task_dependencies already in realtime publication';
+END $$;
+
+DO $$
+BEGIN
+    ALTER PUBLICATION supabase_realtime ADD TABLE project_baselines;
+EXCEPTION
+    WHEN OTHERS THEN
+        RAISE NOTICE 'project_baselines already in realtime publication';
+END $$;
+-- audit_log은 실시간 복제에서 제외 (기록 추가마다 전체 화면이 새로고침되지 않도록)
+
+-- 4. 사용자 권한 (viewer / editor / department_manager / admin)
+create table if not exists user_roles (user_id uuid primary key references auth.users(id) on delete cascade, email text, role text not null default 'viewer' check (role in ('viewer', 'editor', 'department_manager', 'admin')), department_id text references departments(id) on delete set null);
+
+-- 새 계정은 모두 뷰어로 등록 (관리자는 아래에서 이메일로 지정한 계정뿐)
+create or replace function public.handle_new_user() returns trigger language plpgsql security definer set search_path = public as $$
+BEGIN
+    INSERT INTO user_roles (user_id, email, role)
+    VALUES (new.id, new.email, 'viewer')
+    ON CONFLICT (user_id) DO NOTHING;
+    RETURN new;
+END $$;
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created after insert on auth.users for each row execute function public.handle_new_user();
+
+-- 기존 계정 등록 (뷰어로)
+insert into user_roles (user_id, email) select id, email from auth.users on conflict (user_id) do nothing;
+${adminSql}
+
+create or replace function public.app_role() returns text language sql stable security definer set search_path = public as $$
+    SELECT coalesce((SELECT role FROM user_roles WHERE user_id = auth.uid()), 'viewer')
+$$;
+
+-- 편집자·관리자는 모든 태스크, 부서 관리자는 자기 부서 직원에게 배정된 태스크만
+create or replace function public.can_edit_employee_tasks(emp_id text) returns boolean language sql stable security definer set search_path = public as $$
+    SELECT app_role() IN ('admin', 'editor')
+        OR (app_role() = 'department_manager' AND EXISTS (
+            SELECT 1 FROM employees e JOIN user_roles r ON r.user_id = auth.uid()
+            WHERE e.id = emp_id AND e.department_id = r.department_id))
+$$;
+
+-- 5. Row Level Security 정책 (읽기는 모두 허용, 쓰기는 권한별)
+DO $$
+DECLARE t text;
+BEGIN
+    FOREACH t IN ARRAY ARRAY['projects', 'tasks', 'departments', 'employees', 'system_settings', 'task_dependencies', 'project_baselines', 'audit_log'] LOOP
+        EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', t);
+        EXECUTE format('DROP POLICY IF EXISTS read_all ON %I', t);
+        EXECUTE format('CREATE POLICY read_all ON %I FOR SELECT USING (true)', t);
+    END LOOP;
+END $$;
+
+drop policy if exists projects_insert on projects;
+drop policy if exists projects_update on projects;
+drop policy if exists projects_delete on projects;
+create policy projects_insert on projects for insert with check (app_role() in ('admin', 'editor'));
+create policy projects_update on projects for update using (app_role() in ('admin', 'editor'));
+create policy projects_delete on projects for delete using (app_role() = 'admin');
+
+drop policy if exists tasks_insert on tasks;
+drop policy if exists tasks_update on tasks;
+drop policy if exists tasks_delete on tasks;
+create policy tasks_insert on tasks for insert with check (can_edit_employee_tasks(employee_id));
+create policy tasks_update on tasks for update using (can_edit_employee_tasks(employee_id)) with check (can_edit_employee_tasks(employee_id));
+create policy tasks_delete on tasks for delete using (can_edit_employee_tasks(employee_id));
+
+drop policy if exists task_dependencies_write on task_dependencies;
+create policy task_dependencies_write on task_dependencies for all
+    using (app_role() in ('admin', 'editor') or exists (select 1 from tasks t where t.id = successor_id and can_edit_employee_tasks(t.employee_id)))
+    with check (app_role() in ('admin', 'editor') or exists (select 1 from tasks t where t.id = successor_id and can_edit_employee_tasks(t.employee_id)));
+
+drop policy if exists departments_write on departments;
+drop policy if exists employees_write on employees;
+create policy departments_write on departments for all using (app_role() = 'admin') with check (app_role() = 'admin');
+create policy employees_write on employees for all using (app_role() = 'admin') with check (app_role() = 'admin');
+
+drop policy if exists project_baselines_write on project_baselines;
+drop policy if exists system_settings_write on system_settings;
+create policy project_baselines_write on project_baselines for all using (app_role() in ('admin', 'editor')) with check (app_role() in ('admin', 'editor'));
+create policy system_settings_write on system_settings for all using (app_role() in ('admin', 'editor')) with check (app_role() in ('admin', 'editor'));
+
+drop policy if exists audit_log_insert on audit_log;
+create policy audit_log_insert on audit_log for insert with check (app_role() <> 'viewer');
+
+-- 변경 기록의 작성자는 클라이언트가 보낸 값이 아니라 로그인한 계정으로 기록
+create or replace function public.set_audit_actor() returns trigger language plpgsql as $$
+BEGIN
+    new.actor := coalesce(auth.jwt() ->> 'email', auth.uid()::text, new.actor);
+    RETURN new;
+END $$;
+drop trigger if exists audit_log_set_actor on audit_log;
+create trigger audit_log_set_actor before insert on audit_log for each row execute function public.set_audit_actor();
+
+ALTER TABLE user_roles ENABLE ROW LEVEL SECURITY;
+drop policy if exists user_roles_read on user_roles;
+drop policy if exists user_roles_update on user_roles;
+create policy user_roles_read on user_roles for select using (user_id = auth.uid() or app_role() = 'admin');
+create policy user_roles_update on user_roles for update using (app_role() = 'admin') with check (app_role() = 'admin');
+
+-- 6. 캘린더 구독 (URL마다 임의 토큰, 로그인한 계정만 목록을 보고 편집자·관리자만 만들고 폐기)
+-- .ics는 calendar 함수가 요청마다 만듦: supabase functions deploy calendar --no-verify-jwt
+create table if not exists calendar_feeds (token text primary key, scope_key text not null, created_at timestamptz default now());
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+drop policy if exists calendar_feeds_read on calendar_feeds;
+drop policy if exists calendar_feeds_write on calendar_feeds;
+create policy calendar_feeds_read on calendar_feeds for select using (auth.uid() is not null);
+create policy calendar_feeds_write on calendar_feeds for all using (app_role() in ('admin', 'editor')) with check (app_role() in ('admin', 'editor'));
+
+-- 예전 공개 .ics 파일은 더 이상 누구나 읽지 못하게 (파일은 대시보드의 Storage에서 calendars 버킷째 지워도 됨)
+update storage.buckets set public = false where id = 'calendars';
+drop policy if exists calendars_write on storage.objects;
 `;
         navigator.clipboard.writeText(sql);
         alert('SQL 쿼리가 클립보드에 복사되었습니다.\n\nSupabase 프로젝트의 SQL Editor에 붙여넣고 실행하세요.');
@@ -215,6 +675,35 @@ ALTER TABLE system_settings DISABLE ROW LEVEL SECURITY;
         }
     };
 
+    const toggleWeekendDay = (day: number) => {
+        const weekendDays = workCalendar.weekendDays.includes(day) ? workCalendar.weekendDays.filter(d => d !== day) : [...workCalendar.weekendDays, day];
+        onWorkCalendarChange({ ...workCalendar, weekendDays });
+    };
+
+    const handleAddDayOff = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newDayOff.date || workCalendar.companyDaysOff.some(d => d.date === newDayOff.date)) return;
+        const companyDaysOff = [...workCalendar.companyDaysOff, { date: newDayOff.date, name: newDayOff.name.trim() }].sort((a, b) => a.date.localeCompare(b.date));
+        onWorkCalendarChange({ ...workCalendar, companyDaysOff });
+        setNewDayOff({ date: '', name: '' });
+    };
+
+    const upcomingHolidays = useMemo(() => {
+        const todayKey = formatDate(new Date());
+        const year = new Date().getFullYear();
+        return [...getKoreanHolidays(year), ...getKoreanHolidays(year + 1)].filter(([date]) => date >= todayKey).slice(0, 12);
+    }, []);
+
+    // This year, next year and every year a task touches
+    const uncoveredHolidayYears = useMemo(() => {
+        const year = new Date().getFullYear();
+        const years = new Set([year, year + 1]);
+        projects.forEach(p => p.tasks.forEach(t => {
+            for (let y = t.startDate.getFullYear(); y <= t.endDate.getFullYear(); y++) years.add(y);
+        }));
+        return [...years].filter(y => !hasLunarHolidays(y)).sort((a, b) => a - b);
+    }, [projects]);
+
     const handleAddEmp = (e: React.FormEvent) => {
         e.preventDefault();
         if (newEmpName.trim() && newEmpDeptId) {
@@ -225,31 +714,59 @@ ALTER TABLE system_settings DISABLE ROW LEVEL SECURITY;
 
     return (
         <ModalBase isOpen={isOpen} onClose={onClose} title="표시 및 시스템 설정">
-            <div className="flex gap-2 mb-6 border-b border-gray-200 dark:border-gray-700 pb-1">
+            <div className="flex gap-2 mb-6 border-b border-gray-200 dark:border-gray-700 pb-1 overflow-x-auto">
                 <button onClick={() => setActiveTab('general')} className={`pb-2 px-4 text-xs font-bold uppercase tracking-widest transition-colors ${activeTab === 'general' ? 'text-indigo-600 dark:text-indigo-400 border-b-2 border-indigo-600 dark:border-indigo-500' : 'text-gray-500 hover:text-gray-900 dark:hover:text-gray-300'}`}>일반 및 연결</button>
                 <button onClick={() => setActiveTab('data')} className={`pb-2 px-4 text-xs font-bold uppercase tracking-widest transition-colors ${activeTab === 'data' ? 'text-emerald-600 dark:text-emerald-400 border-b-2 border-emerald-600 dark:border-emerald-500' : 'text-gray-500 hover:text-gray-900 dark:hover:text-gray-300'}`}>조직 관리</button>
+                <button onClick={() => setActiveTab('calendar')} className={`pb-2 px-4 text-xs font-bold uppercase tracking-widest transition-colors ${activeTab === 'calendar' ? 'text-rose-600 dark:text-rose-400 border-b-2 border-rose-600 dark:border-rose-500' : 'text-gray-500 hover:text-gray-900 dark:hover:text-gray-300'}`}>근무 달력</button>
+                <button onClick={() => setActiveTab('activity')} className={`pb-2 px-4 text-xs font-bold uppercase tracking-widest transition-colors ${activeTab === 'activity' ? 'text-amber-600 dark:text-amber-400 border-b-2 border-amber-600 dark:border-amber-500' : 'text-gray-500 hover:text-gray-900 dark:hover:text-gray-300'}`}>활동 기록</button>
             </div>
 
             <div className="space-y-8 pb-32">
-                {activeTab === 'general' ? (
+                {activeTab === 'general' && (
                     <>
                     <section className="space-y-5">
-                        <h4 className="text-xs font-bold text-rose-500 dark:text-rose-400 uppercase tracking-widest border-b border-rose-500/20 dark:border-rose-400/20 pb-2">보안 설정</h4>
-                        <div className="space-y-3">
-                            <p className="text-xs text-rose-600 dark:text-rose-200 leading-relaxed">설정 메뉴 접근 시 사용할 비밀번호를 설정하여 무단 변경을 방지하세요.</p>
-                            {isProtected && <div className="px-3 py-2 bg-emerald-500/10 border border-emerald-500/20 rounded-lg text-emerald-600 dark:text-emerald-400 text-xs font-bold flex items-center gap-2"><span>🔒</span>현재 비밀번호가 설정되어 있습니다.</div>}
-                            {isGlobalPwd && <div className="px-3 py-2 bg-indigo-500/10 border border-indigo-500/20 rounded-lg text-indigo-600 dark:text-indigo-400 text-xs font-bold flex items-center gap-2"><span>🛡️</span>소스 코드에 의해 비밀번호가 고정되었습니다.</div>}
+                        <h4 className="text-xs font-bold text-sky-500 dark:text-sky-400 uppercase tracking-widest border-b border-sky-500/20 dark:border-sky-400/20 pb-2">사용자</h4>
+                        {currentUser ? (
+                            <>
+                                <div className="px-3 py-2 bg-emerald-500/10 border border-emerald-500/20 rounded-lg text-emerald-600 dark:text-emerald-400 text-xs font-bold flex items-center gap-2"><span>🔒</span><span className="truncate">{currentUser.email} 계정으로 로그인되어 있습니다.</span></div>
+                                {rolesMissing && <p className="px-3 py-2 bg-amber-500/10 border border-amber-500/20 rounded-lg text-amber-700 dark:text-amber-300 text-xs leading-relaxed">권한 테이블(user_roles)이 아직 없어 모든 계정이 읽기 전용으로 열립니다. 아래 '데이터 저장 위치'에서 SQL을 복사해 Supabase의 SQL Editor에서 실행하세요.</p>}
+                            </>
+                        ) : (
                             <div>
-                                <label className="block text-xs font-bold text-gray-500 mb-1">관리자 비밀번호 {isProtected ? '변경' : '설정'}</label>
-                                <input type="password" value={adminPwd} onChange={e => setAdminPwd(e.target.value)} placeholder={isGlobalPwd ? "소스 코드에서 관리됨" : (isProtected ? "새 비밀번호 (비워두면 유지)" : "비밀번호 입력")} disabled={isGlobalPwd} className="w-full bg-gray-100 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-lg p-3 text-gray-900 dark:text-white text-sm focus:ring-1 focus:ring-rose-500 outline-none transition-all placeholder-gray-400 dark:placeholder-gray-500 disabled:opacity-50 disabled:cursor-not-allowed" />
+                                <label className="block text-xs font-bold text-gray-500 mb-1">표시 이름</label>
+                                <input type="text" value={actorName} onChange={e => setActorNameInput(e.target.value)} placeholder="변경 기록에 남을 이름" className="w-full bg-gray-100 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-lg p-3 text-gray-900 dark:text-white text-sm focus:ring-1 focus:ring-sky-500 outline-none transition-all placeholder-gray-400 dark:placeholder-gray-500" />
+                                <p className="text-[10px] text-gray-400 dark:text-gray-500 mt-1">로컬 모드에서는 로그인 없이 이 이름으로 변경 기록이 남습니다.</p>
                             </div>
-                        </div>
+                        )}
                     </section>
 
                     <section className="space-y-5">
-                        <h4 className="text-xs font-bold text-indigo-500 dark:text-indigo-400 uppercase tracking-widest border-b border-indigo-500/20 dark:border-indigo-400/20 pb-2">실시간 데이터베이스 (Supabase)</h4>
+                        <h4 className="text-xs font-bold text-indigo-500 dark:text-indigo-400 uppercase tracking-widest border-b border-indigo-500/20 dark:border-indigo-400/20 pb-2">데이터 저장 위치</h4>
+                        <div className="grid grid-cols-3 gap-2 p-1 bg-gray-100 dark:bg-gray-700/50 rounded-xl border border-gray-300 dark:border-gray-600">
+                            {([['local', '로컬'], ['supabase', 'Supabase'], ['server', '자체 서버']] as const).map(([mode, label]) => (
+                                <button key={mode} type="button" onClick={() => setConnectionMode(mode)} disabled={mode === 'local' && isGlobalConfig} title={mode === 'local' && isGlobalConfig ? '환경 변수로 Supabase가 설정되어 있어 로컬 모드를 쓸 수 없습니다.' : undefined} className={`py-2 rounded-lg text-xs font-bold transition-all disabled:opacity-40 disabled:cursor-not-allowed ${connectionMode === mode ? 'bg-indigo-600 text-white shadow' : 'text-gray-500 hover:text-gray-900 dark:hover:text-white'}`}>{label}</button>
+                            ))}
+                        </div>
                         <div className="space-y-3">
-                            {isGlobalConfig ? (
+                            {connectionMode === 'local' ? (
+                                <div className="p-3 bg-gray-100 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 rounded-xl">
+                                    <p className="text-xs text-gray-600 dark:text-gray-300 leading-relaxed">데이터를 이 브라우저에만 저장합니다. 다른 사람과 공유되지 않습니다.</p>
+                                </div>
+                            ) : connectionMode === 'server' ? (
+                                <>
+                                    <div className="p-3 bg-indigo-500/10 border border-indigo-500/20 rounded-xl">
+                                        <p className="text-xs text-indigo-700 dark:text-indigo-200 leading-relaxed">직접 운영하는 <strong className="text-indigo-900 dark:text-white">자체 서버</strong>(SQLite 또는 Postgres)에 저장하고 실시간으로 공유합니다. 서버는 <code className="font-mono">npm run server</code>로 실행합니다. 역할 구분이 없어 접속 토큰을 아는 사람은 모두 편집할 수 있습니다.</p>
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-bold text-gray-500 mb-1">서버 주소</label>
+                                        <input type="text" value={serverUrl} onChange={e => setServerUrl(e.target.value)} placeholder="http://localhost:4000" className="w-full bg-gray-100 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-lg p-2 text-gray-900 dark:text-white text-xs focus:ring-1 focus:ring-indigo-500 outline-none" />
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-bold text-gray-500 mb-1">접속 토큰</label>
+                                        <input type="password" value={serverToken} onChange={e => setServerToken(e.target.value)} placeholder="서버의 API_TOKEN" autoComplete="off" className="w-full bg-gray-100 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-lg p-2 text-gray-900 dark:text-white text-xs focus:ring-1 focus:ring-indigo-500 outline-none" />
+                                    </div>
+                                </>
+                            ) : isGlobalConfig ? (
                                 <div className="p-4 bg-gray-100 dark:bg-gray-800/50 rounded-xl border border-gray-200 dark:border-gray-700 space-y-3">
                                     <div className="flex items-center gap-3">
                                         <div className="p-2 rounded-full bg-emerald-500/20 text-emerald-600 dark:text-emerald-400">
@@ -281,10 +798,20 @@ ALTER TABLE system_settings DISABLE ROW LEVEL SECURITY;
                         </div>
                     </section>
 
+                    <section className="space-y-3">
+                        <h4 className="text-xs font-bold text-violet-500 dark:text-violet-400 uppercase tracking-widest border-b border-violet-500/20 dark:border-violet-400/20 pb-2">백업 및 데이터 이전</h4>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 leading-relaxed">전체 데이터를 JSON 파일로 백업하거나 복원하고, 오프라인에서 만든 로컬 데이터를 Supabase나 자체 서버로 옮깁니다.</p>
+                        <button onClick={onOpenBackup} className="w-full py-2.5 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-violet-600 dark:text-violet-400 text-xs font-bold rounded-lg transition-all border border-gray-300 dark:border-gray-600">백업 / 복원 / 데이터 이전 열기</button>
+                    </section>
+
                     <section className="space-y-5">
                         <h4 className="text-xs font-bold text-emerald-500 dark:text-emerald-400 uppercase tracking-widest border-b border-emerald-500/20 dark:border-emerald-400/20 pb-2">테이블 레이아웃</h4>
                         <SliderField label="날짜 칸 너비 (가로)" value={settings.dayWidth} min={30} max={120} onChange={(v) => update('dayWidth', v)} colorClass="text-emerald-600 dark:text-emerald-300" />
                         <SliderField label="행 높이 (세로)" value={settings.rowHeight} min={35} max={120} onChange={(v) => update('rowHeight', v)} colorClass="text-emerald-600 dark:text-emerald-300" />
+                        <label className="flex items-center justify-between cursor-pointer">
+                            <span className="text-xs font-bold text-gray-600 dark:text-gray-300">베이스라인 편차 열 표시</span>
+                            <input type="checkbox" checked={!!settings.showVarianceColumn} onChange={e => update('showVarianceColumn', e.target.checked)} className="w-4 h-4 accent-emerald-500" />
+                        </label>
                     </section>
 
                     <section className="space-y-5">
@@ -297,9 +824,13 @@ ALTER TABLE system_settings DISABLE ROW LEVEL SECURITY;
                     
                     <button onClick={handleSave} className="w-full py-4 bg-indigo-600 hover:bg-indigo-500 text-white font-black text-sm uppercase tracking-widest rounded-xl transition-all shadow-xl shadow-indigo-500/20 active:scale-95">설정 저장 및 연결</button>
                     </>
-                ) : (
+                )}
+                {activeTab === 'data' && (
                     <>
                     {/* Data Management Tab */}
+                    {!permissions.canManageOrganization && <p className="text-xs text-gray-500 dark:text-gray-400">조직 정보는 관리자만 변경할 수 있습니다.</p>}
+                    {permissions.canManageOrganization && isAuthAvailable() && <UserRolesPanel departments={departments} currentUser={currentUser} />}
+                    <fieldset disabled={!permissions.canManageOrganization} className="space-y-8 min-w-0 disabled:opacity-60">
                     <section className="space-y-5">
                         <h4 className="text-xs font-bold text-emerald-500 dark:text-emerald-400 uppercase tracking-widest border-b border-emerald-500/20 dark:border-emerald-400/20 pb-2">부서 관리</h4>
                         <form onSubmit={handleAddDept} className="flex gap-2">
@@ -342,56 +873,150 @@ ALTER TABLE system_settings DISABLE ROW LEVEL SECURITY;
                             })}
                         </div>
                     </section>
+                    </fieldset>
+                    </>
+                )}
+                {activeTab === 'calendar' && (
+                    <>
+                    {/* Work Calendar Tab */}
+                    {!permissions.canManageOrganization && <p className="text-xs text-gray-500 dark:text-gray-400">근무 달력은 관리자만 변경할 수 있습니다.</p>}
+                    <fieldset disabled={!permissions.canManageOrganization} className="space-y-8 min-w-0 disabled:opacity-60">
+                    <section className="space-y-5">
+                        <h4 className="text-xs font-bold text-rose-500 dark:text-rose-400 uppercase tracking-widest border-b border-rose-500/20 dark:border-rose-400/20 pb-2">근무일 설정</h4>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 leading-relaxed">태스크 기간은 아래 휴무일을 제외한 근무일 기준으로 계산됩니다.</p>
+                        <div className="flex gap-1.5">
+                            {WEEKDAY_LABELS.map((label, day) => (
+                                <button key={day} onClick={() => toggleWeekendDay(day)} className={`flex-1 py-2 rounded-lg text-xs font-bold border transition-colors ${workCalendar.weekendDays.includes(day) ? 'bg-rose-500/10 border-rose-500/40 text-rose-600 dark:text-rose-400' : 'bg-gray-100 dark:bg-gray-700/50 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200'}`}>{label}</button>
+                            ))}
+                        </div>
+                        <p className="text-[10px] text-gray-400 dark:text-gray-500">강조된 요일은 휴무입니다.</p>
+                        <label className="flex items-center gap-3 text-sm text-gray-700 dark:text-gray-200 font-medium cursor-pointer">
+                            <input type="checkbox" checked={workCalendar.useKoreanHolidays} onChange={e => onWorkCalendarChange({ ...workCalendar, useKoreanHolidays: e.target.checked })} className="accent-rose-500 w-4 h-4" />
+                            대한민국 공휴일 적용 (설날·추석·대체공휴일 포함)
+                        </label>
+                        {workCalendar.useKoreanHolidays && uncoveredHolidayYears.length > 0 && (
+                            <p className="text-xs text-amber-600 dark:text-amber-400 bg-amber-500/10 border border-amber-500/20 rounded-lg px-3 py-2 leading-relaxed">{uncoveredHolidayYears.join(', ')}년의 설날·부처님오신날·추석 날짜가 아직 없어 근무일로 계산됩니다. 필요하면 회사 휴무일로 추가하세요.</p>
+                        )}
+                        {workCalendar.useKoreanHolidays && (
+                            <div className="max-h-32 overflow-y-auto space-y-1 pr-1 custom-scrollbar">
+                                {upcomingHolidays.map(([date, name]) => (
+                                    <div key={date} className="flex justify-between text-xs px-2 py-1 rounded bg-gray-100/50 dark:bg-gray-700/30"><span className="font-mono text-gray-500">{date}</span><span className="font-bold text-gray-700 dark:text-gray-200">{name}</span></div>
+                                ))}
+                            </div>
+                        )}
+                    </section>
+
+                    <section className="space-y-5">
+                        <h4 className="text-xs font-bold text-amber-500 dark:text-amber-400 uppercase tracking-widest border-b border-amber-500/20 dark:border-amber-400/20 pb-2">회사 휴무일</h4>
+                        <form onSubmit={handleAddDayOff} className="flex gap-2">
+                            <input type="date" value={newDayOff.date} onChange={e => setNewDayOff({ ...newDayOff, date: e.target.value })} className="w-36 bg-gray-100 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-lg p-2 text-gray-900 dark:text-white text-xs focus:ring-1 focus:ring-amber-500 outline-none" style={{ colorScheme: 'dark' }} required />
+                            <input type="text" value={newDayOff.name} onChange={e => setNewDayOff({ ...newDayOff, name: e.target.value })} placeholder="휴무 사유 (예: 창립기념일)" className="flex-grow min-w-0 bg-gray-100 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-lg p-2 text-gray-900 dark:text-white text-xs focus:ring-1 focus:ring-amber-500 outline-none" />
+                            <button type="submit" className="px-3 py-2 bg-amber-500 hover:bg-amber-400 text-white rounded-lg transition-colors"><PlusIcon className="h-4 w-4"/></button>
+                        </form>
+                        <div className="max-h-40 overflow-y-auto space-y-1 pr-1 custom-scrollbar">
+                            {workCalendar.companyDaysOff.length === 0 && <p className="text-xs text-gray-400 dark:text-gray-500">등록된 회사 휴무일이 없습니다.</p>}
+                            {workCalendar.companyDaysOff.map(d => (
+                                <div key={d.date} className="flex justify-between items-center bg-gray-100/50 dark:bg-gray-700/30 p-2 rounded-lg border border-gray-200 dark:border-gray-700/50">
+                                    <div className="flex items-center gap-3"><span className="font-mono text-xs text-gray-500">{d.date}</span><span className="text-sm text-gray-800 dark:text-gray-200 font-bold">{d.name || '회사 휴무'}</span></div>
+                                    <button onClick={() => onWorkCalendarChange({ ...workCalendar, companyDaysOff: workCalendar.companyDaysOff.filter(x => x.date !== d.date) })} className="text-gray-500 hover:text-red-400 p-1"><XMarkIcon className="h-4 w-4"/></button>
+                                </div>
+                            ))}
+                        </div>
+                    </section>
+                    </fieldset>
                     </>
                 )}
+                {activeTab === 'activity' && (
+                    <section className="space-y-5">
+                        <h4 className="text-xs font-bold text-amber-500 dark:text-amber-400 uppercase tracking-widest border-b border-amber-500/20 dark:border-amber-400/20 pb-2">전체 활동</h4>
+                        <AuditLogPanel names={auditNames} showEntity />
+                    </section>
+                )}
             </div>
         </ModalBase>
     );
 };
 
-const AuthModal: FC<{ isOpen: boolean; onClose: () => void; onSuccess: () => void }> = ({ isOpen, onClose, onSuccess }) => {
+const getSignInErrorMessage = (e: any) => {
+    const msg = String(e?.message || '');
+    if (/invalid login credentials/i.test(msg)) return '이메일 또는 비밀번호가 일치하지 않습니다.';
+    if (/email not confirmed/i.test(msg)) return '이메일 인증이 완료되지 않은 계정입니다.';
+    if (/signups not allowed|user not found/i.test(msg)) return '등록되지 않은 이메일입니다. 관리자에게 계정 생성을 요청하세요.';
+    return `로그인에 실패했습니다. ${msg}`.trim();
+};
+
+const AuthModal: FC<{ isOpen: boolean; onClose: () => void; onSuccess: (user: AuthUser | null) => void }> = ({ isOpen, onClose, onSuccess }) => {
+    const [method, setMethod] = useState<'password' | 'link'>('password');
+    const [email, setEmail] = useState('');
     const [password, setPassword] = useState('');
-    const [error, setError] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [linkSent, setLinkSent] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
     const inputRef = useRef<HTMLInputElement>(null);
 
     useEffect(() => {
         if (isOpen) {
             setPassword('');
-            setError(false);
+            setError(null);
+            setLinkSent(false);
             setTimeout(() => inputRef.current?.focus(), 100);
         }
     }, [isOpen]);
 
-    const handleSubmit = (e: React.FormEvent) => {
+    const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
-        if (verifyAdminPassword(password)) {
-            onSuccess();
-            onClose();
-        } else {
-            setError(true);
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            if (method === 'password') {
+                const user = await signInWithPassword(email.trim(), password);
+                onSuccess(user);
+                onClose();
+            } else {
+                await sendMagicLink(email.trim());
+                setLinkSent(true);
+            }
+        } catch (err) {
+            setError(getSignInErrorMessage(err));
             setPassword('');
+        } finally {
+            setIsSubmitting(false);
         }
     };
 
     return (
-        <ModalBase isOpen={isOpen} onClose={onClose} title="관리자 인증">
-            <form onSubmit={handleSubmit} className="space-y-6">
-                 <div className="p-4 bg-gray-100 dark:bg-gray-700/50 rounded-xl border border-gray-200 dark:border-gray-600">
-                    <p className="text-sm text-gray-600 dark:text-gray-300 text-center">설정 메뉴에 접근하려면 비밀번호를 입력하세요.</p>
+        <ModalBase isOpen={isOpen} onClose={onClose} title="로그인">
+            <form onSubmit={handleSubmit} className="space-y-5">
+                <div className="grid grid-cols-2 gap-2 p-1 bg-gray-100 dark:bg-gray-700/50 rounded-xl border border-gray-300 dark:border-gray-600">
+                    <button type="button" onClick={() => { setMethod('password'); setError(null); }} className={`py-2 rounded-lg text-xs font-bold transition-all ${method === 'password' ? 'bg-indigo-600 text-white shadow' : 'text-gray-500 hover:text-gray-900 dark:hover:text-white'}`}>비밀번호</button>
+                    <button type="button" onClick={() => { setMethod('link'); setError(null); }} className={`py-2 rounded-lg text-xs font-bold transition-all ${method === 'link' ? 'bg-indigo-600 text-white shadow' : 'text-gray-500 hover:text-gray-900 dark:hover:text-white'}`}>이메일 링크</button>
                 </div>
-                <div>
-                    <input 
-                        ref={inputRef}
-                        type="password" 
-                        value={password} 
-                        onChange={e => { setPassword(e.target.value); setError(false); }} 
-                        placeholder="비밀번호 입력" 
-                        className={`w-full bg-gray-50 dark:bg-gray-900/50 border ${error ? 'border-red-500 focus:ring-red-500' : 'border-gray-300 dark:border-gray-600 focus:ring-indigo-500'} rounded-xl p-4 text-gray-900 dark:text-white text-lg text-center tracking-widest focus:ring-2 outline-none transition-all`} 
-                        autoFocus
+                <input
+                    ref={inputRef}
+                    type="email"
+                    value={email}
+                    onChange={e => { setEmail(e.target.value); setError(null); setLinkSent(false); }}
+                    placeholder="이메일"
+                    autoComplete="username"
+                    className="w-full bg-gray-50 dark:bg-gray-900/50 border border-gray-300 dark:border-gray-600 focus:ring-indigo-500 rounded-xl p-4 text-gray-900 dark:text-white text-sm focus:ring-2 outline-none transition-all"
+                    required
+                />
+                {method === 'password' && (
+                    <input
+                        type="password"
+                        value={password}
+                        onChange={e => { setPassword(e.target.value); setError(null); }}
+                        placeholder="비밀번호"
+                        autoComplete="current-password"
+                        className={`w-full bg-gray-50 dark:bg-gray-900/50 border ${error ? 'border-red-500 focus:ring-red-500' : 'border-gray-300 dark:border-gray-600 focus:ring-indigo-500'} rounded-xl p-4 text-gray-900 dark:text-white text-sm focus:ring-2 outline-none transition-all`}
+                        required
                     />
-                    {error && <p className="text-red-500 dark:text-red-400 text-xs font-bold text-center mt-2 animate-pulse">비밀번호가 일치하지 않습니다.</p>}
-                </div>
-                <button type="submit" className="w-full py-4 bg-indigo-600 hover:bg-indigo-500 text-white font-black rounded-xl transition-all shadow-lg shadow-indigo-500/20 active:scale-95">확인</button>
+                )}
+                {error && <p className="text-red-500 dark:text-red-400 text-xs font-bold text-center">{error}</p>}
+                {linkSent && <p className="text-emerald-600 dark:text-emerald-400 text-xs font-bold text-center">로그인 링크를 보냈습니다. 메일함을 확인하세요.</p>}
+                <button type="submit" disabled={isSubmitting} className="w-full py-4 bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-black rounded-xl transition-all shadow-lg shadow-indigo-500/20 active:scale-95">
+                    {isSubmitting ? '확인 중...' : method === 'password' ? '로그인' : '로그인 링크 받기'}
+                </button>
             </form>
         </ModalBase>
     );
@@ -402,19 +1027,32 @@ const AuthModal: FC<{ isOpen: boolean; onClose: () => void; onSuccess: () => voi
 const TaskModal: FC<{
     isOpen: boolean;
     onClose: () => void;
-    onSubmit: (data: { name: string; employeeId: string; startDate: string; duration: number; description: string }) => Promise<void>;
+    onSubmit: (data: TaskFormData) => Promise<void>;
     employees: Employee[];
     departments: Department[];
     task?: Task;
     project: Project | null;
-}> = ({ isOpen, onClose, onSubmit, employees, departments, task, project }) => {
+    projects: Project[];
+    dependencies: TaskDependency[];
+    workCalendar: WorkCalendar;
+    readOnly?: boolean;
+    // Department managers may only assign their own people; null means anyone
+    assignableEmployeeIds?: Set<string> | null;
+    // Prefills a new task, as read from the quick entry bar
+    draft?: TaskDraft | null;
+}> = ({ isOpen, onClose, onSubmit, employees: allEmployees, departments: allDepartments, task, project, projects, dependencies, workCalendar, readOnly, assignableEmployeeIds, draft }) => {
+    const employees = useMemo(() => readOnly || !assignableEmployeeIds ? allEmployees : allEmployees.filter(e => assignableEmployeeIds.has(e.id)), [allEmployees, assignableEmployeeIds, readOnly]);
+    const departments = useMemo(() => employees === allEmployees ? allDepartments : allDepartments.filter(d => employees.some(e => e.departmentId === d.id)), [allDepartments, allEmployees, employees]);
     const [name, setName] = useState('');
+    const [kind, setKind] = useState<TaskKind>('task');
     const [employeeId, setEmployeeId] = useState('');
     const [selectedDeptId, setSelectedDeptId] = useState('');
     const [startDate, setStartDate] = useState('');
     const [duration, setDuration] = useState(1);
     const [description, setDescription] = useState('');
+    const [predecessors, setPredecessors] = useState<PredecessorDraft[]>([]);
     const [isSubmitting, setIsSubmitting] = useState(false);
+    const [activeTab, setActiveTab] = useState<'details' | 'history'>('details');
     
     // Track previous open state to only initialize on open
     const prevIsOpenRef = useRef(false);
@@ -422,18 +1060,34 @@ const TaskModal: FC<{
     useEffect(() => {
         // Only run initialization when modal transitions from closed to open
         if (isOpen && !prevIsOpenRef.current) {
+            setActiveTab('details');
             if (task) {
                 setName(task.name);
+                setKind(task.kind || 'task');
                 setEmployeeId(task.employeeId);
                 const assignedEmp = employees.find(e => e.id === task.employeeId);
                 if (assignedEmp) setSelectedDeptId(assignedEmp.departmentId);
                 else if (departments.length > 0) setSelectedDeptId(departments[0].id);
 
                 setStartDate(formatDate(new Date(task.startDate)));
-                setDuration(getDaysBetween(new Date(task.startDate), new Date(task.endDate)));
+                setDuration(Math.max(1, countWorkingDays(new Date(task.startDate), new Date(task.endDate), workCalendar)));
                 setDescription(task.description || '');
+                setPredecessors(dependencies.filter(d => d.successorId === task.id).map(d => ({ id: d.id, predecessorId: d.predecessorId, type: d.type, lagDays: d.lagDays })));
+            } else if (draft) {
+                setName(draft.name);
+                setKind(draft.kind);
+                // An assignee outside the people this user may pick is left for them to choose
+                const draftEmp = employees.find(e => e.id === draft.employeeId);
+                const draftDeptId = draftEmp ? draftEmp.departmentId : departments[0]?.id || '';
+                setSelectedDeptId(draftDeptId);
+                setEmployeeId(draftEmp ? draftEmp.id : '');
+                setStartDate(draft.startDate);
+                setDuration(draft.duration);
+                setDescription(draft.description);
+                setPredecessors([]);
             } else {
                 setName('');
+                setKind('task');
                 // Default selections
                 const defaultDept = departments[0];
                 setSelectedDeptId(defaultDept ? defaultDept.id : '');
@@ -443,10 +1097,11 @@ const TaskModal: FC<{
                 setStartDate(formatDate(new Date()));
                 setDuration(3);
                 setDescription('');
+                setPredecessors([]);
             }
         }
         prevIsOpenRef.current = isOpen;
-    }, [isOpen, task, employees, departments]);
+    }, [isOpen, task, draft, employees, departments, dependencies, workCalendar]);
 
     // Handle department change -> reset employee selection
     const handleDeptChange = (newDeptId: string) => {
@@ -467,7 +1122,8 @@ const TaskModal: FC<{
         }
         setIsSubmitting(true);
         try {
-            await onSubmit({ name, employeeId, startDate, duration, description });
+            // Milestones have no duration: they start and end on the same day
+            await onSubmit({ name, kind, employeeId, startDate, duration: kind === 'milestone' ? 1 : duration, description, predecessors });
         } finally {
             setIsSubmitting(false);
         }
@@ -478,10 +1134,56 @@ const TaskModal: FC<{
         return employees.filter(e => e.departmentId === selectedDeptId);
     }, [employees, selectedDeptId]);
 
+    // Tasks that can precede this one without closing a dependency loop
+    const predecessorCandidates = useMemo(() => {
+        return projects.flatMap(p => p.tasks.map(t => ({ task: t, projectName: p.name })))
+            .filter(({ task: t }) => !task || (t.id !== task.id && !wouldCreateCycle(dependencies, t.id, task.id)));
+    }, [projects, dependencies, task]);
+
+    // Other work the chosen assignee already has in the same dates
+    const bookingConflicts = useMemo(() => {
+        if (kind === 'milestone' || !startDate || !(duration > 0)) return [];
+        const start = nextWorkingDay(new Date(startDate), workCalendar);
+        const end = getWorkingEndDate(start, duration, workCalendar);
+        return getBookingConflicts(projects, employeeId, start, end, workCalendar, task?.id);
+    }, [projects, employeeId, kind, startDate, duration, workCalendar, task]);
+
+    const addPredecessorRow = () => {
+        const used = new Set(predecessors.map(d => d.predecessorId));
+        const candidate = predecessorCandidates.find(c => !used.has(c.task.id));
+        if (!candidate) return;
+        setPredecessors(prev => [...prev, { predecessorId: candidate.task.id, type: 'FS', lagDays: 0 }]);
+    };
+
+    const updatePredecessorRow = (index: number, changes: Partial<PredecessorDraft>) => {
+        setPredecessors(prev => prev.map((d, i) => i === index ? { ...d, ...changes } : d));
+    };
+
+    const auditNames = useMemo(() => buildAuditNames(projects, allDepartments, allEmployees), [projects, allDepartments, allEmployees]);
+
     return (
-        <ModalBase isOpen={isOpen} onClose={onClose} title={task ? '태스크 수정' : '새 태스크 추가'}>
+        <ModalBase isOpen={isOpen} onClose={onClose} title={!task ? '새 태스크 추가' : readOnly ? '태스크 보기' : '태스크 수정'}>
+            {task && (
+                <div className="flex gap-2 mb-4 border-b border-gray-200 dark:border-gray-700 pb-1">
+                    <button type="button" onClick={() => setActiveTab('details')} className={`pb-2 px-4 text-xs font-bold uppercase tracking-widest transition-colors ${activeTab === 'details' ? 'text-indigo-600 dark:text-indigo-400 border-b-2 border-indigo-600 dark:border-indigo-500' : 'text-gray-500 hover:text-gray-900 dark:hover:text-gray-300'}`}>상세</button>
+                    <button type="button" onClick={() => setActiveTab('history')} className={`pb-2 px-4 text-xs font-bold uppercase tracking-widest transition-colors ${activeTab === 'history' ? 'text-amber-600 dark:text-amber-400 border-b-2 border-amber-600 dark:border-amber-500' : 'text-gray-500 hover:text-gray-900 dark:hover:text-gray-300'}`}>변경 기록</button>
+                </div>
+            )}
+            {task && activeTab === 'history' ? (
+                <AuditLogPanel entityId={task.id} names={auditNames} />
+            ) : (
             <form onSubmit={handleFormSubmit} className="space-y-4">
+                <fieldset disabled={readOnly} className="space-y-4 min-w-0">
                 {project && <div className="text-[10px] text-indigo-500 dark:text-indigo-400 font-black uppercase tracking-widest mb-1 px-1">PROJECT: {project.name}</div>}
+                {!task && draft && draft.notes.length > 0 && (
+                    <div className="bg-indigo-50 dark:bg-indigo-500/10 border border-indigo-200 dark:border-indigo-500/30 rounded-xl p-3 space-y-1">
+                        {draft.notes.map(note => <p key={note} className="text-[11px] font-bold text-indigo-700 dark:text-indigo-300">{note}</p>)}
+                    </div>
+                )}
+                <div className="grid grid-cols-2 gap-2 p-1 bg-gray-100 dark:bg-gray-700/50 rounded-xl border border-gray-300 dark:border-gray-600">
+                    <button type="button" onClick={() => setKind('task')} className={`py-2 rounded-lg text-xs font-bold transition-all ${kind === 'task' ? 'bg-indigo-600 text-white shadow' : 'text-gray-500 hover:text-gray-900 dark:hover:text-white'}`}>태스크</button>
+                    <button type="button" onClick={() => setKind('milestone')} className={`py-2 rounded-lg text-xs font-bold transition-all ${kind === 'milestone' ? 'bg-amber-500 text-white shadow' : 'text-gray-500 hover:text-gray-900 dark:hover:text-white'}`}>◆ 마일스톤</button>
+                </div>
                 <div className="space-y-1">
                     <label className="text-xs text-gray-500 font-bold ml-1">태스크 이름</label>
                     <input type="text" value={name} onChange={e => setName(e.target.value)} placeholder="작업 내용을 입력하세요" className="w-full bg-gray-100 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-xl p-3 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" required />
@@ -503,25 +1205,156 @@ const TaskModal: FC<{
                     </div>
                 </div>
 
-                <div className="grid grid-cols-2 gap-4">
+                <div className={`grid ${kind === 'milestone' ? 'grid-cols-1' : 'grid-cols-2'} gap-4`}>
                     <div className="space-y-1">
-                        <label className="text-xs text-gray-500 font-bold ml-1">시작일</label>
+                        <label className="text-xs text-gray-500 font-bold ml-1">{kind === 'milestone' ? '일자' : '시작일'}</label>
                         <input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} className="w-full bg-gray-100 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-xl p-3 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" required style={{ colorScheme: 'dark' }} />
                     </div>
-                    <div className="space-y-1">
-                         <label className="text-xs text-gray-500 font-bold ml-1">기간 (일)</label>
-                         <input type="number" min="1" value={duration} onChange={e => setDuration(parseInt(e.target.value))} className="w-full bg-gray-100 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-xl p-3 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" required />
-                    </div>
+                    {kind !== 'milestone' && (
+                        <div className="space-y-1">
+                             <label className="text-xs text-gray-500 font-bold ml-1">기간 (근무일)</label>
+                             <input type="number" min="1" value={duration} onChange={e => setDuration(parseInt(e.target.value))} className="w-full bg-gray-100 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-xl p-3 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all" required />
+                        </div>
+                    )}
                 </div>
+                {kind !== 'milestone' && startDate && duration > 0 && (
+                    <p className="text-[11px] text-gray-500 dark:text-gray-400 ml-1 -mt-2">종료일: <span className="font-bold text-gray-700 dark:text-gray-200">{formatDate(getWorkingEndDate(new Date(startDate), duration, workCalendar))}</span> (주말·휴일 제외)</p>
+                )}
+                {bookingConflicts.length > 0 && (
+                    <div className="bg-amber-50 dark:bg-amber-500/10 border border-amber-300 dark:border-amber-500/30 rounded-xl p-3 space-y-1.5">
+                        <p className="text-xs font-bold text-amber-700 dark:text-amber-300">⚠ 담당자가 같은 기간에 이미 배정되어 있습니다.</p>
+                        {bookingConflicts.map(c => (
+                            <p key={c.task.id} className="text-[11px] text-amber-700/80 dark:text-amber-200/80 truncate">{c.projectName} / {c.task.name} · {formatDate(new Date(c.task.startDate))} ~ {formatDate(new Date(c.task.endDate))} ({c.overlapDays}일 겹침)</p>
+                        ))}
+                    </div>
+                )}
                 
+                <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                        <label className="text-xs text-gray-500 font-bold ml-1">선행 작업</label>
+                        <button type="button" onClick={addPredecessorRow} disabled={predecessorCandidates.length === predecessors.length} className="flex items-center gap-1 text-[11px] font-bold text-indigo-500 dark:text-indigo-400 hover:text-indigo-600 dark:hover:text-indigo-300 disabled:opacity-40"><PlusIcon className="h-3.5 w-3.5" />추가</button>
+                    </div>
+                    {predecessors.length === 0 && <p className="text-[11px] text-gray-400 dark:text-gray-500 ml-1">연결된 선행 작업이 없습니다.</p>}
+                    {predecessors.map((dep, index) => (
+                        <div key={dep.id || `new-${index}`} className="flex items-center gap-2">
+                            <select value={dep.predecessorId} onChange={e => updatePredecessorRow(index, { predecessorId: e.target.value })} disabled={!!dep.id} className="flex-grow min-w-0 bg-gray-100 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-lg p-2 text-gray-900 dark:text-white text-xs focus:ring-1 focus:ring-indigo-500 outline-none appearance-none disabled:opacity-70">
+                                {predecessorCandidates.filter(c => c.task.id === dep.predecessorId || !predecessors.some(d => d.predecessorId === c.task.id)).map(c => <option key={c.task.id} value={c.task.id}>{c.projectName} / {c.task.name}</option>)}
+                            </select>
+                            <select value={dep.type} onChange={e => updatePredecessorRow(index, { type: e.target.value as DependencyType })} disabled={!!dep.id} className="w-28 bg-gray-100 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-lg p-2 text-gray-900 dark:text-white text-xs focus:ring-1 focus:ring-indigo-500 outline-none appearance-none disabled:opacity-70">
+                                {(Object.keys(DEPENDENCY_TYPE_LABELS) as DependencyType[]).map(t => <option key={t} value={t}>{DEPENDENCY_TYPE_LABELS[t]}</option>)}
+                            </select>
+                            <input type="number" value={dep.lagDays} onChange={e => updatePredecessorRow(index, { lagDays: parseInt(e.target.value) || 0 })} disabled={!!dep.id} title="지연 일수 (Lag)" className="w-14 bg-gray-100 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-lg p-2 text-gray-900 dark:text-white text-xs focus:ring-1 focus:ring-indigo-500 outline-none disabled:opacity-70" />
+                            <button type="button" onClick={() => setPredecessors(prev => prev.filter((_, i) => i !== index))} className="text-gray-500 hover:text-red-400 p-1"><XMarkIcon className="h-4 w-4"/></button>
+                        </div>
+                    ))}
+                </div>
+
                 <div className="space-y-1">
                     <label className="text-xs text-gray-500 font-bold ml-1">상세 설명</label>
                     <textarea value={description} onChange={e => setDescription(e.target.value)} rows={4} className="w-full bg-gray-100 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-xl p-3 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none resize-none transition-all" placeholder="구체적인 내용을 입력하세요" />
                 </div>
-                <button type="submit" disabled={isSubmitting} className="w-full py-4 bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-black rounded-xl transition-all shadow-lg shadow-indigo-500/20 mt-4 active:scale-95">
-                    {isSubmitting ? '저장 중...' : '저장 완료'}
-                </button>
+                </fieldset>
+                {readOnly ? (
+                    <p className="text-xs text-center text-gray-500 dark:text-gray-400 pt-2">이 태스크를 수정할 권한이 없습니다.</p>
+                ) : (
+                    <button type="submit" disabled={isSubmitting} className="w-full py-4 bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-black rounded-xl transition-all shadow-lg shadow-indigo-500/20 mt-4 active:scale-95">
+                        {isSubmitting ? '저장 중...' : '저장 완료'}
+                    </button>
+                )}
             </form>
+            )}
+        </ModalBase>
+    );
+};
+
+// Quick entry: one sentence in, a filled-in TaskModal out. A project the sentence does not name (or names
+// ambiguously) is picked here first, since TaskModal cannot change it.
+const TaskCommandModal: FC<{
+    isOpen: boolean;
+    onClose: () => void;
+    projects: Project[];
+    employees: Employee[];
+    workCalendar: WorkCalendar;
+    onDraft: (draft: TaskDraft) => void;
+}> = ({ isOpen, onClose, projects, employees, workCalendar, onDraft }) => {
+    const [text, setText] = useState('');
+    const [isParsing, setIsParsing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    // A draft still waiting for its project
+    const [pending, setPending] = useState<TaskDraft | null>(null);
+    const [projectId, setProjectId] = useState('');
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setText('');
+        setError(null);
+        setPending(null);
+        inputRef.current?.focus();
+    }, [isOpen]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!text.trim()) return;
+        setIsParsing(true);
+        setError(null);
+        try {
+            const draft = await draftTaskFromText(text, { projects, employees, calendar: workCalendar });
+            if (draft.projectId) {
+                onDraft(draft);
+            } else {
+                setPending(draft);
+                setProjectId(projects[0]?.id || '');
+            }
+        } catch (err) {
+            console.error(err);
+            setError('문장을 해석하지 못했습니다.');
+        } finally {
+            setIsParsing(false);
+        }
+    };
+
+    return (
+        <ModalBase isOpen={isOpen} onClose={onClose} title="빠른 태스크 입력">
+            {pending ? (
+                <div className="space-y-4">
+                    <div className="bg-gray-50 dark:bg-gray-900/50 border border-gray-200 dark:border-gray-700 rounded-xl p-3">
+                        <p className="text-sm font-bold text-gray-900 dark:text-white truncate">{pending.name || '(이름 없음)'}</p>
+                        <p className="text-[11px] text-gray-500 mt-0.5">{pending.startDate} · {pending.kind === 'milestone' ? '마일스톤' : `${pending.duration}일`}</p>
+                    </div>
+                    {pending.projectNote && <p className="text-xs font-bold text-amber-600 dark:text-amber-400">{pending.projectNote}</p>}
+                    {projects.length > 0 ? (
+                        <div className="space-y-1">
+                            <label className="text-xs text-gray-500 font-bold ml-1">프로젝트</label>
+                            <select value={projectId} onChange={e => setProjectId(e.target.value)} className="w-full bg-gray-100 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-xl p-3 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none appearance-none">
+                                {projects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                            </select>
+                        </div>
+                    ) : (
+                        <p className="text-xs text-gray-500">프로젝트를 먼저 만들어 주세요.</p>
+                    )}
+                    <div className="flex gap-2">
+                        <button type="button" onClick={() => setPending(null)} className="flex-1 py-3 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 font-bold rounded-xl transition-all">다시 입력</button>
+                        <button type="button" disabled={!projectId} onClick={() => onDraft({ ...pending, projectId, projectNote: null })} className="flex-1 py-3 bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-black rounded-xl transition-all shadow-lg shadow-indigo-500/20 active:scale-95">계속</button>
+                    </div>
+                </div>
+            ) : (
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <input
+                        ref={inputRef}
+                        type="text"
+                        value={text}
+                        onChange={e => { setText(e.target.value); setError(null); }}
+                        placeholder="예: 김대리 다음주 월요일부터 5일간 도면 검토, 설계 프로젝트"
+                        className="w-full bg-gray-50 dark:bg-gray-900/50 border border-gray-300 dark:border-gray-600 focus:ring-indigo-500 rounded-xl p-4 text-gray-900 dark:text-white text-sm focus:ring-2 outline-none transition-all"
+                    />
+                    <p className="text-[11px] text-gray-500 px-1">담당자, 프로젝트, 시작일, 기간을 한 문장으로 적으면 태스크 입력 창이 채워져 열립니다. {isGeminiConfigured() ? 'Gemini가 해석합니다.' : '기본 규칙으로 해석합니다.'}</p>
+                    {error && <p className="text-red-500 dark:text-red-400 text-xs font-bold text-center">{error}</p>}
+                    <button type="submit" disabled={isParsing || !text.trim()} className="w-full py-4 bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-black rounded-xl transition-all shadow-lg shadow-indigo-500/20 active:scale-95">
+                        {isParsing ? '해석 중...' : '해석하기'}
+                    </button>
+                </form>
+            )}
         </ModalBase>
     );
 };
@@ -531,14 +1364,23 @@ const ProjectModal: FC<{
     onClose: () => void;
     onSubmit: (name: string) => Promise<void>;
     project: Project | null;
-}> = ({ isOpen, onClose, onSubmit, project }) => {
+    baselines: Baseline[];
+    activeBaselineId?: string;
+    onSaveBaseline: (projectId: string, name: string) => Promise<void>;
+    onDeleteBaseline: (baseline: Baseline) => Promise<void>;
+    onSelectBaseline: (projectId: string, baselineId: string) => void;
+    // Offered for a new project when the user may also add its tasks
+    onGeneratePlan?: () => void;
+}> = ({ isOpen, onClose, onSubmit, project, baselines, activeBaselineId, onSaveBaseline, onDeleteBaseline, onSelectBaseline, onGeneratePlan }) => {
     const [name, setName] = useState('');
+    const [baselineName, setBaselineName] = useState('');
     const [isSubmitting, setIsSubmitting] = useState(false);
     const prevIsOpenRef = useRef(false);
 
     useEffect(() => { 
         if (isOpen && !prevIsOpenRef.current) {
             setName(project?.name || ''); 
+            setBaselineName('');
         }
         prevIsOpenRef.current = isOpen;
     }, [isOpen, project]);
@@ -563,8 +1405,33 @@ const ProjectModal: FC<{
                 <button type="submit" disabled={isSubmitting} className="w-full py-4 bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-black rounded-xl transition-all shadow-lg shadow-indigo-500/20 active:scale-95">
                     {isSubmitting ? '처리 중...' : '프로젝트 생성'}
                 </button>
+                {!project && onGeneratePlan && (
+                    <button type="button" onClick={onGeneratePlan} className="w-full flex items-center justify-center gap-2 py-3 text-sm font-bold text-indigo-600 dark:text-indigo-400 hover:bg-indigo-500/10 rounded-xl transition-all">
+                        <SparklesIcon className="h-4 w-4" />개요로 계획 생성
+                    </button>
+                )}
             </form>
-        </ModalBase>
+            {project && (
+                <div className="mt-6 pt-5 border-t border-gray-200 dark:border-gray-700 space-y-3">
+                    <label className="text-xs text-gray-500 font-bold ml-1">베이스라인</label>
+                    <form onSubmit={async e => { e.preventDefault(); if (!baselineName.trim()) return; await onSaveBaseline(project.id, baselineName.trim()); setBaselineName(''); }} className="flex gap-2">
+                        <input type="text" value={baselineName} onChange={e => setBaselineName(e.target.value)} placeholder="예: 킥오프 계획" className="flex-grow min-w-0 bg-gray-100 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-lg p-2 text-gray-900 dark:text-white text-xs focus:ring-1 focus:ring-indigo-500 outline-none" />
+                        <button type="submit" className="px-3 bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold rounded-lg whitespace-nowrap">현재 일정 저장</button>
+                    </form>
+                    {baselines.length === 0 && <p className="text-[11px] text-gray-400 dark:text-gray-500 ml-1">저장된 베이스라인이 없습니다.</p>}
+                    <div className="max-h-40 overflow-y-auto space-y-1">
+                        {baselines.map(b => (
+                            <div key={b.id} className="flex items-center gap-2 bg-gray-100 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600 rounded-lg p-2 text-xs">
+                                <input type="radio" name="active-baseline" checked={b.id === activeBaselineId} onChange={() => onSelectBaseline(project.id, b.id)} className="accent-indigo-500" title="간트에 표시" />
+                                <span className="font-bold text-gray-700 dark:text-gray-200 truncate flex-grow">{b.name}</span>
+                                <span className="text-[10px] text-gray-400 shrink-0">{formatDate(new Date(b.createdAt))}</span>
+                                <button type="button" onClick={() => onDeleteBaseline(b)} className="text-gray-500 hover:text-red-400 p-0.5"><XMarkIcon className="h-3.5 w-3.5"/></button>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </ModalBase>
     );
 };
 
@@ -603,6 +1470,1067 @@ const ConfirmationModal: FC<{
     );
 };
 
+const CalendarFeedModal: FC<{
+    isOpen: boolean;
+    onClose: () => void;
+    initialScope: CalendarScope;
+    projects: Project[];
+    departments: Department[];
+    employees: Employee[];
+    hasFeeds: boolean; // subscription URLs need Supabase or the self-hosted server
+    canPublish: boolean;
+}> = ({ isOpen, onClose, initialScope, projects, departments, employees, hasFeeds, canPublish }) => {
+    const [scope, setScope] = useState<CalendarScope>(initialScope);
+    const [feeds, setFeeds] = useState<CalendarFeed[]>([]);
+    const [isPublishing, setIsPublishing] = useState(false);
+    const [copied, setCopied] = useState(false);
+    const prevIsOpenRef = useRef(false);
+
+    useEffect(() => {
+        if (isOpen && !prevIsOpenRef.current) {
+            setScope(initialScope);
+            setCopied(false);
+            if (hasFeeds) getCalendarFeeds().then(setFeeds).catch(e => { console.error(e); setFeeds([]); });
+        }
+        prevIsOpenRef.current = isOpen;
+    }, [isOpen, initialScope, hasFeeds]);
+
+    const scopeKey = getScopeKey(scope);
+    const eventCount = useMemo(() => getScopeTasks(scope, projects, employees).length, [scope, projects, employees]);
+    const feed = feeds.find(f => f.scopeKey === scopeKey);
+    const feedUrl = hasFeeds && feed ? getCalendarFeedUrl(feed) : null;
+    const scopeOptions: { id: string; name: string }[] = scope.type === 'department' ? departments : scope.type === 'employee' ? employees : scope.type === 'project' ? projects : [];
+
+    const handleTypeChange = (type: CalendarScopeType) => {
+        const options: { id: string }[] = type === 'department' ? departments : type === 'employee' ? employees : type === 'project' ? projects : [];
+        setScope(type === 'all' ? { type } : { type, id: options[0]?.id });
+        setCopied(false);
+    };
+
+    const handleDownload = () => {
+        const ics = buildICalendar(scope, projects, departments, employees);
+        downloadBlob(new Blob([ics], { type: 'text/calendar;charset=utf-8' }), `${getScopeName(scope, projects, departments, employees)}.ics`);
+    };
+
+    const handlePublish = async () => {
+        setIsPublishing(true);
+        try {
+            const created = await createCalendarFeed(scopeKey);
+            setFeeds(prev => [...prev, created]);
+        } catch (e: any) {
+            console.error(e);
+            alert(e?.message === 'CALENDAR_FEEDS_MISSING'
+                ? '캘린더 구독 테이블이 없습니다. 설정 메뉴의 "SQL 스크립트 복사"를 Supabase SQL Editor에서 다시 실행해주세요.'
+                : '구독 URL 만들기 실패');
+        } finally {
+            setIsPublishing(false);
+        }
+    };
+
+    // The old URL stops working at once; a new one can be made for the same scope
+    const handleRevoke = async () => {
+        if (!feed || !confirm('이 구독 URL을 폐기할까요?\n이 URL로 구독한 캘린더는 더 이상 갱신되지 않습니다.')) return;
+        try {
+            await revokeCalendarFeed(feed.token);
+            setFeeds(prev => prev.filter(f => f.token !== feed.token));
+            setCopied(false);
+        } catch (e) {
+            console.error(e);
+            alert('구독 URL 폐기 실패');
+        }
+    };
+
+    const handleCopy = async () => {
+        if (!feedUrl) return;
+        await navigator.clipboard.writeText(feedUrl);
+        setCopied(true);
+    };
+
+    return (
+        <ModalBase isOpen={isOpen} onClose={onClose} title="캘린더 내보내기 (.ics)">
+            <div className="space-y-5">
+                <div className="space-y-2">
+                    <div className="grid grid-cols-4 gap-1 bg-gray-100 dark:bg-gray-700/50 p-1 rounded-xl">
+                        {(Object.keys(CALENDAR_SCOPE_LABELS) as CalendarScopeType[]).map(type => (
+                            <button key={type} type="button" onClick={() => handleTypeChange(type)} className={`py-2 text-xs font-bold rounded-lg transition-all ${scope.type === type ? 'bg-indigo-600 text-white shadow' : 'text-gray-500 hover:text-gray-900 dark:hover:text-white'}`}>{CALENDAR_SCOPE_LABELS[type]}</button>
+                        ))}
+                    </div>
+                    {scope.type !== 'all' && (
+                        <select value={scope.id || ''} onChange={e => { setScope({ ...scope, id: e.target.value }); setCopied(false); }} className="w-full bg-gray-100 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-xl p-3 text-sm font-bold text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none">
+                            {scopeOptions.map(o => <option key={o.id} value={o.id}>{o.name}</option>)}
+                        </select>
+                    )}
+                    <p className="text-[11px] text-gray-400 dark:text-gray-500 ml-1">종일 일정 {eventCount}개. 설명에 프로젝트, 담당자, 진행률이 들어갑니다.</p>
+                </div>
+                <button onClick={handleDownload} disabled={scope.type !== 'all' && !scope.id} className="w-full flex items-center justify-center gap-2 py-4 bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-black rounded-xl transition-all shadow-lg shadow-indigo-500/20 active:scale-95">
+                    <ArrowDownTrayIcon className="h-5 w-5" />.ics 파일 받기
+                </button>
+                {hasFeeds && (
+                    <div className="pt-5 border-t border-gray-200 dark:border-gray-700 space-y-2">
+                        <label className="text-xs text-gray-500 font-bold ml-1">구독 URL</label>
+                        {feedUrl ? (
+                            <>
+                                <div className="flex gap-2">
+                                    <input type="text" readOnly value={feedUrl} onFocus={e => e.target.select()} className="flex-grow min-w-0 bg-gray-100 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-lg p-2 text-gray-900 dark:text-white text-xs outline-none" />
+                                    <button type="button" onClick={handleCopy} className="px-3 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-white text-xs font-bold rounded-lg whitespace-nowrap">{copied ? '복사됨' : '복사'}</button>
+                                </div>
+                                <a href={feedUrl.replace(/^https?:/, 'webcal:')} className="inline-block text-xs font-bold text-indigo-600 dark:text-indigo-400 hover:underline ml-1">캘린더 앱에서 구독하기</a>
+                                <p className="text-[11px] text-gray-400 dark:text-gray-500 ml-1">캘린더 앱이 새로고침할 때마다 최신 일정으로 만들어집니다. URL을 아는 사람은 로그인 없이 이 일정을 볼 수 있으니, 새어 나갔다면 폐기하세요.</p>
+                                {canPublish && <button type="button" onClick={handleRevoke} className="text-xs font-bold text-rose-600 dark:text-rose-400 hover:underline ml-1">URL 폐기</button>}
+                            </>
+                        ) : canPublish ? (
+                            <button type="button" onClick={handlePublish} disabled={isPublishing || (scope.type !== 'all' && !scope.id)} className="w-full py-3 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 disabled:opacity-50 text-gray-700 dark:text-white text-sm font-bold rounded-xl transition-all">
+                                {isPublishing ? '만드는 중...' : '구독 URL 만들기'}
+                            </button>
+                        ) : (
+                            <p className="text-[11px] text-gray-400 dark:text-gray-500 ml-1">이 범위의 구독 URL이 아직 없습니다. 편집자나 관리자가 만들 수 있습니다.</p>
+                        )}
+                    </div>
+                )}
+            </div>
+        </ModalBase>
+    );
+};
+
+type ReportFormat = 'markdown' | 'html';
+
+// The Friday write-up for the current filter: pick a week, optionally add a summary, then copy or download it
+const ReportModal: FC<{
+    isOpen: boolean;
+    onClose: () => void;
+    initialScope: CalendarScope;
+    projects: Project[];
+    departments: Department[];
+    employees: Employee[];
+    workCalendar: WorkCalendar;
+}> = ({ isOpen, onClose, initialScope, projects, departments, employees, workCalendar }) => {
+    const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()));
+    const [format, setFormat] = useState<ReportFormat>('markdown');
+    const [narrative, setNarrative] = useState('');
+    const [notes, setNotes] = useState<string[]>([]);
+    const [isWriting, setIsWriting] = useState(false);
+    const [copied, setCopied] = useState(false);
+    const prevIsOpenRef = useRef(false);
+
+    useEffect(() => {
+        if (isOpen && !prevIsOpenRef.current) {
+            setWeekStart(getWeekStart(new Date()));
+            setNarrative('');
+            setNotes([]);
+            setCopied(false);
+        }
+        prevIsOpenRef.current = isOpen;
+    }, [isOpen]);
+
+    const report = useMemo(() => buildWeeklyReport(initialScope, projects, departments, employees, weekStart, workCalendar), [initialScope, projects, departments, employees, weekStart, workCalendar]);
+    const counts = countReportItems(report);
+    const output = format === 'markdown' ? reportToMarkdown(report, narrative) : reportToHtml(report, narrative);
+
+    // A summary is about one week; moving to another drops it
+    const changeWeek = (next: Date) => {
+        setWeekStart(getWeekStart(next));
+        setNarrative('');
+        setNotes([]);
+        setCopied(false);
+    };
+
+    const handleWriteNarrative = async () => {
+        setIsWriting(true);
+        try {
+            const { text, notes } = await writeReportNarrative(report);
+            setNarrative(text);
+            setNotes(notes);
+        } catch (e) {
+            console.error(e);
+            alert('요약을 만들지 못했습니다.');
+        } finally {
+            setIsWriting(false);
+        }
+    };
+
+    const handleCopy = async () => {
+        await navigator.clipboard.writeText(output);
+        setCopied(true);
+    };
+
+    const handleDownload = () => {
+        const fileName = `주간보고_${report.scopeName}_${formatDate(report.weekStart)}`;
+        if (format === 'markdown') downloadBlob(new Blob([output], { type: 'text/markdown;charset=utf-8' }), `${fileName}.md`);
+        else downloadBlob(new Blob([output], { type: 'text/html;charset=utf-8' }), `${fileName}.html`);
+    };
+
+    return (
+        <ModalBase isOpen={isOpen} onClose={onClose} title="주간 업무 보고서" wide>
+            <div className="space-y-4">
+                <div className="flex flex-wrap items-center gap-2">
+                    <div className="flex items-center bg-gray-100 dark:bg-gray-700/50 rounded-xl border border-gray-300 dark:border-gray-600">
+                        <button type="button" onClick={() => changeWeek(addDays(weekStart, -7))} className="p-2.5 text-gray-500 hover:text-gray-900 dark:hover:text-white"><ChevronLeftIcon className="h-4 w-4" /></button>
+                        <input type="date" value={formatDate(weekStart)} onChange={e => e.target.value && changeWeek(new Date(e.target.value))} className="bg-transparent py-2 text-sm font-bold text-gray-900 dark:text-white outline-none" />
+                        <button type="button" onClick={() => changeWeek(addDays(weekStart, 7))} className="p-2.5 text-gray-500 hover:text-gray-900 dark:hover:text-white"><ChevronRightIcon className="h-4 w-4" /></button>
+                    </div>
+                    <span className="text-xs font-bold text-gray-500">{formatDate(report.weekStart)} ~ {formatDate(report.weekEnd)} · {report.scopeName}</span>
+                </div>
+                <p className="text-xs font-bold text-gray-600 dark:text-gray-300">
+                    완료 <span className="text-emerald-600 dark:text-emerald-400">{counts.completed}</span> · 지연 <span className="text-rose-500">{counts.behind}</span> · 다음 주 시작 <span className="text-indigo-600 dark:text-indigo-400">{counts.upcoming}</span>
+                    <span className="font-normal text-gray-400"> (기준일 {formatDate(report.asOf)}, 진행률이 지난 근무일 비율보다 낮으면 지연)</span>
+                </p>
+                <div className="space-y-1">
+                    <div className="flex justify-between items-center">
+                        <label className="text-xs text-gray-500 font-bold ml-1">요약</label>
+                        <button type="button" onClick={handleWriteNarrative} disabled={isWriting} className="flex items-center gap-1 text-xs font-bold text-indigo-600 dark:text-indigo-400 hover:text-indigo-500 disabled:opacity-50">
+                            <SparklesIcon className="h-3.5 w-3.5" />{isWriting ? '작성 중...' : isGeminiConfigured() ? 'AI로 요약 쓰기' : '요약 채우기'}
+                        </button>
+                    </div>
+                    <textarea value={narrative} onChange={e => setNarrative(e.target.value)} rows={3} placeholder="비워 두면 요약 없이 목록만 나갑니다" className="w-full bg-gray-100 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-xl p-3 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none resize-y" />
+                    {notes.map(note => <p key={note} className="text-[11px] font-bold text-amber-600 dark:text-amber-400 ml-1">{note}</p>)}
+                </div>
+                <div className="grid grid-cols-2 gap-1 bg-gray-100 dark:bg-gray-700/50 p-1 rounded-xl">
+                    {(['markdown', 'html'] as ReportFormat[]).map(f => (
+                        <button key={f} type="button" onClick={() => { setFormat(f); setCopied(false); }} className={`py-2 text-xs font-bold rounded-lg transition-all ${format === f ? 'bg-indigo-600 text-white shadow' : 'text-gray-500 hover:text-gray-900 dark:hover:text-white'}`}>{f === 'markdown' ? 'Markdown' : 'HTML'}</button>
+                    ))}
+                </div>
+                {format === 'markdown' ? (
+                    <textarea readOnly value={output} rows={14} className="w-full bg-gray-50 dark:bg-gray-900/50 border border-gray-200 dark:border-gray-700 rounded-xl p-3 font-mono text-[11px] text-gray-800 dark:text-gray-200 outline-none resize-y" />
+                ) : (
+                    <iframe title="보고서 미리보기" srcDoc={output} sandbox="" className="w-full h-80 bg-white border border-gray-200 dark:border-gray-700 rounded-xl" />
+                )}
+                <div className="flex gap-2">
+                    <button type="button" onClick={handleCopy} className="flex-1 py-4 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 font-bold rounded-xl transition-all">{copied ? '복사됨' : '복사'}</button>
+                    <button type="button" onClick={handleDownload} className="flex-[2] flex items-center justify-center gap-2 py-4 bg-indigo-600 hover:bg-indigo-500 text-white font-black rounded-xl transition-all shadow-lg shadow-indigo-500/20 active:scale-95">
+                        <ArrowDownTrayIcon className="h-5 w-5" />{format === 'markdown' ? '.md 파일 받기' : '.html 파일 받기'}
+                    </button>
+                </div>
+            </div>
+        </ModalBase>
+    );
+};
+
+const ChartExportModal: FC<{
+    isOpen: boolean;
+    onClose: () => void;
+    projects: Project[];
+    employees: Employee[];
+    workCalendar: WorkCalendar;
+    filterLabel: string;
+}> = ({ isOpen, onClose, projects, employees, workCalendar, filterLabel }) => {
+    const [title, setTitle] = useState('');
+    const [range, setRange] = useState({ start: '', end: '' });
+    const [paper, setPaper] = useState<PaperSize>('A4');
+    const [busy, setBusy] = useState<'pdf' | 'png' | 'print' | null>(null);
+    const prevIsOpenRef = useRef(false);
+
+    useEffect(() => {
+        if (isOpen && !prevIsOpenRef.current) {
+            // Defaults to the whole filtered chart
+            const tasks = projects.flatMap(p => p.tasks);
+            const today = new Date();
+            const start = tasks.length > 0 ? new Date(Math.min(...tasks.map(t => new Date(t.startDate).getTime()))) : today;
+            const end = tasks.length > 0 ? new Date(Math.max(...tasks.map(t => new Date(t.endDate).getTime()))) : addDays(today, 30);
+            setTitle('다현산업 일정표');
+            setRange({ start: formatDate(start), end: formatDate(end) });
+        }
+        prevIsOpenRef.current = isOpen;
+    }, [isOpen, projects]);
+
+    const startDate = range.start ? new Date(`${range.start}T00:00:00`) : null;
+    const endDate = range.end ? new Date(`${range.end}T00:00:00`) : null;
+    const isRangeValid = !!startDate && !!endDate && endDate.getTime() >= startDate.getTime();
+    const pageCount = useMemo(() => startDate && endDate && isRangeValid ? paginateRows(buildPrintRows(projects, startDate, endDate), getPrintBodyHeight(paper)).length : 0,
+        [projects, range.start, range.end, paper]);
+
+    const runExport = async (kind: 'pdf' | 'png' | 'print') => {
+        if (!isRangeValid) return;
+        const options: ChartExportOptions = { title: title.trim() || '간트 차트', filterLabel, startDate: startDate!, endDate: endDate!, paper, projects, employees, workCalendar };
+        const fileName = `간트차트_${range.start}_${range.end}`;
+        setBusy(kind);
+        try {
+            if (kind === 'pdf') await exportChartPdf(options, fileName);
+            else if (kind === 'png') await exportChartPng(options, fileName);
+            else await printChart(options);
+        } catch (e: any) {
+            console.error(e);
+            alert(e?.message === 'POPUP_BLOCKED' ? '팝업이 차단되었습니다. 이 사이트의 팝업을 허용한 뒤 다시 시도해주세요.' : '내보내기 실패');
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    return (
+        <ModalBase isOpen={isOpen} onClose={onClose} title="차트 인쇄 / 내보내기">
+            <div className="space-y-5">
+                <div className="space-y-1">
+                    <label className="text-xs text-gray-500 font-bold ml-1">제목</label>
+                    <input type="text" value={title} onChange={e => setTitle(e.target.value)} className="w-full bg-gray-100 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-xl p-3 text-sm font-bold text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none" />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                        <label className="text-xs text-gray-500 font-bold ml-1">시작일</label>
+                        <input type="date" value={range.start} onChange={e => setRange({ ...range, start: e.target.value })} className="w-full bg-gray-100 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-xl p-3 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none" />
+                    </div>
+                    <div className="space-y-1">
+                        <label className="text-xs text-gray-500 font-bold ml-1">종료일</label>
+                        <input type="date" value={range.end} onChange={e => setRange({ ...range, end: e.target.value })} className="w-full bg-gray-100 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-xl p-3 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none" />
+                    </div>
+                </div>
+                <div className="space-y-1">
+                    <label className="text-xs text-gray-500 font-bold ml-1">용지 (가로)</label>
+                    <div className="grid grid-cols-2 gap-1 bg-gray-100 dark:bg-gray-700/50 p-1 rounded-xl">
+                        {(Object.keys(PAPER_SIZES) as PaperSize[]).map(size => (
+                            <button key={size} type="button" onClick={() => setPaper(size)} className={`py-2 text-xs font-bold rounded-lg transition-all ${paper === size ? 'bg-indigo-600 text-white shadow' : 'text-gray-500 hover:text-gray-900 dark:hover:text-white'}`}>{size}</button>
+                        ))}
+                    </div>
+                </div>
+                <p className={`text-[11px] ml-1 ${isRangeValid ? 'text-gray-400 dark:text-gray-500' : 'text-rose-500 font-bold'}`}>
+                    {isRangeValid
+                        ? `${filterLabel} · ${pageCount}쪽. 머리글과 범례는 쪽마다 반복되며, 다크 모드에서도 밝은 테마로 출력됩니다. PNG는 한 장의 긴 이미지로 저장됩니다.`
+                        : '종료일은 시작일과 같거나 뒤여야 합니다.'}
+                </p>
+                <div className="grid grid-cols-3 gap-3">
+                    <button onClick={() => runExport('pdf')} disabled={!isRangeValid || !!busy} className="py-4 bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-black rounded-xl transition-all shadow-lg shadow-indigo-500/20 active:scale-95">{busy === 'pdf' ? '만드는 중...' : 'PDF'}</button>
+                    <button onClick={() => runExport('png')} disabled={!isRangeValid || !!busy} className="py-4 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 disabled:opacity-50 text-gray-700 dark:text-white font-bold rounded-xl transition-all active:scale-95">{busy === 'png' ? '만드는 중...' : 'PNG'}</button>
+                    <button onClick={() => runExport('print')} disabled={!isRangeValid || !!busy} className="flex items-center justify-center gap-2 py-4 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 disabled:opacity-50 text-gray-700 dark:text-white font-bold rounded-xl transition-all active:scale-95"><PrinterIcon className="h-5 w-5" />인쇄</button>
+                </div>
+            </div>
+        </ModalBase>
+    );
+};
+
+const SpreadsheetModal: FC<{
+    isOpen: boolean;
+    onClose: () => void;
+    projects: Project[];
+    isFiltered: boolean;
+    employees: Employee[];
+    departments: Department[];
+    workCalendar: WorkCalendar;
+    canImport: boolean;
+    onImport: (rows: ImportRow[]) => Promise<void>;
+}> = ({ isOpen, onClose, projects, isFiltered, employees, departments, workCalendar, canImport, onImport }) => {
+    const [activeTab, setActiveTab] = useState<'export' | 'import'>('export');
+    const [fileName, setFileName] = useState('');
+    const [sheet, setSheet] = useState<string[][]>([]);
+    const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const prevIsOpenRef = useRef(false);
+
+    useEffect(() => {
+        if (isOpen && !prevIsOpenRef.current) {
+            setActiveTab('export');
+            setFileName('');
+            setSheet([]);
+            setMapping(null);
+        }
+        prevIsOpenRef.current = isOpen;
+    }, [isOpen]);
+
+    const taskCount = projects.reduce((sum, p) => sum + p.tasks.length, 0);
+    const exportFileName = `일정_${formatDate(new Date())}`;
+    const buildRows = () => buildExportRows(projects, employees, departments, workCalendar);
+
+    const missingFields = mapping ? getMissingFields(mapping) : [];
+    const checkedRows = useMemo(() => mapping && getMissingFields(mapping).length === 0 ? validateImportRows(sheet.slice(1), mapping, employees, departments, workCalendar) : [],
+        [sheet, mapping, employees, departments, workCalendar]);
+    const validRows = checkedRows.filter(r => r.errors.length === 0);
+    const employeeNames = useMemo(() => new Map(employees.map(e => [e.id, e.name])), [employees]);
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const rows = await readSpreadsheetFile(file);
+            if (rows.length < 2) {
+                alert('가져올 행이 없습니다. 첫 행은 열 제목이어야 합니다.');
+                return;
+            }
+            setFileName(file.name);
+            setSheet(rows);
+            setMapping(guessColumnMapping(rows[0]));
+        } catch (err) {
+            console.error(err);
+            alert('파일을 읽을 수 없습니다. CSV 또는 Excel(.xlsx) 파일인지 확인해주세요.');
+        }
+    };
+
+    const handleImport = async () => {
+        setIsSubmitting(true);
+        try {
+            await onImport(validRows);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <ModalBase isOpen={isOpen} onClose={onClose} title="가져오기 / 내보내기" wide>
+            <div className="flex gap-2 mb-4 border-b border-gray-200 dark:border-gray-700 pb-1">
+                <button type="button" onClick={() => setActiveTab('export')} className={`pb-2 px-4 text-xs font-bold uppercase tracking-widest transition-colors ${activeTab === 'export' ? 'text-indigo-600 dark:text-indigo-400 border-b-2 border-indigo-600 dark:border-indigo-500' : 'text-gray-500 hover:text-gray-900 dark:hover:text-gray-300'}`}>내보내기</button>
+                {canImport && <button type="button" onClick={() => setActiveTab('import')} className={`pb-2 px-4 text-xs font-bold uppercase tracking-widest transition-colors ${activeTab === 'import' ? 'text-emerald-600 dark:text-emerald-400 border-b-2 border-emerald-600 dark:border-emerald-500' : 'text-gray-500 hover:text-gray-900 dark:hover:text-gray-300'}`}>가져오기</button>}
+            </div>
+            {activeTab === 'export' ? (
+                <div className="space-y-4">
+                    <p className="text-xs text-gray-500 dark:text-gray-400 leading-relaxed">
+                        {isFiltered ? '현재 필터에 보이는' : '모든'} 프로젝트 {projects.length}개, 태스크 {taskCount}개를 태스크당 한 행으로 내보냅니다.
+                        기간은 근무 달력 기준 근무일 수입니다.
+                    </p>
+                    <div className="grid grid-cols-2 gap-3">
+                        <button onClick={() => exportCsv(buildRows(), exportFileName)} className="flex items-center justify-center gap-2 py-4 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-white font-bold rounded-xl transition-all active:scale-95">
+                            <ArrowDownTrayIcon className="h-5 w-5" />CSV
+                        </button>
+                        <button onClick={() => exportXlsx(buildRows(), exportFileName)} className="flex items-center justify-center gap-2 py-4 bg-emerald-600 hover:bg-emerald-500 text-white font-black rounded-xl transition-all shadow-lg shadow-emerald-500/20 active:scale-95">
+                            <ArrowDownTrayIcon className="h-5 w-5" />Excel (.xlsx)
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <div className="space-y-4">
+                    <label className="flex items-center justify-center gap-2 py-4 border-2 border-dashed border-gray-300 dark:border-gray-600 hover:border-emerald-500 rounded-xl text-sm font-bold text-gray-500 dark:text-gray-400 hover:text-emerald-600 dark:hover:text-emerald-400 cursor-pointer transition-colors">
+                        <ArrowUpTrayIcon className="h-5 w-5" />
+                        {fileName || 'CSV 또는 Excel 파일 선택'}
+                        <input type="file" accept=".csv,.xlsx,.xls" onChange={handleFileChange} className="hidden" />
+                    </label>
+                    {!mapping && (
+                        <p className="text-[11px] text-gray-400 dark:text-gray-500 leading-relaxed">
+                            첫 행은 열 제목이어야 합니다. 내보내기로 받은 파일의 형식을 그대로 쓰면 열이 자동으로 연결됩니다.
+                            담당자는 직원 이름으로 찾으며, 같은 이름이 여러 부서에 있으면 부서 열이 필요합니다.
+                        </p>
+                    )}
+                    {mapping && (
+                        <>
+                            <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+                                {SPREADSHEET_COLUMNS.map(({ field, label }) => (
+                                    <div key={field} className="space-y-1">
+                                        <label className={`text-[10px] font-bold ml-1 ${missingFields.includes(field) ? 'text-rose-500' : 'text-gray-500'}`}>{label}{REQUIRED_FIELDS.includes(field) && ' *'}</label>
+                                        <select value={mapping[field]} onChange={e => setMapping({ ...mapping, [field]: Number(e.target.value) })} className="w-full bg-gray-100 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-lg p-1.5 text-gray-900 dark:text-white text-xs focus:ring-1 focus:ring-emerald-500 outline-none">
+                                            <option value={-1}>— 없음 —</option>
+                                            {sheet[0].map((header, i) => <option key={i} value={i}>{header || `${i + 1}열`}</option>)}
+                                        </select>
+                                    </div>
+                                ))}
+                            </div>
+                            {missingFields.length > 0 ? (
+                                <p className="text-xs text-rose-500 font-bold">
+                                    연결되지 않은 필수 열: {missingFields.map(f => SPREADSHEET_COLUMNS.find(c => c.field === f)!.label).join(', ')}
+                                    {missingFields.includes('endDate') && ' (종료일 또는 기간 중 하나)'}
+                                </p>
+                            ) : (
+                                <>
+                                    <p className="text-xs font-bold text-gray-600 dark:text-gray-300">
+                                        {checkedRows.length}행 중 <span className="text-emerald-600 dark:text-emerald-400">{validRows.length}행 가져오기 가능</span>
+                                        {checkedRows.length > validRows.length && <>, <span className="text-rose-500">{checkedRows.length - validRows.length}행 오류</span></>}
+                                    </p>
+                                    <div className="max-h-72 overflow-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+                                        <table className="w-full text-[11px]">
+                                            <thead className="bg-gray-50 dark:bg-gray-900/60 text-gray-500 sticky top-0">
+                                                <tr>{['행', '프로젝트', '태스크', '담당자', '시작', '종료', '진행률', '확인'].map(h => <th key={h} className="px-2 py-1.5 text-left font-bold whitespace-nowrap">{h}</th>)}</tr>
+                                            </thead>
+                                            <tbody className="divide-y divide-gray-100 dark:divide-gray-700/60">
+                                                {checkedRows.map(row => (
+                                                    <tr key={row.rowNumber} className={row.errors.length > 0 ? 'bg-rose-500/5' : ''}>
+                                                        <td className="px-2 py-1 text-gray-400">{row.rowNumber}</td>
+                                                        <td className="px-2 py-1 text-gray-700 dark:text-gray-200 max-w-[120px] truncate">{row.projectName}</td>
+                                                        <td className="px-2 py-1 text-gray-700 dark:text-gray-200 max-w-[140px] truncate">{row.task?.name}</td>
+                                                        <td className="px-2 py-1 text-gray-700 dark:text-gray-200 whitespace-nowrap">{row.task && employeeNames.get(row.task.employeeId)}</td>
+                                                        <td className="px-2 py-1 text-gray-500 whitespace-nowrap">{row.task && formatDate(row.task.startDate)}</td>
+                                                        <td className="px-2 py-1 text-gray-500 whitespace-nowrap">{row.task && formatDate(row.task.endDate)}</td>
+                                                        <td className="px-2 py-1 text-gray-500">{row.task && `${row.task.progress}%`}</td>
+                                                        <td className="px-2 py-1">
+                                                            {row.errors.length > 0
+                                                                ? <span className="text-rose-500">{row.errors.join(' · ')}</span>
+                                                                : <span className="text-emerald-600 dark:text-emerald-400">{row.task ? '확인' : '프로젝트만'}</span>}
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                    <p className="text-[11px] text-gray-400 dark:text-gray-500">이름이 같은 프로젝트가 있으면 그 프로젝트에 추가하고, 없으면 새로 만듭니다. 오류가 있는 행은 건너뜁니다.</p>
+                                    <button onClick={handleImport} disabled={isSubmitting || validRows.length === 0} className="w-full py-4 bg-emerald-600 hover:bg-emerald-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-black rounded-xl transition-all shadow-lg shadow-emerald-500/20 active:scale-95">
+                                        {isSubmitting ? '가져오는 중...' : `${validRows.length}행 가져오기`}
+                                    </button>
+                                </>
+                            )}
+                        </>
+                    )}
+                </div>
+            )}
+        </ModalBase>
+    );
+};
+
+// --- Plan Generation ---
+
+const PLAN_CELL_CLASS = 'w-full bg-transparent border border-transparent hover:border-gray-300 dark:hover:border-gray-600 focus:border-indigo-500 rounded-md px-1.5 py-1 text-gray-800 dark:text-gray-100 outline-none';
+
+// A brief, a start date and the departments taking part go in; a proposed breakdown comes back for review in
+// a grid, and only what the user keeps is created, as a new project
+const PlanModal: FC<{
+    isOpen: boolean;
+    onClose: () => void;
+    employees: Employee[];
+    departments: Department[];
+    workCalendar: WorkCalendar;
+    onCreate: (projectName: string, rows: PlanRow[], startDate: string) => Promise<void>;
+}> = ({ isOpen, onClose, employees, departments, workCalendar, onCreate }) => {
+    const [brief, setBrief] = useState('');
+    const [startDate, setStartDate] = useState('');
+    const [departmentIds, setDepartmentIds] = useState<Set<string>>(new Set());
+    const [projectName, setProjectName] = useState('');
+    const [rows, setRows] = useState<PlanRow[] | null>(null);
+    const [notes, setNotes] = useState<string[]>([]);
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const prevIsOpenRef = useRef(false);
+
+    useEffect(() => {
+        if (isOpen && !prevIsOpenRef.current) {
+            setBrief('');
+            setStartDate(formatDate(new Date()));
+            setDepartmentIds(new Set(departments.map(d => d.id)));
+            setRows(null);
+            setNotes([]);
+            setError(null);
+        }
+        prevIsOpenRef.current = isOpen;
+    }, [isOpen, departments]);
+
+    const schedule = useMemo(() => rows && startDate ? schedulePlanRows(rows, new Date(startDate), workCalendar) : new Map<string, PlanRowSchedule>(), [rows, startDate, workCalendar]);
+
+    const toggleDepartment = (id: string) => setDepartmentIds(prev => {
+        const next = new Set(prev);
+        if (next.has(id)) next.delete(id); else next.add(id);
+        return next;
+    });
+
+    const handleGenerate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsGenerating(true);
+        setError(null);
+        try {
+            const selected = departments.filter(d => departmentIds.has(d.id));
+            const draft = await draftPlanFromBrief({
+                brief,
+                startDate,
+                departments: selected.map(d => ({ name: d.name, employees: employees.filter(emp => emp.departmentId === d.id).map(emp => emp.name) })),
+            }, { employees, departments: selected });
+            setProjectName(draft.projectName);
+            setRows(draft.rows);
+            setNotes(draft.notes);
+        } catch (err) {
+            console.error(err);
+            setError('계획을 만들지 못했습니다.');
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    const updateRow = (key: string, changes: Partial<PlanRow>) => setRows(prev => prev && prev.map(r => r.key === key ? { ...r, ...changes } : r));
+
+    // Rows that pointed at a removed row lose that link
+    const removeRow = (key: string) => setRows(prev => prev && prev.filter(r => r.key !== key).map(r => ({ ...r, predecessorKeys: r.predecessorKeys.filter(k => k !== key) })));
+
+    const addRow = () => setRows(prev => {
+        const list = prev || [];
+        const last = list[list.length - 1];
+        return [...list, { key: newPlanRowKey(), name: '', kind: 'task', employeeId: last?.employeeId || '', duration: 3, predecessorKeys: last ? [last.key] : [], description: '' }];
+    });
+
+    const invalidRows = (rows || []).filter(r => !r.name.trim() || !r.employeeId);
+
+    const handleCreate = async () => {
+        if (!rows) return;
+        setIsSubmitting(true);
+        try {
+            await onCreate(projectName.trim(), rows, startDate);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <ModalBase isOpen={isOpen} onClose={onClose} title="계획 생성" wide>
+            {!rows ? (
+                <form onSubmit={handleGenerate} className="space-y-4">
+                    <div className="space-y-1">
+                        <label className="text-xs text-gray-500 font-bold ml-1">프로젝트 개요</label>
+                        <textarea value={brief} onChange={e => setBrief(e.target.value)} rows={7} placeholder="목표, 범위, 산출물, 일정 조건 등을 붙여 넣으세요" className="w-full bg-gray-100 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-xl p-3 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all resize-y" required />
+                    </div>
+                    <div className="space-y-1">
+                        <label className="text-xs text-gray-500 font-bold ml-1">시작일</label>
+                        <input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} className="w-full bg-gray-100 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-xl p-3 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none" required />
+                    </div>
+                    <div className="space-y-1">
+                        <label className="text-xs text-gray-500 font-bold ml-1">참여 부서</label>
+                        <div className="flex flex-wrap gap-2">
+                            {departments.map(d => (
+                                <button key={d.id} type="button" onClick={() => toggleDepartment(d.id)} className={`px-3 py-1.5 rounded-lg text-xs font-bold border transition-all ${departmentIds.has(d.id) ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-gray-100 dark:bg-gray-700/50 text-gray-500 border-gray-300 dark:border-gray-600 hover:text-gray-900 dark:hover:text-white'}`}>{d.name}</button>
+                            ))}
+                        </div>
+                    </div>
+                    <p className="text-[11px] text-gray-500 px-1">{isGeminiConfigured() ? 'Gemini가 작업, 기간, 순서, 담당자를 제안합니다.' : '기본 템플릿으로 작업을 채웁니다.'} 만들기 전에 표에서 고칠 수 있습니다.</p>
+                    {error && <p className="text-red-500 dark:text-red-400 text-xs font-bold text-center">{error}</p>}
+                    <button type="submit" disabled={isGenerating || !brief.trim() || !startDate || departmentIds.size === 0} className="w-full py-4 bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-black rounded-xl transition-all shadow-lg shadow-indigo-500/20 active:scale-95">
+                        {isGenerating ? '생성 중...' : '계획 생성'}
+                    </button>
+                </form>
+            ) : (
+                <div className="space-y-4">
+                    <div className="space-y-1">
+                        <label className="text-xs text-gray-500 font-bold ml-1">프로젝트 명칭</label>
+                        <input type="text" value={projectName} onChange={e => setProjectName(e.target.value)} className="w-full bg-gray-100 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-xl p-3 font-bold text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 outline-none" />
+                    </div>
+                    {notes.length > 0 && (
+                        <div className="bg-indigo-50 dark:bg-indigo-500/10 border border-indigo-200 dark:border-indigo-500/30 rounded-xl p-3 space-y-1">
+                            {notes.map(note => <p key={note} className="text-[11px] font-bold text-indigo-700 dark:text-indigo-300">{note}</p>)}
+                        </div>
+                    )}
+                    <div className="max-h-96 overflow-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+                        <table className="w-full text-[11px]">
+                            <thead className="bg-gray-50 dark:bg-gray-900/60 text-gray-500 sticky top-0 z-10">
+                                <tr>{['#', '작업', '구분', '담당자', '기간', '선행', '일정', ''].map((h, i) => <th key={i} className="px-2 py-1.5 text-left font-bold whitespace-nowrap">{h}</th>)}</tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100 dark:divide-gray-700/60">
+                                {rows.map((row, index) => {
+                                    const span = schedule.get(row.key);
+                                    const predecessorText = formatPredecessorNumbers(row, rows);
+                                    return (
+                                        <tr key={row.key} className={!row.name.trim() || !row.employeeId ? 'bg-rose-500/5' : ''}>
+                                            <td className="px-2 py-1 text-gray-400">{index + 1}</td>
+                                            <td className="px-1 py-1 min-w-[140px]"><input type="text" value={row.name} onChange={e => updateRow(row.key, { name: e.target.value })} placeholder="작업 이름" className={PLAN_CELL_CLASS} /></td>
+                                            <td className="px-1 py-1">
+                                                <select value={row.kind} onChange={e => updateRow(row.key, { kind: e.target.value as TaskKind })} className={PLAN_CELL_CLASS}>
+                                                    <option value="task">태스크</option>
+                                                    <option value="milestone">◆ 마일스톤</option>
+                                                </select>
+                                            </td>
+                                            <td className="px-1 py-1">
+                                                <select value={row.employeeId} onChange={e => updateRow(row.key, { employeeId: e.target.value })} className={PLAN_CELL_CLASS}>
+                                                    <option value="">미정</option>
+                                                    {departments.map(d => (
+                                                        <optgroup key={d.id} label={d.name}>
+                                                            {employees.filter(e => e.departmentId === d.id).map(e => <option key={e.id} value={e.id}>{e.name}</option>)}
+                                                        </optgroup>
+                                                    ))}
+                                                </select>
+                                            </td>
+                                            <td className="px-1 py-1 w-16"><input type="number" min={1} value={row.kind === 'milestone' ? 1 : row.duration} disabled={row.kind === 'milestone'} onChange={e => updateRow(row.key, { duration: Math.max(1, parseInt(e.target.value) || 1) })} className={`${PLAN_CELL_CLASS} disabled:opacity-40`} /></td>
+                                            {/* Keyed by its value so it resets when rows move; committed on blur so typing "1, 3" is not cut short */}
+                                            <td className="px-1 py-1 w-20"><input key={predecessorText} type="text" defaultValue={predecessorText} onBlur={e => updateRow(row.key, { predecessorKeys: parsePredecessorNumbers(e.target.value, rows, index) })} placeholder="-" className={PLAN_CELL_CLASS} /></td>
+                                            <td className="px-2 py-1 text-gray-500 whitespace-nowrap">{span && (row.kind === 'milestone' ? formatDate(span.startDate) : `${formatDate(span.startDate)} ~ ${formatDate(span.endDate)}`)}</td>
+                                            <td className="px-1 py-1"><button type="button" onClick={() => removeRow(row.key)} className="p-1 rounded-md text-gray-400 hover:text-red-500 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"><TrashIcon className="h-3.5 w-3.5" /></button></td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                    <div className="flex justify-between items-center">
+                        <button type="button" onClick={addRow} className="flex items-center gap-1 text-xs font-bold text-indigo-600 dark:text-indigo-400 hover:text-indigo-500"><PlusIcon className="h-3.5 w-3.5" />작업 추가</button>
+                        <p className="text-[11px] text-gray-500">{describePlanSpan(schedule)}</p>
+                    </div>
+                    {invalidRows.length > 0 && <p className="text-xs font-bold text-rose-500">이름이나 담당자가 빠진 작업이 {invalidRows.length}개 있습니다.</p>}
+                    <div className="flex gap-2">
+                        <button type="button" onClick={() => setRows(null)} className="flex-1 py-4 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 font-bold rounded-xl transition-all">다시 생성</button>
+                        <button type="button" onClick={handleCreate} disabled={isSubmitting || rows.length === 0 || invalidRows.length > 0 || !projectName.trim()} className="flex-[2] py-4 bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-black rounded-xl transition-all shadow-lg shadow-indigo-500/20 active:scale-95">
+                            {isSubmitting ? '만드는 중...' : `프로젝트와 작업 ${rows.length}개 만들기`}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </ModalBase>
+    );
+};
+
+type BackupSource = { label: string; data: AppData; settings: BackupSettings; exportedAt?: string | null };
+
+const BackupModal: FC<{
+    isOpen: boolean;
+    onClose: () => void;
+    initialTab: 'backup' | 'migrate';
+    data: AppData;
+    settings: BackupSettings;
+    connectionMode: ConnectionMode;
+    canRestore: boolean;
+    onRestore: (plan: ImportPlan, settings: BackupSettings | null) => Promise<void>;
+}> = ({ isOpen, onClose, initialTab, data, settings, connectionMode, canRestore, onRestore }) => {
+    const isOnline = connectionMode !== 'local';
+    const remoteName = connectionMode === 'server' ? '자체 서버' : 'Supabase';
+    const remoteTarget = connectionMode === 'server' ? '자체 서버' : 'Supabase 프로젝트';
+    const [activeTab, setActiveTab] = useState<'backup' | 'migrate'>('backup');
+    const [source, setSource] = useState<BackupSource | null>(null);
+    const [strategy, setStrategy] = useState<ConflictStrategy>('keep');
+    const [includeSettings, setIncludeSettings] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const prevIsOpenRef = useRef(false);
+
+    const localSnapshot = useMemo(() => isOpen && isOnline ? getLocalSnapshot() : null, [isOpen, isOnline]);
+
+    const selectSource = useCallback((next: BackupSource | null) => {
+        setSource(next);
+        setStrategy('keep');
+        setIncludeSettings(false);
+    }, []);
+
+    useEffect(() => {
+        if (isOpen && !prevIsOpenRef.current) {
+            setActiveTab(initialTab);
+            selectSource(null);
+        }
+        prevIsOpenRef.current = isOpen;
+    }, [isOpen, initialTab, selectSource]);
+
+    const plan = useMemo(() => source ? planImport(source.data, data, strategy) : null, [source, data, strategy]);
+    const sourceCounts = source ? countRecords(source.data) : null;
+    const conflictCount = plan ? Object.values(plan.counts).reduce((sum, c) => sum + c.updated + c.duplicated + c.skipped, 0) : 0;
+    const writeCount = plan ? Object.values(plan.changes).reduce((sum, rows) => sum + rows.length, 0) : 0;
+    const hasSettings = !!source && Object.keys(source.settings).length > 0;
+
+    const handleExport = () => {
+        const file = createBackupFile(data, settings, connectionMode);
+        downloadBlob(new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }), `간트_백업_${formatDate(new Date())}.json`);
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const backup = parseBackupFile(await file.text());
+            selectSource({ label: file.name, data: backup.data, settings: backup.settings, exportedAt: backup.exportedAt });
+        } catch (err: any) {
+            console.error(err);
+            alert(`백업 파일을 읽을 수 없습니다. ${err?.message || ''}`.trim());
+        }
+    };
+
+    const handleTabChange = (tab: 'backup' | 'migrate') => {
+        setActiveTab(tab);
+        selectSource(null);
+    };
+
+    const handleRestore = async () => {
+        if (!plan || !source) return;
+        setIsSubmitting(true);
+        try {
+            await onRestore(plan, includeSettings && hasSettings ? source.settings : null);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const tabClass = (tab: 'backup' | 'migrate', color: string) => `pb-2 px-4 text-xs font-bold uppercase tracking-widest transition-colors ${activeTab === tab ? color : 'text-gray-500 hover:text-gray-900 dark:hover:text-gray-300'}`;
+
+    return (
+        <ModalBase isOpen={isOpen} onClose={onClose} title="백업 및 데이터 이전" wide>
+            <div className="flex gap-2 mb-4 border-b border-gray-200 dark:border-gray-700 pb-1">
+                <button type="button" onClick={() => handleTabChange('backup')} className={tabClass('backup', 'text-indigo-600 dark:text-indigo-400 border-b-2 border-indigo-600 dark:border-indigo-500')}>백업 / 복원</button>
+                {isOnline && <button type="button" onClick={() => handleTabChange('migrate')} className={tabClass('migrate', 'text-emerald-600 dark:text-emerald-400 border-b-2 border-emerald-600 dark:border-emerald-500')}>로컬 데이터 이전</button>}
+            </div>
+            <div className="space-y-4">
+                {activeTab === 'backup' ? (
+                    <>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 leading-relaxed">
+                            프로젝트, 태스크, 부서, 직원, 작업 연결, 베이스라인과 순서, 표시·근무 달력 설정을 JSON 파일 하나로 저장합니다.
+                            필터와 관계없이 {isOnline ? remoteName : '이 브라우저'}의 전체 데이터가 들어갑니다.
+                        </p>
+                        <button onClick={handleExport} className="w-full flex items-center justify-center gap-2 py-4 bg-indigo-600 hover:bg-indigo-500 text-white font-black rounded-xl transition-all shadow-lg shadow-indigo-500/20 active:scale-95">
+                            <ArrowDownTrayIcon className="h-5 w-5" />백업 파일 받기 (.json)
+                        </button>
+                        {canRestore ? (
+                            <label className="flex items-center justify-center gap-2 py-4 border-2 border-dashed border-gray-300 dark:border-gray-600 hover:border-emerald-500 rounded-xl text-sm font-bold text-gray-500 dark:text-gray-400 hover:text-emerald-600 dark:hover:text-emerald-400 cursor-pointer transition-colors">
+                                <ArrowUpTrayIcon className="h-5 w-5" />
+                                {source?.label || '백업 파일에서 복원'}
+                                <input type="file" accept=".json,application/json" onChange={handleFileChange} className="hidden" />
+                            </label>
+                        ) : (
+                            <p className="text-[11px] text-gray-400 dark:text-gray-500">백업 복원은 관리자만 할 수 있습니다.</p>
+                        )}
+                    </>
+                ) : !canRestore ? (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 leading-relaxed">로컬 데이터를 {remoteName}로 옮기려면 관리자 계정으로 로그인하세요.</p>
+                ) : !localSnapshot ? (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 leading-relaxed">이 브라우저에 저장된 로컬 데이터가 없습니다.</p>
+                ) : (
+                    <>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 leading-relaxed">
+                            오프라인 모드에서 이 브라우저에 저장한 데이터를 연결된 {remoteTarget}로 옮깁니다. 로컬 데이터는 그대로 남습니다.
+                        </p>
+                        {!source && (
+                            <button onClick={() => selectSource({ label: '이 브라우저의 로컬 데이터', data: localSnapshot, settings })} className="w-full flex items-center justify-center gap-2 py-4 bg-emerald-600 hover:bg-emerald-500 text-white font-black rounded-xl transition-all shadow-lg shadow-emerald-500/20 active:scale-95">
+                                <ArrowUpTrayIcon className="h-5 w-5" />이전 내용 미리보기
+                            </button>
+                        )}
+                    </>
+                )}
+
+                {plan && source && sourceCounts && (
+                    <>
+                        <div className={`p-3 rounded-xl border text-xs leading-relaxed ${plan.targetIsEmpty ? 'bg-emerald-500/10 border-emerald-500/20 text-emerald-700 dark:text-emerald-300' : 'bg-amber-500/10 border-amber-500/20 text-amber-700 dark:text-amber-300'}`}>
+                            {plan.targetIsEmpty
+                                ? `${isOnline ? remoteTarget : '로컬 저장소'}가 비어 있어 모든 데이터를 그대로 올립니다.`
+                                : '기존 데이터와 병합합니다. 같은 ID는 같은 기록으로, 이름이 같은 부서와 (같은 부서의) 직원은 같은 사람으로 봅니다.'}
+                            {source.exportedAt && <span className="block text-[11px] opacity-80">백업 시각: {new Date(source.exportedAt).toLocaleString('ko-KR')}</span>}
+                        </div>
+                        <div className="overflow-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+                            <table className="w-full text-[11px]">
+                                <thead className="bg-gray-50 dark:bg-gray-900/60 text-gray-500">
+                                    <tr>
+                                        <th className="px-2 py-1.5 text-left font-bold">항목</th>
+                                        <th className="px-2 py-1.5 text-right font-bold">가져올 데이터</th>
+                                        {(Object.keys(IMPORT_OUTCOME_LABELS) as ImportOutcome[]).map(o => <th key={o} className="px-2 py-1.5 text-right font-bold whitespace-nowrap">{IMPORT_OUTCOME_LABELS[o]}</th>)}
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-100 dark:divide-gray-700/60">
+                                    {(Object.keys(BACKUP_ENTITY_LABELS) as BackupEntity[]).map(entity => (
+                                        <tr key={entity}>
+                                            <td className="px-2 py-1 font-bold text-gray-700 dark:text-gray-200">{BACKUP_ENTITY_LABELS[entity]}</td>
+                                            <td className="px-2 py-1 text-right text-gray-500">{sourceCounts[entity]}</td>
+                                            {(Object.keys(IMPORT_OUTCOME_LABELS) as ImportOutcome[]).map(o => (
+                                                <td key={o} className={`px-2 py-1 text-right ${plan.counts[entity][o] === 0 ? 'text-gray-300 dark:text-gray-600' : o === 'skipped' ? 'text-amber-600 dark:text-amber-400 font-bold' : 'text-gray-700 dark:text-gray-200 font-bold'}`}>{plan.counts[entity][o]}</td>
+                                            ))}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        {conflictCount > 0 && (
+                            <div className="space-y-1">
+                                <label className="text-[10px] font-bold text-gray-500 ml-1">ID가 같지만 내용이 다른 기록 {conflictCount}개</label>
+                                <select value={strategy} onChange={e => setStrategy(e.target.value as ConflictStrategy)} className="w-full bg-gray-100 dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 rounded-lg p-2 text-gray-900 dark:text-white text-xs focus:ring-1 focus:ring-emerald-500 outline-none">
+                                    {(Object.keys(CONFLICT_STRATEGY_LABELS) as ConflictStrategy[]).map(s => <option key={s} value={s}>{CONFLICT_STRATEGY_LABELS[s]}</option>)}
+                                </select>
+                            </div>
+                        )}
+                        {plan.warnings.length > 0 && (
+                            <ul className="max-h-32 overflow-y-auto space-y-0.5 text-[11px] text-rose-500 custom-scrollbar">
+                                {plan.warnings.map(w => <li key={w}>{w}</li>)}
+                            </ul>
+                        )}
+                        {hasSettings && (
+                            <label className="flex items-center gap-2 text-xs font-bold text-gray-600 dark:text-gray-300 cursor-pointer">
+                                <input type="checkbox" checked={includeSettings} onChange={e => setIncludeSettings(e.target.checked)} className="w-4 h-4 accent-emerald-500" />
+                                표시·근무 달력·정렬 설정도 {activeTab === 'migrate' ? '공유 설정으로 저장' : '백업의 값으로 바꾸기'}
+                            </label>
+                        )}
+                        <button onClick={handleRestore} disabled={isSubmitting || (writeCount === 0 && !includeSettings)} className="w-full py-4 bg-emerald-600 hover:bg-emerald-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-black rounded-xl transition-all shadow-lg shadow-emerald-500/20 active:scale-95">
+                            {isSubmitting ? '가져오는 중...' : writeCount > 0 ? `기록 ${writeCount}개 ${activeTab === 'migrate' ? '이전' : '복원'}하기` : includeSettings ? '설정만 적용하기' : '새로 쓸 기록 없음'}
+                        </button>
+                    </>
+                )}
+            </div>
+        </ModalBase>
+    );
+};
+
+const SYNC_STATUS_LABELS: Record<SyncEntryStatus, string> = {
+    pending: '대기',
+    failed: '실패',
+    conflict: '충돌',
+};
+
+const SYNC_STATUS_CLASSES: Record<SyncEntryStatus, string> = {
+    pending: 'bg-amber-500/10 text-amber-600 dark:text-amber-400',
+    failed: 'bg-rose-500/10 text-rose-600 dark:text-rose-400',
+    conflict: 'bg-rose-500/10 text-rose-600 dark:text-rose-400',
+};
+
+// Fields where the queued write and the current remote row disagree
+const getSyncConflictFields = (entry: SyncEntry): ConflictField[] => {
+    const { mutation, remote } = entry;
+    if (!remote) return [];
+    const mine: Record<string, any> = mutation.type === 'updateTask' ? mutation.update : mutation.type === 'updateProject' ? { name: mutation.name } : {};
+    return Object.keys(mine)
+        .filter(field => field in AUDIT_FIELD_LABELS)
+        .map(field => ({ field, mine: toConflictValue(field, mine[field]), theirs: toConflictValue(field, (remote as Record<string, any>)[field]) }))
+        .filter(f => f.mine !== f.theirs);
+};
+
+const SyncQueueModal: FC<{
+    isOpen: boolean;
+    onClose: () => void;
+    status: SyncStatus;
+    names: Map<string, string>;
+}> = ({ isOpen, onClose, status, names }) => {
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    const run = async (id: string, action: (id: string) => Promise<void>) => {
+        setBusyId(id);
+        try {
+            await action(id);
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    return (
+        <ModalBase isOpen={isOpen} onClose={onClose} title="동기화 대기열" wide>
+            <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                    <p className="text-[11px] text-gray-500 dark:text-gray-400">
+                        {status.entries.length === 0 ? '모든 변경 사항이 서버에 반영되었습니다.' : `대기 ${status.pending}건 · 확인 필요 ${status.failed}건`}
+                    </p>
+                    <button type="button" onClick={() => replaySyncQueue()} disabled={status.isReplaying || status.pending === 0} className="text-[11px] font-bold text-indigo-500 dark:text-indigo-400 hover:text-indigo-600 dark:hover:text-indigo-300 disabled:opacity-40">
+                        {status.isReplaying ? '동기화 중...' : '지금 동기화'}
+                    </button>
+                </div>
+                <ol className="max-h-[60vh] overflow-y-auto space-y-2 pr-1 custom-scrollbar">
+                    {status.entries.map(entry => {
+                        const conflictFields = entry.status === 'conflict' ? getSyncConflictFields(entry) : [];
+                        const isBusy = busyId === entry.id;
+                        return (
+                            <li key={entry.id} className="bg-gray-100/50 dark:bg-gray-700/30 p-3 rounded-lg border border-gray-200 dark:border-gray-700/50 space-y-2">
+                                <div className="flex items-center gap-2 text-xs">
+                                    <span className={`px-1.5 py-0.5 rounded font-bold text-[10px] ${SYNC_STATUS_CLASSES[entry.status]}`}>{SYNC_STATUS_LABELS[entry.status]}</span>
+                                    <span className="font-bold text-gray-800 dark:text-gray-200 truncate">{entry.label}</span>
+                                    <span className="ml-auto shrink-0 text-[10px] text-gray-500 font-mono">{formatAuditTime(entry.queuedAt)}</span>
+                                </div>
+                                {entry.status === 'failed' && <p className="text-[11px] text-rose-500 break-words">{entry.error}</p>}
+                                {entry.status === 'conflict' && entry.remote === null && <p className="text-[11px] text-rose-500">오프라인인 동안 다른 사용자가 이 항목을 삭제했습니다.</p>}
+                                {entry.status === 'conflict' && entry.remoteOrder && <p className="text-[11px] text-rose-500">오프라인인 동안 다른 사용자가 순서를 바꾸거나 항목을 수정했습니다.</p>}
+                                {conflictFields.length > 0 && (
+                                    <table className="w-full text-[11px]">
+                                        <thead>
+                                            <tr className="text-gray-500 dark:text-gray-400 text-left">
+                                                <th className="font-bold py-0.5"></th>
+                                                <th className="font-bold py-0.5">내 변경</th>
+                                                <th className="font-bold py-0.5">서버의 현재 값</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {conflictFields.map(f => (
+                                                <tr key={f.field} className="text-gray-700 dark:text-gray-300">
+                                                    <td className="font-bold text-gray-500 dark:text-gray-400 pr-2">{AUDIT_FIELD_LABELS[f.field]}</td>
+                                                    <td className="pr-2 break-words">{formatAuditValue(f.field, f.mine, names)}</td>
+                                                    <td className="break-words">{formatAuditValue(f.field, f.theirs, names)}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                )}
+                                {entry.status !== 'pending' && (
+                                    <div className="flex justify-end gap-2">
+                                        {entry.remote !== null && (
+                                            <button onClick={() => run(entry.id, retrySyncEntry)} disabled={isBusy} className="px-3 py-1.5 text-[11px] font-bold rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-50 transition-colors">
+                                                {entry.status === 'conflict' ? '내 변경 적용' : '다시 시도'}
+                                            </button>
+                                        )}
+                                        <button onClick={() => run(entry.id, discardSyncEntry)} disabled={isBusy} className="px-3 py-1.5 text-[11px] font-bold rounded-lg bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-white disabled:opacity-50 transition-colors">
+                                            {entry.status === 'conflict' ? '서버 값 유지' : '버리기'}
+                                        </button>
+                                    </div>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ol>
+            </div>
+        </ModalBase>
+    );
+};
+
+// A save that lost the race to someone else's: the field values to choose between, or the two orders of a reorder
+interface ConflictPrompt {
+    title: string;
+    fields: ConflictField[];
+    remoteDeleted: boolean;
+    order?: { mine: string[]; theirs: string[] };
+    onKeepMine: (choices: Record<string, ConflictChoice>) => Promise<void>;
+}
+
+const ConflictModal: FC<{
+    prompt: ConflictPrompt | null;
+    onClose: () => void;
+    names: Map<string, string>;
+}> = ({ prompt, onClose, names }) => {
+    const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    useEffect(() => {
+        setChoices(Object.fromEntries((prompt?.fields || []).map(f => [f.field, 'mine' as ConflictChoice])));
+    }, [prompt]);
+
+    if (!prompt) return null;
+
+    const handleKeepMine = async () => {
+        setIsSubmitting(true);
+        try {
+            await prompt.onKeepMine(choices);
+            onClose();
+        } catch (e) {
+            console.error(e);
+            alert('저장하지 못했습니다. 그 사이 다시 변경되었을 수 있으니 새로 불러온 뒤 다시 시도하세요.');
+            onClose();
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const message = prompt.remoteDeleted
+        ? '다른 사용자가 이 항목을 삭제해서 변경 사항을 저장하지 못했습니다.'
+        : prompt.order
+            ? '다른 사용자가 먼저 순서를 바꿨습니다. 어느 순서를 남길지 고르세요.'
+            : '다른 사용자가 같은 항목을 먼저 수정했습니다. 항목마다 남길 값을 고르세요.';
+
+    return (
+        <ModalBase isOpen onClose={onClose} title={`변경 충돌 · ${prompt.title}`} wide>
+            <div className="space-y-5">
+                <div className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-xl">
+                    <p className="text-xs text-gray-700 dark:text-gray-200">{message}</p>
+                </div>
+                {prompt.fields.length > 0 && (
+                    <table className="w-full text-xs">
+                        <thead>
+                            <tr className="text-[10px] text-gray-500 dark:text-gray-400 text-left">
+                                <th className="font-bold py-1"></th>
+                                <th className="font-bold py-1">내 변경</th>
+                                <th className="font-bold py-1">서버의 현재 값</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {prompt.fields.map(f => (
+                                <tr key={f.field} className="border-t border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200">
+                                    <td className="py-2 pr-2 font-bold text-gray-500 dark:text-gray-400">{AUDIT_FIELD_LABELS[f.field] || f.field}</td>
+                                    {(['mine', 'theirs'] as ConflictChoice[]).map(side => (
+                                        <td key={side} className="py-2 pr-2">
+                                            <label className="flex items-start gap-2 cursor-pointer break-words">
+                                                <input type="radio" name={`conflict-${f.field}`} checked={choices[f.field] === side} onChange={() => setChoices(prev => ({ ...prev, [f.field]: side }))} className="mt-0.5 accent-indigo-500" />
+                                                {formatAuditValue(f.field, f[side], names)}
+                                            </label>
+                                        </td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+                {prompt.order && (
+                    <div className="grid grid-cols-2 gap-3 text-xs">
+                        {([['내 순서', prompt.order.mine], ['서버의 현재 순서', prompt.order.theirs]] as const).map(([label, items]) => (
+                            <div key={label} className="space-y-1">
+                                <p className="text-[10px] font-bold text-gray-500 dark:text-gray-400">{label}</p>
+                                <ol className="list-decimal list-inside space-y-0.5 text-gray-700 dark:text-gray-200">
+                                    {items.map((name, i) => <li key={i} className="truncate">{name}</li>)}
+                                </ol>
+                            </div>
+                        ))}
+                    </div>
+                )}
+                <div className="grid grid-cols-2 gap-3">
+                    <button onClick={onClose} disabled={isSubmitting} className={`py-3 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-white font-bold rounded-xl transition-all active:scale-95 disabled:opacity-50 ${prompt.remoteDeleted ? 'col-span-2' : ''}`}>
+                        {prompt.remoteDeleted ? '확인' : prompt.order ? '서버 순서 유지' : '서버 값 모두 유지'}
+                    </button>
+                    {!prompt.remoteDeleted && (
+                        <button onClick={handleKeepMine} disabled={isSubmitting} className="py-3 bg-indigo-600 hover:bg-indigo-500 text-white font-black rounded-xl transition-all shadow-lg shadow-indigo-500/20 active:scale-95 disabled:opacity-50">
+                            {isSubmitting ? '저장 중...' : prompt.order ? '내 순서 적용' : '선택한 값으로 저장'}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </ModalBase>
+    );
+};
+
 // --- Main Components ---
 
 const Header: FC<{
@@ -611,17 +2539,37 @@ const Header: FC<{
     setFilter: React.Dispatch<React.SetStateAction<{ departmentId: string; employeeId: string }>>;
     viewStartDate: Date;
     setViewStartDate: React.Dispatch<React.SetStateAction<Date>>;
+    zoomLevel: ZoomLevel;
+    setZoomLevel: (zoom: ZoomLevel) => void;
+    viewMode: GanttViewMode;
+    setViewMode: (mode: GanttViewMode) => void;
     onOpenSettings: () => void;
     isOnline: boolean;
+    syncStatus: SyncStatus;
+    onOpenSyncQueue: () => void;
     isDarkMode: boolean;
     toggleDarkMode: () => void;
-}> = ({ departments, filter, setFilter, viewStartDate, setViewStartDate, onOpenSettings, isOnline, isDarkMode, toggleDarkMode }) => {
+    showResourcePanel: boolean;
+    toggleResourcePanel: () => void;
+    onOpenSpreadsheet: () => void;
+    onOpenCalendar: () => void;
+    onOpenReport: () => void;
+    onOpenChartExport: () => void;
+    // null for users who cannot add tasks
+    onOpenTaskCommand: (() => void) | null;
+    history: HistoryState;
+    onUndo: () => void;
+    onRedo: () => void;
+    currentUser: AuthUser | null;
+    onSignIn: () => void;
+    onSignOut: () => void;
+}> = ({ departments, filter, setFilter, viewStartDate, setViewStartDate, zoomLevel, setZoomLevel, viewMode, setViewMode, onOpenSettings, isOnline, syncStatus, onOpenSyncQueue, isDarkMode, toggleDarkMode, showResourcePanel, toggleResourcePanel, onOpenSpreadsheet, onOpenCalendar, onOpenReport, onOpenChartExport, onOpenTaskCommand, history, onUndo, onRedo, currentUser, onSignIn, onSignOut }) => {
     const employeesInSelectedDept = useMemo(() => {
         if (filter.departmentId === 'all' || !departments) return [];
         return departments.find(d => d.id === filter.departmentId)?.employees || [];
     }, [filter.departmentId, departments]);
 
-    const handleDateShift = (days: number) => setViewStartDate(currentDate => addDays(currentDate, days));
+    const handleDateShift = (direction: 1 | -1) => setViewStartDate(currentDate => shiftByZoomUnit(currentDate, zoomLevel, direction));
     const goToToday = () => { const today = new Date(); today.setDate(today.getDate() - 2); today.setHours(0,0,0,0); setViewStartDate(today); }
 
     return (
@@ -636,15 +2584,47 @@ const Header: FC<{
                         <div className="flex items-center gap-2">
                              <p className="text-[10px] text-gray-500 font-bold uppercase tracking-widest">Team Productivity Suite</p>
                              {isOnline && <span className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-emerald-500/10 border border-emerald-500/20 text-[9px] font-bold text-emerald-600 dark:text-emerald-400 uppercase tracking-wider"><span className="w-1.5 h-1.5 rounded-full bg-emerald-500 animate-pulse"/>Live Sync</span>}
+                             {isOnline && syncStatus.entries.length > 0 && (
+                                 <button onClick={onOpenSyncQueue} title="서버에 아직 반영되지 않은 변경 사항" className="flex items-center gap-1 text-[9px] font-bold">
+                                     {syncStatus.pending > 0 && <span className="px-1.5 py-0.5 rounded bg-amber-500/10 border border-amber-500/20 text-amber-600 dark:text-amber-400">대기 {syncStatus.pending}</span>}
+                                     {syncStatus.failed > 0 && <span className="px-1.5 py-0.5 rounded bg-rose-500/10 border border-rose-500/20 text-rose-600 dark:text-rose-400">확인 필요 {syncStatus.failed}</span>}
+                                 </button>
+                             )}
                         </div>
                     </div>
                     <div className="flex items-center ml-2 gap-2">
                         <button onClick={toggleDarkMode} className="p-2.5 rounded-xl bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-indigo-500/20 text-gray-500 dark:text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 transition-all border border-gray-200 dark:border-gray-700 hover:border-indigo-500/50 shadow-inner group">
                             {isDarkMode ? <SunIcon className="h-5 w-5" /> : <MoonIcon className="h-5 w-5" />}
                         </button>
+                        <div className="flex items-center rounded-xl bg-gray-100 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 shadow-inner">
+                            <button onClick={onUndo} disabled={!history.undoLabel} title={history.undoLabel ? `실행 취소: ${history.undoLabel} (Ctrl+Z)` : '실행 취소'} className="p-2.5 rounded-l-xl text-gray-500 dark:text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 hover:bg-gray-200 dark:hover:bg-indigo-500/20 disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-500 transition-all"><ArrowUturnLeftIcon className="h-5 w-5" /></button>
+                            <button onClick={onRedo} disabled={!history.redoLabel} title={history.redoLabel ? `다시 실행: ${history.redoLabel} (Ctrl+Shift+Z)` : '다시 실행'} className="p-2.5 rounded-r-xl text-gray-500 dark:text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 hover:bg-gray-200 dark:hover:bg-indigo-500/20 disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-500 transition-all border-l border-gray-200 dark:border-gray-700"><ArrowUturnRightIcon className="h-5 w-5" /></button>
+                        </div>
+                        {onOpenTaskCommand && (
+                            <button onClick={onOpenTaskCommand} title="빠른 태스크 입력 (Ctrl+K)" className="p-2.5 rounded-xl bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-indigo-500/20 text-gray-500 dark:text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 transition-all border border-gray-200 dark:border-gray-700 hover:border-indigo-500/50 shadow-inner">
+                                <SparklesIcon className="h-5 w-5" />
+                            </button>
+                        )}
+                        <button onClick={toggleResourcePanel} title="리소스 부하" className={`p-2.5 rounded-xl transition-all border shadow-inner ${showResourcePanel ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-indigo-500/20 text-gray-500 dark:text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 border-gray-200 dark:border-gray-700 hover:border-indigo-500/50'}`}>
+                            <UsersIcon className="h-5 w-5" />
+                        </button>
+                        <button onClick={onOpenSpreadsheet} title="가져오기 / 내보내기" className="p-2.5 rounded-xl bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-indigo-500/20 text-gray-500 dark:text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 transition-all border border-gray-200 dark:border-gray-700 hover:border-indigo-500/50 shadow-inner">
+                            <ArrowDownTrayIcon className="h-5 w-5" />
+                        </button>
+                        <button onClick={onOpenChartExport} title="차트 인쇄 / 내보내기" className="p-2.5 rounded-xl bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-indigo-500/20 text-gray-500 dark:text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 transition-all border border-gray-200 dark:border-gray-700 hover:border-indigo-500/50 shadow-inner">
+                            <PrinterIcon className="h-5 w-5" />
+                        </button>
                         <button onClick={onOpenSettings} className="p-2.5 rounded-xl bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-indigo-500/20 text-gray-500 dark:text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 transition-all border border-gray-200 dark:border-gray-700 hover:border-indigo-500/50 shadow-inner group">
                             <CogIcon className="h-5 w-5 group-hover:rotate-90 transition-transform duration-700" />
                         </button>
+                        {currentUser ? (
+                            <div className="flex items-center gap-1 pl-3 rounded-xl bg-gray-100 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 shadow-inner">
+                                <span title={currentUser.email} className="max-w-[140px] truncate text-xs font-bold text-gray-700 dark:text-gray-200">{currentUser.email}</span>
+                                <button onClick={onSignOut} className="px-2.5 py-2.5 rounded-r-xl text-[11px] font-bold text-gray-500 dark:text-gray-400 hover:text-rose-600 dark:hover:text-rose-400 transition-colors">로그아웃</button>
+                            </div>
+                        ) : isAuthAvailable() && (
+                            <button onClick={onSignIn} className="px-3 py-2.5 rounded-xl bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-indigo-500/20 text-xs font-bold text-gray-500 dark:text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 transition-all border border-gray-200 dark:border-gray-700 hover:border-indigo-500/50 shadow-inner">로그인</button>
+                        )}
                     </div>
                 </div>
                 <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-4 w-full lg:w-auto">
@@ -662,11 +2642,27 @@ const Header: FC<{
                                 {employeesInSelectedDept.map(e => <option key={e.id} value={e.id}>{e.name}</option>)}
                             </select>
                         </div>
+                        <button onClick={onOpenCalendar} title="현재 필터의 일정을 캘린더(.ics)로 내보내기" className="flex items-center px-3 bg-gray-100 dark:bg-gray-800/80 rounded-xl border border-gray-200 dark:border-gray-700 shrink-0 text-gray-500 dark:text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 hover:border-indigo-500/50 transition-colors">
+                            <CalendarIcon className="h-4 w-4" />
+                        </button>
+                        <button onClick={onOpenReport} title="현재 필터의 주간 업무 보고서" className="flex items-center px-3 bg-gray-100 dark:bg-gray-800/80 rounded-xl border border-gray-200 dark:border-gray-700 shrink-0 text-gray-500 dark:text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 hover:border-indigo-500/50 transition-colors">
+                            <DocumentTextIcon className="h-4 w-4" />
+                        </button>
+                    </div>
+                    <div className="flex items-center bg-white/50 dark:bg-gray-800/40 rounded-2xl p-1.5 border border-gray-200 dark:border-gray-700/50 transition-colors gap-1">
+                        {(Object.keys(VIEW_MODE_LABELS) as GanttViewMode[]).map(m => (
+                            <button key={m} onClick={() => setViewMode(m)} className={`px-3 py-2 text-xs font-black rounded-xl transition-all ${viewMode === m ? 'bg-indigo-600 text-white shadow' : 'text-gray-500 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-700'}`}>{VIEW_MODE_LABELS[m]}</button>
+                        ))}
+                    </div>
+                    <div className="flex items-center bg-white/50 dark:bg-gray-800/40 rounded-2xl p-1.5 border border-gray-200 dark:border-gray-700/50 transition-colors gap-1">
+                        {ZOOM_LEVELS.map(z => (
+                            <button key={z} onClick={() => setZoomLevel(z)} className={`px-3 py-2 text-xs font-black rounded-xl transition-all ${zoomLevel === z ? 'bg-indigo-600 text-white shadow' : 'text-gray-500 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-700'}`}>{ZOOM_LABELS[z]}</button>
+                        ))}
                     </div>
                     <div className="flex items-center justify-between sm:justify-start gap-3 bg-white/50 dark:bg-gray-800/40 rounded-2xl p-1.5 border border-gray-200 dark:border-gray-700/50 transition-colors">
-                        <button onClick={() => handleDateShift(-7)} className="p-2.5 rounded-xl hover:bg-gray-100 dark:hover:bg-gray-700 transition-all text-gray-400 hover:text-gray-900 dark:hover:text-white active:scale-90"><ChevronLeftIcon className="h-5 w-5" /></button>
+                        <button onClick={() => handleDateShift(-1)} className="p-2.5 rounded-xl hover:bg-gray-100 dark:hover:bg-gray-700 transition-all text-gray-400 hover:text-gray-900 dark:hover:text-white active:scale-90"><ChevronLeftIcon className="h-5 w-5" /></button>
                         <button onClick={goToToday} className="flex items-center gap-2.5 px-5 py-2.5 text-xs font-black uppercase tracking-widest rounded-xl bg-gray-100 dark:bg-gray-700/50 hover:bg-gray-200 dark:hover:bg-gray-700 transition-all text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white shadow-sm">오늘</button>
-                        <button onClick={() => handleDateShift(7)} className="p-2.5 rounded-xl hover:bg-gray-100 dark:hover:bg-gray-700 transition-all text-gray-400 hover:text-gray-900 dark:hover:text-white active:scale-90"><ChevronRightIcon className="h-5 w-5" /></button>
+                        <button onClick={() => handleDateShift(1)} className="p-2.5 rounded-xl hover:bg-gray-100 dark:hover:bg-gray-700 transition-all text-gray-400 hover:text-gray-900 dark:hover:text-white active:scale-90"><ChevronRightIcon className="h-5 w-5" /></button>
                     </div>
                 </div>
             </div>
@@ -674,61 +2670,115 @@ const Header: FC<{
     );
 };
 
-const TimelineHeader: FC<{ dates: Date[], todayString: string; dayWidth: number; fontSize: number }> = ({ dates, todayString, dayWidth, fontSize }) => {
+const TimelineHeader: FC<{ columns: TimelineColumn[]; zoom: ZoomLevel; workCalendar: WorkCalendar; todayString: string; dayWidth: number; fontSize: number }> = ({ columns, zoom, workCalendar, todayString, dayWidth, fontSize }) => {
+    const groups = useMemo(() => groupTimelineColumns(columns, zoom), [columns, zoom]);
     return (
-        <div className="flex" style={{ height: '100%' }}>
-            {dates.map((date, index) => {
-                const day = date.getDay();
-                const isWeekend = day === 0 || day === 6;
-                const isToday = formatDate(date) === todayString;
-                return (
-                    <div key={index} className={`flex-shrink-0 flex flex-col items-center justify-center border-r border-gray-200 dark:border-gray-800 ${isWeekend ? 'bg-gray-100/50 dark:bg-gray-800/40' : ''} ${isToday ? 'bg-yellow-100 dark:bg-yellow-400/10' : ''}`} style={{ width: dayWidth }}>
-                        <div className={`leading-tight uppercase opacity-50 font-black mb-0.5`} style={{ fontSize: fontSize * 0.8 }}>{date.toLocaleString('ko-KR', { weekday: 'short' })}</div>
-                        <div className={`font-black ${isToday ? 'text-yellow-600 dark:text-yellow-400 animate-pulse' : 'text-gray-700 dark:text-gray-300'}`} style={{ fontSize: fontSize }}>{date.getDate()}</div>
+        <div className="flex flex-col" style={{ height: '100%' }}>
+            <div className="flex border-b border-gray-200 dark:border-gray-800" style={{ height: '40%' }}>
+                {groups.map((group, index) => (
+                    <div key={index} className="flex-shrink-0 flex items-center px-2 border-r border-gray-200 dark:border-gray-800 overflow-hidden whitespace-nowrap" style={{ width: group.days * dayWidth }}>
+                        <span className="font-black text-gray-500 dark:text-gray-400" style={{ fontSize: fontSize * 0.9 }}>{group.label}</span>
                     </div>
-                );
-            })}
+                ))}
+            </div>
+            <div className="flex flex-grow">
+                {columns.map((col, index) => {
+                    const isToday = columnContainsDate(col, todayString);
+                    const offDayName = zoom === 'day' ? getNonWorkingDayName(col.start, workCalendar) : null;
+                    const isHoliday = !!offDayName && offDayName !== '주말';
+                    return (
+                        <div key={index} title={offDayName || undefined} className={`flex-shrink-0 flex flex-col items-center justify-center border-r border-gray-200 dark:border-gray-800 overflow-hidden ${offDayName ? 'bg-gray-100/50 dark:bg-gray-800/40' : ''} ${isToday ? 'bg-yellow-100 dark:bg-yellow-400/10' : ''}`} style={{ width: col.days * dayWidth }}>
+                            {col.subLabel && zoom === 'day' && <div className={`leading-tight uppercase opacity-50 font-black`} style={{ fontSize: fontSize * 0.8 }}>{col.subLabel}</div>}
+                            <div className={`font-black leading-tight ${isToday ? 'text-yellow-600 dark:text-yellow-400 animate-pulse' : isHoliday ? 'text-rose-500 dark:text-rose-400' : 'text-gray-700 dark:text-gray-300'}`} style={{ fontSize: fontSize }}>{col.label}</div>
+                            {col.subLabel && zoom !== 'day' && <div className={`leading-tight opacity-50 font-bold`} style={{ fontSize: fontSize * 0.8 }}>{col.subLabel}</div>}
+                        </div>
+                    );
+                })}
+            </div>
         </div>
     );
 };
 
+type TaskBarDragMode = 'move' | 'resize-start' | 'resize-end';
+
+// Computes the dragged date range, snapped to whole days. Resizing never lets an edge cross the other.
+const shiftTaskRange = (mode: TaskBarDragMode, startDate: Date, endDate: Date, deltaDays: number) => {
+    if (mode === 'move') return { startDate: addDays(startDate, deltaDays), endDate: addDays(endDate, deltaDays) };
+    if (mode === 'resize-start') {
+        const newStart = addDays(startDate, deltaDays);
+        return { startDate: newStart.getTime() > endDate.getTime() ? new Date(endDate) : newStart, endDate };
+    }
+    const newEnd = addDays(endDate, deltaDays);
+    return { startDate, endDate: newEnd.getTime() < startDate.getTime() ? new Date(startDate) : newEnd };
+};
+
 const TaskBar: FC<{
     task: Task;
     viewStartDate: Date;
     onProgressChange: (newProgress: number) => void;
+    onDatesChange: (startDate: Date, endDate: Date) => void;
+    schedule?: TaskSchedule;
+    isOverallocated?: boolean;
+    baseline?: BaselineTask;
+    // People view: colour by project and prefix the label with the project name
+    projectName?: string;
+    colorClass?: string;
+    workCalendar: WorkCalendar;
     employeeMap: Map<string, Employee>;
     departmentMap: Map<string, Department>;
     dayWidth: number;
     barHeight: number;
     fontSize: number;
-}> = ({ task, viewStartDate, onProgressChange, employeeMap, departmentMap, dayWidth, barHeight, fontSize }) => {
+    readOnly?: boolean;
+}> = ({ task, viewStartDate, onProgressChange, onDatesChange, schedule, isOverallocated, baseline, projectName, colorClass, workCalendar, employeeMap, departmentMap, dayWidth, barHeight, fontSize, readOnly }) => {
     const barRef = useRef<HTMLDivElement>(null);
     const isDraggingRef = useRef(false);
-    const startDate = new Date(task.startDate);
-    const endDate = new Date(task.endDate);
-    const startOffsetDays = getDaysBetween(viewStartDate, startDate) - 1;
-    const durationDays = getDaysBetween(startDate, endDate);
-    const left = startOffsetDays * dayWidth;
-    const width = durationDays * dayWidth - 4;
+    const [dragPreview, setDragPreview] = useState<{ startDate: Date; endDate: Date } | null>(null);
+    const startDate = dragPreview ? dragPreview.startDate : new Date(task.startDate);
+    const endDate = dragPreview ? dragPreview.endDate : new Date(task.endDate);
+    const { left, width } = getBarGeometry(startDate, endDate, viewStartDate, dayWidth);
     // Remove fixed limit check to allow infinite scrolling if implemented, 
     // but for now we just check if it's completely off-screen to the left
     if (left + width < 0) return null;
 
     const employee = employeeMap.get(task.employeeId);
     const department = employee ? departmentMap.get(employee.departmentId) : undefined;
+    const isMilestone = task.kind === 'milestone';
+    const workingDays = countWorkingDays(startDate, endDate, workCalendar);
+    const barColor = colorClass || task.color;
+    const variance = baseline ? getTaskVariance({ ...task, startDate, endDate }, baseline) : null;
+    const label = projectName ? <><span className="opacity-60 mr-1.5">{projectName}</span>{task.name}</> : task.name;
 
     const tooltipContent = (
         <div className="space-y-3 w-64 p-1">
             <p className="font-black text-lg text-indigo-600 dark:text-indigo-300 tracking-tight leading-tight">{task.name}</p>
             <div className="text-[11px] text-gray-500 dark:text-gray-400 space-y-2 font-bold uppercase tracking-wider">
+                {projectName && <div className="flex items-center justify-between"><span className="opacity-50">프로젝트</span> <span>{projectName}</span></div>}
                 <div className="flex items-center justify-between"><span className="opacity-50">담당</span> <span>{employee?.name} ({department?.name})</span></div>
-                <div className="flex items-center justify-between"><span className="opacity-50">기간</span> <span>{formatDate(startDate)} ~ {formatDate(endDate)}</span></div>
-                <div className="pt-2">
-                    <div className="flex items-center justify-between mb-1.5"><span className="opacity-50">진행률</span> <span className="text-gray-900 dark:text-white">{task.progress}%</span></div>
-                    <div className="w-full h-1.5 bg-gray-200 dark:bg-gray-800 rounded-full overflow-hidden">
-                        <div className={`h-full ${task.color} opacity-80`} style={{ width: `${task.progress}%` }}></div>
+                {isMilestone
+                    ? <div className="flex items-center justify-between"><span className="opacity-50">일자</span> <span>{formatDate(startDate)} (마일스톤)</span></div>
+                    : <div className="flex items-center justify-between"><span className="opacity-50">기간</span> <span>{formatDate(startDate)} ~ {formatDate(endDate)} ({workingDays}일)</span></div>}
+                {schedule && (
+                    <>
+                        <div className="flex items-center justify-between"><span className="opacity-50">빠른/늦은 시작</span> <span>{formatDate(schedule.earlyStart)} / {formatDate(schedule.lateStart)}</span></div>
+                        <div className="flex items-center justify-between"><span className="opacity-50">여유 (Float)</span> <span className={schedule.isCritical ? 'text-rose-500 dark:text-rose-400' : 'text-gray-900 dark:text-white'}>{schedule.isCritical ? '주공정 (0일)' : `${schedule.totalFloat}일`}</span></div>
+                    </>
+                )}
+                {baseline && variance && (
+                    <>
+                        <div className="flex items-center justify-between"><span className="opacity-50">베이스라인</span> <span>{formatDate(baseline.startDate)} ~ {formatDate(baseline.endDate)}</span></div>
+                        <div className="flex items-center justify-between"><span className="opacity-50">편차 (시작/종료)</span> <span className={getVarianceClass(variance.finishDays)}>{formatVariance(variance.startDays)}일 / {formatVariance(variance.finishDays)}일</span></div>
+                    </>
+                )}
+                {isOverallocated && <div className="flex items-center justify-between text-amber-600 dark:text-amber-400"><span>⚠ 중복 배정</span> <span>같은 기간 다른 작업 있음</span></div>}
+                {!isMilestone && (
+                    <div className="pt-2">
+                        <div className="flex items-center justify-between mb-1.5"><span className="opacity-50">진행률</span> <span className="text-gray-900 dark:text-white">{task.progress}%</span></div>
+                        <div className="w-full h-1.5 bg-gray-200 dark:bg-gray-800 rounded-full overflow-hidden">
+                            <div className={`h-full ${barColor} opacity-80`} style={{ width: `${task.progress}%` }}></div>
+                        </div>
                     </div>
-                </div>
+                )}
             </div>
             {task.description && (
                 <div className="pt-3 border-t border-gray-200 dark:border-gray-700 mt-2">
@@ -738,8 +2788,10 @@ const TaskBar: FC<{
         </div>
     );
 
-    const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
-        if (window.matchMedia("(pointer: coarse)").matches) return;
+    const dragCursor = readOnly ? 'cursor-default' : dragPreview ? 'cursor-grabbing' : 'cursor-grab';
+
+    const handleProgressMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+        if (readOnly || window.matchMedia("(pointer: coarse)").matches) return;
         e.preventDefault(); e.stopPropagation();
         isDraggingRef.current = true;
         const updateProgress = (clientX: number) => {
@@ -754,39 +2806,96 @@ const TaskBar: FC<{
         document.addEventListener('mousemove', handleMouseMove); document.addEventListener('mouseup', handleMouseUp);
     };
 
+    const handleDragMouseDown = (mode: TaskBarDragMode) => (e: React.MouseEvent<HTMLDivElement>) => {
+        if (readOnly || window.matchMedia("(pointer: coarse)").matches) return;
+        e.preventDefault(); e.stopPropagation();
+        isDraggingRef.current = true;
+        const originX = e.clientX;
+        const originStart = new Date(task.startDate);
+        const originEnd = new Date(task.endDate);
+        let preview = { startDate: originStart, endDate: originEnd };
+        const handleMouseMove = (moveEvent: MouseEvent) => {
+            if (!isDraggingRef.current) return;
+            const deltaDays = Math.round((moveEvent.clientX - originX) / dayWidth);
+            preview = shiftTaskRange(mode, originStart, originEnd, deltaDays);
+            setDragPreview(preview);
+        };
+        const handleMouseUp = () => {
+            isDraggingRef.current = false;
+            document.removeEventListener('mousemove', handleMouseMove); document.removeEventListener('mouseup', handleMouseUp);
+            setDragPreview(null);
+            if (preview.startDate.getTime() !== originStart.getTime() || preview.endDate.getTime() !== originEnd.getTime()) {
+                onDatesChange(preview.startDate, preview.endDate);
+            }
+        };
+        document.addEventListener('mousemove', handleMouseMove); document.addEventListener('mouseup', handleMouseUp);
+    };
+
+    if (isMilestone) {
+        const size = Math.round(barHeight * 0.6);
+        return (
+            <div className="absolute top-1/2 -translate-y-1/2" style={{ left, height: barHeight, width: Math.max(0, width) }}>
+                {dragPreview && (
+                    <div className="absolute bottom-full left-0 mb-1.5 px-2 py-1 rounded-md bg-gray-900/90 dark:bg-white/90 text-white dark:text-gray-900 text-[10px] font-black tracking-wider whitespace-nowrap shadow-lg pointer-events-none z-30">
+                        {formatDate(dragPreview.startDate)}
+                    </div>
+                )}
+                <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2" style={{ width: size, height: size }}>
+                    <Tooltip content={tooltipContent}>
+                        <div onMouseDown={handleDragMouseDown('move')} className={`w-full h-full rotate-45 rounded-[3px] ${barColor} shadow-md ring-2 ${schedule?.isCritical ? 'ring-rose-500 dark:ring-rose-400' : 'ring-white dark:ring-gray-900'} ${dragCursor}`} />
+                    </Tooltip>
+                </div>
+                <div className="absolute top-0 h-full flex items-center pointer-events-none whitespace-nowrap" style={{ left: '50%', paddingLeft: size }}>
+                    <span className="font-black text-gray-700 dark:text-white tracking-tight" style={{ fontSize }}>{label}</span>
+                </div>
+            </div>
+        );
+    }
+
     const textOffset = `max(0px, calc(var(--gantt-scroll-left, 0px) - ${left}px))`;
     const visibleBarWidth = `calc(${width}px - ${textOffset})`;
 
     return (
-        <div className="absolute top-1/2 -translate-y-1/2" style={{ left, height: barHeight }}>
+        <div className="absolute top-1/2 -translate-y-1/2 group/bar" style={{ left, height: barHeight }}>
+            {dragPreview && (
+                <div className="absolute bottom-full left-0 mb-1.5 px-2 py-1 rounded-md bg-gray-900/90 dark:bg-white/90 text-white dark:text-gray-900 text-[10px] font-black tracking-wider whitespace-nowrap shadow-lg pointer-events-none z-30">
+                    {formatDate(dragPreview.startDate)} ~ {formatDate(dragPreview.endDate)} · 근무 {workingDays}일
+                </div>
+            )}
             <div style={{ width: Math.max(0, width), height: '100%' }}>
                 <Tooltip content={tooltipContent}>
-                    <div ref={barRef} onMouseDown={handleMouseDown} className="w-full h-full rounded-xl bg-white dark:bg-gray-800/90 shadow-md dark:shadow-2xl hover:ring-2 hover:ring-indigo-500/40 dark:hover:ring-white/40 transition-all duration-300 cursor-pointer flex items-center overflow-hidden border border-gray-200 dark:border-white/5">
-                        <div className={`h-full ${task.color} pointer-events-none transition-all duration-500 opacity-80 dark:opacity-70`} style={{ width: `${task.progress}%` }}></div>
+                    <div ref={barRef} onMouseDown={handleDragMouseDown('move')} className={`relative w-full h-full rounded-xl bg-white dark:bg-gray-800/90 shadow-md dark:shadow-2xl hover:ring-2 hover:ring-indigo-500/40 dark:hover:ring-white/40 transition-all duration-300 flex items-center overflow-hidden border ${schedule?.isCritical ? 'border-rose-500/80 dark:border-rose-400/80' : 'border-gray-200 dark:border-white/5'} ${dragCursor} ${dragPreview ? 'ring-2 ring-indigo-500/60' : ''}`}>
+                        <div className={`h-full ${barColor} pointer-events-none transition-all duration-500 opacity-80 dark:opacity-70`} style={{ width: `${task.progress}%` }}></div>
+                        {/* Edge handles for changing start / end dates */}
+                        {!readOnly && <div onMouseDown={handleDragMouseDown('resize-start')} className="absolute left-0 top-0 h-full w-2 cursor-ew-resize z-10 hover:bg-indigo-500/30" />}
+                        {!readOnly && <div onMouseDown={handleDragMouseDown('resize-end')} className="absolute right-0 top-0 h-full w-2 cursor-ew-resize z-10 hover:bg-indigo-500/30" />}
                     </div>
                 </Tooltip>
             </div>
+            {isOverallocated && <div className="absolute -top-1.5 -right-1.5 z-20 w-4 h-4 rounded-full bg-amber-500 text-white text-[9px] font-black flex items-center justify-center shadow pointer-events-none">!</div>}
+            {/* Progress handle (separate from the bar body, which moves the task) */}
+            {!dragPreview && !readOnly && (
+                <div onMouseDown={handleProgressMouseDown} className="absolute top-0 h-full flex items-center cursor-col-resize z-20 opacity-0 group-hover/bar:opacity-100 transition-opacity" style={{ left: `calc(${Math.max(0, width) * task.progress / 100}px - 5px)`, width: 10 }}>
+                    <div className="w-1.5 h-2/3 mx-auto rounded-full bg-white dark:bg-gray-200 border border-indigo-500 shadow" />
+                </div>
+            )}
             <div className="absolute top-0 h-full flex items-center pointer-events-none" style={{ transform: `translateX(${textOffset})`}}>
                 <span className="font-black text-gray-700 dark:text-white px-4 truncate drop-shadow-sm dark:drop-shadow-xl tracking-tight mix-blend-difference dark:mix-blend-normal" style={{ maxWidth: visibleBarWidth, fontSize }}>
-                    {task.name}
+                    {label}
                 </span>
             </div>
         </div>
     );
 };
 
-const ProjectBar: FC<{ project: Project; viewStartDate: Date; dayWidth: number; barHeight: number; fontSize: number }> = ({ project, viewStartDate, dayWidth, barHeight, fontSize }) => {
+const ProjectBar: FC<{ project: Project; criticalFinishDate?: Date | null; viewStartDate: Date; dayWidth: number; barHeight: number; fontSize: number }> = ({ project, criticalFinishDate, viewStartDate, dayWidth, barHeight, fontSize }) => {
     if (project.tasks.length === 0) return null;
     const startDates = project.tasks.map(t => new Date(t.startDate));
     const endDates = project.tasks.map(t => new Date(t.endDate));
     const projectStartDate = new Date(Math.min(...startDates.map(d => d.getTime())));
     const projectEndDate = new Date(Math.max(...endDates.map(d => d.getTime())));
-    const totalProgress = project.tasks.reduce((sum, task) => sum + (task.progress || 0), 0);
-    const averageProgress = project.tasks.length > 0 ? Math.round(totalProgress / project.tasks.length) : 0;
-    const startOffsetDays = getDaysBetween(viewStartDate, projectStartDate) - 1;
-    const durationDays = getDaysBetween(projectStartDate, projectEndDate);
-    const left = startOffsetDays * dayWidth;
-    const width = durationDays * dayWidth - 4;
+    const averageProgress = getAverageProgress(project.tasks);
+    const { left, width } = getBarGeometry(projectStartDate, projectEndDate, viewStartDate, dayWidth);
     // Removed strict max-width check
     if (left + width < 0) return null;
 
@@ -794,59 +2903,218 @@ const ProjectBar: FC<{ project: Project; viewStartDate: Date; dayWidth: number;
     const visibleBarWidth = `calc(${width}px - ${textOffset})`;
 
     return (
-        <div className="absolute top-1/2 -translate-y-1/2 flex items-center" style={{ left, height: barHeight, width: Math.max(0, width) }}>
-            <Tooltip content={<div className="text-xs p-2 font-black uppercase tracking-wider text-indigo-600 dark:text-indigo-200">{project.name} <br/><span className="text-gray-900 dark:text-white">{averageProgress}% COMPLETE</span></div>}>
-                <div className="relative w-full h-full flex items-center group cursor-pointer">
-                    {/* Glow & Track Background */}
-                    <div className="absolute inset-0 bg-indigo-500/20 blur-xl rounded-full opacity-0 group-hover:opacity-100 transition-opacity duration-500" />
-                    
-                    <div className="relative w-full h-full flex items-center justify-center">
-                        {/* Horizontal Body (The Track) - Thick body with border */}
-                        <div className="absolute w-full h-8 bg-white dark:bg-gray-900/90 border border-gray-300 dark:border-indigo-500/50 rounded-sm overflow-hidden shadow-lg backdrop-blur-sm z-10">
-                            {/* Inner Progress Fill */}
-                            <div className="h-full bg-gradient-to-r from-indigo-500 via-indigo-600 to-indigo-700 dark:from-indigo-700 dark:via-indigo-600 dark:to-indigo-500 transition-all duration-700 relative" style={{ width: `${averageProgress}%` }}>
-                                <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent -translate-x-full animate-[shimmer_2s_infinite]"></div>
+        <div className="absolute top-1/2 -translate-y-1/2 flex items-center" style={{ left, height: barHeight, width: Math.max(0, width) }}>
+            <Tooltip content={<div className="text-xs p-2 font-black uppercase tracking-wider text-indigo-600 dark:text-indigo-200">{project.name} <br/><span className="text-gray-900 dark:text-white">{averageProgress}% COMPLETE</span>{criticalFinishDate && <><br/><span className="text-rose-500 dark:text-rose-400">CRITICAL FINISH {formatDate(criticalFinishDate)}</span></>}</div>}>
+                <div className="relative w-full h-full flex items-center group cursor-pointer">
+                    {/* Glow & Track Background */}
+                    <div className="absolute inset-0 bg-indigo-500/20 blur-xl rounded-full opacity-0 group-hover:opacity-100 transition-opacity duration-500" />
+                    
+                    <div className="relative w-full h-full flex items-center justify-center">
+                        {/* Horizontal Body (The Track) - Thick body with border */}
+                        <div className="absolute w-full h-8 bg-white dark:bg-gray-900/90 border border-gray-300 dark:border-indigo-500/50 rounded-sm overflow-hidden shadow-lg backdrop-blur-sm z-10">
+                            {/* Inner Progress Fill */}
+                            <div className="h-full bg-gradient-to-r from-indigo-500 via-indigo-600 to-indigo-700 dark:from-indigo-700 dark:via-indigo-600 dark:to-indigo-500 transition-all duration-700 relative" style={{ width: `${averageProgress}%` }}>
+                                <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent -translate-x-full animate-[shimmer_2s_infinite]"></div>
+                            </div>
+                        </div>
+
+                        {/* Traditional Gantt Brackets (Summary Marks) */}
+                        {/* Start (Left) Bracket */}
+                        <div className="absolute left-0 top-1/2 -translate-y-1/2 h-10 w-[6px] border-l-4 border-t-4 border-b-4 border-indigo-500 dark:border-indigo-400 rounded-l-sm z-20"></div>
+                        
+                        {/* End (Right) Bracket */}
+                        <div className="absolute right-0 top-1/2 -translate-y-1/2 h-10 w-[6px] border-r-4 border-t-4 border-b-4 border-indigo-500 dark:border-indigo-400 rounded-r-sm z-20"></div>
+                    </div>
+
+                    {/* Project Label Overlay */}
+                    <div className="absolute top-0 h-full flex items-center pointer-events-none z-30" style={{ transform: `translateX(${textOffset})` }}>
+                        <span className="font-bold text-gray-900 dark:text-white px-6 tracking-tight drop-shadow-[0_2px_4px_rgba(255,255,255,0.8)] dark:drop-shadow-[0_2px_4px_rgba(0,0,0,0.8)]" style={{ maxWidth: visibleBarWidth, fontSize: fontSize + 1 }}>
+                            {project.name} <span className="ml-2 text-indigo-600 dark:text-indigo-300">{averageProgress}%</span>
+                        </span>
+                    </div>
+                </div>
+            </Tooltip>
+        </div>
+    );
+};
+
+// Thin ghost of the baselined dates, drawn just under the task bar
+const BaselineBar: FC<{ baseline: BaselineTask; viewStartDate: Date; dayWidth: number; barHeight: number }> = ({ baseline, viewStartDate, dayWidth, barHeight }) => {
+    const { left, width } = getBarGeometry(new Date(baseline.startDate), new Date(baseline.endDate), viewStartDate, dayWidth);
+    if (left + width < 0) return null;
+    return <div className="absolute h-1 rounded-full bg-gray-400/60 dark:bg-gray-500/50 pointer-events-none" style={{ left, width, top: `calc(50% + ${barHeight / 2 + 2}px)` }} />;
+};
+
+// Diamond shown on a collapsed project row for each of its milestones
+const MilestoneMarker: FC<{ task: Task; viewStartDate: Date; dayWidth: number; size: number }> = ({ task, viewStartDate, dayWidth, size }) => {
+    const { left, width } = getBarGeometry(new Date(task.startDate), new Date(task.endDate), viewStartDate, dayWidth);
+    if (left + width < 0) return null;
+    return (
+        <div className="absolute top-1/2 -translate-x-1/2 -translate-y-1/2 z-40" style={{ left: left + width / 2, width: size, height: size }}>
+            <Tooltip content={<div className="text-xs p-2 font-black uppercase tracking-wider text-amber-600 dark:text-amber-300">◆ {task.name}<br/><span className="text-gray-900 dark:text-white">{formatDate(new Date(task.startDate))}</span></div>}>
+                <div className={`w-full h-full rotate-45 rounded-[2px] ${task.color} ring-2 ring-white dark:ring-gray-900 shadow`} />
+            </Tooltip>
+        </div>
+    );
+};
+
+const TimelineGridBackground: FC<{ columns: TimelineColumn[], zoom: ZoomLevel, workCalendar: WorkCalendar, todayString: string, sidebarWidth: number, dayWidth: number }> = ({ columns, zoom, workCalendar, todayString, sidebarWidth, dayWidth }) => {
+    return (
+        <div className="absolute top-0 left-0 h-full w-full flex pointer-events-none" style={{ zIndex: 0 }}>
+            <div style={{ width: sidebarWidth, minWidth: sidebarWidth }}></div>
+            <div className="flex-grow flex h-full">
+                {columns.map((col, index) => {
+                    const isToday = columnContainsDate(col, todayString);
+                    // Non-working days are only shaded when a column is a single day
+                    const offDayName = zoom === 'day' ? getNonWorkingDayName(col.start, workCalendar) : null;
+                    const shading = !offDayName ? '' : offDayName === '주말' ? 'bg-gray-50/50 dark:bg-gray-800/10' : 'bg-rose-50/60 dark:bg-rose-400/5';
+                    return (
+                        <div key={index} className={`h-full border-r border-gray-200/60 dark:border-gray-800/40 ${shading} ${isToday ? 'bg-yellow-50/50 dark:bg-yellow-400/5' : ''}`} style={{ width: col.days * dayWidth, minWidth: col.days * dayWidth }} />
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+interface BarAnchor { left: number; right: number; y: number; }
+
+// Elbow connector between two bars; FS/FF leave from the predecessor's end, SS from its start
+const buildDependencyPath = (type: DependencyType, pred: BarAnchor, succ: BarAnchor, rowHeight: number): string => {
+    const gap = 8;
+    if (type === 'SS') {
+        const x = Math.min(pred.left, succ.left) - gap;
+        return `M ${pred.left} ${pred.y} H ${x} V ${succ.y} H ${succ.left}`;
+    }
+    if (type === 'FF') {
+        const x = Math.max(pred.right, succ.right) + gap;
+        return `M ${pred.right} ${pred.y} H ${x} V ${succ.y} H ${succ.right}`;
+    }
+    if (succ.left - pred.right >= gap * 2) {
+        return `M ${pred.right} ${pred.y} H ${pred.right + gap} V ${succ.y} H ${succ.left}`;
+    }
+    // Successor starts before the predecessor's end on screen: route around between the rows
+    const midY = succ.y + (succ.y > pred.y ? -rowHeight / 2 : rowHeight / 2);
+    return `M ${pred.right} ${pred.y} H ${pred.right + gap} V ${midY} H ${succ.left - gap} V ${succ.y} H ${succ.left}`;
+};
+
+// Concurrent task count per cell; anything above one task a day is a double booking
+const getLoadCellClass = (peak: number) => {
+    if (peak === 0) return '';
+    if (peak <= MAX_TASKS_PER_DAY) return 'bg-emerald-400/30 dark:bg-emerald-400/20 text-emerald-700 dark:text-emerald-300';
+    if (peak === MAX_TASKS_PER_DAY + 1) return 'bg-rose-400/40 dark:bg-rose-500/30 text-rose-700 dark:text-rose-200';
+    return 'bg-rose-600/70 dark:bg-rose-500/60 text-white';
+};
+
+// Employee load heatmap shown under the task rows, one row per employee grouped by department
+const ResourcePanel: FC<{
+    departments: Department[];
+    resourceLoad: ResourceLoad;
+    columns: TimelineColumn[];
+    sidebarWidth: number;
+    dayWidth: number;
+    rowHeight: number;
+    fontSize: number;
+}> = ({ departments, resourceLoad, columns, sidebarWidth, dayWidth, rowHeight, fontSize }) => {
+    const visibleDepartments = departments.filter(d => d.employees.length > 0);
+    const timelineDays = columns.reduce((sum, col) => sum + col.days, 0);
+    const timelineStart = columns[0]?.start;
+
+    return (
+        <div className="relative border-t-2 border-indigo-500/30">
+            <div className="flex border-b border-gray-200 dark:border-gray-800" style={{ height: rowHeight * 0.7 }}>
+                <div style={{ width: sidebarWidth, minWidth: sidebarWidth }} className="flex items-center gap-2 px-5 sticky left-0 z-10 bg-gray-50 dark:bg-gray-900 border-r border-gray-200 dark:border-gray-800 text-[9px] uppercase font-black text-gray-500 tracking-widest">
+                    <UsersIcon className="h-4 w-4 text-indigo-500" />
+                    <span>RESOURCE LOAD</span>
+                    <span className="ml-auto normal-case tracking-normal font-bold text-gray-400">동시 작업 수</span>
+                </div>
+                <div className="flex-grow" />
+            </div>
+            {visibleDepartments.length === 0 && (
+                <div className="flex border-b border-gray-200/50 dark:border-gray-800/20" style={{ height: rowHeight * 0.7 }}>
+                    <div style={{ width: sidebarWidth, minWidth: sidebarWidth }} className="flex items-center px-5 sticky left-0 z-10 bg-white/90 dark:bg-gray-900/90 border-r border-gray-200 dark:border-gray-800 text-[11px] text-gray-400">표시할 직원이 없습니다.</div>
+                </div>
+            )}
+            {visibleDepartments.map(department => (
+                <div key={department.id}>
+                    <div style={{ width: sidebarWidth, minWidth: sidebarWidth, height: rowHeight * 0.5 }} className="flex items-center px-5 sticky left-0 z-10 bg-gray-50/95 dark:bg-gray-900/95 border-r border-b border-gray-200 dark:border-gray-800 text-[10px] font-black uppercase tracking-wider text-indigo-600/80 dark:text-indigo-400/80 truncate">{department.name}</div>
+                    {department.employees.map(employee => {
+                        const days = resourceLoad.get(employee.id);
+                        const overbookedDays = timelineStart ? Array.from({ length: timelineDays }, (_, i) => getPeakLoad(days, addDays(timelineStart, i), 1)).filter(peak => peak > MAX_TASKS_PER_DAY).length : 0;
+                        return (
+                            <div key={employee.id} className="flex border-b border-gray-200/50 dark:border-gray-800/20" style={{ height: rowHeight * 0.7 }}>
+                                <div style={{ width: sidebarWidth, minWidth: sidebarWidth }} className="flex items-center justify-between gap-2 px-5 pl-10 sticky left-0 z-10 bg-white/90 dark:bg-gray-900/90 backdrop-blur-md border-r border-gray-200 dark:border-gray-800">
+                                    <span className="font-bold text-gray-600 dark:text-gray-400 truncate" style={{ fontSize }}>{employee.name}</span>
+                                    {overbookedDays > 0 && <span className="shrink-0 px-1.5 py-0.5 rounded bg-rose-500/10 border border-rose-500/30 text-[9px] font-black text-rose-600 dark:text-rose-400" title="화면 범위에서 중복 배정된 근무일 수">⚠ {overbookedDays}일</span>}
+                                </div>
+                                <div className="flex flex-grow h-full">
+                                    {columns.map((col, index) => {
+                                        const peak = getPeakLoad(days, col.start, col.days);
+                                        const width = col.days * dayWidth;
+                                        return (
+                                            <div key={index} title={peak > 0 ? `${employee.name} · ${col.label}${col.subLabel ? ` (${col.subLabel})` : ''}: 작업 ${peak}건` : undefined} className={`h-full flex items-center justify-center text-[10px] font-black border-r border-gray-200/40 dark:border-gray-800/30 ${getLoadCellClass(peak)}`} style={{ width, minWidth: width }}>
+                                                {peak > 0 && width >= 16 ? peak : ''}
+                                            </div>
+                                        );
+                                    })}
+                                </div>
                             </div>
-                        </div>
-
-                        {/* Traditional Gantt Brackets (Summary Marks) */}
-                        {/* Start (Left) Bracket */}
-                        <div className="absolute left-0 top-1/2 -translate-y-1/2 h-10 w-[6px] border-l-4 border-t-4 border-b-4 border-indigo-500 dark:border-indigo-400 rounded-l-sm z-20"></div>
-                        
-                        {/* End (Right) Bracket */}
-                        <div className="absolute right-0 top-1/2 -translate-y-1/2 h-10 w-[6px] border-r-4 border-t-4 border-b-4 border-indigo-500 dark:border-indigo-400 rounded-r-sm z-20"></div>
-                    </div>
-
-                    {/* Project Label Overlay */}
-                    <div className="absolute top-0 h-full flex items-center pointer-events-none z-30" style={{ transform: `translateX(${textOffset})` }}>
-                        <span className="font-bold text-gray-900 dark:text-white px-6 tracking-tight drop-shadow-[0_2px_4px_rgba(255,255,255,0.8)] dark:drop-shadow-[0_2px_4px_rgba(0,0,0,0.8)]" style={{ maxWidth: visibleBarWidth, fontSize: fontSize + 1 }}>
-                            {project.name} <span className="ml-2 text-indigo-600 dark:text-indigo-300">{averageProgress}%</span>
-                        </span>
-                    </div>
+                        );
+                    })}
                 </div>
-            </Tooltip>
+            ))}
         </div>
     );
 };
 
-const TimelineGridBackground: FC<{ dates: Date[], todayString: string, sidebarWidth: number, dayWidth: number }> = ({ dates, todayString, sidebarWidth, dayWidth }) => (
-    <div className="absolute top-0 left-0 h-full w-full flex pointer-events-none" style={{ zIndex: 0 }}>
-        <div style={{ width: sidebarWidth, minWidth: sidebarWidth }}></div>
-        <div className="flex-grow flex h-full">
-            {dates.map((date, index) => {
-                const isWeekend = date.getDay() === 0 || date.getDay() === 6;
-                const isToday = formatDate(date) === todayString;
-                return (
-                    <div key={index} className={`h-full border-r border-gray-200/60 dark:border-gray-800/40 ${isWeekend ? 'bg-gray-50/50 dark:bg-gray-800/10' : ''} ${isToday ? 'bg-yellow-50/50 dark:bg-yellow-400/5' : ''}`} style={{ width: dayWidth, minWidth: dayWidth }} />
-                );
-            })}
-        </div>
-    </div>
-);
+interface PeopleLaneTask { task: Task; projectId: string; projectName: string; lane: number; }
+interface PeopleRow { employee: Employee; tasks: PeopleLaneTask[]; laneCount: number; }
+interface PeopleGroup { department: Department; rows: PeopleRow[]; }
+
+const UNASSIGNED_GROUP_ID = 'unassigned';
+
+// Department → employee rows, each employee's tasks from every project packed into non-overlapping lanes
+const buildPeopleGroups = (departments: Department[], projects: Project[]): PeopleGroup[] => {
+    const tasksByEmployee = new Map<string, Omit<PeopleLaneTask, 'lane'>[]>();
+    projects.forEach(project => project.tasks.forEach(task => {
+        const entries = tasksByEmployee.get(task.employeeId) || [];
+        entries.push({ task, projectId: project.id, projectName: project.name });
+        tasksByEmployee.set(task.employeeId, entries);
+    }));
+    const toRow = (employee: Employee): PeopleRow => {
+        const entries = tasksByEmployee.get(employee.id) || [];
+        tasksByEmployee.delete(employee.id);
+        const { lanes, laneCount } = packIntoLanes(entries.map(e => e.task));
+        return { employee, tasks: entries.map(e => ({ ...e, lane: lanes.get(e.task.id) ?? 0 })), laneCount: Math.max(1, laneCount) };
+    };
+    const groups = departments.filter(d => d.employees.length > 0).map(department => ({ department, rows: department.employees.map(toRow) }));
+
+    // Tasks whose assignee no longer exists
+    const orphaned = Array.from(tasksByEmployee.values()).flat();
+    if (orphaned.length > 0) {
+        const { lanes, laneCount } = packIntoLanes(orphaned.map(e => e.task));
+        groups.push({
+            department: { id: UNASSIGNED_GROUP_ID, name: '미배정', employees: [] },
+            rows: [{ employee: { id: '', name: '담당자 없음', departmentId: UNASSIGNED_GROUP_ID }, tasks: orphaned.map(e => ({ ...e, lane: lanes.get(e.task.id) ?? 0 })), laneCount: Math.max(1, laneCount) }],
+        });
+    }
+    return groups;
+};
 
 const GanttView: FC<{
     projects: Project[];
-    timelineDates: Date[];
+    dependencies: TaskDependency[];
+    criticalPaths: Map<string, CriticalPathResult>;
+    timelineColumns: TimelineColumn[];
+    zoomLevel: ZoomLevel;
+    workCalendar: WorkCalendar;
+    resourceLoad: ResourceLoad;
+    overallocatedTaskIds: Set<string>;
+    visibleDepartments: Department[];
+    activeBaselines: Map<string, Baseline>;
+    baselineTasks: Map<string, BaselineTask>;
+    showResourcePanel: boolean;
+    viewMode: GanttViewMode;
     viewStartDate: Date;
     todayString: string;
     employeeMap: Map<string, Employee>;
@@ -856,6 +3124,7 @@ const GanttView: FC<{
     onAddTaskClick: (projectId: string) => void;
     onAddProjectClick: () => void;
     onTaskProgressChange: (projectId: string, taskId: string, progress: number) => void;
+    onTaskDatesChange: (projectId: string, taskId: string, startDate: Date, endDate: Date) => void;
     onEditProject: (project: Project) => void;
     onDeleteProject: (project: Project) => void;
     onEditTask: (task: Task, projectId: string) => void;
@@ -864,18 +3133,84 @@ const GanttView: FC<{
     setColumnWidths: React.Dispatch<React.SetStateAction<typeof DEFAULT_COLUMN_WIDTHS>>;
     onReorderProjects: (draggedId: string, targetId: string) => void;
     onReorderTasks: (projectId: string, draggedId: string, targetId: string) => void;
+    onReorderDepartments: (draggedId: string, targetId: string) => void;
+    onReorderEmployees: (draggedId: string, targetId: string) => void;
+    permissions: Permissions;
     uiSettings: UISettings;
-}> = ({ projects, timelineDates, viewStartDate, todayString, employeeMap, departmentMap, expandedProjects, toggleProjectExpansion, onAddTaskClick, onAddProjectClick, onTaskProgressChange, onEditProject, onDeleteProject, onEditTask, onDeleteTask, columnWidths, setColumnWidths, onReorderProjects, onReorderTasks, uiSettings }) => {
+}> = ({ projects, dependencies, criticalPaths, timelineColumns, zoomLevel, workCalendar, resourceLoad, overallocatedTaskIds, visibleDepartments, activeBaselines, baselineTasks, showResourcePanel, viewMode, viewStartDate, todayString, employeeMap, departmentMap, expandedProjects, toggleProjectExpansion, onAddTaskClick, onAddProjectClick, onTaskProgressChange, onTaskDatesChange, onEditProject, onDeleteProject, onEditTask, onDeleteTask, columnWidths, setColumnWidths, onReorderProjects, onReorderTasks, onReorderDepartments, onReorderEmployees, permissions, uiSettings }) => {
     
     const [draggedProjectId, setDraggedProjectId] = useState<string | null>(null);
     const [draggedTaskId, setDraggedTaskId] = useState<{pid: string, tid: string} | null>(null);
     const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+    const [collapsedDepartments, setCollapsedDepartments] = useState<Record<string, boolean>>({});
     const [scrollLeft, setScrollLeft] = useState(0);
     const [isMobile, setIsMobile] = useState(false);
     useEffect(() => { const checkMobile = () => setIsMobile(window.innerWidth < 768); checkMobile(); window.addEventListener('resize', checkMobile); return () => window.removeEventListener('resize', checkMobile); }, []);
-    const visibleColumnWidths = useMemo<typeof DEFAULT_COLUMN_WIDTHS>(() => isMobile ? { project: Math.max(140, columnWidths.project * 0.7), department: 0, author: 0, progress: 0 } : columnWidths, [isMobile, columnWidths]);
+    const visibleColumnWidths = useMemo<typeof DEFAULT_COLUMN_WIDTHS>(() => isMobile
+        ? { project: Math.max(140, columnWidths.project * 0.7), department: 0, author: 0, progress: 0, variance: 0 }
+        : { ...columnWidths, variance: uiSettings.showVarianceColumn ? columnWidths.variance : 0 }, [isMobile, columnWidths, uiSettings.showVarianceColumn]);
     const sidebarWidth = (Object.values(visibleColumnWidths) as number[]).reduce((sum, width) => sum + width, 0);
-    const timelineWidth: number = timelineDates.length * uiSettings.dayWidth;
+    // Pixels per calendar day at the current zoom; every bar and column is placed with it
+    const dayWidth = getPixelsPerDay(zoomLevel, uiSettings.dayWidth);
+    const timelineWidth: number = timelineColumns.reduce((sum, col) => sum + col.days, 0) * dayWidth;
+
+    // Completed tasks that have scrolled out of view to the left are dropped from the list
+    const isTaskRowHidden = (task: Task) => {
+        const { left, width } = getBarGeometry(new Date(task.startDate), new Date(task.endDate), viewStartDate, dayWidth);
+        return task.progress === 100 && left + width < scrollLeft;
+    };
+
+    const taskSchedules = useMemo(() => {
+        const merged = new Map<string, TaskSchedule>();
+        criticalPaths.forEach(result => result.tasks.forEach((schedule, taskId) => merged.set(taskId, schedule)));
+        return merged;
+    }, [criticalPaths]);
+
+    const peopleGroups = useMemo(() => viewMode === 'people' ? buildPeopleGroups(visibleDepartments, projects) : [], [viewMode, visibleDepartments, projects]);
+
+    // Row-by-row layout of the visible bars, used to draw dependency arrows
+    const { dependencyPaths, bodyHeight } = (() => {
+        const anchors = new Map<string, BarAnchor>();
+        const addAnchor = (task: Task, y: number) => {
+            const { left, width } = getBarGeometry(new Date(task.startDate), new Date(task.endDate), viewStartDate, dayWidth);
+            if (task.kind === 'milestone') {
+                // Connect to the diamond's tips rather than the whole day cell
+                const halfDiagonal = uiSettings.taskBarHeight * 0.6 * 0.71;
+                anchors.set(task.id, { left: left + width / 2 - halfDiagonal, right: left + width / 2 + halfDiagonal, y });
+            } else {
+                anchors.set(task.id, { left, right: left + width, y });
+            }
+        };
+        let top = 0;
+        if (viewMode === 'people') {
+            peopleGroups.forEach(group => {
+                top += uiSettings.rowHeight;
+                if (collapsedDepartments[group.department.id]) return;
+                group.rows.forEach(row => {
+                    row.tasks.forEach(({ task, lane }) => addAnchor(task, top + lane * uiSettings.rowHeight + uiSettings.rowHeight / 2));
+                    top += row.laneCount * uiSettings.rowHeight;
+                });
+            });
+        } else {
+            projects.forEach(project => {
+                top += uiSettings.rowHeight;
+                if (!(expandedProjects[project.id] ?? true)) return;
+                project.tasks.forEach(task => {
+                    if (isTaskRowHidden(task)) return;
+                    addAnchor(task, top + uiSettings.rowHeight / 2);
+                    top += uiSettings.rowHeight;
+                });
+            });
+        }
+        const paths = dependencies.flatMap(dep => {
+            const pred = anchors.get(dep.predecessorId);
+            const succ = anchors.get(dep.successorId);
+            if (!pred || !succ) return [];
+            const isCritical = !!(taskSchedules.get(dep.predecessorId)?.isCritical && taskSchedules.get(dep.successorId)?.isCritical);
+            return [{ id: dep.id, d: buildDependencyPath(dep.type, pred, succ, uiSettings.rowHeight), isCritical }];
+        });
+        return { dependencyPaths: paths, bodyHeight: top };
+    })();
 
     const handleResizeMouseDown = (e: React.MouseEvent, columnKey: keyof typeof columnWidths) => {
         if (isMobile) return; e.preventDefault(); e.stopPropagation();
@@ -887,7 +3222,8 @@ const GanttView: FC<{
 
     const handleScroll = (e: React.UIEvent<HTMLDivElement>) => { const sl = e.currentTarget.scrollLeft; e.currentTarget.style.setProperty('--gantt-scroll-left', `${sl}px`); setScrollLeft(sl); };
 
-    if (projects.length === 0) return <div className="absolute inset-0 flex flex-col items-center justify-center text-gray-500 gap-4"><FilterIcon className="h-12 w-12 opacity-20" /><p className="font-bold tracking-tight">일치하는 결과가 없습니다.</p></div>;
+    const isEmpty = viewMode === 'people' ? peopleGroups.length === 0 : projects.length === 0;
+    if (isEmpty) return <div className="absolute inset-0 flex flex-col items-center justify-center text-gray-500 gap-4"><FilterIcon className="h-12 w-12 opacity-20" /><p className="font-bold tracking-tight">일치하는 결과가 없습니다.</p></div>;
 
     return (
         <div onScroll={handleScroll} className="flex-grow overflow-auto border border-gray-200 dark:border-gray-800 rounded-3xl shadow-inner bg-white/40 dark:bg-gray-950/40 relative no-scrollbar transition-colors">
@@ -895,23 +3231,109 @@ const GanttView: FC<{
                 <div className="flex flex-shrink-0 sticky top-0 z-20 bg-white/95 dark:bg-gray-900/95 backdrop-blur-xl transition-colors" style={{ height: uiSettings.rowHeight }}>
                     <div style={{ width: sidebarWidth, minWidth: sidebarWidth }} className="flex items-center text-[9px] uppercase font-black text-gray-500 border-r border-b border-gray-200 dark:border-gray-800 sticky left-0 z-30 bg-gray-50 dark:bg-gray-900 transition-colors">
                         <div style={{ width: visibleColumnWidths.project }} className="px-5 flex items-center justify-between h-full relative">
-                            <span>NAME / TASK</span>
-                            <button onClick={onAddProjectClick} className="p-1.5 rounded-lg text-indigo-500 dark:text-indigo-400 hover:bg-indigo-500/10 dark:hover:bg-indigo-400/20 active:scale-90 transition-all"><PlusIcon className="h-3.5 w-3.5" /></button>
+                            <span>{viewMode === 'people' ? 'DEPT / MEMBER' : 'NAME / TASK'}</span>
+                            {permissions.canEditProjects && <button onClick={onAddProjectClick} className="p-1.5 rounded-lg text-indigo-500 dark:text-indigo-400 hover:bg-indigo-500/10 dark:hover:bg-indigo-400/20 active:scale-90 transition-all"><PlusIcon className="h-3.5 w-3.5" /></button>}
                             {!isMobile && <Resizer onMouseDown={e => handleResizeMouseDown(e, 'project')} />}
                         </div>
                         {visibleColumnWidths.department > 0 && <div style={{ width: visibleColumnWidths.department }} className="px-5 border-l border-gray-200 dark:border-gray-800 h-full flex items-center relative truncate"><span>DEPT</span><Resizer onMouseDown={e => handleResizeMouseDown(e, 'department')} /></div>}
                         {visibleColumnWidths.author > 0 && <div style={{ width: visibleColumnWidths.author }} className="px-5 border-l border-gray-200 dark:border-gray-800 h-full flex items-center relative truncate"><span>OWNER</span><Resizer onMouseDown={e => handleResizeMouseDown(e, 'author')} /></div>}
                         {visibleColumnWidths.progress > 0 && <div style={{ width: visibleColumnWidths.progress }} className="px-5 border-l border-gray-200 dark:border-gray-800 h-full flex items-center relative truncate"><span>PROG</span><Resizer onMouseDown={e => handleResizeMouseDown(e, 'progress')} /></div>}
+                        {visibleColumnWidths.variance > 0 && <div style={{ width: visibleColumnWidths.variance }} className="px-5 border-l border-gray-200 dark:border-gray-800 h-full flex items-center relative truncate" title="베이스라인 대비 시작 / 종료 편차 (일)"><span>VAR</span><Resizer onMouseDown={e => handleResizeMouseDown(e, 'variance')} /></div>}
                     </div>
-                    <div className="border-b border-gray-200 dark:border-gray-800 flex-grow"><TimelineHeader dates={timelineDates} todayString={todayString} dayWidth={uiSettings.dayWidth} fontSize={uiSettings.headerFontSize} /></div>
+                    <div className="border-b border-gray-200 dark:border-gray-800 flex-grow"><TimelineHeader columns={timelineColumns} zoom={zoomLevel} workCalendar={workCalendar} todayString={todayString} dayWidth={dayWidth} fontSize={uiSettings.headerFontSize} /></div>
                 </div>
 
                 <div className="relative">
-                     <TimelineGridBackground dates={timelineDates} todayString={todayString} sidebarWidth={sidebarWidth} dayWidth={uiSettings.dayWidth} />
-                    {projects.map(project => {
+                     <TimelineGridBackground columns={timelineColumns} zoom={zoomLevel} workCalendar={workCalendar} todayString={todayString} sidebarWidth={sidebarWidth} dayWidth={dayWidth} />
+                    {dependencyPaths.length > 0 && (
+                        <svg className="absolute top-0 pointer-events-none overflow-visible" style={{ left: sidebarWidth, zIndex: 5 }} width={timelineWidth} height={bodyHeight}>
+                            <defs>
+                                <marker id="gantt-dependency-arrow" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+                                    <path d="M 0 0 L 8 4 L 0 8 z" className="fill-indigo-500 dark:fill-indigo-400" />
+                                </marker>
+                                <marker id="gantt-dependency-arrow-critical" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+                                    <path d="M 0 0 L 8 4 L 0 8 z" className="fill-rose-500 dark:fill-rose-400" />
+                                </marker>
+                            </defs>
+                            {dependencyPaths.map(p => <path key={p.id} d={p.d} fill="none" strokeWidth={p.isCritical ? 2 : 1.5} className={p.isCritical ? 'stroke-rose-500/80 dark:stroke-rose-400/80' : 'stroke-indigo-500/70 dark:stroke-indigo-400/70'} markerEnd={p.isCritical ? 'url(#gantt-dependency-arrow-critical)' : 'url(#gantt-dependency-arrow)'} />)}
+                        </svg>
+                    )}
+                    {viewMode === 'people' && peopleGroups.map(group => {
+                        const isCollapsed = !!collapsedDepartments[group.department.id];
+                        const canReorder = !isMobile && permissions.canManageOrganization && group.department.id !== UNASSIGNED_GROUP_ID;
+                        return (
+                        <div key={group.department.id} className="relative" onDragOver={e => e.preventDefault()} onDrop={e => {
+                            const dId = e.dataTransfer.getData('departmentId');
+                            if (dId && dId !== group.department.id && group.department.id !== UNASSIGNED_GROUP_ID) onReorderDepartments(dId, group.department.id);
+                        }}>
+                            <div className={`flex items-center hover:bg-indigo-500/[0.03] group transition-all duration-300 border-b border-gray-200 dark:border-gray-800/40`} style={{ height: uiSettings.rowHeight }}>
+                                <div style={{ width: sidebarWidth, minWidth: sidebarWidth }} className="flex border-r border-gray-200 dark:border-gray-800 sticky left-0 z-10 bg-white/90 dark:bg-gray-900/90 backdrop-blur-md h-full shadow-sm dark:shadow-2xl transition-colors">
+                                    <div style={{ width: visibleColumnWidths.project }} className="flex items-center px-2 sm:px-5 text-sm font-black text-gray-800 dark:text-gray-100 truncate tracking-tight">
+                                        {canReorder && <div draggable onDragStart={(e) => e.dataTransfer.setData('departmentId', group.department.id)} className="cursor-move p-1.5 -ml-2 mr-2 text-gray-400 hover:text-gray-900 dark:text-gray-600 dark:hover:text-white transition-colors"><GripVerticalIcon className="h-4 w-4" /></div>}
+                                        <div className="flex-grow flex items-center cursor-pointer truncate" onClick={() => setCollapsedDepartments(prev => ({ ...prev, [group.department.id]: !isCollapsed }))}>
+                                            <ChevronDownIcon className={`h-3.5 w-3.5 mr-2 sm:mr-3 transition-transform duration-500 ${isCollapsed ? '-rotate-90 text-indigo-500 dark:text-indigo-400' : 'rotate-0'}`} />
+                                            <UsersIcon className="h-5 w-5 mr-2 sm:mr-3 text-indigo-500 shrink-0 opacity-80" />
+                                            <span className="truncate">{group.department.name}</span>
+                                        </div>
+                                    </div>
+                                    {visibleColumnWidths.department > 0 && <div style={{ width: visibleColumnWidths.department }} className="border-l border-gray-200 dark:border-gray-800/40" />}
+                                    {visibleColumnWidths.author > 0 && <div style={{ width: visibleColumnWidths.author }} className="flex items-center px-5 border-l border-gray-200 dark:border-gray-800/40"><span className="text-[11px] font-bold text-gray-500">{group.rows.length}명</span></div>}
+                                    {visibleColumnWidths.progress > 0 && <div style={{ width: visibleColumnWidths.progress }} className="border-l border-gray-200 dark:border-gray-800/60" />}
+                                    {visibleColumnWidths.variance > 0 && <div style={{ width: visibleColumnWidths.variance }} className="border-l border-gray-200 dark:border-gray-800/60" />}
+                                </div>
+                                <div className="relative flex-grow h-full bg-indigo-500/[0.01]" />
+                            </div>
+                            {!isCollapsed && group.rows.map(row => (
+                                <div
+                                    key={row.employee.id || UNASSIGNED_GROUP_ID}
+                                    className="flex group border-b border-gray-200/50 dark:border-gray-800/20 hover:bg-gray-50 dark:hover:bg-white/[0.02] transition-colors"
+                                    style={{ height: row.laneCount * uiSettings.rowHeight }}
+                                    onDragOver={e => e.preventDefault()}
+                                    onDrop={e => {
+                                        e.stopPropagation();
+                                        const eId = e.dataTransfer.getData('employeeId');
+                                        const dId = e.dataTransfer.getData('parentDepartmentId');
+                                        if (eId && dId === group.department.id && eId !== row.employee.id) onReorderEmployees(eId, row.employee.id);
+                                    }}
+                                >
+                                    <div style={{ width: sidebarWidth, minWidth: sidebarWidth }} className="flex border-r border-gray-200 dark:border-gray-800 sticky left-0 z-10 bg-white/90 dark:bg-gray-900/90 backdrop-blur-md shadow-sm dark:shadow-lg transition-colors">
+                                        <div style={{ width: visibleColumnWidths.project, height: uiSettings.rowHeight }} className="flex items-center px-4 pl-12 sm:pl-14 truncate relative">
+                                            {canReorder && (
+                                                <div
+                                                    draggable
+                                                    onDragStart={(e) => {
+                                                        e.dataTransfer.setData('employeeId', row.employee.id);
+                                                        e.dataTransfer.setData('parentDepartmentId', group.department.id);
+                                                    }}
+                                                    className="absolute left-4 cursor-move p-1 text-gray-300 hover:text-gray-900 dark:text-gray-700 dark:hover:text-gray-400 transition-colors opacity-0 group-hover:opacity-100"
+                                                >
+                                                    <GripVerticalIcon className="h-3.5 w-3.5" />
+                                                </div>
+                                            )}
+                                            <p className="text-gray-600 dark:text-gray-400 font-bold truncate tracking-tight transition-colors group-hover:text-gray-900 dark:group-hover:text-white" style={{ fontSize: uiSettings.fontSize }}>{row.employee.name}</p>
+                                        </div>
+                                        {visibleColumnWidths.department > 0 && <div style={{ width: visibleColumnWidths.department, height: uiSettings.rowHeight }} className="flex items-center px-5 border-l border-gray-200 dark:border-gray-800/30 truncate"><p className="text-gray-500 dark:text-gray-600 text-[10px] font-black uppercase tracking-wider truncate">{group.department.name}</p></div>}
+                                        {visibleColumnWidths.author > 0 && <div style={{ width: visibleColumnWidths.author, height: uiSettings.rowHeight }} className="flex items-center px-5 border-l border-gray-200 dark:border-gray-800/30 truncate"><p className="text-gray-500 text-[11px] font-bold truncate">{row.tasks.length}건</p></div>}
+                                        {visibleColumnWidths.progress > 0 && <div style={{ width: visibleColumnWidths.progress, height: uiSettings.rowHeight }} className="flex items-center justify-center px-5 border-l border-gray-200 dark:border-gray-800/30"><span className="text-[10px] font-black text-gray-500 dark:text-gray-600 tracking-tighter">{row.tasks.length > 0 ? `${getAverageProgress(row.tasks.map(t => t.task))}%` : '-'}</span></div>}
+                                        {visibleColumnWidths.variance > 0 && <div style={{ width: visibleColumnWidths.variance, height: uiSettings.rowHeight }} className="border-l border-gray-200 dark:border-gray-800/30" />}
+                                    </div>
+                                    <div className="relative flex-grow h-full">
+                                        {row.tasks.map(({ task, projectId, projectName, lane }) => (
+                                            <div key={task.id} className="absolute inset-x-0" style={{ top: lane * uiSettings.rowHeight, height: uiSettings.rowHeight }} onDoubleClick={() => onEditTask(task, projectId)}>
+                                                {baselineTasks.has(task.id) && <BaselineBar baseline={baselineTasks.get(task.id)!} viewStartDate={viewStartDate} dayWidth={dayWidth} barHeight={uiSettings.taskBarHeight} />}
+                                                <TaskBar task={task} viewStartDate={viewStartDate} onProgressChange={(np) => onTaskProgressChange(projectId, task.id, np)} onDatesChange={(s, e) => onTaskDatesChange(projectId, task.id, s, e)} schedule={taskSchedules.get(task.id)} isOverallocated={overallocatedTaskIds.has(task.id)} baseline={baselineTasks.get(task.id)} projectName={projectName} colorClass={getProjectColor(projectId)} workCalendar={workCalendar} employeeMap={employeeMap} departmentMap={departmentMap} dayWidth={dayWidth} barHeight={uiSettings.taskBarHeight} fontSize={uiSettings.fontSize} readOnly={!permissions.canEditTask(task)} />
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )})}
+                    {viewMode === 'project' && projects.map(project => {
                         const isExpanded = expandedProjects[project.id] ?? true;
-                        const totalProgress = project.tasks.reduce((sum, task) => sum + (task.progress || 0), 0);
-                        const averageProgress = project.tasks.length > 0 ? Math.round(totalProgress / project.tasks.length) : 0;
+                        const averageProgress = getAverageProgress(project.tasks);
+                        const activeBaseline = activeBaselines.get(project.id);
+                        const projectVariance = activeBaseline ? getProjectFinishVariance(project.tasks, activeBaseline) : null;
                         return (
                         <div key={project.id} className="relative" onDragOver={e => e.preventDefault()} onDrop={e => {
                             const pId = e.dataTransfer.getData('projectId');
@@ -921,7 +3343,7 @@ const GanttView: FC<{
                             <div className={`flex items-center hover:bg-indigo-500/[0.03] group transition-all duration-300 border-b border-gray-200 dark:border-gray-800/40`} style={{ height: uiSettings.rowHeight }}>
                                 <div style={{ width: sidebarWidth, minWidth: sidebarWidth }} className="flex border-r border-gray-200 dark:border-gray-800 sticky left-0 z-10 bg-white/90 dark:bg-gray-900/90 backdrop-blur-md h-full shadow-sm dark:shadow-2xl transition-colors">
                                     <div style={{ width: visibleColumnWidths.project }} className="flex items-center px-2 sm:px-5 text-sm font-black text-gray-800 dark:text-gray-100 truncate tracking-tight">
-                                        {!isMobile && <div draggable onDragStart={(e) => { e.dataTransfer.setData('projectId', project.id); setDraggedProjectId(project.id); }} onDragEnd={() => {setDraggedProjectId(null); setDropTargetId(null);}} className="cursor-move p-1.5 -ml-2 mr-2 text-gray-400 hover:text-gray-900 dark:text-gray-600 dark:hover:text-white transition-colors"><GripVerticalIcon className="h-4 w-4" /></div>}
+                                        {!isMobile && permissions.canEditProjects && <div draggable onDragStart={(e) => { e.dataTransfer.setData('projectId', project.id); setDraggedProjectId(project.id); }} onDragEnd={() => {setDraggedProjectId(null); setDropTargetId(null);}} className="cursor-move p-1.5 -ml-2 mr-2 text-gray-400 hover:text-gray-900 dark:text-gray-600 dark:hover:text-white transition-colors"><GripVerticalIcon className="h-4 w-4" /></div>}
                                         <div className="flex-grow flex items-center cursor-pointer truncate" onClick={() => toggleProjectExpansion(project.id)}>
                                             <ChevronDownIcon className={`h-3.5 w-3.5 mr-2 sm:mr-3 transition-transform duration-500 ${isExpanded ? 'rotate-0' : '-rotate-90 text-indigo-500 dark:text-indigo-400'}`} />
                                             <FolderIcon className="h-5 w-5 mr-2 sm:mr-3 text-indigo-500 shrink-0 opacity-80" />
@@ -929,23 +3351,23 @@ const GanttView: FC<{
                                         </div>
                                     </div>
                                     {visibleColumnWidths.department > 0 && <div style={{ width: visibleColumnWidths.department }} className="border-l border-gray-200 dark:border-gray-800/40" />}
-                                    {visibleColumnWidths.author > 0 && <div style={{ width: visibleColumnWidths.author }} className="relative flex items-center justify-center border-l border-gray-200 dark:border-gray-800/40"><button onClick={(e) => { e.stopPropagation(); onAddTaskClick(project.id); }} className="p-2 rounded-xl text-gray-400 hover:bg-gray-100 dark:text-gray-600 dark:hover:bg-gray-800 hover:text-indigo-600 dark:hover:text-indigo-400 opacity-0 group-hover:opacity-100 transition-all active:scale-90"><PlusIcon className="h-5 w-5" /></button></div>}
-                                    {visibleColumnWidths.progress > 0 && <div style={{ width: visibleColumnWidths.progress }} className="relative border-l border-gray-200 dark:border-gray-800/60 flex items-center justify-center gap-3"><span className="text-[11px] font-black text-indigo-600/70 dark:text-indigo-400/70 group-hover:opacity-0 transition-opacity tracking-widest">{averageProgress}%</span><div className="absolute inset-0 flex items-center justify-center gap-2.5 opacity-0 group-hover:opacity-100 transition-opacity"><button onClick={(e) => { e.stopPropagation(); onEditProject(project); }} className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-900 dark:hover:text-white transition-all"><PencilIcon className="h-4 w-4" /></button><button onClick={(e) => { e.stopPropagation(); onDeleteProject(project); }} className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-red-500 dark:hover:text-red-400 transition-all"><TrashIcon className="h-4 w-4" /></button></div></div>}
+                                    {visibleColumnWidths.author > 0 && <div style={{ width: visibleColumnWidths.author }} className="relative flex items-center justify-center border-l border-gray-200 dark:border-gray-800/40">{permissions.canCreateTasks && <button onClick={(e) => { e.stopPropagation(); onAddTaskClick(project.id); }} className="p-2 rounded-xl text-gray-400 hover:bg-gray-100 dark:text-gray-600 dark:hover:bg-gray-800 hover:text-indigo-600 dark:hover:text-indigo-400 opacity-0 group-hover:opacity-100 transition-all active:scale-90"><PlusIcon className="h-5 w-5" /></button>}</div>}
+                                    {visibleColumnWidths.progress > 0 && <div style={{ width: visibleColumnWidths.progress }} className="relative border-l border-gray-200 dark:border-gray-800/60 flex items-center justify-center gap-3"><span className="text-[11px] font-black text-indigo-600/70 dark:text-indigo-400/70 group-hover:opacity-0 transition-opacity tracking-widest">{averageProgress}%</span>{permissions.canEditProjects && <div className="absolute inset-0 flex items-center justify-center gap-2.5 opacity-0 group-hover:opacity-100 transition-opacity"><button onClick={(e) => { e.stopPropagation(); onEditProject(project); }} className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-900 dark:hover:text-white transition-all"><PencilIcon className="h-4 w-4" /></button>{permissions.canDeleteProjects && <button onClick={(e) => { e.stopPropagation(); onDeleteProject(project); }} className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-red-500 dark:hover:text-red-400 transition-all"><TrashIcon className="h-4 w-4" /></button>}</div>}</div>}
+                                    {visibleColumnWidths.variance > 0 && <div style={{ width: visibleColumnWidths.variance }} className="flex items-center justify-center border-l border-gray-200 dark:border-gray-800/60 truncate" title={activeBaseline ? `${activeBaseline.name} 대비 종료 편차` : undefined}>{projectVariance !== null && <span className={`text-[11px] font-black tracking-wider ${getVarianceClass(projectVariance)}`}>{formatVariance(projectVariance)}일</span>}</div>}
                                 </div>
                                 <div className="relative flex-grow h-full bg-indigo-500/[0.01]">
-                                    <ProjectBar project={project} viewStartDate={viewStartDate} dayWidth={uiSettings.dayWidth} barHeight={uiSettings.projectBarHeight} fontSize={uiSettings.fontSize} />
+                                    <ProjectBar project={project} criticalFinishDate={criticalPaths.get(project.id)?.finishDate} viewStartDate={viewStartDate} dayWidth={dayWidth} barHeight={uiSettings.projectBarHeight} fontSize={uiSettings.fontSize} />
+                                    {!isExpanded && project.tasks.filter(t => t.kind === 'milestone').map(t => (
+                                        <MilestoneMarker key={t.id} task={t} viewStartDate={viewStartDate} dayWidth={dayWidth} size={Math.round(uiSettings.projectBarHeight * 0.45)} />
+                                    ))}
                                 </div>
                             </div>
                             {isExpanded && project.tasks.map(task => {
                                 const employee = employeeMap.get(task.employeeId);
                                 const department = employee ? departmentMap.get(employee.departmentId) : undefined;
-                                const startDate = new Date(task.startDate); const endDate = new Date(task.endDate);
-                                const startOffsetDays = getDaysBetween(viewStartDate, startDate) - 1;
-                                const durationDays = getDaysBetween(startDate, endDate);
-                                const left: number = startOffsetDays * uiSettings.dayWidth;
-                                const width: number = durationDays * uiSettings.dayWidth - 4;
-                                const rightEdgePosition: number = left + width;
-                                if (task.progress === 100 && rightEdgePosition < scrollLeft) return null;
+                                const baselineTask = baselineTasks.get(task.id);
+                                const variance = baselineTask ? getTaskVariance(task, baselineTask) : null;
+                                if (isTaskRowHidden(task)) return null;
                                 return (
                                     <div 
                                         className={`flex group border-b border-gray-200/50 dark:border-gray-800/20 last:border-0 hover:bg-gray-50 dark:hover:bg-white/[0.02] transition-colors ${draggedTaskId?.tid === task.id ? 'opacity-30' : ''}`} 
@@ -961,7 +3383,7 @@ const GanttView: FC<{
                                     >
                                         <div style={{ width: sidebarWidth, minWidth: sidebarWidth }} className="flex border-r border-gray-200 dark:border-gray-800 sticky left-0 z-10 bg-white/90 dark:bg-gray-900/90 backdrop-blur-md shadow-sm dark:shadow-lg transition-colors">
                                             <div style={{ width: visibleColumnWidths.project }} className="flex items-center px-4 pl-12 sm:pl-14 truncate relative">
-                                                {!isMobile && (
+                                                {!isMobile && permissions.canReorderTasks && (
                                                     <div 
                                                         draggable 
                                                         onDragStart={(e) => { 
@@ -979,16 +3401,19 @@ const GanttView: FC<{
                                             </div>
                                             {visibleColumnWidths.department > 0 && <div style={{ width: visibleColumnWidths.department }} className="flex items-center px-5 border-l border-gray-200 dark:border-gray-800/30 truncate"><p className="text-gray-500 dark:text-gray-600 text-[10px] font-black uppercase tracking-wider truncate">{department?.name}</p></div>}
                                             {visibleColumnWidths.author > 0 && <div style={{ width: visibleColumnWidths.author }} className="flex items-center px-5 border-l border-gray-200 dark:border-gray-800/30 truncate"><p className="text-gray-500 text-[11px] font-bold truncate">{employee?.name}</p></div>}
-                                            {visibleColumnWidths.progress > 0 && <div style={{ width: visibleColumnWidths.progress }} className="flex items-center justify-center px-5 border-l border-gray-200 dark:border-gray-800/30"><div className="flex items-center group-hover:hidden"><span className="text-[10px] font-black text-gray-500 dark:text-gray-600 tracking-tighter">{task.progress}%</span></div><div className="hidden items-center gap-2 group-hover:flex"><button onClick={(e) => { e.stopPropagation(); onEditTask(task, project.id); }} className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-900 dark:hover:text-white transition-all"><PencilIcon className="h-4 w-4" /></button><button onClick={(e) => { e.stopPropagation(); onDeleteTask(task, project.id); }} className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-red-500 dark:hover:text-red-400 transition-all"><TrashIcon className="h-4 w-4" /></button></div></div>}
+                                            {visibleColumnWidths.progress > 0 && <div style={{ width: visibleColumnWidths.progress }} className="flex items-center justify-center px-5 border-l border-gray-200 dark:border-gray-800/30"><div className="flex items-center group-hover:hidden"><span className="text-[10px] font-black text-gray-500 dark:text-gray-600 tracking-tighter">{task.kind === 'milestone' ? '◆' : `${task.progress}%`}</span></div><div className="hidden items-center gap-2 group-hover:flex"><button onClick={(e) => { e.stopPropagation(); onEditTask(task, project.id); }} className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-900 dark:hover:text-white transition-all"><PencilIcon className="h-4 w-4" /></button>{permissions.canEditTask(task) && <button onClick={(e) => { e.stopPropagation(); onDeleteTask(task, project.id); }} className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-red-500 dark:hover:text-red-400 transition-all"><TrashIcon className="h-4 w-4" /></button>}</div></div>}
+                                            {visibleColumnWidths.variance > 0 && <div style={{ width: visibleColumnWidths.variance }} className="flex items-center justify-center px-2 border-l border-gray-200 dark:border-gray-800/30 truncate">{variance && <span className="text-[10px] font-black tracking-tighter" title="시작 / 종료 편차 (일)"><span className={getVarianceClass(variance.startDays)}>{formatVariance(variance.startDays)}</span><span className="text-gray-400 mx-1">/</span><span className={getVarianceClass(variance.finishDays)}>{formatVariance(variance.finishDays)}</span></span>}</div>}
                                         </div>
                                         <div className="relative flex-grow h-full">
-                                            <TaskBar task={task} viewStartDate={viewStartDate} onProgressChange={(np) => onTaskProgressChange(project.id, task.id, np)} employeeMap={employeeMap} departmentMap={departmentMap} dayWidth={uiSettings.dayWidth} barHeight={uiSettings.taskBarHeight} fontSize={uiSettings.fontSize} />
+                                            {baselineTask && <BaselineBar baseline={baselineTask} viewStartDate={viewStartDate} dayWidth={dayWidth} barHeight={uiSettings.taskBarHeight} />}
+                                            <TaskBar task={task} viewStartDate={viewStartDate} onProgressChange={(np) => onTaskProgressChange(project.id, task.id, np)} onDatesChange={(s, e) => onTaskDatesChange(project.id, task.id, s, e)} schedule={taskSchedules.get(task.id)} isOverallocated={overallocatedTaskIds.has(task.id)} baseline={baselineTask} workCalendar={workCalendar} employeeMap={employeeMap} departmentMap={departmentMap} dayWidth={dayWidth} barHeight={uiSettings.taskBarHeight} fontSize={uiSettings.fontSize} readOnly={!permissions.canEditTask(task)} />
                                         </div>
                                     </div>
                                 );
                             })}
                         </div>
                     )})}
+                    {showResourcePanel && <ResourcePanel departments={visibleDepartments} resourceLoad={resourceLoad} columns={timelineColumns} sidebarWidth={sidebarWidth} dayWidth={dayWidth} rowHeight={uiSettings.rowHeight} fontSize={uiSettings.fontSize} />}
                 </div>
             </div>
         </div>
@@ -1000,8 +3425,24 @@ const App: FC = () => {
     const [projects, setProjects] = useState<Project[]>([]);
     const [departments, setDepartments] = useState<Department[]>([]);
     const [employees, setEmployees] = useState<Employee[]>([]);
+    const [dependencies, setDependencies] = useState<TaskDependency[]>([]);
+    const [baselines, setBaselines] = useState<Baseline[]>([]);
+    const [activeBaselineIds, setActiveBaselineIds] = useState<Record<string, string>>(() => {
+        const saved = localStorage.getItem(ACTIVE_BASELINES_KEY);
+        return saved ? JSON.parse(saved) : {};
+    });
     const [filter, setFilter] = useState({ departmentId: 'all', employeeId: 'all' });
     const [daysInView, setDaysInView] = useState(MIN_DAYS_IN_VIEW);
+    const [showResourcePanel, setShowResourcePanel] = useState(() => localStorage.getItem(RESOURCE_PANEL_KEY) === 'true');
+    const [viewMode, setViewMode] = useState<GanttViewMode>(() => localStorage.getItem(VIEW_MODE_KEY) === 'people' ? 'people' : 'project');
+    const [peopleOrder, setPeopleOrder] = useState<PeopleOrder>(() => {
+        const saved = localStorage.getItem(PEOPLE_ORDER_KEY);
+        return saved ? JSON.parse(saved) : { departments: [], employees: [] };
+    });
+    const [zoomLevel, setZoomLevel] = useState<ZoomLevel>(() => {
+        const saved = localStorage.getItem(ZOOM_LEVEL_KEY) as ZoomLevel | null;
+        return saved && ZOOM_LEVELS.includes(saved) ? saved : 'day';
+    });
     
     // Theme State
     const [isDarkMode, setIsDarkMode] = useState(() => {
@@ -1046,25 +3487,47 @@ const App: FC = () => {
     });
     const [columnWidths, setColumnWidths] = useState<typeof DEFAULT_COLUMN_WIDTHS>(() => {
         const saved = localStorage.getItem(GANTT_COLUMN_WIDTHS_KEY);
-        return saved ? JSON.parse(saved) : DEFAULT_COLUMN_WIDTHS;
+        // Merged so widths saved before a column existed still cover every column
+        return saved ? { ...DEFAULT_COLUMN_WIDTHS, ...JSON.parse(saved) } : DEFAULT_COLUMN_WIDTHS;
+    });
+    const [workCalendar, setWorkCalendar] = useState<WorkCalendar>(() => {
+        const saved = localStorage.getItem(WORK_CALENDAR_KEY);
+        return saved ? { ...DEFAULT_WORK_CALENDAR, ...JSON.parse(saved) } : DEFAULT_WORK_CALENDAR;
     });
 
     // Modals
     const [isSettingsOpen, setIsSettingsOpen] = useState(false);
-    const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
+    const [isSpreadsheetOpen, setIsSpreadsheetOpen] = useState(false);
+    const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+    const [isChartExportOpen, setIsChartExportOpen] = useState(false);
+    const [isTaskCommandOpen, setIsTaskCommandOpen] = useState(false);
+    const [isPlanOpen, setIsPlanOpen] = useState(false);
+    const [isReportOpen, setIsReportOpen] = useState(false);
+    const [backupModal, setBackupModal] = useState<{ open: boolean; tab: 'backup' | 'migrate' }>({ open: false, tab: 'backup' });
+    const [authModal, setAuthModal] = useState<{ open: boolean; thenOpenSettings: boolean }>({ open: false, thenOpenSettings: false });
     const [projectModal, setProjectModal] = useState<{ open: boolean; project: Project | null }>({ open: false, project: null });
-    const [taskModal, setTaskModal] = useState<{ open: boolean; task: Task | null; projectId: string | null }>({ open: false, task: null, projectId: null });
+    const [taskModal, setTaskModal] = useState<{ open: boolean; task: Task | null; projectId: string | null; draft?: TaskDraft }>({ open: false, task: null, projectId: null });
     const [confirmModal, setConfirmModal] = useState<{ open: boolean; type: 'project' | 'task'; id: string; subId?: string; title: string; message: string }>({ open: false, type: 'project', id: '', title: '', message: '' });
     
-    const [isOnline, setIsOnline] = useState(isSupabaseEnabled());
+    const [connectionMode, setConnectionMode] = useState<ConnectionMode>(getConnectionMode);
+    // Shared with others through Supabase or the self-hosted server, rather than kept in this browser
+    const isOnline = connectionMode !== 'local';
+    const [currentUser, setCurrentUser] = useState<AuthUser | null>(null);
+    const [roleAssignment, setRoleAssignment] = useState<UserRoleAssignment | null>(null);
+    const [historyState, setHistoryState] = useState<HistoryState>(getHistoryState);
+    const [syncStatus, setSyncStatus] = useState<SyncStatus>(getSyncStatus);
+    const [isSyncQueueOpen, setIsSyncQueueOpen] = useState(false);
+    const [conflictPrompt, setConflictPrompt] = useState<ConflictPrompt | null>(null);
+
+    useEffect(() => subscribeToHistory(() => setHistoryState(getHistoryState())), []);
 
     // Calculate dynamic number of days based on width
     useEffect(() => {
         const handleResize = () => {
             const isMobile = window.innerWidth < 768;
             const currentColumnWidths = isMobile
-                ? { project: Math.max(140, columnWidths.project * 0.7), department: 0, author: 0, progress: 0 }
-                : columnWidths;
+                ? { project: Math.max(140, columnWidths.project * 0.7), department: 0, author: 0, progress: 0, variance: 0 }
+                : { ...columnWidths, variance: uiSettings.showVarianceColumn ? columnWidths.variance : 0 };
             // FIXED: Changed 'width' to correctly named accumulator variable 'w'
             const sidebarWidth = (Object.values(currentColumnWidths) as number[]).reduce((sum, w) => sum + w, 0);
             
@@ -1072,7 +3535,7 @@ const App: FC = () => {
             const availableWidth = window.innerWidth - sidebarWidth - 40; // 40px buffer for padding/margins
             
             // Calculate how many days fit
-            const calculatedDays = Math.ceil(availableWidth / uiSettings.dayWidth) + 5; // Add extra buffer columns
+            const calculatedDays = Math.ceil(availableWidth / getPixelsPerDay(zoomLevel, uiSettings.dayWidth)) + 5; // Add extra buffer columns
             
             setDaysInView(Math.max(MIN_DAYS_IN_VIEW, calculatedDays));
         };
@@ -1082,67 +3545,147 @@ const App: FC = () => {
 
         window.addEventListener('resize', handleResize);
         return () => window.removeEventListener('resize', handleResize);
-    }, [columnWidths, uiSettings.dayWidth]);
+    }, [columnWidths, uiSettings.dayWidth, uiSettings.showVarianceColumn, zoomLevel]);
 
     // Computed
     const todayString = formatDate(new Date());
     
-    const timelineDates = useMemo(() => {
-        const dates = [];
-        for (let i = 0; i < daysInView; i++) {
-            dates.push(addDays(viewStartDate, i));
+    // Bars are positioned from the start of the first (aligned) column
+    const timelineStart = useMemo(() => startOfZoomUnit(viewStartDate, zoomLevel), [viewStartDate, zoomLevel]);
+    const timelineColumns = useMemo(() => buildTimelineColumns(timelineStart, daysInView, zoomLevel), [timelineStart, daysInView, zoomLevel]);
+
+    useEffect(() => {
+        localStorage.setItem(ZOOM_LEVEL_KEY, zoomLevel);
+    }, [zoomLevel]);
+
+    useEffect(() => {
+        localStorage.setItem(RESOURCE_PANEL_KEY, String(showResourcePanel));
+    }, [showResourcePanel]);
+
+    useEffect(() => {
+        localStorage.setItem(VIEW_MODE_KEY, viewMode);
+    }, [viewMode]);
+
+    useEffect(() => {
+        localStorage.setItem(PEOPLE_ORDER_KEY, JSON.stringify(peopleOrder));
+    }, [peopleOrder]);
+
+    useEffect(() => {
+        localStorage.setItem(ACTIVE_BASELINES_KEY, JSON.stringify(activeBaselineIds));
+    }, [activeBaselineIds]);
+
+    const applyRemoteSetting = useCallback((key: string, value: any) => {
+        switch (key) {
+            case 'ui_settings': setUiSettings(value); break;
+            case 'column_widths': setColumnWidths({ ...DEFAULT_COLUMN_WIDTHS, ...value }); break;
+            // Working calendar (weekends, holidays, company days off) is shared by the whole team
+            case 'work_calendar': setWorkCalendar({ ...DEFAULT_WORK_CALENDAR, ...value }); break;
+            case 'people_order': setPeopleOrder(value); break;
+            case 'active_baselines': setActiveBaselineIds(value); break;
         }
-        return dates;
-    }, [viewStartDate, daysInView]);
+    }, []);
 
     // Initial Data Load
     const loadData = useCallback(async () => {
         try {
             setErrorMsg(null);
-            const [loadedProjects, loadedDepartments, loadedEmployees] = await Promise.all([getProjects(), getDepartments(), getEmployees()]);
-            setProjects(loadedProjects); setDepartments(loadedDepartments); setEmployees(loadedEmployees);
+            const [loadedProjects, loadedDepartments, loadedEmployees, loadedDependencies, loadedBaselines] = await Promise.all([getProjects(), getDepartments(), getEmployees(), getDependencies(), getBaselines()]);
+            setProjects(loadedProjects); setDepartments(loadedDepartments); setEmployees(loadedEmployees); setDependencies(loadedDependencies); setBaselines(loadedBaselines);
             setExpandedProjects(prev => {
                 if (Object.keys(prev).length === 0) {
                     return Object.fromEntries(loadedProjects.map(p => [p.id, true]));
                 }
                 return prev;
             });
-            // Load remote UI settings if connected
-            const remoteSettings = await getRemoteSettings('ui_settings');
-            if (remoteSettings) {
-                setUiSettings(remoteSettings);
-            }
-            // Load remote column widths if connected
-            const remoteColumnWidths = await getRemoteSettings('column_widths');
-            if (remoteColumnWidths) {
-                setColumnWidths(remoteColumnWidths);
+            // Shared settings, only stored when connected
+            for (const key of BACKUP_SETTING_KEYS) {
+                const value = await getRemoteSettings(key);
+                if (value) applyRemoteSetting(key, value);
             }
         } catch (e: any) {
             console.error("Failed to load data", e);
             const msg = e && e.message ? e.message : (typeof e === 'string' ? e : JSON.stringify(e));
             setErrorMsg(msg || "데이터를 불러오는 중 알 수 없는 오류가 발생했습니다.");
         } finally { setIsLoading(false); }
-    }, []);
+    }, [applyRemoteSetting]);
 
     // Check for URL config on mount
     useEffect(() => {
         const hasUrlConfig = initSupabaseFromUrl();
         if (hasUrlConfig) {
-            setIsOnline(true);
+            setConnectionMode(getConnectionMode());
         }
         loadData();
     }, [loadData]);
 
-    // Realtime Subscription
+    // A write just queued is already in the cached data, so it is shown from there without a fetch. Entries that
+    // left the queue (sent or discarded) are fetched again once, after the replay rather than per entry.
+    const queuedIds = useRef(new Set(getSyncStatus().entries.map(e => e.id)));
+    const leftQueue = useRef(false);
+    useEffect(() => subscribeToSyncStatus(status => {
+        setSyncStatus(status);
+        const ids = new Set(status.entries.map(e => e.id));
+        const added = status.entries.some(e => !queuedIds.current.has(e.id));
+        if ([...queuedIds.current].some(id => !ids.has(id))) leftQueue.current = true;
+        queuedIds.current = ids;
+        if (leftQueue.current && !status.isReplaying) {
+            leftQueue.current = false;
+            loadData();
+        } else if (added) {
+            const cache = getRemoteCache();
+            if (!cache) return;
+            setProjects(cache.projects); setDepartments(cache.departments); setEmployees(cache.employees); setDependencies(cache.dependencies); setBaselines(cache.baselines);
+        }
+    }), [loadData]);
+
+    // Realtime Subscription: Supabase and the self-hosted server push every row change, the local store hears of other tabs writing it
     useEffect(() => {
         if (isOnline) {
-            const unsubscribe = subscribeToChanges(() => {
-                console.log("Realtime update received, refreshing data...");
-                loadData();
-            });
-            return () => { unsubscribe(); };
+            setSyncStatus(getSyncStatus());
+            replaySyncQueue();
         }
-    }, [isOnline, loadData]);
+        const unsubscribe = subscribeToChanges(changes => {
+            setProjects(prev => applyProjectChanges(prev, changes));
+            setDepartments(prev => applyDepartmentChanges(prev, changes));
+            setEmployees(prev => applyEmployeeChanges(prev, changes));
+            setDependencies(prev => applyDependencyChanges(prev, changes));
+            setBaselines(prev => applyBaselineChanges(prev, changes));
+            changes.forEach(c => { if (c.table === 'system_settings' && c.row) applyRemoteSetting(c.id, c.row.value); });
+        }, () => {
+            console.log("Data changed elsewhere, resyncing...");
+            loadData();
+        });
+        return () => { unsubscribe(); };
+    }, [connectionMode, loadData, applyRemoteSetting]);
+
+    // Session restore, sign-in from a magic link, token refresh and sign-out all arrive here
+    useEffect(() => {
+        if (!isAuthAvailable()) {
+            setCurrentUser(null);
+            return;
+        }
+        getCurrentUser().then(setCurrentUser);
+        return subscribeToAuthChanges(setCurrentUser);
+    }, [connectionMode]);
+
+    useEffect(() => {
+        if (!currentUser) {
+            setRoleAssignment(null);
+            return;
+        }
+        let cancelled = false;
+        getMyRole().then(assignment => { if (!cancelled) setRoleAssignment(assignment); });
+        return () => { cancelled = true; };
+    }, [currentUser]);
+
+    // Without sign-in (this browser's storage, or a self-hosted server on a trusted network) everyone keeps full
+    // access; signed-out Supabase visitors only read
+    const permissions = useMemo(() => {
+        const role: UserRole = connectionMode !== 'supabase' ? 'admin' : roleAssignment?.role || 'viewer';
+        return getPermissions(role, roleAssignment?.departmentId, employees);
+    }, [connectionMode, roleAssignment, employees]);
+
+    const syncNames = useMemo(() => buildAuditNames(projects, departments, employees), [projects, departments, employees]);
 
     const { employeeMap, departmentMap } = useMemo(() => {
         const eMap = new Map(employees.map(e => [e.id, e]));
@@ -1150,6 +3693,38 @@ const App: FC = () => {
         return { employeeMap: eMap, departmentMap: dMap };
     }, [employees, departments]);
 
+    // Computed on the unfiltered projects so filtering never changes which chain is critical
+    const criticalPaths = useMemo(() => new Map(projects.map(p => [p.id, computeCriticalPath(p, dependencies)])), [projects, dependencies]);
+
+    // Baseline shown for each project, and its task snapshots keyed by task id
+    const activeBaselines = useMemo(() => {
+        const result = new Map<string, Baseline>();
+        projects.forEach(p => {
+            const baseline = getActiveBaseline(baselines, p.id, activeBaselineIds[p.id]);
+            if (baseline) result.set(p.id, baseline);
+        });
+        return result;
+    }, [projects, baselines, activeBaselineIds]);
+    const baselineTasks = useMemo(() => {
+        const result = new Map<string, BaselineTask>();
+        activeBaselines.forEach(b => b.tasks.forEach(t => result.set(t.taskId, t)));
+        return result;
+    }, [activeBaselines]);
+
+    // Load is summed over every project, so a filtered view still shows bookings made elsewhere
+    const resourceLoad = useMemo(() => computeResourceLoad(projects, workCalendar), [projects, workCalendar]);
+    const overallocatedTaskIds = useMemo(() => findOverallocatedTaskIds(resourceLoad), [resourceLoad]);
+
+    const orderedDepartments = useMemo(() => sortByOrder(departments, peopleOrder.departments), [departments, peopleOrder.departments]);
+    const orderedEmployees = useMemo(() => sortByOrder(employees, peopleOrder.employees), [employees, peopleOrder.employees]);
+
+    // Departments and employees passing the Header filter, in the people view's order.
+    // Grouped from the flat employee list, which is the one kept current in offline mode.
+    const visibleDepartments = useMemo(() => orderedDepartments
+        .filter(d => filter.departmentId === 'all' || d.id === filter.departmentId)
+        .map(d => ({ ...d, employees: orderedEmployees.filter(e => e.departmentId === d.id && (filter.employeeId === 'all' || e.id === filter.employeeId)) })),
+    [orderedDepartments, orderedEmployees, filter]);
+
     const filteredProjects = useMemo(() => {
         if (filter.departmentId === 'all' && filter.employeeId === 'all') return projects;
         return projects.map(p => {
@@ -1164,11 +3739,29 @@ const App: FC = () => {
         }).filter(p => p.tasks.length > 0);
     }, [projects, filter, employeeMap]);
 
+    // Printed under the chart title so a report says which slice of the schedule it shows
+    const filterLabel = useMemo(() => {
+        const department = departmentMap.get(filter.departmentId)?.name;
+        if (filter.employeeId !== 'all') return `${department} / ${employeeMap.get(filter.employeeId)?.name}`;
+        return department || '전체 부서';
+    }, [filter, departmentMap, employeeMap]);
+
+    // The calendar export starts from whatever the Header filter narrows down to
+    const calendarScope = useMemo<CalendarScope>(() => {
+        if (filter.employeeId !== 'all') return { type: 'employee', id: filter.employeeId };
+        if (filter.departmentId !== 'all') return { type: 'department', id: filter.departmentId };
+        return { type: 'all' };
+    }, [filter]);
+
     // Effects for saving settings
     useEffect(() => {
         localStorage.setItem(SETTINGS_KEY, JSON.stringify(uiSettings));
     }, [uiSettings]);
 
+    useEffect(() => {
+        localStorage.setItem(WORK_CALENDAR_KEY, JSON.stringify(workCalendar));
+    }, [workCalendar]);
+
     useEffect(() => {
         localStorage.setItem(GANTT_COLUMN_WIDTHS_KEY, JSON.stringify(columnWidths));
         
@@ -1182,11 +3775,15 @@ const App: FC = () => {
     }, [columnWidths, isOnline]);
 
     // Handlers
-    const handleSaveSupabase = async (url: string, key: string) => {
+    const handleSaveConnection = async (mode: ConnectionMode, url: string, key: string) => {
+        const wasOffline = !isOnline;
         setIsLoading(true);
         setErrorMsg(null);
-        initSupabase(url, key);
-        setIsOnline(isSupabaseEnabled());
+        if (mode === 'server') initServer(url, key);
+        else if (mode === 'supabase') initSupabase(url, key);
+        else initSupabase('', '');
+        setConnectionMode(getConnectionMode());
+        clearHistory();
         
         try {
             await checkConnectionAndSeed();
@@ -1198,11 +3795,19 @@ const App: FC = () => {
                 await saveRemoteSettings('column_widths', columnWidths);
             }
             await loadData(); // Reload data immediately
+            // First connection from offline mode: offer to bring the local data along
+            const snapshot = wasOffline && getConnectionMode() !== 'local' ? getLocalSnapshot() : null;
+            if (snapshot && Object.values(countRecords(snapshot)).some(n => n > 0)) {
+                setBackupModal({ open: true, tab: 'migrate' });
+            }
         } catch (e: any) {
             console.error(e);
             if (e.message === 'TABLES_MISSING') {
                 alert('데이터베이스 테이블이 없습니다. 설정 메뉴의 "SQL 스크립트 복사"를 눌러 Supabase SQL Editor에서 실행해주세요.');
                 setIsSettingsOpen(true);
+            } else if (e.message === 'SERVER_UNAUTHORIZED') {
+                alert('서버 접속 토큰이 맞지 않습니다. 설정에서 서버의 API_TOKEN과 같은 값을 입력해주세요.');
+                setIsSettingsOpen(true);
             } else {
                 const msg = e && e.message ? e.message : JSON.stringify(e);
                 alert('데이터베이스 연결 실패: ' + msg);
@@ -1221,52 +3826,270 @@ const App: FC = () => {
         }
     };
 
+    const handleWorkCalendarChange = (newCalendar: WorkCalendar) => {
+        setWorkCalendar(newCalendar);
+        if (isOnline) {
+            saveRemoteSettings('work_calendar', newCalendar);
+        }
+    };
+
     const handleProjectSubmit = async (name: string) => {
         try {
             if (projectModal.project) {
-                await updateProject(projectModal.project.id, name);
+                recordHistory('프로젝트 수정', [await undoableUpdateProject(projectModal.project, name)]);
             } else {
-                await addProject(name);
+                recordHistory('프로젝트 추가', [(await undoableAddProject(name, projects.length)).step]);
             }
             if (!isOnline) await loadData();
             setProjectModal({ open: false, project: null });
         } catch (e) { console.error(e); alert('Error saving project'); }
     };
 
-    const handleTaskSubmit = async (data: { name: string; employeeId: string; startDate: string; duration: number; description: string }) => {
+    const handleSelectBaseline = (projectId: string, baselineId: string) => {
+        const next = { ...activeBaselineIds, [projectId]: baselineId };
+        setActiveBaselineIds(next);
+        if (isOnline) {
+            saveRemoteSettings('active_baselines', next);
+        }
+    };
+
+    const handleSaveBaseline = async (projectId: string, name: string) => {
+        // Snapshot the unfiltered project so a Header filter never trims the baseline
+        const project = projects.find(p => p.id === projectId);
+        if (!project) return;
+        try {
+            const { baseline, step } = await undoableAddBaseline(project, name);
+            recordHistory('베이스라인 저장', [step]);
+            handleSelectBaseline(projectId, baseline.id);
+            if (!isOnline) await loadData();
+        } catch (e) { console.error(e); alert('베이스라인 저장 실패'); }
+    };
+
+    const handleDeleteBaseline = async (baseline: Baseline) => {
+        if (!window.confirm(`"${baseline.name}" 베이스라인을 삭제하시겠습니까?`)) return;
+        try { recordHistory('베이스라인 삭제', [await undoableDeleteBaseline(baseline)]); if (!isOnline) await loadData(); } catch (e) { console.error(e); alert('베이스라인 삭제 실패'); }
+    };
+
+    // Removes links dropped in the modal and creates the newly added ones; each change is pushed onto `steps`
+    const syncPredecessors = async (taskId: string, drafts: PredecessorDraft[], steps: UndoStep[]) => {
+        const keptIds = new Set(drafts.filter(d => d.id).map(d => d.id));
+        for (const dep of dependencies.filter(d => d.successorId === taskId && !keptIds.has(d.id))) {
+            steps.push(await undoableDeleteDependency(dep));
+        }
+        for (const draft of drafts.filter(d => !d.id)) {
+            // Snapshots are taken from the state before the save, so undo returns every shifted task to it
+            steps.push(await undoableAddDependency(projects, dependencies, { predecessorId: draft.predecessorId, successorId: taskId, type: draft.type, lagDays: draft.lagDays }));
+        }
+    };
+
+    // A second conflict while the dialog is open (a progress drag keeps firing) waits for the reload that closing brings
+    const openConflict = (prompt: ConflictPrompt) => setConflictPrompt(prev => prev || prompt);
+
+    const closeConflict = () => {
+        setConflictPrompt(null);
+        loadData();
+    };
+
+    // Saves an edit made against `base`, as one undo entry. If someone else changed the task first, fields only
+    // they touched stay as they left them and the edit goes on top; fields both sides changed go to the user.
+    const saveTaskEdit = async (projectId: string, base: Task, update: Partial<Task>, label: string, options: { mergeKey?: string; after?: (steps: UndoStep[]) => Promise<void> } = {}) => {
+        const save = async (edit: Partial<Task>, version: number | undefined) => {
+            const steps: UndoStep[] = [];
+            try {
+                if (Object.keys(edit).length > 0) steps.push(await undoableUpdateTask(projects, dependencies, projectId, base.id, edit, version));
+                await options.after?.(steps);
+            } finally { recordHistory(label, steps, options.mergeKey); }
+        };
+        try {
+            await save(update, base.version);
+        } catch (e) {
+            if (!(e instanceof VersionConflictError)) throw e;
+            const remote = e.remote;
+            // Fields the user left alone keep whatever the other person saved
+            const edit = changedFields(base, update);
+            const fields = remote ? getConflictFields(base, edit, remote) : [];
+            if (remote && fields.length === 0) return save(edit, remote.version);
+            openConflict({ title: base.name, fields, remoteDeleted: !remote, onKeepMine: choices => save(mergeEdit(edit, choices), remote?.version) });
+        }
+    };
+
+    // Reorders are checked against the versions of the rows as they were shown. Edits to those rows in the
+    // meantime do not make the new order wrong, so only a different remote order is put to the user.
+    const saveReorder = async (label: string, before: { id: string; name: string; version?: number }[], after: { id: string; name: string }[], write: (baseVersions?: Record<string, number>) => Promise<UndoStep>) => {
+        try {
+            recordHistory(label, [await write(collectVersions(before))]);
+        } catch (e) {
+            if (!(e instanceof VersionConflictError) || !e.remoteOrder) throw e;
+            if (isSameOrder(before.map(r => r.id), e.remoteOrder)) {
+                recordHistory(label, [await write()]);
+                return;
+            }
+            const names = new Map(before.map(r => [r.id, r.name]));
+            openConflict({
+                title: label,
+                fields: [],
+                remoteDeleted: false,
+                order: { mine: after.map(r => r.name), theirs: e.remoteOrder.filter(id => names.has(id)).map(id => names.get(id)!) },
+                onKeepMine: async () => { recordHistory(label, [await write()]); },
+            });
+        }
+    };
+
+    const handleTaskSubmit = async (data: TaskFormData) => {
         if (!taskModal.projectId) return;
+        const steps: UndoStep[] = [];
         try {
-            const start = new Date(data.startDate);
-            const end = addDays(start, data.duration - 1); 
+            // Durations are in working days; a task never starts on a day off
+            const start = data.kind === 'milestone' ? new Date(data.startDate) : nextWorkingDay(new Date(data.startDate), workCalendar);
+            const end = data.kind === 'milestone' ? start : getWorkingEndDate(start, data.duration, workCalendar);
             
             if (taskModal.task) {
-                await updateTask(taskModal.projectId, taskModal.task.id, {
+                const taskId = taskModal.task.id;
+                await saveTaskEdit(taskModal.projectId, taskModal.task, {
                     name: data.name,
+                    kind: data.kind,
                     employeeId: data.employeeId,
                     startDate: start,
                     endDate: end,
                     description: data.description
-                });
+                }, '태스크 수정', { after: editSteps => syncPredecessors(taskId, data.predecessors, editSteps) });
             } else {
-                await addTask(taskModal.projectId, {
+                const position = projects.find(p => p.id === taskModal.projectId)?.tasks.length ?? 0;
+                const { task: created, step } = await undoableAddTask(taskModal.projectId, {
                     name: data.name,
+                    kind: data.kind,
                     employeeId: data.employeeId,
                     startDate: start,
                     endDate: end,
                     description: data.description
-                });
+                }, position);
+                steps.push(step);
+                await syncPredecessors(created.id, data.predecessors, steps);
             }
             if (!isOnline) await loadData();
             setTaskModal({ open: false, task: null, projectId: null });
         } catch (e) { console.error(e); alert('Error saving task'); }
+        // Whatever was saved before a failure can still be undone; an edit records its own entry
+        finally { if (!taskModal.task) recordHistory('태스크 추가', steps); }
+    };
+
+    // Rows go in sheet order; a project is matched by name, or created the first time a row names it
+    const handleImport = async (rows: ImportRow[]) => {
+        const steps: UndoStep[] = [];
+        try {
+            const projectIds = new Map(projects.map(p => [p.name.trim(), p.id]));
+            const positions = new Map(projects.map(p => [p.id, p.tasks.length]));
+            let projectCount = projects.length;
+            for (const row of rows) {
+                let projectId = projectIds.get(row.projectName);
+                if (!projectId) {
+                    const { project, step } = await undoableAddProject(row.projectName, projectCount++);
+                    steps.push(step);
+                    projectId = project.id;
+                    projectIds.set(row.projectName, projectId);
+                    positions.set(projectId, 0);
+                }
+                if (!row.task) continue;
+                const position = positions.get(projectId) ?? 0;
+                const { step } = await undoableAddTask(projectId, row.task, position);
+                steps.push(step);
+                positions.set(projectId, position + 1);
+            }
+            if (!isOnline) await loadData();
+            setIsSpreadsheetOpen(false);
+        } catch (e) {
+            console.error(e);
+            alert('가져오기 중 오류가 발생했습니다. 이미 저장된 행은 실행 취소로 되돌릴 수 있습니다.');
+            if (!isOnline) await loadData();
+        }
+        finally { recordHistory('가져오기', steps); }
+    };
+
+    // The project, its tasks in grid order and the links between them, as one undo entry
+    const handlePlanCreate = async (projectName: string, rows: PlanRow[], startDate: string) => {
+        const steps: UndoStep[] = [];
+        try {
+            const { project, step } = await undoableAddProject(projectName, projects.length);
+            steps.push(step);
+            const schedule = schedulePlanRows(rows, new Date(startDate), workCalendar);
+            const taskIds = new Map<string, string>();
+            for (const [position, row] of rows.entries()) {
+                const { startDate: start, endDate: end } = schedule.get(row.key)!;
+                const { task, step } = await undoableAddTask(project.id, {
+                    name: row.name.trim(),
+                    kind: row.kind,
+                    employeeId: row.employeeId,
+                    startDate: start,
+                    endDate: end,
+                    description: row.description,
+                }, position);
+                steps.push(step);
+                taskIds.set(row.key, task.id);
+            }
+            for (const row of rows) {
+                for (const key of row.predecessorKeys) {
+                    const predecessorId = taskIds.get(key);
+                    if (predecessorId) steps.push(await undoableAddDependency(projects, dependencies, { predecessorId, successorId: taskIds.get(row.key)!, type: 'FS', lagDays: 0 }));
+                }
+            }
+            if (!isOnline) await loadData();
+            setIsPlanOpen(false);
+        } catch (e) {
+            console.error(e);
+            alert('계획을 만드는 중 오류가 발생했습니다. 이미 만든 항목은 실행 취소로 되돌릴 수 있습니다.');
+            if (!isOnline) await loadData();
+        }
+        finally { recordHistory('계획 생성', steps); }
+    };
+
+    const appData = useMemo<AppData>(() => ({ projects, departments, employees, dependencies, baselines }), [projects, departments, employees, dependencies, baselines]);
+    const backupSettings = useMemo<BackupSettings>(() => ({
+        ui_settings: uiSettings,
+        column_widths: columnWidths,
+        work_calendar: workCalendar,
+        people_order: peopleOrder,
+        active_baselines: activeBaselineIds,
+    }), [uiSettings, columnWidths, workCalendar, peopleOrder, activeBaselineIds]);
+
+    // Settings go through the usual handlers so they are shared when online; ids follow the records they point at
+    const applyBackupSettings = (settings: BackupSettings, idMap: Map<string, string>) => {
+        const mapId = (id: string) => idMap.get(id) ?? id;
+        if (settings.ui_settings) handleUiSettingsChange({ ...DEFAULT_SETTINGS, ...(settings.ui_settings as Partial<UISettings>) });
+        if (settings.column_widths) setColumnWidths({ ...DEFAULT_COLUMN_WIDTHS, ...(settings.column_widths as Partial<typeof DEFAULT_COLUMN_WIDTHS>) });
+        if (settings.work_calendar) handleWorkCalendarChange({ ...DEFAULT_WORK_CALENDAR, ...(settings.work_calendar as Partial<WorkCalendar>) });
+        if (settings.people_order) {
+            const order = settings.people_order as Partial<PeopleOrder>;
+            handlePeopleOrderChange({ departments: (order.departments || []).map(mapId), employees: (order.employees || []).map(mapId) });
+        }
+        if (settings.active_baselines) {
+            const next = Object.fromEntries(Object.entries(settings.active_baselines as Record<string, string>).map(([projectId, baselineId]) => [mapId(projectId), mapId(baselineId)]));
+            setActiveBaselineIds(next);
+            if (isOnline) saveRemoteSettings('active_baselines', next);
+        }
+    };
+
+    const handleRestoreBackup = async (plan: ImportPlan, settings: BackupSettings | null) => {
+        try {
+            await importAppData(plan.changes);
+            // Undo steps recorded before the import would write over what it brought in
+            clearHistory();
+            await loadData();
+            // After the reload, which would otherwise bring back the previous shared settings
+            if (settings) applyBackupSettings(settings, plan.idMap);
+            setBackupModal(prev => ({ ...prev, open: false }));
+        } catch (e: any) {
+            console.error(e);
+            alert('복원 중 오류가 발생했습니다. 일부 기록만 저장되었을 수 있으니 다시 미리보기로 확인해주세요. ' + (e?.message || ''));
+            await loadData();
+        }
     };
 
     const handleDelete = async () => {
         try {
             if (confirmModal.type === 'project') {
-                await deleteProject(confirmModal.id);
+                recordHistory('프로젝트 삭제', [await undoableDeleteProject(projects, dependencies, baselines, confirmModal.id)]);
             } else if (confirmModal.type === 'task' && confirmModal.subId) {
-                await deleteTask(confirmModal.id, confirmModal.subId);
+                recordHistory('태스크 삭제', [await undoableDeleteTask(projects, dependencies, confirmModal.id, confirmModal.subId)]);
             }
             if (!isOnline) await loadData();
             setConfirmModal({ ...confirmModal, open: false });
@@ -1275,17 +4098,21 @@ const App: FC = () => {
 
     // Data Management Handlers
     const handleAddDepartment = async (name: string) => {
-        try { await addDepartment(name); if (!isOnline) await loadData(); } catch(e) { console.error(e); alert('부서 추가 실패'); }
+        try { recordHistory('부서 추가', [await undoableAddDepartment(name)]); if (!isOnline) await loadData(); } catch(e) { console.error(e); alert('부서 추가 실패'); }
     };
     const handleDeleteDepartment = async (id: string) => {
         if (!window.confirm('부서를 삭제하면 소속된 직원 정보도 영향을 받을 수 있습니다. 계속하시겠습니까?')) return;
-        try { await deleteDepartment(id); if (!isOnline) await loadData(); } catch(e) { console.error(e); alert('부서 삭제 실패'); }
+        const department = departments.find(d => d.id === id);
+        if (!department) return;
+        try { recordHistory('부서 삭제', [await undoableDeleteDepartment(department, employees.filter(e => e.departmentId === id))]); if (!isOnline) await loadData(); } catch(e) { console.error(e); alert('부서 삭제 실패'); }
     };
     const handleAddEmployee = async (name: string, deptId: string) => {
-        try { await addEmployee(name, deptId); if (!isOnline) await loadData(); } catch(e) { console.error(e); alert('직원 추가 실패'); }
+        try { recordHistory('직원 추가', [await undoableAddEmployee(name, deptId)]); if (!isOnline) await loadData(); } catch(e) { console.error(e); alert('직원 추가 실패'); }
     };
     const handleDeleteEmployee = async (id: string) => {
-        try { await deleteEmployee(id); if (!isOnline) await loadData(); } catch(e) { console.error(e); alert('직원 삭제 실패'); }
+        const employee = employees.find(e => e.id === id);
+        if (!employee) return;
+        try { recordHistory('직원 삭제', [await undoableDeleteEmployee(employee)]); if (!isOnline) await loadData(); } catch(e) { console.error(e); alert('직원 삭제 실패'); }
     };
 
 
@@ -1294,8 +4121,25 @@ const App: FC = () => {
             if (p.id !== projectId) return p;
             return { ...p, tasks: p.tasks.map(t => t.id === taskId ? { ...t, progress } : t) };
         }));
+        const task = projects.find(p => p.id === projectId)?.tasks.find(t => t.id === taskId);
+        if (!task) return;
+        try {
+            // A progress drag fires on every mouse move; the merge key folds it into one undo step
+            await saveTaskEdit(projectId, task, { progress }, '진행률 변경', { mergeKey: `progress:${taskId}` });
+        } catch (e) { console.error(e); loadData(); }
+    };
+
+    const handleTaskDatesChange = async (projectId: string, taskId: string, startDate: Date, endDate: Date) => {
+        setProjects(prev => prev.map(p => {
+            if (p.id !== projectId) return p;
+            return { ...p, tasks: p.tasks.map(t => t.id === taskId ? { ...t, startDate, endDate } : t) };
+        }));
+        const task = projects.find(p => p.id === projectId)?.tasks.find(t => t.id === taskId);
+        if (!task) return;
         try {
-            await updateTask(projectId, taskId, { progress });
+            await saveTaskEdit(projectId, task, { startDate, endDate }, '일정 변경');
+            // Successors may have been pushed forward by the move
+            if (!isOnline && dependencies.some(d => d.predecessorId === taskId)) await loadData();
         } catch (e) { console.error(e); loadData(); }
     };
 
@@ -1312,13 +4156,17 @@ const App: FC = () => {
         const targetIndex = projects.findIndex(p => p.id === targetId);
         if (draggedIndex === -1 || targetIndex === -1) return;
         
-        const newProjects = [...projects];
-        const [removed] = newProjects.splice(draggedIndex, 1);
-        newProjects.splice(targetIndex, 0, removed);
+        const reordered = [...projects];
+        const [removed] = reordered.splice(draggedIndex, 1);
+        reordered.splice(targetIndex, 0, removed);
+        // Positions match the write, so the realtime echo of it leaves the order alone
+        const newProjects = reordered.map((p, i) => ({ ...p, position: i }));
         
         setProjects(newProjects);
         // 서버에 새 순서 영구 저장
-        await updateProjects(newProjects);
+        try {
+            await saveReorder('프로젝트 순서 변경', projects, newProjects, baseVersions => undoableReorderProjects(projects, newProjects, baseVersions));
+        } catch (e) { console.error(e); loadData(); }
     };
 
     const handleReorderTasks = async (projectId: string, draggedId: string, targetId: string) => {
@@ -1334,6 +4182,7 @@ const App: FC = () => {
         
         const [removed] = newTasks.splice(draggedIdx, 1);
         newTasks.splice(targetIdx, 0, removed);
+        newTasks.forEach((t, i) => { newTasks[i] = { ...t, position: i }; });
         
         // 상태 업데이트
         const newProjects = [...projects];
@@ -1341,17 +4190,101 @@ const App: FC = () => {
         setProjects(newProjects);
         
         // 서버에 새 순서 영구 저장 (오프라인/온라인 모두 대응)
-        await updateTaskPositions(projectId, newTasks);
+        try {
+            await saveReorder('태스크 순서 변경', project.tasks, newTasks, baseVersions => undoableReorderTasks(projectId, project.tasks, newTasks, baseVersions));
+        } catch (e) { console.error(e); loadData(); }
+    };
+
+    // People view order is a shared setting rather than row data, like column widths
+    const handlePeopleOrderChange = (next: PeopleOrder) => {
+        setPeopleOrder(next);
+        if (isOnline) {
+            saveRemoteSettings('people_order', next);
+        }
+    };
+
+    const moveId = (ids: string[], draggedId: string, targetId: string) => {
+        const next = ids.filter(id => id !== draggedId);
+        next.splice(next.indexOf(targetId), 0, draggedId);
+        return next;
+    };
+
+    const handleReorderDepartments = (draggedId: string, targetId: string) => {
+        if (draggedId === targetId) return;
+        handlePeopleOrderChange({ ...peopleOrder, departments: moveId(orderedDepartments.map(d => d.id), draggedId, targetId) });
+    };
+
+    const handleReorderEmployees = (draggedId: string, targetId: string) => {
+        if (draggedId === targetId) return;
+        handlePeopleOrderChange({ ...peopleOrder, employees: moveId(orderedEmployees.map(e => e.id), draggedId, targetId) });
+    };
+
+    const replayHistory = useCallback(async (direction: 'undo' | 'redo') => {
+        try {
+            const label = direction === 'undo' ? await undo() : await redo();
+            if (label && !isOnline) await loadData();
+        } catch (e) {
+            console.error(e);
+            alert(direction === 'undo' ? '실행 취소 실패' : '다시 실행 실패');
+            loadData();
+        }
+    }, [isOnline, loadData]);
+
+    // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); text fields keep their own undo
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+            const target = e.target as HTMLElement;
+            if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+            e.preventDefault();
+            replayHistory(e.shiftKey ? 'redo' : 'undo');
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [replayHistory]);
+
+    // Ctrl+K (Cmd on macOS) opens the quick entry bar
+    useEffect(() => {
+        if (!permissions.canCreateTasks) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'k') return;
+            e.preventDefault();
+            setIsTaskCommandOpen(true);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [permissions.canCreateTasks]);
+
+    const handleTaskDraft = (draft: TaskDraft) => {
+        setIsTaskCommandOpen(false);
+        setTaskModal({ open: true, task: null, projectId: draft.projectId, draft });
     };
 
+    // Settings change shared data, so a connected workspace asks for sign-in first
     const handleOpenSettings = () => {
-        if (hasAdminPassword()) {
-            setIsAuthModalOpen(true);
+        if (isAuthAvailable() && !currentUser) {
+            setAuthModal({ open: true, thenOpenSettings: true });
         } else {
             setIsSettingsOpen(true);
         }
     };
 
+    const handleSignIn = (user: AuthUser | null) => {
+        setCurrentUser(user);
+        if (authModal.thenOpenSettings) setIsSettingsOpen(true);
+    };
+
+    const handleSignOut = async () => {
+        try {
+            await signOut();
+            setCurrentUser(null);
+            setIsSettingsOpen(false);
+        } catch (e) {
+            console.error(e);
+            alert('로그아웃 실패');
+        }
+    };
+
     if (isLoading) {
         return (
             <div className="bg-gray-100 dark:bg-gray-950 text-gray-900 dark:text-white min-h-screen flex flex-col items-center justify-center font-sans tracking-tight transition-colors">
@@ -1389,16 +4322,46 @@ const App: FC = () => {
                 setFilter={setFilter}
                 viewStartDate={viewStartDate}
                 setViewStartDate={setViewStartDate}
+                zoomLevel={zoomLevel}
+                setZoomLevel={setZoomLevel}
+                viewMode={viewMode}
+                setViewMode={setViewMode}
                 onOpenSettings={handleOpenSettings}
                 isOnline={isOnline}
+                syncStatus={syncStatus}
+                onOpenSyncQueue={() => setIsSyncQueueOpen(true)}
                 isDarkMode={isDarkMode}
                 toggleDarkMode={toggleDarkMode}
+                showResourcePanel={showResourcePanel}
+                toggleResourcePanel={() => setShowResourcePanel(prev => !prev)}
+                onOpenSpreadsheet={() => setIsSpreadsheetOpen(true)}
+                onOpenCalendar={() => setIsCalendarOpen(true)}
+                onOpenReport={() => setIsReportOpen(true)}
+                onOpenChartExport={() => setIsChartExportOpen(true)}
+                onOpenTaskCommand={permissions.canCreateTasks ? () => setIsTaskCommandOpen(true) : null}
+                history={historyState}
+                onUndo={() => replayHistory('undo')}
+                onRedo={() => replayHistory('redo')}
+                currentUser={currentUser}
+                onSignIn={() => setAuthModal({ open: true, thenOpenSettings: false })}
+                onSignOut={handleSignOut}
             />
             <main className="flex-grow p-2 sm:p-4 overflow-hidden flex flex-col">
                 <GanttView
                     projects={filteredProjects}
-                    timelineDates={timelineDates}
-                    viewStartDate={viewStartDate}
+                    dependencies={dependencies}
+                    criticalPaths={criticalPaths}
+                    timelineColumns={timelineColumns}
+                    zoomLevel={zoomLevel}
+                    workCalendar={workCalendar}
+                    resourceLoad={resourceLoad}
+                    overallocatedTaskIds={overallocatedTaskIds}
+                    visibleDepartments={visibleDepartments}
+                    activeBaselines={activeBaselines}
+                    baselineTasks={baselineTasks}
+                    showResourcePanel={showResourcePanel}
+                    viewMode={viewMode}
+                    viewStartDate={timelineStart}
                     todayString={todayString}
                     employeeMap={employeeMap}
                     departmentMap={departmentMap}
@@ -1407,6 +4370,7 @@ const App: FC = () => {
                     onAddTaskClick={(pid) => setTaskModal({ open: true, task: null, projectId: pid })}
                     onAddProjectClick={() => setProjectModal({ open: true, project: null })}
                     onTaskProgressChange={handleProgressChange}
+                    onTaskDatesChange={handleTaskDatesChange}
                     onEditProject={(p) => setProjectModal({ open: true, project: p })}
                     onDeleteProject={(p) => setConfirmModal({ open: true, type: 'project', id: p.id, title: '프로젝트 삭제', message: `"${p.name}" 프로젝트와 포함된 모든 태스크를 삭제하시겠습니까?` })}
                     onEditTask={(t, pid) => setTaskModal({ open: true, task: t, projectId: pid })}
@@ -1415,6 +4379,9 @@ const App: FC = () => {
                     setColumnWidths={setColumnWidths}
                     onReorderProjects={handleReorderProjects}
                     onReorderTasks={handleReorderTasks}
+                    onReorderDepartments={handleReorderDepartments}
+                    onReorderEmployees={handleReorderEmployees}
+                    permissions={permissions}
                     uiSettings={uiSettings}
                 />
             </main>
@@ -1425,16 +4392,50 @@ const App: FC = () => {
                 onClose={() => setIsSettingsOpen(false)} 
                 settings={uiSettings} 
                 setSettings={handleUiSettingsChange} 
-                onSaveSupabase={handleSaveSupabase}
+                onSaveConnection={handleSaveConnection}
                 departments={departments}
                 employees={employees}
                 onAddDepartment={handleAddDepartment}
                 onDeleteDepartment={handleDeleteDepartment}
                 onAddEmployee={handleAddEmployee}
                 onDeleteEmployee={handleDeleteEmployee}
+                workCalendar={workCalendar}
+                onWorkCalendarChange={handleWorkCalendarChange}
+                projects={projects}
+                currentUser={currentUser}
+                permissions={permissions}
+                rolesMissing={!!roleAssignment?.rolesMissing}
+                onOpenBackup={() => { setIsSettingsOpen(false); setBackupModal({ open: true, tab: 'backup' }); }}
+            />
+            <BackupModal
+                isOpen={backupModal.open}
+                onClose={() => setBackupModal(prev => ({ ...prev, open: false }))}
+                initialTab={backupModal.tab}
+                data={appData}
+                settings={backupSettings}
+                connectionMode={connectionMode}
+                canRestore={permissions.canManageOrganization}
+                onRestore={handleRestoreBackup}
+            />
+            <ConflictModal prompt={conflictPrompt} onClose={closeConflict} names={syncNames} />
+            <SyncQueueModal isOpen={isSyncQueueOpen} onClose={() => setIsSyncQueueOpen(false)} status={syncStatus} names={syncNames} />
+            <AuthModal isOpen={authModal.open} onClose={() => setAuthModal({ open: false, thenOpenSettings: false })} onSuccess={handleSignIn} />
+            <ProjectModal isOpen={projectModal.open} onClose={() => setProjectModal({ open: false, project: null })} onSubmit={handleProjectSubmit} project={projectModal.project}
+                baselines={baselines.filter(b => b.projectId === projectModal.project?.id)}
+                activeBaselineId={projectModal.project ? activeBaselines.get(projectModal.project.id)?.id : undefined}
+                onSaveBaseline={handleSaveBaseline}
+                onDeleteBaseline={handleDeleteBaseline}
+                onSelectBaseline={handleSelectBaseline}
+                onGeneratePlan={permissions.canCreateTasks ? () => { setProjectModal({ open: false, project: null }); setIsPlanOpen(true); } : undefined}
+            />
+            <PlanModal
+                isOpen={isPlanOpen}
+                onClose={() => setIsPlanOpen(false)}
+                employees={employees}
+                departments={departments}
+                workCalendar={workCalendar}
+                onCreate={handlePlanCreate}
             />
-            <AuthModal isOpen={isAuthModalOpen} onClose={() => setIsAuthModalOpen(false)} onSuccess={() => setIsSettingsOpen(true)} />
-            <ProjectModal isOpen={projectModal.open} onClose={() => setProjectModal({ open: false, project: null })} onSubmit={handleProjectSubmit} project={projectModal.project} />
             <TaskModal 
                 isOpen={taskModal.open} 
                 onClose={() => setTaskModal({ open: false, task: null, projectId: null })} 
@@ -1443,6 +4444,58 @@ const App: FC = () => {
                 departments={departments}
                 task={taskModal.task || undefined} 
                 project={projects.find(p => p.id === taskModal.projectId) || null} 
+                projects={projects}
+                dependencies={dependencies}
+                workCalendar={workCalendar}
+                readOnly={!!taskModal.task && !permissions.canEditTask(taskModal.task)}
+                assignableEmployeeIds={permissions.assignableEmployeeIds}
+                draft={taskModal.draft}
+            />
+            <TaskCommandModal
+                isOpen={isTaskCommandOpen}
+                onClose={() => setIsTaskCommandOpen(false)}
+                projects={projects}
+                employees={employees}
+                workCalendar={workCalendar}
+                onDraft={handleTaskDraft}
+            />
+            <SpreadsheetModal
+                isOpen={isSpreadsheetOpen}
+                onClose={() => setIsSpreadsheetOpen(false)}
+                projects={filteredProjects}
+                isFiltered={filter.departmentId !== 'all' || filter.employeeId !== 'all'}
+                employees={employees}
+                departments={departments}
+                workCalendar={workCalendar}
+                canImport={permissions.canEditProjects && permissions.canCreateTasks}
+                onImport={handleImport}
+            />
+            <ReportModal
+                isOpen={isReportOpen}
+                onClose={() => setIsReportOpen(false)}
+                initialScope={calendarScope}
+                projects={projects}
+                departments={departments}
+                employees={employees}
+                workCalendar={workCalendar}
+            />
+            <CalendarFeedModal
+                isOpen={isCalendarOpen}
+                onClose={() => setIsCalendarOpen(false)}
+                initialScope={calendarScope}
+                projects={projects}
+                departments={departments}
+                employees={employees}
+                hasFeeds={connectionMode !== 'local'}
+                canPublish={permissions.canEditProjects}
+            />
+            <ChartExportModal
+                isOpen={isChartExportOpen}
+                onClose={() => setIsChartExportOpen(false)}
+                projects={filteredProjects}
+                employees={employees}
+                workCalendar={workCalendar}
+                filterLabel={filterLabel}
             />
             <ConfirmationModal isOpen={confirmModal.open} onClose={() => setConfirmModal({ ...confirmModal, open: false })} onConfirm={handleDelete} title={confirmModal.title} message={confirmModal.message} />
         </div>
@@ -0,0 +1,13 @@
+import { defineConfig } from 'prisma/config';
+import { DATABASE_URL, isPostgresUrl } from './server/config';
+
+// Used by the Prisma CLI (db push, generate, seed); the server reads the same DATABASE_URL, and its kind picks the schema
+export default defineConfig({
+    schema: isPostgresUrl(DATABASE_URL) ? 'prisma/schema.postgres.prisma' : 'prisma/schema.prisma',
+    migrations: {
+        seed: 'tsx prisma/seed.ts',
+    },
+    datasource: {
+        url: DATABASE_URL,
+    },
+});
@@ -0,0 +1,32 @@
+import { DATABASE_URL } from '../server/config';
+import { createPrismaClient } from '../server/database';
+import { createPrismaStore } from '../server/prismaStore';
+import { addDays } from '../utils/dateUtils';
+
+// `npm run db:seed`: the sample project the app starts with offline, for an empty database only
+async function main() {
+    const prisma = createPrismaClient(DATABASE_URL);
+    try {
+        if (await prisma.project.count() > 0) {
+            console.log('Database already has projects, nothing seeded.');
+            return;
+        }
+        const store = createPrismaStore(prisma);
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+        await store.putProjects([{ id: 'p1', name: '샘플 프로젝트', position: 0 }]);
+        await store.putTasks([{
+            projectId: 'p1',
+            task: { id: 't1', name: '예시 태스크', startDate: addDays(today, 1), endDate: addDays(today, 10), color: 'bg-blue-500', employeeId: '', progress: 0 },
+            position: 0,
+        }]);
+        console.log('Seeded the sample project.');
+    } finally {
+        await prisma.$disconnect();
+    }
+}
+
+main().catch(err => {
+    console.error(err);
+    process.exit(1);
+});
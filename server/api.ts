@@ -0,0 +1,231 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { DataStore, VersionConflictError, stringifyError } from '../services/dataService';
+import { renderCalendarFeed } from '../services/calendarFeedService';
+import {
+    InvalidBodyError, readAuditEntries, readAuditQuery, readBaselines, readCalendarFeed, readDependencies, readDepartments, readEmployees, readExpectedVersion,
+    readProjectOrder, readProjectRows, readProjectUpdate, readSetting, readTaskOrder, readTaskRows, readTaskUpdate,
+} from './validation';
+
+// --- REST API ---
+// Every DataStore call as one route, so createServerStore (services/dataService) can run the app against
+// any store behind it. A stale versioned write answers 409 with the row as it is now; GET /changes streams
+// the row changes of every write as server-sent events. Every route but /health and the calendar feeds needs the
+// access token, and bodies are checked against the route's shape first (server/validation.ts).
+
+// A few times the largest backup a team produces (thousands of tasks are well under 1 MB)
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+// Comment lines keep idle event streams from being closed by proxies
+const HEARTBEAT_MS = 25000;
+// What calendar apps subscribe to: GET /calendar/<feed token>.ics
+const CALENDAR_FEED_PATH = /^\/calendar\/([^/]+)\.ics$/;
+
+interface Request {
+    params: string[];
+    query: URLSearchParams;
+    body: unknown;
+}
+
+type Route = [method: string, path: RegExp, handle: (req: Request) => Promise<unknown>];
+
+class HttpError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+const createRoutes = (store: DataStore): Route[] => [
+    // Lets the app check the token when connecting
+    ['GET', /^\/session$/, async () => ({ ok: true })],
+
+    ['GET', /^\/projects$/, () => store.getProjects()],
+    ['PUT', /^\/projects$/, ({ body }) => store.putProjects(readProjectRows(body))],
+    ['PUT', /^\/projects\/order$/, ({ body }) => {
+        const { projects, expectedVersions } = readProjectOrder(body);
+        return store.setProjectOrder(projects, expectedVersions);
+    }],
+    ['GET', /^\/projects\/([^/]+)$/, ({ params }) => store.getProject(params[0])],
+    ['PATCH', /^\/projects\/([^/]+)$/, ({ params, body }) => {
+        const { name, expectedVersion } = readProjectUpdate(body);
+        return store.updateProject(params[0], name, expectedVersion);
+    }],
+    ['DELETE', /^\/projects\/([^/]+)$/, ({ params }) => store.deleteProject(params[0])],
+    ['PUT', /^\/projects\/([^/]+)\/task-order$/, ({ params, body }) => {
+        const { taskIds, expectedVersions } = readTaskOrder(body);
+        return store.setTaskOrder(params[0], taskIds, expectedVersions);
+    }],
+
+    ['PUT', /^\/tasks$/, ({ body }) => store.putTasks(readTaskRows(body))],
+    ['GET', /^\/tasks\/([^/]+)$/, ({ params }) => store.getTask(params[0])],
+    ['PATCH', /^\/tasks\/([^/]+)$/, ({ params, body }) => {
+        const { update, expectedVersion } = readTaskUpdate(body);
+        return store.updateTask(params[0], update, expectedVersion);
+    }],
+    ['DELETE', /^\/tasks\/([^/]+)$/, ({ params, query }) => store.deleteTask(params[0], readExpectedVersion(query))],
+
+    ['GET', /^\/departments$/, () => store.getDepartments()],
+    ['PUT', /^\/departments$/, ({ body }) => store.putDepartments(readDepartments(body))],
+    ['DELETE', /^\/departments\/([^/]+)$/, ({ params }) => store.deleteDepartment(params[0])],
+
+    ['GET', /^\/employees$/, () => store.getEmployees()],
+    ['PUT', /^\/employees$/, ({ body }) => store.putEmployees(readEmployees(body))],
+    ['DELETE', /^\/employees\/([^/]+)$/, ({ params }) => store.deleteEmployee(params[0])],
+
+    ['GET', /^\/dependencies$/, () => store.getDependencies()],
+    ['PUT', /^\/dependencies$/, ({ body }) => store.putDependencies(readDependencies(body))],
+    ['DELETE', /^\/dependencies\/([^/]+)$/, ({ params }) => store.deleteDependency(params[0])],
+
+    ['GET', /^\/baselines$/, () => store.getBaselines()],
+    ['PUT', /^\/baselines$/, ({ body }) => store.putBaselines(readBaselines(body))],
+    ['DELETE', /^\/baselines\/([^/]+)$/, ({ params }) => store.deleteBaseline(params[0])],
+
+    ['GET', /^\/settings\/([^/]+)$/, ({ params }) => store.getSetting(params[0])],
+    ['PUT', /^\/settings\/([^/]+)$/, ({ params, body }) => store.saveSetting(params[0], readSetting(body))],
+
+    // The actor is whatever name the app sends: the server has no accounts to check it against
+    ['GET', /^\/audit$/, ({ query }) => store.getAuditLog(readAuditQuery(query))],
+    ['POST', /^\/audit$/, ({ body }) => store.appendAudit(readAuditEntries(body))],
+
+    ['GET', /^\/calendar-feeds$/, () => store.getCalendarFeeds()],
+    ['GET', /^\/calendar-feeds\/([^/]+)$/, ({ params }) => store.getCalendarFeed(params[0])],
+    ['PUT', /^\/calendar-feeds$/, ({ body }) => store.putCalendarFeed(readCalendarFeed(body))],
+    ['DELETE', /^\/calendar-feeds\/([^/]+)$/, ({ params }) => store.deleteCalendarFeed(params[0])],
+];
+
+const readBody = (req: IncomingMessage): Promise<unknown> => new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            reject(new HttpError(413, 'Request body too large'));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => {
+        const text = Buffer.concat(chunks).toString('utf8');
+        try {
+            resolve(text ? JSON.parse(text) : undefined);
+        } catch {
+            reject(new HttpError(400, 'Invalid JSON body'));
+        }
+    });
+    req.on('error', reject);
+});
+
+// Hashed first so the comparison takes the same time whatever the length of the guess
+const digest = (text: string) => createHash('sha256').update(text).digest();
+const sameToken = (given: string, expected: string) => timingSafeEqual(digest(given), digest(expected));
+
+export interface ApiOptions {
+    allowedOrigin: string;
+    token: string;
+}
+
+export const createApiHandler = (store: DataStore, { allowedOrigin, token }: ApiOptions) => {
+    if (!token) throw new Error('The API needs an access token');
+    const routes = createRoutes(store);
+    const corsHeaders = {
+        'Access-Control-Allow-Origin': allowedOrigin,
+        'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        Vary: 'Origin',
+    };
+
+    // EventSource cannot send headers, so the change stream alone also takes the token in the query
+    const isAuthorized = (req: IncomingMessage, url: URL) => {
+        const header = req.headers.authorization || '';
+        if (header.startsWith('Bearer ')) return sameToken(header.slice('Bearer '.length), token);
+        const query = url.pathname === '/changes' ? url.searchParams.get('access_token') : null;
+        return query !== null && sameToken(query, token);
+    };
+
+    const send = (res: ServerResponse, status: number, data: unknown) => {
+        res.writeHead(status, { ...corsHeaders, 'Content-Type': 'application/json; charset=utf-8' });
+        // Writes that return nothing answer null, so every response parses as JSON
+        res.end(JSON.stringify(data ?? null));
+    };
+
+    const streamChanges = (req: IncomingMessage, res: ServerResponse) => {
+        res.writeHead(200, { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+        res.write(': connected\n\n');
+        const unsubscribe = store.subscribe(changes => res.write(`data: ${JSON.stringify(changes)}\n\n`), () => {});
+        const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+        req.on('close', () => {
+            clearInterval(heartbeat);
+            unsubscribe();
+        });
+    };
+
+    // Calendar apps cannot send the access token; the feed token in the path stands in for it until the feed is revoked
+    const serveCalendarFeed = async (res: ServerResponse, token: string) => {
+        try {
+            const ics = await renderCalendarFeed(store, token);
+            if (ics === null) {
+                send(res, 404, { error: 'No such calendar feed' });
+                return;
+            }
+            res.writeHead(200, { 'Content-Type': 'text/calendar; charset=utf-8', 'Cache-Control': 'no-cache' });
+            res.end(ics);
+        } catch (err) {
+            console.error('Calendar feed failed:', stringifyError(err));
+            send(res, 500, { error: 'Internal server error' });
+        }
+    };
+
+    return async (req: IncomingMessage, res: ServerResponse) => {
+        const url = new URL(req.url || '/', 'http://localhost');
+        const method = req.method || 'GET';
+        if (method === 'OPTIONS') {
+            res.writeHead(204, corsHeaders);
+            res.end();
+            return;
+        }
+        if (method === 'GET' && url.pathname === '/health') {
+            send(res, 200, { ok: true });
+            return;
+        }
+        const feed = method === 'GET' ? CALENDAR_FEED_PATH.exec(url.pathname) : null;
+        if (feed) {
+            await serveCalendarFeed(res, decodeURIComponent(feed[1]));
+            return;
+        }
+        if (!isAuthorized(req, url)) {
+            res.setHeader('WWW-Authenticate', 'Bearer');
+            send(res, 401, { error: 'Missing or wrong access token' });
+            return;
+        }
+        if (method === 'GET' && url.pathname === '/changes') {
+            streamChanges(req, res);
+            return;
+        }
+
+        const matched = routes
+            .filter(([m]) => m === method)
+            .map(([, path, handle]) => ({ match: path.exec(url.pathname), handle }))
+            .find(r => r.match);
+        if (!matched) {
+            send(res, 404, { error: `No route for ${method} ${url.pathname}` });
+            return;
+        }
+        try {
+            const params = matched.match!.slice(1).map(decodeURIComponent);
+            const body = method === 'GET' || method === 'DELETE' ? undefined : await readBody(req);
+            send(res, 200, await matched.handle({ params, query: url.searchParams, body }));
+        } catch (err) {
+            if (err instanceof VersionConflictError) {
+                send(res, 409, { error: err.message, remote: err.remote, remoteOrder: err.remoteOrder });
+            } else if (err instanceof HttpError) {
+                send(res, err.status, { error: err.message });
+            } else if (err instanceof InvalidBodyError) {
+                send(res, 400, { error: `Invalid body: ${err.message}` });
+            } else {
+                // The details stay in the server log; they may name tables and columns
+                console.error(`${method} ${url.pathname} failed:`, stringifyError(err));
+                send(res, 500, { error: 'Internal server error' });
+            }
+        }
+    };
+};
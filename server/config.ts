@@ -0,0 +1,16 @@
+// Settings of the self-hosted server, shared with prisma.config.ts; both read the same environment variables
+
+// A SQLite file next to the schema unless DATABASE_URL names another database (postgres://... for Postgres)
+export const DEFAULT_DATABASE_URL = 'file:./prisma/gantt.db';
+
+export const DATABASE_URL = process.env.DATABASE_URL || DEFAULT_DATABASE_URL;
+
+export const isPostgresUrl = (url: string) => /^postgres(ql)?:/.test(url);
+
+export const PORT = Number(process.env.PORT) || 4000;
+
+// Every route but /health needs it as "Authorization: Bearer <token>"; the server does not start without one
+export const API_TOKEN = process.env.API_TOKEN || '';
+
+// The one origin whose pages may call the API from a browser: where the app is served (the vite dev server by default)
+export const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN || 'http://localhost:3000';
@@ -0,0 +1,11 @@
+import { PrismaBetterSqlite3 } from '@prisma/adapter-better-sqlite3';
+import { PrismaPg } from '@prisma/adapter-pg';
+import { PrismaClient } from './generated/prisma/client';
+import { isPostgresUrl } from './config';
+
+// The driver follows the URL. It has to match the schema the client was generated from, which prisma.config.ts
+// also picks by URL: generate again with DATABASE_URL set when switching between SQLite and Postgres.
+export const createPrismaClient = (url: string) => {
+    const adapter = isPostgresUrl(url) ? new PrismaPg({ connectionString: url }) : new PrismaBetterSqlite3({ url });
+    return new PrismaClient({ adapter });
+};
@@ -0,0 +1,33 @@
+import { createServer } from 'node:http';
+import { ALLOWED_ORIGIN, API_TOKEN, DATABASE_URL, PORT } from './config';
+import { createPrismaClient } from './database';
+import { createPrismaStore } from './prismaStore';
+import { createApiHandler } from './api';
+
+// Self-hosted backend: `npm run db:push` once to create the tables, then `API_TOKEN=... npm run server`.
+// In the app, pick '자체 서버' in the settings and enter the address printed below and the same token.
+
+if (!API_TOKEN) {
+    console.error('Set API_TOKEN to the access token the app will send. Without it anyone on the network could edit the schedule.');
+    process.exit(1);
+}
+if (ALLOWED_ORIGIN === '*') {
+    console.error('ALLOWED_ORIGIN must name the origin the app is served from, not *.');
+    process.exit(1);
+}
+
+const prisma = createPrismaClient(DATABASE_URL);
+const server = createServer(createApiHandler(createPrismaStore(prisma), { allowedOrigin: ALLOWED_ORIGIN, token: API_TOKEN }));
+
+server.listen(PORT, () => console.log(`Gantt server listening on http://localhost:${PORT}`));
+
+const shutdown = async () => {
+    // Open change streams would otherwise keep the server from closing
+    server.closeAllConnections();
+    server.close();
+    await prisma.$disconnect();
+    process.exit(0);
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,435 @@
+import { Task, TaskKind, Employee, TaskDependency, DependencyType, Baseline, RealtimeChange, AuditEntry, AuditAction, AuditEntityType, AuditChange, CalendarFeed } from '../types';
+import { DataStore, ProjectRow, TaskRow, RowVersions, VersionConflictError, TASK_DETAIL_FIELDS } from '../services/dataService';
+import { PrismaClient, Prisma, type Project as ProjectRecord, type Task as TaskRecord, type Employee as EmployeeRecord, type TaskDependency as DependencyRecord, type ProjectBaseline as BaselineRecord, type AuditLog as AuditRecord, type CalendarFeed as FeedRecord } from './generated/prisma/client';
+
+// --- Prisma Store ---
+// The DataStore of the self-hosted server. The database has no triggers, so versions and revisions are
+// bumped here, and every write hands the rows it changed (cascades included) to subscribers itself.
+
+const toDateColumn = (date: Date | string) => new Date(date).toISOString().split('T')[0];
+
+const fromProjectRecord = (p: ProjectRecord): ProjectRow => ({ id: p.id, name: p.name ?? '', version: p.version, position: p.position });
+
+const fromTaskRecord = (t: TaskRecord): TaskRow => ({
+    id: t.id,
+    projectId: t.projectId,
+    name: t.name ?? '',
+    kind: (t.kind as TaskKind) || 'task',
+    startDate: new Date(t.startDate),
+    endDate: new Date(t.endDate),
+    color: t.color ?? '',
+    employeeId: t.employeeId || '',
+    progress: t.progress,
+    description: t.description ?? undefined,
+    sequence: t.sequence,
+    version: t.version,
+    position: t.position
+});
+
+const toTaskData = (task: Task) => ({
+    name: task.name,
+    kind: task.kind || 'task',
+    startDate: toDateColumn(task.startDate),
+    endDate: toDateColumn(task.endDate),
+    color: task.color,
+    // Unassigned tasks store null so the employees foreign key accepts them
+    employeeId: task.employeeId || null,
+    progress: task.progress,
+    description: task.description ?? null
+});
+
+// Only the fields the update sets
+const toTaskUpdate = (update: Partial<Task>) => {
+    const data: Partial<ReturnType<typeof toTaskData>> = {};
+    if (update.name !== undefined) data.name = update.name;
+    if (update.kind !== undefined) data.kind = update.kind;
+    if (update.startDate) data.startDate = toDateColumn(update.startDate);
+    if (update.endDate) data.endDate = toDateColumn(update.endDate);
+    if (update.employeeId !== undefined) data.employeeId = update.employeeId || null;
+    if (update.progress !== undefined) data.progress = update.progress;
+    if (update.description !== undefined) data.description = update.description;
+    return data;
+};
+
+const blankAsNull = (value: unknown) => value === undefined || value === '' ? null : value;
+
+// The columns are named after the Task fields, so the same list decides what counts as a new revision
+const hasNewDetails = (before: TaskRecord, data: Partial<ReturnType<typeof toTaskData>>) =>
+    TASK_DETAIL_FIELDS.some(field => field in data && blankAsNull(data[field]) !== blankAsNull(before[field]));
+
+const fromEmployeeRecord = (e: EmployeeRecord): Employee => ({ id: e.id, name: e.name ?? '', departmentId: e.departmentId || '' });
+
+const fromDependencyRecord = (d: DependencyRecord): TaskDependency => ({
+    id: d.id,
+    predecessorId: d.predecessorId,
+    successorId: d.successorId,
+    type: (d.type as DependencyType) || 'FS',
+    lagDays: d.lagDays
+});
+
+// Baseline tasks keep the JSON shape of the Supabase column, so rows copy across unchanged
+interface BaselineTaskJson {
+    task_id: string;
+    start_date: string;
+    end_date: string;
+    progress?: number;
+}
+
+const isBaselineTaskJson = (value: unknown): value is BaselineTaskJson => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+    const t = value as Record<string, unknown>;
+    return typeof t.task_id === 'string' && typeof t.start_date === 'string' && typeof t.end_date === 'string';
+};
+
+// Entries that are not baseline tasks (a hand-edited row) are left out
+const readBaselineTasks = (json: Prisma.JsonValue) => (Array.isArray(json) ? json : []).flatMap(t => isBaselineTaskJson(t) ? [t] : []);
+
+const fromBaselineRecord = (b: BaselineRecord): Baseline => ({
+    id: b.id,
+    projectId: b.projectId,
+    name: b.name ?? '',
+    createdAt: b.createdAt,
+    tasks: readBaselineTasks(b.tasks).map(t => ({
+        taskId: t.task_id,
+        startDate: new Date(t.start_date),
+        endDate: new Date(t.end_date),
+        progress: t.progress || 0
+    }))
+});
+
+const toBaselineData = (b: Baseline) => ({
+    projectId: b.projectId,
+    name: b.name,
+    createdAt: new Date(b.createdAt),
+    tasks: b.tasks.map(t => ({
+        task_id: t.taskId,
+        start_date: toDateColumn(t.startDate),
+        end_date: toDateColumn(t.endDate),
+        progress: t.progress
+    }) satisfies BaselineTaskJson)
+});
+
+const isAuditChange = (value: unknown): value is AuditChange => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+    const c = value as Record<string, unknown>;
+    const isValue = (v: unknown) => v === null || typeof v === 'string' || typeof v === 'number';
+    return typeof c.field === 'string' && isValue(c.before) && isValue(c.after);
+};
+
+const fromAuditRecord = (a: AuditRecord): AuditEntry => ({
+    id: a.id,
+    timestamp: a.createdAt,
+    actor: a.actor ?? '',
+    action: a.action as AuditAction,
+    entityType: a.entityType as AuditEntityType,
+    entityId: a.entityId,
+    entityName: a.entityName ?? undefined,
+    projectId: a.projectId ?? undefined,
+    note: a.note ?? undefined,
+    changes: (Array.isArray(a.changes) ? a.changes : []).flatMap(c => isAuditChange(c) ? [c] : [])
+});
+
+const toAuditData = (e: AuditEntry) => ({
+    id: e.id,
+    createdAt: new Date(e.timestamp),
+    actor: e.actor,
+    action: e.action,
+    entityType: e.entityType,
+    entityId: e.entityId,
+    entityName: e.entityName ?? null,
+    projectId: e.projectId ?? null,
+    note: e.note ?? null,
+    changes: e.changes.map(({ field, before, after }) => ({ field, before, after }))
+});
+
+const fromFeedRecord = (f: FeedRecord): CalendarFeed => ({ token: f.token, scopeKey: f.scopeKey, createdAt: f.createdAt });
+
+const PROJECT_ORDER = [{ position: 'asc' }, { createdAt: 'asc' }] satisfies Prisma.ProjectOrderByWithRelationInput[];
+const TASK_ORDER = [{ position: 'asc' }, { id: 'asc' }] satisfies Prisma.TaskOrderByWithRelationInput[];
+
+const projectChange = (p: ProjectRecord): RealtimeChange => ({ table: 'projects', id: p.id, row: fromProjectRecord(p) });
+const taskChange = (t: TaskRecord): RealtimeChange => ({ table: 'tasks', id: t.id, row: fromTaskRecord(t) });
+
+export const createPrismaStore = (prisma: PrismaClient): DataStore => {
+    const listeners = new Set<(changes: RealtimeChange[]) => void>();
+
+    const emit = (changes: RealtimeChange[]) => {
+        if (changes.length > 0) listeners.forEach(listener => listener(changes));
+    };
+
+    // Reorders rewrite the position of every row, so any of them having moved on makes the whole order stale
+    const checkOrder = (rows: { id: string; version: number }[], expectedVersions: RowVersions | undefined) => {
+        if (!expectedVersions) return;
+        const current = new Map(rows.map(r => [r.id, r.version]));
+        if (Object.entries(expectedVersions).some(([id, v]) => current.get(id) !== v)) {
+            throw new VersionConflictError(undefined, rows.map(r => r.id));
+        }
+    };
+
+    // Written only while the row is still at the version it was read at, so two writers never both pass the check
+    async function updateTaskIfCurrent(id: string, update: Partial<Task>, expectedVersion: number | undefined): Promise<RowVersions> {
+        const record = await prisma.task.findUnique({ where: { id } });
+        if (!record) {
+            if (expectedVersion !== undefined) throw new VersionConflictError(null);
+            return {};
+        }
+        if (expectedVersion !== undefined && record.version !== expectedVersion) throw new VersionConflictError(fromTaskRecord(record));
+        const data = toTaskUpdate(update);
+        const { count } = await prisma.task.updateMany({
+            where: { id, version: record.version },
+            data: { ...data, version: { increment: 1 }, ...(hasNewDetails(record, data) && { sequence: { increment: 1 } }) },
+        });
+        // Someone else wrote in between: check again against what they left
+        if (count === 0) return updateTaskIfCurrent(id, update, expectedVersion);
+        const updated = await prisma.task.findUniqueOrThrow({ where: { id } });
+        emit([taskChange(updated)]);
+        return { [id]: updated.version };
+    }
+
+    return {
+        kind: 'server',
+
+        getProjects: async () => {
+            const projects = await prisma.project.findMany({ orderBy: PROJECT_ORDER, include: { tasks: { orderBy: TASK_ORDER } } });
+            return projects.map(({ tasks, ...p }) => ({
+                ...fromProjectRecord(p),
+                tasks: tasks.map(t => { const { projectId, ...task } = fromTaskRecord(t); return task; })
+            }));
+        },
+        getProject: async id => {
+            const project = await prisma.project.findUnique({ where: { id } });
+            return project && fromProjectRecord(project);
+        },
+        getTask: async id => {
+            const task = await prisma.task.findUnique({ where: { id } });
+            return task && fromTaskRecord(task);
+        },
+        getDepartments: async () => {
+            const departments = await prisma.department.findMany({ orderBy: { name: 'asc' }, include: { employees: { orderBy: { name: 'asc' } } } });
+            return departments.map(d => ({ id: d.id, name: d.name ?? '', employees: d.employees.map(fromEmployeeRecord) }));
+        },
+        getEmployees: async () => (await prisma.employee.findMany({ orderBy: { name: 'asc' } })).map(fromEmployeeRecord),
+        getDependencies: async () => (await prisma.taskDependency.findMany()).map(fromDependencyRecord),
+        getBaselines: async () => (await prisma.projectBaseline.findMany({ orderBy: { createdAt: 'asc' } })).map(fromBaselineRecord),
+        getSetting: async key => (await prisma.systemSetting.findUnique({ where: { key } }))?.value ?? null,
+
+        putProjects: async rows => {
+            const written = await prisma.$transaction(rows.map(({ id, name, position }) => prisma.project.upsert({
+                where: { id },
+                create: { id, name, position },
+                update: { name, version: { increment: 1 } },
+            })));
+            emit(written.map(projectChange));
+        },
+        // Tasks of a project that does not exist are skipped, as with the document stores
+        putTasks: async rows => {
+            const written = await prisma.$transaction(async tx => {
+                const projectIds = new Set((await tx.project.findMany({ where: { id: { in: rows.map(r => r.projectId) } }, select: { id: true } })).map(p => p.id));
+                const existing = new Map((await tx.task.findMany({ where: { id: { in: rows.map(r => r.task.id) } } })).map(t => [t.id, t]));
+                const records: TaskRecord[] = [];
+                for (const { projectId, task, position } of rows) {
+                    if (!projectIds.has(projectId)) continue;
+                    const data = toTaskData(task);
+                    const before = existing.get(task.id);
+                    records.push(before
+                        ? await tx.task.update({
+                            where: { id: task.id },
+                            data: {
+                                ...data,
+                                projectId,
+                                // Keeps its place unless it moves to another project
+                                ...(before.projectId !== projectId && { position }),
+                                version: { increment: 1 },
+                                ...(hasNewDetails(before, data) && { sequence: { increment: 1 } }),
+                            },
+                        })
+                        : await tx.task.create({ data: { ...data, id: task.id, projectId, position, sequence: task.sequence ?? 0 } }));
+                }
+                return records;
+            });
+            emit(written.map(taskChange));
+        },
+        putDepartments: async rows => {
+            await prisma.$transaction(rows.map(({ id, name }) => prisma.department.upsert({ where: { id }, create: { id, name }, update: { name } })));
+            emit(rows.map(({ id, name }) => ({ table: 'departments', id, row: { id, name } })));
+        },
+        putEmployees: async rows => {
+            await prisma.$transaction(rows.map(e => {
+                const data = { name: e.name, departmentId: e.departmentId || null };
+                return prisma.employee.upsert({ where: { id: e.id }, create: { id: e.id, ...data }, update: data });
+            }));
+            emit(rows.map(e => ({ table: 'employees', id: e.id, row: { ...e } })));
+        },
+        putDependencies: async rows => {
+            await prisma.$transaction(rows.map(d => {
+                const data = { predecessorId: d.predecessorId, successorId: d.successorId, type: d.type, lagDays: d.lagDays };
+                return prisma.taskDependency.upsert({ where: { id: d.id }, create: { id: d.id, ...data }, update: data });
+            }));
+            emit(rows.map(d => ({ table: 'task_dependencies', id: d.id, row: { ...d } })));
+        },
+        putBaselines: async rows => {
+            const written = await prisma.$transaction(rows.map(b => {
+                const data = toBaselineData(b);
+                return prisma.projectBaseline.upsert({ where: { id: b.id }, create: { id: b.id, ...data }, update: data });
+            }));
+            emit(written.map(b => ({ table: 'project_baselines', id: b.id, row: fromBaselineRecord(b) })));
+        },
+        saveSetting: async (key, value) => {
+            const json = value === null || value === undefined ? Prisma.JsonNull : value;
+            await prisma.systemSetting.upsert({ where: { key }, create: { key, value: json }, update: { value: json } });
+            emit([{ table: 'system_settings', id: key, row: { value: value ?? null } }]);
+        },
+
+        updateProject: async (id, name, expectedVersion) => {
+            const { count } = await prisma.project.updateMany({
+                where: { id, ...(expectedVersion !== undefined && { version: expectedVersion }) },
+                data: { name, version: { increment: 1 } },
+            });
+            const project = await prisma.project.findUnique({ where: { id } });
+            if (count === 0) {
+                if (expectedVersion === undefined) return {};
+                throw new VersionConflictError(project && { name: project.name ?? '', version: project.version });
+            }
+            if (!project) return {};
+            emit([projectChange(project)]);
+            return { [id]: project.version };
+        },
+        updateTask: (id, update, expectedVersion) => updateTaskIfCurrent(id, update, expectedVersion),
+        setProjectOrder: async (projects, expectedVersions) => {
+            const written = await prisma.$transaction(async tx => {
+                checkOrder(await tx.project.findMany({ orderBy: PROJECT_ORDER, select: { id: true, version: true } }), expectedVersions);
+                const known = new Set((await tx.project.findMany({ where: { id: { in: projects.map(p => p.id) } }, select: { id: true } })).map(p => p.id));
+                const records: ProjectRecord[] = [];
+                for (const [position, p] of projects.entries()) {
+                    if (known.has(p.id)) records.push(await tx.project.update({ where: { id: p.id }, data: { position, version: { increment: 1 } } }));
+                }
+                return records;
+            });
+            emit(written.map(projectChange));
+            return Object.fromEntries(written.map(p => [p.id, p.version]));
+        },
+        setTaskOrder: async (projectId, taskIds, expectedVersions) => {
+            const written = await prisma.$transaction(async tx => {
+                const current = await tx.task.findMany({ where: { projectId }, orderBy: TASK_ORDER, select: { id: true, version: true } });
+                checkOrder(current, expectedVersions);
+                const known = new Set(current.map(t => t.id));
+                const records: TaskRecord[] = [];
+                for (const [position, id] of taskIds.entries()) {
+                    if (known.has(id)) records.push(await tx.task.update({ where: { id }, data: { position, version: { increment: 1 } } }));
+                }
+                return records;
+            });
+            emit(written.map(taskChange));
+            return Object.fromEntries(written.map(t => [t.id, t.version]));
+        },
+
+        // The foreign keys remove the tasks, links and baselines; they are read first so subscribers hear of them
+        deleteProject: async id => {
+            const removed = await prisma.$transaction(async tx => {
+                const project = await tx.project.findUnique({ where: { id }, include: { tasks: { select: { id: true } }, baselines: { select: { id: true } } } });
+                if (!project) return null;
+                const taskIds = project.tasks.map(t => t.id);
+                const links = await tx.taskDependency.findMany({ where: { OR: [{ predecessorId: { in: taskIds } }, { successorId: { in: taskIds } }] }, select: { id: true } });
+                await tx.project.delete({ where: { id } });
+                return { project, taskIds, links };
+            });
+            if (!removed) return null;
+            emit([
+                { table: 'projects', id, row: null },
+                ...removed.taskIds.map((taskId): RealtimeChange => ({ table: 'tasks', id: taskId, row: null })),
+                ...removed.links.map((l): RealtimeChange => ({ table: 'task_dependencies', id: l.id, row: null })),
+                ...removed.project.baselines.map((b): RealtimeChange => ({ table: 'project_baselines', id: b.id, row: null })),
+            ]);
+            const { tasks, baselines, ...project } = removed.project;
+            return fromProjectRecord(project);
+        },
+        deleteTask: async (id, expectedVersion) => {
+            const removed = await prisma.$transaction(async tx => {
+                const task = await tx.task.findUnique({ where: { id } });
+                // Already gone is what the caller wanted anyway
+                if (!task) return null;
+                if (expectedVersion !== undefined && task.version !== expectedVersion) throw new VersionConflictError(fromTaskRecord(task));
+                const links = await tx.taskDependency.findMany({ where: { OR: [{ predecessorId: id }, { successorId: id }] }, select: { id: true } });
+                const { count } = await tx.task.deleteMany({ where: { id, version: task.version } });
+                if (count === 0) throw new VersionConflictError(fromTaskRecord(await tx.task.findUniqueOrThrow({ where: { id } })));
+                return { task, links };
+            });
+            if (!removed) return null;
+            emit([
+                { table: 'tasks', id, row: null },
+                ...removed.links.map((l): RealtimeChange => ({ table: 'task_dependencies', id: l.id, row: null })),
+            ]);
+            return fromTaskRecord(removed.task);
+        },
+        deleteDepartment: async id => {
+            const removed = await prisma.$transaction(async tx => {
+                const department = await tx.department.findUnique({ where: { id }, include: { employees: true } });
+                if (department) await tx.department.delete({ where: { id } });
+                return department;
+            });
+            if (!removed) return null;
+            emit([
+                { table: 'departments', id, row: null },
+                ...removed.employees.map((e): RealtimeChange => ({ table: 'employees', id: e.id, row: { ...fromEmployeeRecord(e), departmentId: '' } })),
+            ]);
+            return { id: removed.id, name: removed.name ?? '' };
+        },
+        deleteEmployee: async id => {
+            const removed = await prisma.$transaction(async tx => {
+                const employee = await tx.employee.findUnique({ where: { id } });
+                if (!employee) return null;
+                // Their tasks are left unassigned, which is a change of details like any other
+                const taskIds = (await tx.task.findMany({ where: { employeeId: id }, select: { id: true } })).map(t => t.id);
+                await tx.task.updateMany({ where: { employeeId: id }, data: { employeeId: null, version: { increment: 1 }, sequence: { increment: 1 } } });
+                await tx.employee.delete({ where: { id } });
+                return { employee, tasks: await tx.task.findMany({ where: { id: { in: taskIds } } }) };
+            });
+            if (!removed) return null;
+            emit([{ table: 'employees', id, row: null }, ...removed.tasks.map(taskChange)]);
+            return fromEmployeeRecord(removed.employee);
+        },
+        deleteDependency: async id => {
+            const dependency = await prisma.taskDependency.findUnique({ where: { id } });
+            if (!dependency) return null;
+            const { count } = await prisma.taskDependency.deleteMany({ where: { id } });
+            if (count === 0) return null;
+            emit([{ table: 'task_dependencies', id, row: null }]);
+            return fromDependencyRecord(dependency);
+        },
+        deleteBaseline: async id => {
+            const baseline = await prisma.projectBaseline.findUnique({ where: { id } });
+            if (!baseline) return null;
+            const { count } = await prisma.projectBaseline.deleteMany({ where: { id } });
+            if (count === 0) return null;
+            emit([{ table: 'project_baselines', id, row: null }]);
+            return fromBaselineRecord(baseline);
+        },
+
+        getAuditLog: async ({ entityId, limit }) => {
+            const entries = await prisma.auditLog.findMany({ where: entityId ? { entityId } : {}, orderBy: { createdAt: 'desc' }, take: limit });
+            return entries.map(fromAuditRecord);
+        },
+        appendAudit: async entries => {
+            await prisma.auditLog.createMany({ data: entries.map(toAuditData) });
+        },
+
+        getCalendarFeeds: async () => (await prisma.calendarFeed.findMany({ orderBy: { createdAt: 'asc' } })).map(fromFeedRecord),
+        getCalendarFeed: async token => {
+            const feed = await prisma.calendarFeed.findUnique({ where: { token } });
+            return feed && fromFeedRecord(feed);
+        },
+        putCalendarFeed: async ({ token, scopeKey, createdAt }) => {
+            const data = { scopeKey, createdAt: new Date(createdAt) };
+            await prisma.calendarFeed.upsert({ where: { token }, create: { token, ...data }, update: data });
+        },
+        deleteCalendarFeed: async token => {
+            await prisma.calendarFeed.deleteMany({ where: { token } });
+        },
+
+        // Writes of this server only, so nothing is ever missed while a subscriber is attached
+        subscribe: onChanges => {
+            listeners.add(onChanges);
+            return () => { listeners.delete(onChanges); };
+        },
+    };
+};
@@ -0,0 +1,203 @@
+import { Task, TaskKind, Department, Employee, TaskDependency, DependencyType, Baseline, AuditEntry, AuditAction, AuditEntityType, AuditChange, CalendarFeed } from '../types';
+import { ProjectRow, RowVersions } from '../services/dataService';
+import { parseScopeKey } from '../utils/icalUtils';
+
+// --- Request Bodies ---
+// The shape each route expects, checked before anything reaches the store. A body that does not fit is
+// answered with 400 and says which field is wrong. Dates arrive as JSON strings and leave as Dates.
+
+export class InvalidBodyError extends Error {}
+
+type Json = Record<string, unknown>;
+
+const fail = (message: string): never => {
+    throw new InvalidBodyError(message);
+};
+
+const isObject = (value: unknown): value is Json => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const object = (value: unknown, what: string): Json => isObject(value) ? value : fail(`${what} must be an object`);
+
+const list = (value: unknown, what: string): unknown[] => Array.isArray(value) ? value : fail(`${what} must be a list`);
+
+const string = (value: unknown, what: string): string => typeof value === 'string' ? value : fail(`${what} must be a string`);
+
+const integer = (value: unknown, what: string): number => Number.isInteger(value) ? value as number : fail(`${what} must be an integer`);
+
+const number = (value: unknown, what: string): number => typeof value === 'number' && Number.isFinite(value) ? value : fail(`${what} must be a number`);
+
+const date = (value: unknown, what: string): Date => {
+    const parsed = typeof value === 'string' ? new Date(value) : null;
+    return parsed && !isNaN(parsed.getTime()) ? parsed : fail(`${what} must be a date`);
+};
+
+const optional = <T>(value: unknown, read: (value: unknown, what: string) => T, what: string): T | undefined =>
+    value === undefined || value === null ? undefined : read(value, what);
+
+const oneOf = <T extends string>(value: unknown, allowed: readonly T[], what: string): T =>
+    allowed.includes(value as T) ? value as T : fail(`${what} must be one of ${allowed.join(', ')}`);
+
+const TASK_KINDS: readonly TaskKind[] = ['task', 'milestone'];
+const DEPENDENCY_TYPES: readonly DependencyType[] = ['FS', 'SS', 'FF'];
+const AUDIT_ACTIONS: readonly AuditAction[] = ['create', 'update', 'delete', 'reorder', 'restore'];
+const AUDIT_ENTITY_TYPES: readonly AuditEntityType[] = ['project', 'task', 'department', 'employee', 'dependency', 'baseline', 'user'];
+// A page of the log is 100 entries in the app; more than this at once is not a page
+const MAX_AUDIT_LIMIT = 1000;
+// The app makes 48 hex digits; a short token could be guessed
+const MIN_FEED_TOKEN_LENGTH = 32;
+
+const versions = (value: unknown, what: string): RowVersions =>
+    Object.fromEntries(Object.entries(object(value, what)).map(([id, v]) => [id, integer(v, `${what}.${id}`)]));
+
+const task = (value: unknown, what: string): Task => {
+    const t = object(value, what);
+    return {
+        id: string(t.id, `${what}.id`),
+        name: string(t.name, `${what}.name`),
+        kind: optional(t.kind, (v, w) => oneOf(v, TASK_KINDS, w), `${what}.kind`),
+        startDate: date(t.startDate, `${what}.startDate`),
+        endDate: date(t.endDate, `${what}.endDate`),
+        color: optional(t.color, string, `${what}.color`) ?? '',
+        employeeId: optional(t.employeeId, string, `${what}.employeeId`) ?? '',
+        progress: number(t.progress, `${what}.progress`),
+        description: optional(t.description, string, `${what}.description`),
+        sequence: optional(t.sequence, integer, `${what}.sequence`),
+    };
+};
+
+// Only the fields that are present, so an update still sets nothing it does not name
+const taskUpdate = (value: unknown, what: string): Partial<Task> => {
+    const u = object(value, what);
+    const update: Partial<Task> = {};
+    if (u.name !== undefined) update.name = string(u.name, `${what}.name`);
+    if (u.kind !== undefined) update.kind = oneOf(u.kind, TASK_KINDS, `${what}.kind`);
+    if (u.startDate !== undefined) update.startDate = date(u.startDate, `${what}.startDate`);
+    if (u.endDate !== undefined) update.endDate = date(u.endDate, `${what}.endDate`);
+    if (u.color !== undefined) update.color = string(u.color, `${what}.color`);
+    if (u.employeeId !== undefined) update.employeeId = optional(u.employeeId, string, `${what}.employeeId`) ?? '';
+    if (u.progress !== undefined) update.progress = number(u.progress, `${what}.progress`);
+    if (u.description !== undefined) update.description = optional(u.description, string, `${what}.description`) ?? '';
+    return update;
+};
+
+export const readProjectRows = (body: unknown) => list(body, 'body').map((item, i) => {
+    const p = object(item, `body[${i}]`);
+    return { id: string(p.id, `body[${i}].id`), name: string(p.name, `body[${i}].name`), position: integer(p.position, `body[${i}].position`) };
+});
+
+export const readProjectOrder = (body: unknown) => {
+    const b = object(body, 'body');
+    return {
+        projects: list(b.projects, 'projects').map((item, i): Pick<ProjectRow, 'id' | 'name'> => {
+            const p = object(item, `projects[${i}]`);
+            return { id: string(p.id, `projects[${i}].id`), name: string(p.name, `projects[${i}].name`) };
+        }),
+        expectedVersions: optional(b.expectedVersions, versions, 'expectedVersions'),
+    };
+};
+
+export const readProjectUpdate = (body: unknown) => {
+    const b = object(body, 'body');
+    return { name: string(b.name, 'name'), expectedVersion: optional(b.expectedVersion, integer, 'expectedVersion') };
+};
+
+export const readTaskOrder = (body: unknown) => {
+    const b = object(body, 'body');
+    return {
+        taskIds: list(b.taskIds, 'taskIds').map((id, i) => string(id, `taskIds[${i}]`)),
+        expectedVersions: optional(b.expectedVersions, versions, 'expectedVersions'),
+    };
+};
+
+export const readTaskRows = (body: unknown) => list(body, 'body').map((item, i) => {
+    const r = object(item, `body[${i}]`);
+    return { projectId: string(r.projectId, `body[${i}].projectId`), task: task(r.task, `body[${i}].task`), position: integer(r.position, `body[${i}].position`) };
+});
+
+export const readTaskUpdate = (body: unknown) => {
+    const b = object(body, 'body');
+    return { update: taskUpdate(b.update, 'update'), expectedVersion: optional(b.expectedVersion, integer, 'expectedVersion') };
+};
+
+export const readDepartments = (body: unknown) => list(body, 'body').map((item, i): Department => {
+    const d = object(item, `body[${i}]`);
+    return { id: string(d.id, `body[${i}].id`), name: string(d.name, `body[${i}].name`), employees: [] };
+});
+
+export const readEmployees = (body: unknown) => list(body, 'body').map((item, i): Employee => {
+    const e = object(item, `body[${i}]`);
+    return { id: string(e.id, `body[${i}].id`), name: string(e.name, `body[${i}].name`), departmentId: optional(e.departmentId, string, `body[${i}].departmentId`) ?? '' };
+});
+
+export const readDependencies = (body: unknown) => list(body, 'body').map((item, i): TaskDependency => {
+    const d = object(item, `body[${i}]`);
+    return {
+        id: string(d.id, `body[${i}].id`),
+        predecessorId: string(d.predecessorId, `body[${i}].predecessorId`),
+        successorId: string(d.successorId, `body[${i}].successorId`),
+        type: oneOf(d.type, DEPENDENCY_TYPES, `body[${i}].type`),
+        lagDays: integer(d.lagDays, `body[${i}].lagDays`),
+    };
+});
+
+export const readBaselines = (body: unknown) => list(body, 'body').map((item, i): Baseline => {
+    const b = object(item, `body[${i}]`);
+    return {
+        id: string(b.id, `body[${i}].id`),
+        projectId: string(b.projectId, `body[${i}].projectId`),
+        name: string(b.name, `body[${i}].name`),
+        createdAt: date(b.createdAt, `body[${i}].createdAt`),
+        tasks: list(b.tasks, `body[${i}].tasks`).map((entry, j) => {
+            const what = `body[${i}].tasks[${j}]`;
+            const t = object(entry, what);
+            return { taskId: string(t.taskId, `${what}.taskId`), startDate: date(t.startDate, `${what}.startDate`), endDate: date(t.endDate, `${what}.endDate`), progress: number(t.progress, `${what}.progress`) };
+        }),
+    };
+});
+
+const auditValue = (value: unknown, what: string): AuditChange['before'] =>
+    value === undefined || value === null ? null : typeof value === 'string' ? value : number(value, what);
+
+export const readAuditEntries = (body: unknown) => list(body, 'body').map((item, i): AuditEntry => {
+    const what = `body[${i}]`;
+    const e = object(item, what);
+    return {
+        id: string(e.id, `${what}.id`),
+        timestamp: date(e.timestamp, `${what}.timestamp`),
+        actor: string(e.actor, `${what}.actor`),
+        action: oneOf(e.action, AUDIT_ACTIONS, `${what}.action`),
+        entityType: oneOf(e.entityType, AUDIT_ENTITY_TYPES, `${what}.entityType`),
+        entityId: string(e.entityId, `${what}.entityId`),
+        entityName: optional(e.entityName, string, `${what}.entityName`),
+        projectId: optional(e.projectId, string, `${what}.projectId`),
+        note: optional(e.note, string, `${what}.note`),
+        changes: list(e.changes, `${what}.changes`).map((entry, j) => {
+            const c = object(entry, `${what}.changes[${j}]`);
+            return { field: string(c.field, `${what}.changes[${j}].field`), before: auditValue(c.before, `${what}.changes[${j}].before`), after: auditValue(c.after, `${what}.changes[${j}].after`) };
+        }),
+    };
+});
+
+export const readAuditQuery = (query: URLSearchParams) => {
+    const limit = query.get('limit');
+    const value = limit === null || limit === '' ? 100 : integer(Number(limit), 'limit');
+    if (value < 1 || value > MAX_AUDIT_LIMIT) fail(`limit must be between 1 and ${MAX_AUDIT_LIMIT}`);
+    return { entityId: query.get('entityId') || undefined, limit: value };
+};
+
+export const readCalendarFeed = (body: unknown): CalendarFeed => {
+    const b = object(body, 'body');
+    const token = string(b.token, 'token');
+    if (token.length < MIN_FEED_TOKEN_LENGTH) fail(`token must be at least ${MIN_FEED_TOKEN_LENGTH} characters`);
+    const scopeKey = string(b.scopeKey, 'scopeKey');
+    if (!parseScopeKey(scopeKey)) fail('scopeKey must be all or <department|employee|project>-<id>');
+    return { token, scopeKey, createdAt: date(b.createdAt, 'createdAt') };
+};
+
+// Any JSON value may be saved; null or none clears the setting
+export const readSetting = (body: unknown) => object(body, 'body').value ?? null;
+
+export const readExpectedVersion = (query: URLSearchParams) => {
+    const value = query.get('expectedVersion');
+    return value === null || value === '' ? undefined : integer(Number(value), 'expectedVersion');
+};
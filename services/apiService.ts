@@ -1,20 +1,20 @@
-import { Project, Task, Department, Employee } from '../types';
-import { addDays } from '../utils/dateUtils';
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { Project, Task, Department, Employee, TaskDependency, Baseline, AppData, AppDataChanges, RealtimeChange, SyncMutation, SyncEntry, SyncStatus, AuditEntry, AuditChange, AuthUser, UserRole, UserRoleAssignment, CalendarFeed } from '../types';
+import { computeDependencyShifts } from '../utils/dependencyUtils';
+import { DataStore, RowVersions, VersionConflictError, TASK_DETAIL_FIELDS, LOCAL_DATA_KEY, createLocalStorageStore, createSupabaseStore, createServerStore, pingServer, readLocalData, writeLocalData, emptyData, sortByIds, upsertById, insertAt, reviveBaseline, stringifyError, isMissingTableError, isNetworkError } from './dataService';
+import { createClient, SupabaseClient, User } from '@supabase/supabase-js';
 
-const DATA_KEY = 'gantt-app-data';
 const SUPABASE_CONFIG_KEY = 'gantt-supabase-config';
-const ADMIN_LOCK_KEY = 'gantt-admin-lock';
+const SERVER_CONFIG_KEY = 'gantt-server-config';
+// Where the old shared settings password was kept in plain text
+const LEGACY_ADMIN_LOCK_KEY = 'gantt-admin-lock';
 
 // Hardcoded fallbacks for when environment variable injection fails
 const FALLBACK_URL = "https://jvvqausidqgjtjteemyg.supabase.co";
 const FALLBACK_KEY = "sb_publishable_Xjitm41vvj5TDVK8m302mg_i8DZT9AM";
-const FALLBACK_PWD = "kiss1052";
 
 // --- GLOBAL CONFIGURATION ---
 let VITE_ENV_URL = "";
 let VITE_ENV_KEY = "";
-let VITE_ENV_PASSWORD = "";
 
 try {
     // @ts-ignore
@@ -23,8 +23,6 @@ try {
         VITE_ENV_URL = import.meta.env.VITE_SUPABASE_URL;
         // @ts-ignore
         VITE_ENV_KEY = import.meta.env.VITE_SUPABASE_KEY;
-        // @ts-ignore
-        VITE_ENV_PASSWORD = import.meta.env.VITE_ADMIN_PASSWORD;
     }
 } catch (e) {
     console.debug("Vite environment variables not accessible or not replaced:", e);
@@ -46,36 +44,100 @@ const cleanEnv = (val: any) => {
 
 const GLOBAL_SUPABASE_URL = cleanEnv(VITE_ENV_URL || getProcessEnv("SUPABASE_URL") || FALLBACK_URL);
 const GLOBAL_SUPABASE_KEY = cleanEnv(VITE_ENV_KEY || getProcessEnv("SUPABASE_KEY") || FALLBACK_KEY);
-const GLOBAL_ADMIN_PASSWORD = cleanEnv(VITE_ENV_PASSWORD || getProcessEnv("ADMIN_PASSWORD") || FALLBACK_PWD);
 
-// --- Supabase Client Management ---
+// --- Connection Management ---
 let supabase: SupabaseClient | null = null;
+// The Supabase project or self-hosted server in use; the offline queue and cache are kept per address
+let remoteUrl = '';
 let useSupabase = false;
+let currentUser: AuthUser | null = null;
+
+// Every read and write of the data goes to the active store (see dataService)
+const localStore = createLocalStorageStore();
+let store: DataStore = localStore;
+
+// Versions produced by this client's own writes. Until realtime brings the fresh rows back, the caller still
+// holds the old version, and its next write must not be mistaken for a stale one.
+const ownVersions = new Map<string, number>();
+
+const switchStore = (next: DataStore) => {
+    store = next;
+    // Versions remembered from the previous backend mean nothing in this one
+    ownVersions.clear();
+};
+
+export type ConnectionMode = 'local' | 'supabase' | 'server';
 
 export const initSupabase = (url: string, key: string) => {
     const targetUrl = url || GLOBAL_SUPABASE_URL;
     const targetKey = key || GLOBAL_SUPABASE_KEY;
+    localStorage.removeItem(SERVER_CONFIG_KEY);
 
     if (targetUrl && targetKey) {
         try {
             supabase = createClient(targetUrl, targetKey);
+            remoteUrl = targetUrl;
             useSupabase = true;
+            currentUser = null;
+            switchStore(createSupabaseStore(supabase));
             if (!GLOBAL_SUPABASE_URL) {
                 localStorage.setItem(SUPABASE_CONFIG_KEY, JSON.stringify({ url: targetUrl, key: targetKey }));
             }
         } catch (e) {
             console.error("Supabase init failed", e);
             useSupabase = false;
+            switchStore(localStore);
         }
     } else {
         supabase = null;
         useSupabase = false;
+        currentUser = null;
+        switchStore(localStore);
         if (!GLOBAL_SUPABASE_URL) {
             localStorage.removeItem(SUPABASE_CONFIG_KEY);
         }
     }
 };
 
+// The self-hosted server (server/ in this repo). It has no user accounts: whoever has its access token may edit,
+// with no roles, so the token is only for the people who would be editors.
+let serverToken = '';
+
+export const initServer = (url: string, token: string) => {
+    const targetUrl = url.trim();
+    serverToken = token.trim();
+    supabase = null;
+    useSupabase = false;
+    currentUser = null;
+    if (targetUrl) {
+        remoteUrl = targetUrl;
+        switchStore(createServerStore(targetUrl, serverToken));
+        localStorage.setItem(SERVER_CONFIG_KEY, JSON.stringify({ url: targetUrl, token: serverToken }));
+    } else {
+        remoteUrl = '';
+        serverToken = '';
+        switchStore(localStore);
+        localStorage.removeItem(SERVER_CONFIG_KEY);
+    }
+};
+
+export const getDataStore = () => store;
+
+// Runs the app on another backend, such as an in-memory one for a demo. This leaves Supabase and the
+// self-hosted server, whose connections (with the offline queue) only ever come from initSupabase and initServer.
+export const setDataStore = (next: DataStore) => {
+    supabase = null;
+    remoteUrl = '';
+    useSupabase = false;
+    currentUser = null;
+    switchStore(next);
+};
+
+export const getConnectionMode = (): ConnectionMode => store.kind === 'supabase' || store.kind === 'server' ? store.kind : 'local';
+
+// Stores shared over the network get the offline queue and cache; the others are this browser's own
+const isRemote = () => store.kind === 'supabase' || store.kind === 'server';
+
 export const getSupabaseConfig = () => {
     if (GLOBAL_SUPABASE_URL && GLOBAL_SUPABASE_KEY) {
         return { url: GLOBAL_SUPABASE_URL, key: GLOBAL_SUPABASE_KEY };
@@ -86,9 +148,19 @@ export const getSupabaseConfig = () => {
     } catch { return null; }
 };
 
+export const getServerConfig = (): { url: string; token?: string } | null => {
+    try {
+        const stored = localStorage.getItem(SERVER_CONFIG_KEY);
+        return stored ? JSON.parse(stored) : null;
+    } catch { return null; }
+};
+
 export const isGlobalConfigured = () => !!(GLOBAL_SUPABASE_URL && GLOBAL_SUPABASE_KEY);
+// A chosen self-hosted server wins over Supabase, which may only be there through the environment
+const storedServerConfig = getServerConfig();
 const storedConfig = getSupabaseConfig();
-if (storedConfig) initSupabase(storedConfig.url, storedConfig.key);
+if (storedServerConfig) initServer(storedServerConfig.url, storedServerConfig.token || '');
+else if (storedConfig) initSupabase(storedConfig.url, storedConfig.key);
 
 export const isSupabaseEnabled = () => useSupabase;
 
@@ -116,412 +188,1002 @@ export const getShareableConfigLink = (): string | null => {
     return url.toString();
 };
 
-export const setAdminPassword = (password: string) => {
-    if (GLOBAL_ADMIN_PASSWORD) return;
-    if (!password) localStorage.removeItem(ADMIN_LOCK_KEY);
-    else localStorage.setItem(ADMIN_LOCK_KEY, password);
+// --- Authentication (Supabase Auth) ---
+// Local mode has no server to sign in against, so it stays single-user and unlocked.
+// The client keeps the session in localStorage and refreshes it, so sign-in survives reloads.
+
+try { localStorage.removeItem(LEGACY_ADMIN_LOCK_KEY); } catch {}
+
+const toAuthUser = (user: User | null | undefined): AuthUser | null => user ? { id: user.id, email: user.email || '' } : null;
+
+export const isAuthAvailable = () => useSupabase;
+
+export const getCurrentUser = async (): Promise<AuthUser | null> => {
+    if (!useSupabase || !supabase) return null;
+    const { data, error } = await supabase.auth.getSession();
+    if (error) {
+        console.warn("Session lookup failed:", stringifyError(error));
+        return null;
+    }
+    currentUser = toAuthUser(data.session?.user);
+    return currentUser;
+};
+
+export const signInWithPassword = async (email: string, password: string): Promise<AuthUser | null> => {
+    if (!useSupabase || !supabase) throw new Error('AUTH_UNAVAILABLE');
+    const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) throw error;
+    currentUser = toAuthUser(data.user);
+    return currentUser;
+};
+
+// Emails a one-time link back to this page; the client picks the session up from the URL.
+// Accounts are created by an administrator, so unknown addresses are rejected rather than signed up.
+export const sendMagicLink = async (email: string): Promise<void> => {
+    if (!useSupabase || !supabase) throw new Error('AUTH_UNAVAILABLE');
+    const { error } = await supabase.auth.signInWithOtp({
+        email,
+        options: { emailRedirectTo: window.location.origin + window.location.pathname, shouldCreateUser: false }
+    });
+    if (error) throw error;
+};
+
+export const signOut = async (): Promise<void> => {
+    if (useSupabase && supabase) {
+        const { error } = await supabase.auth.signOut();
+        if (error) throw error;
+    }
+    currentUser = null;
+};
+
+export const subscribeToAuthChanges = (callback: (user: AuthUser | null) => void) => {
+    if (!useSupabase || !supabase) return () => {};
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+        currentUser = toAuthUser(session?.user);
+        callback(currentUser);
+    });
+    return () => { data.subscription.unsubscribe(); };
+};
+
+// --- Roles ---
+
+const fromRoleRow = (r: any): UserRoleAssignment => ({
+    userId: r.user_id,
+    email: r.email || '',
+    role: r.role || 'viewer',
+    departmentId: r.department_id || undefined
+});
+
+// Role of the signed-in user; null in local mode. Until the roles table exists nobody can be told apart,
+// so everyone reads only and rolesMissing asks for the migration SQL.
+export const getMyRole = async (): Promise<UserRoleAssignment | null> => {
+    if (!useSupabase || !supabase || !currentUser) return null;
+    const fallback = (role: UserRole): UserRoleAssignment => ({ userId: currentUser!.id, email: currentUser!.email, role });
+    const { data, error } = await supabase.from('user_roles').select('*').eq('user_id', currentUser.id).maybeSingle();
+    if (error) {
+        if (isMissingTableError(error)) {
+            console.warn("Table 'user_roles' missing. Run the migration SQL to enable roles.");
+            return { ...fallback('viewer'), rolesMissing: true };
+        }
+        console.error("Supabase fetch error (getMyRole):", stringifyError(error));
+        return fallback('viewer');
+    }
+    return data ? fromRoleRow(data) : fallback('viewer');
+};
+
+export const getUserRoles = async (): Promise<UserRoleAssignment[]> => {
+    if (!useSupabase || !supabase) return [];
+    const { data, error } = await supabase.from('user_roles').select('*').order('email');
+    if (error) {
+        if (isMissingTableError(error)) return [];
+        console.error("Supabase fetch error (getUserRoles):", stringifyError(error));
+        throw error;
+    }
+    return (data || []).map(fromRoleRow);
+};
+
+export const updateUserRole = async (assignment: UserRoleAssignment): Promise<void> => {
+    if (!useSupabase || !supabase) return;
+    const { data: row } = await supabase.from('user_roles').select('*').eq('user_id', assignment.userId).maybeSingle();
+    const departmentId = assignment.role === 'department_manager' ? assignment.departmentId || null : null;
+    const { error } = await supabase.from('user_roles').update({ role: assignment.role, department_id: departmentId }).eq('user_id', assignment.userId);
+    if (error) throw error;
+    const before = row ? fromRoleRow(row) : {};
+    await recordAudit({ action: 'update', entityType: 'user', entityId: assignment.userId, entityName: assignment.email, changes: diffFields(before, { role: assignment.role, departmentId }, ['role', 'departmentId']) });
 };
 
-export const verifyAdminPassword = (input: string) => {
-    if (GLOBAL_ADMIN_PASSWORD) return input === GLOBAL_ADMIN_PASSWORD;
-    const stored = localStorage.getItem(ADMIN_LOCK_KEY);
-    return stored === input;
+// --- Audit Log ---
+// Kept by the active store, like the data it describes. Best effort: a failed or unconfigured audit write
+// never blocks the change it describes.
+
+const ACTOR_KEY = 'gantt-actor-name';
+// Updates to the same record inside this window (e.g. a progress drag) are stored as one entry
+const AUDIT_MERGE_MS = 1500;
+
+export const DEFAULT_ACTOR = '익명';
+
+// The signed-in account when there is one, otherwise the name typed into the settings
+export const getActorName = () => currentUser?.email || localStorage.getItem(ACTOR_KEY) || DEFAULT_ACTOR;
+
+export const setActorName = (name: string) => {
+    if (!name.trim()) localStorage.removeItem(ACTOR_KEY);
+    else localStorage.setItem(ACTOR_KEY, name.trim());
 };
 
-export const hasAdminPassword = () => {
-    if (GLOBAL_ADMIN_PASSWORD) return true;
-    return !!localStorage.getItem(ADMIN_LOCK_KEY);
+type AuditInput = Omit<AuditEntry, 'id' | 'timestamp' | 'actor'>;
+
+// The details whose change makes a new revision of the task
+const TASK_AUDIT_FIELDS: string[] = [...TASK_DETAIL_FIELDS];
+const EMPLOYEE_AUDIT_FIELDS = ['name', 'departmentId'];
+const DEPENDENCY_AUDIT_FIELDS = ['predecessorId', 'successorId', 'type', 'lagDays'];
+
+const toAuditValue = (value: any): AuditChange['before'] => {
+    if (value === undefined || value === null || value === '') return null;
+    if (value instanceof Date) return value.toISOString().split('T')[0];
+    if (typeof value === 'number') return value;
+    return String(value);
 };
 
-export const isGlobalPassword = () => !!GLOBAL_ADMIN_PASSWORD;
+// Pass {} as before for a create and as after for a delete; unchanged fields are left out
+const diffFields = (before: Record<string, any>, after: Record<string, any>, fields: string[]): AuditChange[] =>
+    fields
+        .map(field => ({ field, before: toAuditValue(before[field]), after: toAuditValue(after[field]) }))
+        .filter(change => change.before !== change.after);
 
-// --- Data Helpers ---
+// Keeps the oldest before and the newest after of each field
+const mergeChanges = (first: AuditChange[], next: AuditChange[]): AuditChange[] => {
+    const merged = first.map(change => ({ ...change }));
+    next.forEach(change => {
+        const existing = merged.find(c => c.field === change.field);
+        if (existing) existing.after = change.after;
+        else merged.push({ ...change });
+    });
+    return merged.filter(change => change.before !== change.after);
+};
 
-interface AppData {
-    projects: Project[];
-    departments: Department[];
-    employees: Employee[];
+// Only a lost connection is thrown, so the entries can wait in the offline queue; anything else is logged and dropped
+async function sendAuditEntries(entries: AuditEntry[]) {
+    try {
+        await store.appendAudit(entries);
+    } catch (err) {
+        if (isNetworkError(err)) throw err;
+        console.error("Audit log write error:", stringifyError(err));
+    }
 }
 
-function getInitialData(): AppData {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    return {
-        projects: [
-            {
-                id: 'p1',
-                name: '샘플 프로젝트',
-                tasks: [
-                    { id: 't1', name: '예시 태스크', startDate: addDays(today, 1), endDate: addDays(today, 10), color: 'bg-blue-500', employeeId: '', progress: 0 },
-                ],
-            }
-        ],
-        departments: [],
-        employees: [],
+async function writeAuditEntries(entries: AuditEntry[]) {
+    if (entries.length === 0) return;
+    if (!isRemote()) return sendAuditEntries(entries);
+    // Behind queued writes, so the log never describes a change the database has not seen yet
+    if (readQueue().some(e => e.status === 'pending')) {
+        enqueue({ type: 'audit', entries }, '변경 기록');
+        return;
+    }
+    try {
+        await sendAuditEntries(entries);
+    } catch {
+        enqueue({ type: 'audit', entries }, '변경 기록');
+    }
+}
+
+const pendingAudit = new Map<string, { entry: AuditEntry; timer: ReturnType<typeof setTimeout> }>();
+
+// Writes buffered updates now: all of them, or only the given record's
+async function flushAudit(key?: string) {
+    const keys = key ? [key] : [...pendingAudit.keys()];
+    const entries: AuditEntry[] = [];
+    keys.forEach(k => {
+        const pending = pendingAudit.get(k);
+        if (!pending) return;
+        clearTimeout(pending.timer);
+        pendingAudit.delete(k);
+        entries.push(pending.entry);
+    });
+    await writeAuditEntries(entries);
+}
+
+async function recordAudit(input: AuditInput) {
+    // Undo rewrites every downstream task; only the ones that actually changed are worth an entry
+    if ((input.action === 'update' || input.action === 'restore') && input.changes.length === 0) return;
+    const key = `${input.entityType}:${input.entityId}`;
+    const entry: AuditEntry = {
+        ...input,
+        id: `audit-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+        timestamp: new Date(),
+        actor: getActorName()
     };
+    const pending = pendingAudit.get(key);
+    if (input.action !== 'update') {
+        await flushAudit(key);
+        await writeAuditEntries([entry]);
+        return;
+    }
+    if (pending && pending.entry.actor === entry.actor && pending.entry.note === entry.note) {
+        clearTimeout(pending.timer);
+        pendingAudit.delete(key);
+        entry.id = pending.entry.id;
+        entry.changes = mergeChanges(pending.entry.changes, entry.changes);
+        if (entry.changes.length === 0) return; // the edits cancelled out
+    } else if (pending) {
+        await flushAudit(key);
+    }
+    pendingAudit.set(key, { entry, timer: setTimeout(() => { flushAudit(key); }, AUDIT_MERGE_MS) });
 }
 
-function readLocalData(): AppData {
+// This browser's stores write the log within the call, so buffered entries survive a reload
+if (typeof window !== 'undefined') window.addEventListener('pagehide', () => { flushAudit(); });
+
+// Newest first. Pass entityId for the history of a single record.
+export const getAuditLog = async ({ entityId, limit = 100 }: { entityId?: string; limit?: number } = {}): Promise<AuditEntry[]> => {
+    await flushAudit();
     try {
-        const rawData = localStorage.getItem(DATA_KEY);
-        if (!rawData) return getInitialData();
-        const parsedData = JSON.parse(rawData);
-        if (parsedData.projects) {
-            parsedData.projects.forEach((p: Project) => {
-                p.tasks?.forEach((t: Task) => {
-                    t.startDate = new Date(t.startDate);
-                    t.endDate = new Date(t.endDate);
-                });
-            });
-        }
-        return parsedData;
-    } catch { return getInitialData(); }
+        return await store.getAuditLog({ entityId, limit });
+    } catch (err: any) {
+        console.error("Fetch error (getAuditLog):", stringifyError(err));
+        throw err;
+    }
+};
+
+// --- Versioned Writes ---
+// Projects and tasks carry a version that every write bumps. A write that names the version it was made
+// against only applies while the row is still at it (see DataStore), so two planners editing the same record
+// no longer overwrite each other without noticing.
+
+const rememberVersions = (versions: RowVersions) => Object.entries(versions).forEach(([id, v]) => ownVersions.set(id, v));
+
+const latestVersion = (id: string, version: number | undefined) => version === undefined ? undefined : Math.max(version, ownVersions.get(id) ?? version);
+
+const latestVersions = (versions: Record<string, number> | undefined) =>
+    versions && Object.fromEntries(Object.entries(versions).map(([id, v]) => [id, latestVersion(id, v)!]));
+
+function withLatestVersions(m: SyncMutation): SyncMutation {
+    switch (m.type) {
+        case 'updateProject': return { ...m, baseVersion: latestVersion(m.projectId, m.baseVersion) };
+        case 'updateTask': case 'deleteTask': return { ...m, baseVersion: latestVersion(m.taskId, m.baseVersion) };
+        case 'reorderProjects': case 'reorderTasks': return { ...m, baseVersions: latestVersions(m.baseVersions) };
+        default: return m;
+    }
 }
 
-function writeLocalData(data: AppData) {
-    localStorage.setItem(DATA_KEY, JSON.stringify(data));
+const baseVersionsOf = (m: SyncMutation): Record<string, number | undefined> => {
+    switch (m.type) {
+        case 'updateProject': return { [m.projectId]: m.baseVersion };
+        case 'updateTask': case 'deleteTask': return { [m.taskId]: m.baseVersion };
+        case 'reorderProjects': case 'reorderTasks': return m.baseVersions || {};
+        default: return {};
+    }
+};
+
+// A queued write will bump each row it touches once replayed, so later writes are based on that version
+const predictVersions = (m: SyncMutation) => Object.entries(baseVersionsOf(m)).forEach(([id, v]) => { if (v !== undefined) ownVersions.set(id, v + 1); });
+
+// --- Offline Queue ---
+// While Supabase or the self-hosted server is unreachable, writes land in a cached copy of
+// the remote data and in a durable queue that replays in order once the connection returns. A replay that
+// finds its row changed remotely in the meantime stops as a conflict until the user picks a version.
+
+const REMOTE_CACHE_KEY = 'gantt-remote-cache';
+const SYNC_QUEUE_KEY = 'gantt-sync-queue';
+const REPLAY_RETRY_MS = [2000, 5000, 15000, 30000];
+
+// Per Supabase project or server, so switching connections never replays into the wrong database
+const scopedKey = (key: string) => `${key}:${remoteUrl}`;
+
+interface WriteResult {
+    before?: Record<string, any>;
+    shifted: AuditInput[];
 }
 
-// Robust column error identification
-const isMissingColumnError = (error: any, columnName: string) => {
-    if (!error) return false;
-    // Postgres error code for undefined_column is 42703
-    if (error.code === '42703') return true;
-    const msg = String(error.message || "").toLowerCase();
-    const col = columnName.toLowerCase();
-    return msg.includes('column') && msg.includes(col);
+const readRemoteCache = (): AppData | null => localStorage.getItem(scopedKey(REMOTE_CACHE_KEY)) ? readLocalData(scopedKey(REMOTE_CACHE_KEY)) : null;
+
+const reviveTaskDates = (task: Partial<Task>) => {
+    if (task.startDate) task.startDate = new Date(task.startDate);
+    if (task.endDate) task.endDate = new Date(task.endDate);
 };
 
-const stringifyError = (err: any) => {
-    if (typeof err === 'string') return err;
-    if (err && err.message) return err.message;
-    try { return JSON.stringify(err); } catch { return String(err); }
+function readQueue(): SyncEntry[] {
+    if (!isRemote()) return [];
+    try {
+        const entries: SyncEntry[] = JSON.parse(localStorage.getItem(scopedKey(SYNC_QUEUE_KEY)) || '[]');
+        entries.forEach(e => {
+            e.queuedAt = new Date(e.queuedAt);
+            if (e.mutation.type === 'addTask') reviveTaskDates(e.mutation.task);
+            if (e.mutation.type === 'updateTask') reviveTaskDates(e.mutation.update);
+            if (e.mutation.type === 'restoreProject') e.mutation.project.tasks.forEach(reviveTaskDates);
+            if (e.mutation.type === 'restoreTask') reviveTaskDates(e.mutation.task);
+            if (e.mutation.type === 'putBaselines') e.mutation.baselines.forEach(reviveBaseline);
+            if (e.mutation.type === 'audit') e.mutation.entries.forEach(a => { a.timestamp = new Date(a.timestamp); });
+        });
+        return entries;
+    } catch { return []; }
+}
+
+const writeQueue = (entries: SyncEntry[]) => localStorage.setItem(scopedKey(SYNC_QUEUE_KEY), JSON.stringify(entries));
+
+const syncListeners = new Set<(status: SyncStatus) => void>();
+let isReplaying = false;
+
+export const getSyncStatus = (): SyncStatus => {
+    const entries = readQueue().filter(e => e.mutation.type !== 'audit');
+    const pending = entries.filter(e => e.status === 'pending').length;
+    return { entries, pending, failed: entries.length - pending, isReplaying };
 };
 
-// --- API Functions (Hybrid) ---
+const notifySync = () => {
+    const status = getSyncStatus();
+    syncListeners.forEach(listener => listener(status));
+};
 
-export const getProjects = async (): Promise<Project[]> => {
-    if (useSupabase && supabase) {
-        try {
-            let projectsData: any[] = [];
-            
-            // Try sorting by position first
-            const { data, error: pError } = await supabase
-                .from('projects')
-                .select('*')
-                .order('position', { ascending: true })
-                .order('created_at', { ascending: true });
-            
-            if (pError) {
-                if (isMissingColumnError(pError, 'position')) {
-                    console.warn("Table 'projects' missing 'position' column. Falling back to 'created_at'.");
-                    const { data: fallbackData, error: fError } = await supabase
-                        .from('projects')
-                        .select('*')
-                        .order('created_at', { ascending: true });
-                    if (fError) throw fError;
-                    projectsData = fallbackData || [];
-                } else {
-                    throw pError;
-                }
-            } else {
-                projectsData = data || [];
-            }
+export const subscribeToSyncStatus = (callback: (status: SyncStatus) => void) => {
+    syncListeners.add(callback);
+    return () => { syncListeners.delete(callback); };
+};
 
-            return fetchTasksForProjects(projectsData);
-        } catch (err: any) {
-            console.error("Supabase fetch error (getProjects):", stringifyError(err));
-            throw err;
+// Records a write touches. A queued write holds back later writes to the same records, keeping their order.
+const mutationKeys = (m: SyncMutation): string[] => {
+    switch (m.type) {
+        case 'addProject': case 'updateProject': case 'deleteProject': return [m.projectId];
+        case 'addTask': return [m.projectId, m.task.id];
+        case 'updateTask': case 'deleteTask': return [m.taskId];
+        case 'reorderProjects': return m.projects.map(p => p.id);
+        case 'reorderTasks': return [m.projectId, ...m.taskIds];
+        case 'restoreProject': return [m.project.id, ...m.project.tasks.map(t => t.id)];
+        case 'restoreTask': return [m.projectId, m.task.id];
+        case 'putDepartments': return m.departments.map(d => d.id);
+        case 'deleteDepartment': return [m.departmentId];
+        case 'putEmployees': return m.employees.flatMap(e => e.departmentId ? [e.id, e.departmentId] : [e.id]);
+        case 'deleteEmployee': return [m.employeeId];
+        case 'putDependencies': return m.dependencies.flatMap(d => [d.id, d.predecessorId, d.successorId]);
+        case 'deleteDependency': return [m.dependencyId];
+        case 'putBaselines': return m.baselines.flatMap(b => [b.id, b.projectId]);
+        case 'deleteBaseline': return [m.baselineId];
+        case 'audit': return [];
+    }
+};
+
+const describeMutation = (m: SyncMutation, data: AppData): string => {
+    const projectName = (id: string) => data.projects.find(p => p.id === id)?.name || id;
+    const taskName = (id: string) => data.projects.flatMap(p => p.tasks).find(t => t.id === id)?.name || id;
+    const names = (rows: { name: string }[]) => rows.map(r => r.name).join(', ');
+    switch (m.type) {
+        case 'addProject': return `프로젝트 추가 · ${m.name}`;
+        case 'updateProject': return `프로젝트 이름 변경 · ${m.name}`;
+        case 'deleteProject': return `프로젝트 삭제 · ${projectName(m.projectId)}`;
+        case 'addTask': return `태스크 추가 · ${m.task.name}`;
+        case 'updateTask': return `태스크 수정 · ${m.update.name || taskName(m.taskId)}`;
+        case 'deleteTask': return `태스크 삭제 · ${taskName(m.taskId)}`;
+        case 'reorderProjects': return '프로젝트 순서 변경';
+        case 'reorderTasks': return `태스크 순서 변경 · ${projectName(m.projectId)}`;
+        case 'restoreProject': return `프로젝트 복원 · ${m.project.name}`;
+        case 'restoreTask': return `태스크 복원 · ${m.task.name}`;
+        case 'putDepartments': return `부서 추가 · ${names(m.departments)}`;
+        case 'deleteDepartment': return `부서 삭제 · ${data.departments.find(d => d.id === m.departmentId)?.name || m.departmentId}`;
+        case 'putEmployees': return `직원 추가 · ${names(m.employees)}`;
+        case 'deleteEmployee': return `직원 삭제 · ${data.employees.find(e => e.id === m.employeeId)?.name || m.employeeId}`;
+        case 'putDependencies': return `연결 추가 · ${m.dependencies.map(d => `${taskName(d.predecessorId)} → ${taskName(d.successorId)}`).join(', ')}`;
+        case 'deleteDependency': {
+            const d = data.dependencies.find(x => x.id === m.dependencyId);
+            return `연결 삭제 · ${d ? `${taskName(d.predecessorId)} → ${taskName(d.successorId)}` : m.dependencyId}`;
         }
-    } else {
-        return readLocalData().projects;
+        case 'putBaselines': return `베이스라인 저장 · ${names(m.baselines)}`;
+        case 'deleteBaseline': return `베이스라인 삭제 · ${data.baselines.find(b => b.id === m.baselineId)?.name || m.baselineId}`;
+        case 'audit': return '변경 기록';
     }
 };
 
-async function fetchTasksForProjects(projectsData: any[]): Promise<Project[]> {
-    if (!supabase) return [];
-    
-    let tasksData: any[] = [];
-    
-    // Try sorting by position first
-    const { data, error: tError } = await supabase
-        .from('tasks')
-        .select('*')
-        .order('position', { ascending: true })
-        .order('id', { ascending: true });
-        
-    if (tError) {
-        if (isMissingColumnError(tError, 'position')) {
-            console.warn("Table 'tasks' missing 'position' column. Falling back to 'id'.");
-            const { data: fallbackData, error: fError } = await supabase
-                .from('tasks')
-                .select('*')
-                .order('id', { ascending: true });
-            if (fError) throw fError;
-            tasksData = fallbackData || [];
-        } else {
-            throw tError;
+// A write applied to the cached copy of the remote data, so it shows while Supabase is unreachable.
+// Adds skip records that already exist, because the cache re-applies queued writes after every fetch.
+function applyMutation(data: AppData, m: SyncMutation): WriteResult {
+    const projectId = 'projectId' in m ? m.projectId : undefined;
+    const project = data.projects.find(p => p.id === projectId);
+    switch (m.type) {
+        case 'addProject':
+            if (!project) data.projects.push({ id: m.projectId, name: m.name, tasks: [] });
+            return { shifted: [] };
+        case 'updateProject': {
+            const before = { name: project?.name };
+            if (project) project.name = m.name;
+            return { before, shifted: [] };
         }
-    } else {
-        tasksData = data || [];
-    }
-
-    return (projectsData || []).map((p: any) => ({
-        id: p.id,
-        name: p.name,
-        tasks: (tasksData || [])
-            .filter((t: any) => t.project_id === p.id)
-            .map((t: any) => ({
-                id: t.id,
-                name: t.name,
-                startDate: new Date(t.start_date),
-                endDate: new Date(t.end_date),
-                color: t.color,
-                employeeId: t.employee_id,
-                progress: t.progress,
-                description: t.description
-            }))
-    }));
+        case 'deleteProject':
+            data.projects = data.projects.filter(p => p.id !== m.projectId);
+            data.baselines = data.baselines.filter(b => b.projectId !== m.projectId);
+            return { before: { name: project?.name }, shifted: [] };
+        case 'addTask':
+            if (project && !project.tasks.some(t => t.id === m.task.id)) project.tasks.push({ ...m.task });
+            return { shifted: [] };
+        case 'updateTask': {
+            const t = project?.tasks.find(x => x.id === m.taskId);
+            const before = t ? { ...t } : {};
+            if (t) Object.assign(t, m.update);
+            return { before, shifted: m.update.startDate || m.update.endDate ? applyShiftsLocally(data, m.taskId) : [] };
+        }
+        case 'deleteTask': {
+            const before = project?.tasks.find(t => t.id === m.taskId);
+            if (project) project.tasks = project.tasks.filter(t => t.id !== m.taskId);
+            data.dependencies = data.dependencies.filter(d => d.predecessorId !== m.taskId && d.successorId !== m.taskId);
+            return { before, shifted: [] };
+        }
+        case 'reorderProjects':
+            data.projects = sortByIds(data.projects, m.projects.map(p => p.id));
+            return { shifted: [] };
+        case 'reorderTasks':
+            if (project) project.tasks = sortByIds(project.tasks, m.taskIds);
+            return { before: { name: project?.name }, shifted: [] };
+        case 'restoreProject': {
+            const existing = data.projects.find(p => p.id === m.project.id);
+            if (existing) existing.name = m.project.name;
+            else insertAt(data.projects, m.position, { ...m.project, tasks: [] });
+            const target = existing || data.projects.find(p => p.id === m.project.id)!;
+            target.tasks = upsertById(target.tasks, m.project.tasks.map(t => ({ ...t })));
+            return { shifted: [] };
+        }
+        case 'restoreTask': {
+            const before = data.projects.flatMap(p => p.tasks).find(t => t.id === m.task.id);
+            const index = project ? project.tasks.findIndex(t => t.id === m.task.id) : -1;
+            if (project && index !== -1) {
+                project.tasks[index] = { ...m.task };
+            } else if (project) {
+                data.projects.forEach(p => { p.tasks = p.tasks.filter(t => t.id !== m.task.id); });
+                insertAt(project.tasks, m.position, { ...m.task });
+            }
+            return { before: before && { ...before }, shifted: [] };
+        }
+        case 'putDepartments':
+            data.departments = upsertById(data.departments, m.departments.map(d => ({ ...d, employees: [] })));
+            return { shifted: [] };
+        case 'deleteDepartment': {
+            const before = data.departments.find(d => d.id === m.departmentId);
+            data.departments = data.departments.filter(d => d.id !== m.departmentId);
+            data.employees = data.employees.map(e => e.departmentId === m.departmentId ? { ...e, departmentId: '' } : e);
+            return { before, shifted: [] };
+        }
+        case 'putEmployees':
+            data.employees = upsertById(data.employees, m.employees.map(e => ({ ...e })));
+            return { shifted: [] };
+        case 'deleteEmployee': {
+            const before = data.employees.find(e => e.id === m.employeeId);
+            data.employees = data.employees.filter(e => e.id !== m.employeeId);
+            return { before, shifted: [] };
+        }
+        case 'putDependencies':
+            data.dependencies = upsertById(data.dependencies, m.dependencies.map(d => ({ ...d })));
+            return { shifted: m.shiftSuccessors ? [...new Set(m.dependencies.map(d => d.predecessorId))].flatMap(id => applyShiftsLocally(data, id)) : [] };
+        case 'deleteDependency': {
+            const before = data.dependencies.find(d => d.id === m.dependencyId);
+            data.dependencies = data.dependencies.filter(d => d.id !== m.dependencyId);
+            return { before, shifted: [] };
+        }
+        case 'putBaselines':
+            data.baselines = upsertById(data.baselines, m.baselines.map(b => ({ ...b })));
+            return { shifted: [] };
+        case 'deleteBaseline': {
+            const before = data.baselines.find(b => b.id === m.baselineId);
+            data.baselines = data.baselines.filter(b => b.id !== m.baselineId);
+            return { before, shifted: [] };
+        }
+        case 'audit':
+            return { shifted: [] };
+    }
 }
 
-export const getDepartments = async (): Promise<Department[]> => {
-    if (useSupabase && supabase) {
+// Where a new project or task goes: after every row a reorder has numbered
+const APPEND_POSITION = 999;
+
+// The write against the active store. force skips the version check, once the user chose to keep their version.
+async function sendMutation(m: SyncMutation, force = false): Promise<WriteResult> {
+    switch (m.type) {
+        case 'addProject':
+            await store.putProjects([{ id: m.projectId, name: m.name, position: APPEND_POSITION }]);
+            return { shifted: [] };
+        case 'updateProject': {
+            const before = { name: (await store.getProject(m.projectId))?.name };
+            rememberVersions(await store.updateProject(m.projectId, m.name, force ? undefined : m.baseVersion));
+            return { before, shifted: [] };
+        }
+        case 'deleteProject': {
+            const removed = await store.deleteProject(m.projectId);
+            return { before: { name: removed?.name }, shifted: [] };
+        }
+        case 'addTask':
+            await store.putTasks([{ projectId: m.projectId, task: m.task, position: APPEND_POSITION }]);
+            return { shifted: [] };
+        case 'updateTask': {
+            const before = await store.getTask(m.taskId);
+            rememberVersions(await store.updateTask(m.taskId, m.update, force ? undefined : m.baseVersion));
+            const shifted = m.update.startDate || m.update.endDate ? await shiftSuccessors(m.taskId) : [];
+            return { before: before || {}, shifted };
+        }
+        case 'deleteTask': {
+            const removed = await store.deleteTask(m.taskId, force ? undefined : m.baseVersion);
+            return { before: removed || undefined, shifted: [] };
+        }
+        case 'reorderProjects':
+            rememberVersions(await store.setProjectOrder(m.projects, force ? undefined : m.baseVersions));
+            return { shifted: [] };
+        case 'reorderTasks': {
+            const before = { name: (await store.getProject(m.projectId))?.name };
+            rememberVersions(await store.setTaskOrder(m.projectId, m.taskIds, force ? undefined : m.baseVersions));
+            return { before, shifted: [] };
+        }
+        case 'restoreProject':
+            await store.putProjects([{ id: m.project.id, name: m.project.name, position: m.position }]);
+            if (m.project.tasks.length > 0) await store.putTasks(m.project.tasks.map((task, i) => ({ projectId: m.project.id, task, position: i })));
+            return { shifted: [] };
+        case 'restoreTask': {
+            const before = await store.getTask(m.task.id);
+            await store.putTasks([{ projectId: m.projectId, task: m.task, position: m.position }]);
+            return { before: before || undefined, shifted: [] };
+        }
+        case 'putDepartments':
+            await store.putDepartments(m.departments);
+            return { shifted: [] };
+        case 'deleteDepartment':
+            return { before: await store.deleteDepartment(m.departmentId) || undefined, shifted: [] };
+        case 'putEmployees':
+            await store.putEmployees(m.employees);
+            return { shifted: [] };
+        case 'deleteEmployee':
+            return { before: await store.deleteEmployee(m.employeeId) || undefined, shifted: [] };
+        case 'putDependencies': {
+            await store.putDependencies(m.dependencies);
+            const shifted: AuditInput[] = [];
+            if (m.shiftSuccessors) for (const id of new Set(m.dependencies.map(d => d.predecessorId))) shifted.push(...await shiftSuccessors(id));
+            return { shifted };
+        }
+        case 'deleteDependency':
+            return { before: await store.deleteDependency(m.dependencyId) || undefined, shifted: [] };
+        case 'putBaselines':
+            await store.putBaselines(m.baselines);
+            return { shifted: [] };
+        case 'deleteBaseline':
+            return { before: await store.deleteBaseline(m.baselineId) || undefined, shifted: [] };
+        case 'audit':
+            await sendAuditEntries(m.entries);
+            return { shifted: [] };
+    }
+}
+
+let replayTimer: ReturnType<typeof setTimeout> | null = null;
+let retryCount = 0;
+
+function scheduleReplay(delay: number) {
+    if (replayTimer) clearTimeout(replayTimer);
+    replayTimer = setTimeout(() => {
+        replayTimer = null;
+        replaySyncQueue();
+    }, delay);
+}
+
+function enqueue(m: SyncMutation, label: string) {
+    writeQueue([...readQueue(), { id: `sync-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`, mutation: m, label, queuedAt: new Date(), status: 'pending' }]);
+    notifySync();
+    scheduleReplay(REPLAY_RETRY_MS[0]);
+}
+
+// Applies the write to the cache so the app shows it right away. A write the caller did not version
+// is based on the cached row, which is what the user was looking at when they made it.
+function queueMutation(m: SyncMutation): WriteResult {
+    const cache = readRemoteCache();
+    if (!cache) {
+        enqueue(m, describeMutation(m, emptyData()));
+        return { shifted: [] };
+    }
+    const cachedVersion = (id: string) => [...cache.projects, ...cache.projects.flatMap(p => p.tasks)].find(r => r.id === id)?.version;
+    if ((m.type === 'updateTask' || m.type === 'deleteTask') && m.baseVersion === undefined) m.baseVersion = latestVersion(m.taskId, cachedVersion(m.taskId));
+    if (m.type === 'updateProject' && m.baseVersion === undefined) m.baseVersion = latestVersion(m.projectId, cachedVersion(m.projectId));
+    const label = describeMutation(m, cache);
+    const result = applyMutation(cache, m);
+    writeLocalData(cache, scopedKey(REMOTE_CACHE_KEY));
+    enqueue(m, label);
+    predictVersions(m);
+    return result;
+}
+
+// Every data write goes through here. With a remote store the write is sent, or queued when the
+// connection is down or an earlier write to the same records is still waiting; other stores write it directly.
+async function runMutation(m: SyncMutation): Promise<WriteResult> {
+    // One at a time, so a write made while the previous one is in flight (a progress drag) is based on the version it produced
+    const run = writeChain.then(() => isRemote() ? sendOrQueue(withLatestVersions(m)) : sendMutation(withLatestVersions(m)));
+    writeChain = run.catch(() => undefined);
+    return run;
+}
+
+let writeChain: Promise<unknown> = Promise.resolve();
+
+async function sendOrQueue(m: SyncMutation): Promise<WriteResult> {
+    const keys = mutationKeys(m);
+    const heldBack = readQueue().some(e => mutationKeys(e.mutation).some(k => keys.includes(k)));
+    if (!heldBack) {
         try {
-            const { data: depts, error } = await supabase.from('departments').select('*').order('name');
-            if (error) throw error;
-            const { data: emps, error: eError } = await supabase.from('employees').select('*');
-            if (eError) throw eError;
-            return (depts || []).map((d: any) => ({
-                id: d.id,
-                name: d.name,
-                employees: (emps || []).filter((e: any) => e.department_id === d.id).map((e: any) => ({
-                    id: e.id,
-                    name: e.name,
-                    departmentId: e.department_id
-                }))
-            }));
-        } catch (err: any) { 
-            console.error("Supabase fetch error (getDepartments):", stringifyError(err));
-            throw err; 
+            return await sendMutation(m);
+        } catch (err) {
+            if (!isNetworkError(err)) throw err;
         }
-    } else {
-        return readLocalData().departments;
     }
-};
+    return queueMutation(m);
+}
 
-export const getEmployees = async (): Promise<Employee[]> => {
-    if (useSupabase && supabase) {
+// Fresh remote data for one part of the cache, with writes still in the queue laid over it
+function refreshCache<K extends keyof AppData>(key: K, fetched: AppData[K]): AppData[K] {
+    const data = readRemoteCache() || emptyData();
+    data[key] = fetched;
+    readQueue().forEach(e => applyMutation(data, e.mutation));
+    localStorage.setItem(scopedKey(REMOTE_CACHE_KEY), JSON.stringify(data));
+    return data[key];
+}
+
+// Reads fall back to the cache only when the connection is down; other errors still surface
+function cachedSlice<K extends keyof AppData>(key: K, err: unknown): AppData[K] {
+    const cache = isNetworkError(err) ? readRemoteCache() : null;
+    if (!cache) throw err;
+    return cache[key];
+}
+
+async function replayPending() {
+    while (true) {
+        const queue = readQueue();
+        const stuck = new Set(queue.filter(e => e.status !== 'pending').flatMap(e => mutationKeys(e.mutation)));
+        const entry = queue.find(e => e.status === 'pending' && !mutationKeys(e.mutation).some(k => stuck.has(k)));
+        if (!entry) return;
+        let outcome: Partial<SyncEntry> | null = null;
         try {
-            const { data, error } = await supabase.from('employees').select('*').order('name');
-            if (error) throw error;
-            return (data || []).map((e: any) => ({ id: e.id, name: e.name, departmentId: e.department_id }));
-        } catch (err: any) { 
-            console.error("Supabase fetch error (getEmployees):", stringifyError(err));
-            throw err; 
+            await sendMutation(entry.mutation, entry.force);
+        } catch (err) {
+            if (err instanceof VersionConflictError) {
+                outcome = { status: 'conflict', remote: err.remote, remoteOrder: err.remoteOrder };
+            } else if (isNetworkError(err)) {
+                scheduleReplay(REPLAY_RETRY_MS[Math.min(retryCount++, REPLAY_RETRY_MS.length - 1)]);
+                return;
+            } else {
+                outcome = { status: 'failed', error: stringifyError(err) };
+            }
         }
-    } else {
-        return readLocalData().employees;
+        retryCount = 0;
+        // Read again: writes made while this one was in flight have been appended since
+        const latest = readQueue();
+        writeQueue(outcome ? latest.map(e => e.id === entry.id ? { ...e, ...outcome } : e) : latest.filter(e => e.id !== entry.id));
     }
+}
+
+let replaying: Promise<void> | null = null;
+
+// Sends queued writes oldest first. Writes behind a failed or conflicting one on the same records wait for it.
+export const replaySyncQueue = (): Promise<void> => {
+    if (!isRemote()) return Promise.resolve();
+    if (!replaying && readQueue().length === 0) return Promise.resolve();
+    if (!replaying) {
+        isReplaying = true;
+        notifySync();
+        replaying = replayPending().finally(() => {
+            replaying = null;
+            isReplaying = false;
+            notifySync();
+        });
+    }
+    return replaying;
+};
+
+// Sends the entry again. For a conflict this keeps the local version over the remote one.
+export const retrySyncEntry = async (id: string) => {
+    writeQueue(readQueue().map(e => e.id === id ? { ...e, status: 'pending', force: true, error: undefined, remote: undefined, remoteOrder: undefined } : e));
+    notifySync();
+    await replaySyncQueue();
+};
+
+// Drops the entry; the next fetch replaces the local version with the remote one
+export const discardSyncEntry = async (id: string) => {
+    const queue = readQueue();
+    const entry = queue.find(e => e.id === id);
+    // The versions it was expected to produce will never exist
+    if (entry) Object.keys(baseVersionsOf(entry.mutation)).forEach(key => ownVersions.delete(key));
+    writeQueue(queue.filter(e => e.id !== id));
+    notifySync();
+    await replaySyncQueue();
 };
 
+// The cached remote data with queued writes already applied, for showing a write just queued without a fetch
+export const getRemoteCache = (): AppData | null => isRemote() ? readRemoteCache() : null;
+
+if (typeof window !== 'undefined') window.addEventListener('online', () => { replaySyncQueue(); });
+
+// --- API Functions ---
+
+// Remote reads refresh the offline cache and fall back to it while the connection is down
+async function readSlice<K extends keyof AppData>(key: K, read: () => Promise<AppData[K]>): Promise<AppData[K]> {
+    if (!isRemote()) return read();
+    try {
+        return refreshCache(key, await read());
+    } catch (err: any) {
+        console.error(`Remote fetch error (${key}):`, stringifyError(err));
+        return cachedSlice(key, err);
+    }
+}
+
+export const getProjects = (): Promise<Project[]> => readSlice('projects', () => store.getProjects());
+
+export const getDepartments = (): Promise<Department[]> => readSlice('departments', () => store.getDepartments());
+
+export const getEmployees = (): Promise<Employee[]> => readSlice('employees', () => store.getEmployees());
+
 export const addDepartment = async (name: string): Promise<Department> => {
     const id = `dept-${Date.now()}`;
-    if (useSupabase && supabase) {
-        const { error } = await supabase.from('departments').insert({ id, name });
-        if (error) throw error;
-    } else {
-        const data = readLocalData();
-        data.departments.push({ id, name, employees: [] });
-        writeLocalData(data);
-    }
+    await runMutation({ type: 'putDepartments', departments: [{ id, name }] });
+    await recordAudit({ action: 'create', entityType: 'department', entityId: id, entityName: name, changes: diffFields({}, { name }, ['name']) });
     return { id, name, employees: [] };
 };
 
 export const deleteDepartment = async (id: string): Promise<void> => {
-    if (useSupabase && supabase) {
-        const { error } = await supabase.from('departments').delete().eq('id', id);
-        if (error) throw error;
-    } else {
-        const data = readLocalData();
-        data.departments = data.departments.filter(d => d.id !== id);
-        writeLocalData(data);
-    }
+    const { before } = await runMutation({ type: 'deleteDepartment', departmentId: id });
+    await recordAudit({ action: 'delete', entityType: 'department', entityId: id, entityName: before?.name, changes: diffFields(before || {}, {}, ['name']) });
 };
 
 export const addEmployee = async (name: string, departmentId: string): Promise<Employee> => {
     const id = `emp-${Date.now()}`;
-    if (useSupabase && supabase) {
-        const { error } = await supabase.from('employees').insert({ id, name, department_id: departmentId });
-        if (error) throw error;
-    } else {
-        const data = readLocalData();
-        data.employees.push({ id, name, departmentId });
-        writeLocalData(data);
-    }
+    await runMutation({ type: 'putEmployees', employees: [{ id, name, departmentId }] });
+    await recordAudit({ action: 'create', entityType: 'employee', entityId: id, entityName: name, changes: diffFields({}, { name, departmentId }, EMPLOYEE_AUDIT_FIELDS) });
     return { id, name, departmentId };
 };
 
 export const deleteEmployee = async (id: string): Promise<void> => {
-    if (useSupabase && supabase) {
-        const { error } = await supabase.from('employees').delete().eq('id', id);
-        if (error) throw error;
-    } else {
-        const data = readLocalData();
-        data.employees = data.employees.filter(e => e.id !== id);
-        writeLocalData(data);
-    }
+    const { before } = await runMutation({ type: 'deleteEmployee', employeeId: id });
+    await recordAudit({ action: 'delete', entityType: 'employee', entityId: id, entityName: before?.name, changes: diffFields(before || {}, {}, EMPLOYEE_AUDIT_FIELDS) });
 };
 
 export const addProject = async (projectName: string): Promise<Project> => {
-    const id = `project-${Date.now()}`;
-    if (useSupabase && supabase) {
-        const { error } = await supabase.from('projects').insert({ id, name: projectName, position: 999 });
-        if (error) throw error;
-    } else {
-        const data = readLocalData();
-        data.projects.push({ id, name: projectName, tasks: [] });
-        writeLocalData(data);
-    }
+    // Suffixed like dependency ids: an import creates many projects within the same millisecond
+    const id = `project-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+    await runMutation({ type: 'addProject', projectId: id, name: projectName });
+    await recordAudit({ action: 'create', entityType: 'project', entityId: id, entityName: projectName, projectId: id, changes: diffFields({}, { name: projectName }, ['name']) });
     return { id, name: projectName, tasks: [] };
 };
 
 export const updateProject = async (projectId: string, projectName: string): Promise<Project> => {
-    if (useSupabase && supabase) {
-        const { error } = await supabase.from('projects').update({ name: projectName }).eq('id', projectId);
-        if (error) throw error;
-    } else {
-        const data = readLocalData();
-        const p = data.projects.find(x => x.id === projectId);
-        if (p) p.name = projectName;
-        writeLocalData(data);
-    }
+    const { before } = await runMutation({ type: 'updateProject', projectId, name: projectName });
+    await recordAudit({ action: 'update', entityType: 'project', entityId: projectId, entityName: projectName, projectId, changes: diffFields({ name: before?.name }, { name: projectName }, ['name']) });
     return { id: projectId, name: projectName, tasks: [] };
 };
 
 export const deleteProject = async (projectId: string): Promise<{ id: string }> => {
-    if (useSupabase && supabase) {
-        const { error } = await supabase.from('projects').delete().eq('id', projectId);
-        if (error) throw error;
-    } else {
-        const data = readLocalData();
-        data.projects = data.projects.filter(p => p.id !== projectId);
-        writeLocalData(data);
-    }
+    const { before } = await runMutation({ type: 'deleteProject', projectId });
+    await recordAudit({ action: 'delete', entityType: 'project', entityId: projectId, entityName: before?.name, projectId, changes: diffFields({ name: before?.name }, {}, ['name']) });
     return { id: projectId };
 };
 
-export const addTask = async (projectId: string, taskData: Omit<Task, 'id' | 'color' | 'progress'>): Promise<Task> => {
-    const id = `task-${Date.now()}`;
-    const color = 'bg-blue-500';
-    if (useSupabase && supabase) {
-        const { error } = await supabase.from('tasks').insert({
-            id,
-            project_id: projectId,
-            name: taskData.name,
-            start_date: taskData.startDate.toISOString().split('T')[0],
-            end_date: taskData.endDate.toISOString().split('T')[0],
-            color,
-            employee_id: taskData.employeeId,
-            progress: 0,
-            description: taskData.description,
-            position: 999
-        });
-        if (error) throw error;
-    } else {
-        const data = readLocalData();
-        const p = data.projects.find(x => x.id === projectId);
-        if (p) p.tasks.push({ id, ...taskData, color, progress: 0 });
-        writeLocalData(data);
-    }
-    return { id, ...taskData, color, progress: 0 };
+// Progress starts at 0 unless the caller carries it over, as an import does
+export const addTask = async (projectId: string, { progress = 0, ...taskData }: Omit<Task, 'id' | 'color' | 'progress'> & { progress?: number }): Promise<Task> => {
+    const id = `task-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+    const color = taskData.kind === 'milestone' ? 'bg-amber-500' : 'bg-blue-500';
+    const task: Task = { id, ...taskData, color, progress };
+    await runMutation({ type: 'addTask', projectId, task });
+    await recordAudit({ action: 'create', entityType: 'task', entityId: id, entityName: taskData.name, projectId, changes: diffFields({}, { ...taskData, progress }, TASK_AUDIT_FIELDS) });
+    return task;
 };
 
-export const updateTask = async (projectId: string, taskId: string, taskUpdate: Partial<Task>): Promise<Task> => {
-    if (useSupabase && supabase) {
-        const updates: any = {};
-        if (taskUpdate.name) updates.name = taskUpdate.name;
-        if (taskUpdate.startDate) updates.start_date = taskUpdate.startDate.toISOString().split('T')[0];
-        if (taskUpdate.endDate) updates.end_date = taskUpdate.endDate.toISOString().split('T')[0];
-        if (taskUpdate.employeeId) updates.employee_id = taskUpdate.employeeId;
-        if (taskUpdate.progress !== undefined) updates.progress = taskUpdate.progress;
-        if (taskUpdate.description !== undefined) updates.description = taskUpdate.description;
-        const { error } = await supabase.from('tasks').update(updates).eq('id', taskId);
-        if (error) throw error;
-    } else {
-        const data = readLocalData();
-        const p = data.projects.find(x => x.id === projectId);
-        const t = p?.tasks.find(x => x.id === taskId);
-        if (t) Object.assign(t, taskUpdate);
-        writeLocalData(data);
-    }
+// With expectedVersion the update is rejected with a VersionConflictError if the task has changed since
+export const updateTask = async (projectId: string, taskId: string, taskUpdate: Partial<Task>, expectedVersion?: number): Promise<Task> => {
+    const { before = {}, shifted } = await runMutation({ type: 'updateTask', projectId, taskId, update: taskUpdate, baseVersion: expectedVersion });
+    const after = { ...before, ...taskUpdate };
+    await recordAudit({ action: 'update', entityType: 'task', entityId: taskId, entityName: after.name, projectId, changes: diffFields(before, after, TASK_AUDIT_FIELDS) });
+    for (const entry of shifted) await recordAudit(entry);
     return { id: taskId, ...taskUpdate } as Task;
 };
 
 export const deleteTask = async (projectId: string, taskId: string): Promise<{ id: string }> => {
-    if (useSupabase && supabase) {
-        const { error } = await supabase.from('tasks').delete().eq('id', taskId);
-        if (error) throw error;
-    } else {
-        const data = readLocalData();
-        const p = data.projects.find(x => x.id === projectId);
-        if (p) p.tasks = p.tasks.filter(t => t.id !== taskId);
-        writeLocalData(data);
-    }
+    const { before } = await runMutation({ type: 'deleteTask', projectId, taskId });
+    await recordAudit({ action: 'delete', entityType: 'task', entityId: taskId, entityName: before?.name, projectId, changes: diffFields(before || {}, {}, TASK_AUDIT_FIELDS) });
     return { id: taskId };
 };
 
-export const updateProjects = async (projects: Project[]): Promise<Project[]> => {
-    if (useSupabase && supabase) {
-        const updates = projects.map((p, i) => ({ id: p.id, name: p.name, position: i }));
-        const { error } = await supabase.from('projects').upsert(updates, { onConflict: 'id' });
-        if (error && !isMissingColumnError(error, 'position')) console.error("Upsert error:", stringifyError(error));
-    } else {
-        const data = readLocalData();
-        data.projects = projects;
-        writeLocalData(data);
+// --- Task Dependencies ---
+
+export const getDependencies = (): Promise<TaskDependency[]> => readSlice('dependencies', () => store.getDependencies());
+
+// An explicit id is only passed when redo re-creates a link that was undone
+export const addDependency = async ({ id: existingId, ...dependency }: Omit<TaskDependency, 'id'> & { id?: string }): Promise<TaskDependency> => {
+    const id = existingId || `dep-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+    const { shifted } = await runMutation({ type: 'putDependencies', dependencies: [{ id, ...dependency }], shiftSuccessors: true });
+    await recordAudit({ action: 'create', entityType: 'dependency', entityId: id, changes: diffFields({}, dependency, DEPENDENCY_AUDIT_FIELDS) });
+    for (const entry of shifted) await recordAudit(entry);
+    return { id, ...dependency };
+};
+
+export const deleteDependency = async (id: string): Promise<void> => {
+    const { before } = await runMutation({ type: 'deleteDependency', dependencyId: id });
+    await recordAudit({ action: 'delete', entityType: 'dependency', entityId: id, changes: diffFields(before || {}, {}, DEPENDENCY_AUDIT_FIELDS) });
+};
+
+export const getBaselines = (): Promise<Baseline[]> => readSlice('baselines', () => store.getBaselines());
+
+// Snapshots the project's current task dates and progress under the given name
+export const addBaseline = async (project: Project, name: string): Promise<Baseline> => {
+    const id = `base-${Date.now()}`;
+    const baseline: Baseline = {
+        id,
+        projectId: project.id,
+        name,
+        createdAt: new Date(),
+        tasks: project.tasks.map(t => ({ taskId: t.id, startDate: new Date(t.startDate), endDate: new Date(t.endDate), progress: t.progress }))
+    };
+    await runMutation({ type: 'putBaselines', baselines: [baseline] });
+    await recordAudit({ action: 'create', entityType: 'baseline', entityId: id, entityName: name, projectId: project.id, changes: diffFields({}, { name }, ['name']) });
+    return baseline;
+};
+
+export const deleteBaseline = async (id: string): Promise<void> => {
+    const { before } = await runMutation({ type: 'deleteBaseline', baselineId: id });
+    await recordAudit({ action: 'delete', entityType: 'baseline', entityId: id, entityName: before?.name, projectId: before?.projectId, changes: diffFields(before || {}, {}, ['name']) });
+};
+
+const SHIFT_AUDIT_NOTE = '선행 작업 일정 변경으로 자동 이동';
+
+const shiftAudit = (projectId: string, task: Task, startDate: Date, endDate: Date): AuditInput => ({
+    action: 'update',
+    entityType: 'task',
+    entityId: task.id,
+    entityName: task.name,
+    projectId,
+    note: SHIFT_AUDIT_NOTE,
+    changes: diffFields(task, { startDate, endDate }, ['startDate', 'endDate'])
+});
+
+// Pushes successors of a rescheduled task forward so every link stays satisfied.
+// Both variants return audit entries for the tasks they moved; this one is for the offline cache.
+function applyShiftsLocally(data: AppData, taskId: string): AuditInput[] {
+    const moved: AuditInput[] = [];
+    computeDependencyShifts(data.projects, data.dependencies, taskId).forEach(shift => {
+        const t = data.projects.find(p => p.id === shift.projectId)?.tasks.find(x => x.id === shift.taskId);
+        if (!t) return;
+        moved.push(shiftAudit(shift.projectId, t, shift.startDate, shift.endDate));
+        t.startDate = shift.startDate;
+        t.endDate = shift.endDate;
+    });
+    return moved;
+}
+
+async function shiftSuccessors(taskId: string): Promise<AuditInput[]> {
+    const [projects, dependencies] = await Promise.all([store.getProjects(), store.getDependencies()]);
+    const moved: AuditInput[] = [];
+    for (const shift of computeDependencyShifts(projects, dependencies, taskId)) {
+        rememberVersions(await store.updateTask(shift.taskId, { startDate: shift.startDate, endDate: shift.endDate }));
+        const t = projects.find(p => p.id === shift.projectId)?.tasks.find(x => x.id === shift.taskId);
+        if (t) moved.push(shiftAudit(shift.projectId, t, shift.startDate, shift.endDate));
     }
+    return moved;
+}
+
+// baseVersions (id → version) makes the reorder fail with a VersionConflictError if any project changed since
+export const updateProjects = async (projects: Project[], baseVersions?: Record<string, number>): Promise<Project[]> => {
+    await runMutation({ type: 'reorderProjects', projects: projects.map(p => ({ id: p.id, name: p.name })), baseVersions });
+    await recordAudit({ action: 'reorder', entityType: 'project', entityId: 'projects', entityName: '프로젝트 순서', changes: [{ field: 'order', before: null, after: projects.map(p => p.name).join(' › ') }] });
     return projects;
 };
 
-export const updateTaskPositions = async (projectId: string, tasks: Task[]) => {
-    if (useSupabase && supabase) {
-        const updates = tasks.map((t, i) => ({ id: t.id, project_id: projectId, position: i }));
-        const { error } = await supabase.from('tasks').upsert(updates, { onConflict: 'id' });
-        if (error && !isMissingColumnError(error, 'position')) {
-            console.error("Task Pos Upsert error:", stringifyError(error));
-        }
-    } else {
-        const data = readLocalData();
-        const p = data.projects.find(x => x.id === projectId);
-        if (p) p.tasks = tasks;
-        writeLocalData(data);
+export const updateTaskPositions = async (projectId: string, tasks: Task[], baseVersions?: Record<string, number>) => {
+    const { before } = await runMutation({ type: 'reorderTasks', projectId, taskIds: tasks.map(t => t.id), baseVersions });
+    await recordAudit({ action: 'reorder', entityType: 'project', entityId: projectId, entityName: before?.name, projectId, changes: [{ field: 'taskOrder', before: null, after: tasks.map(t => t.name).join(' › ') }] });
+};
+
+// --- Restore (undo / redo) ---
+// Re-creates records under their original ids, or overwrites them if they still exist,
+// so links from dependencies and baselines stay valid after an undo.
+
+export const restoreProject = async (project: Project, index: number): Promise<void> => {
+    await runMutation({ type: 'restoreProject', project, position: index });
+    await recordAudit({ action: 'restore', entityType: 'project', entityId: project.id, entityName: project.name, projectId: project.id, changes: diffFields({}, project, ['name']) });
+};
+
+export const restoreTask = async (projectId: string, task: Task, index: number): Promise<void> => {
+    const { before } = await runMutation({ type: 'restoreTask', projectId, task, position: index });
+    await recordAudit({ action: 'restore', entityType: 'task', entityId: task.id, entityName: task.name, projectId, changes: diffFields(before || {}, task, TASK_AUDIT_FIELDS) });
+};
+
+// Unlike addDependency this never shifts successors: the restored schedule already satisfies the links
+export const restoreDependencies = async (dependencies: TaskDependency[]): Promise<void> => {
+    if (dependencies.length === 0) return;
+    await runMutation({ type: 'putDependencies', dependencies });
+    for (const d of dependencies) {
+        await recordAudit({ action: 'restore', entityType: 'dependency', entityId: d.id, changes: diffFields({}, d, DEPENDENCY_AUDIT_FIELDS) });
     }
 };
 
+export const restoreDepartment = async (department: Department): Promise<void> => {
+    await runMutation({ type: 'putDepartments', departments: [{ id: department.id, name: department.name }] });
+    await recordAudit({ action: 'restore', entityType: 'department', entityId: department.id, entityName: department.name, changes: diffFields({}, department, ['name']) });
+};
+
+export const restoreEmployees = async (employees: Employee[]): Promise<void> => {
+    if (employees.length === 0) return;
+    await runMutation({ type: 'putEmployees', employees });
+    for (const e of employees) {
+        await recordAudit({ action: 'restore', entityType: 'employee', entityId: e.id, entityName: e.name, changes: diffFields({}, e, EMPLOYEE_AUDIT_FIELDS) });
+    }
+};
+
+export const restoreBaselines = async (baselines: Baseline[]): Promise<void> => {
+    if (baselines.length === 0) return;
+    await runMutation({ type: 'putBaselines', baselines });
+    for (const b of baselines) {
+        await recordAudit({ action: 'restore', entityType: 'baseline', entityId: b.id, entityName: b.name, projectId: b.projectId, changes: diffFields({}, b, ['name']) });
+    }
+};
+
+// --- Backup Import ---
+// Bulk writes for restoring a backup or moving offline data into Supabase. Rows keep the ids they
+// were planned with (see utils/backupUtils), so references between them stay intact.
+
+// The offline data saved in this browser, whatever mode is active; null if nothing was ever saved
+export const getLocalSnapshot = (): AppData | null => localStorage.getItem(LOCAL_DATA_KEY) ? readLocalData() : null;
+
+export const importAppData = async (changes: AppDataChanges): Promise<void> => {
+    // Parents before children so every foreign key already exists
+    await store.putDepartments(changes.departments.map(d => ({ id: d.id, name: d.name })));
+    await store.putEmployees(changes.employees);
+    await store.putProjects(changes.projects);
+    await store.putTasks(changes.tasks);
+    await store.putDependencies(changes.dependencies);
+    await store.putBaselines(changes.baselines);
+    // One entry per project instead of one per row, so a large import does not bury the activity log
+    const taskCounts = new Map<string, number>();
+    changes.tasks.forEach(({ projectId }) => taskCounts.set(projectId, (taskCounts.get(projectId) || 0) + 1));
+    const projectNames = new Map(changes.projects.map(p => [p.id, p.name]));
+    for (const projectId of new Set([...projectNames.keys(), ...taskCounts.keys()])) {
+        await recordAudit({ action: 'restore', entityType: 'project', entityId: projectId, entityName: projectNames.get(projectId), projectId, note: '백업에서 가져옴', changes: [{ field: 'importedTasks', before: null, after: taskCounts.get(projectId) || 0 }] });
+    }
+};
+
+// Shared settings live in the store with the data. A failed read counts as never saved.
 export const getRemoteSettings = async (key: string): Promise<any> => {
-    if (!useSupabase || !supabase) return null;
     try {
-        const { data, error } = await supabase.from('system_settings').select('value').eq('key', key).single();
-        if (error) return null;
-        return data?.value;
+        return await store.getSetting(key);
     } catch { return null; }
 };
 
 export const saveRemoteSettings = async (key: string, value: any): Promise<void> => {
-    if (!useSupabase || !supabase) return;
     try {
-        await supabase.from('system_settings').upsert({ key, value });
-    } catch {}
+        await store.saveSetting(key, value);
+    } catch (err) {
+        console.error("Settings save error:", stringifyError(err));
+    }
+};
+
+// --- Calendar Feeds ---
+// A feed is a random token kept in the active store. The Supabase function and the self-hosted server build the
+// .ics on every request, so subscribed calendars stay current; deleting the feed revokes its URL.
+
+const FEED_TOKEN_BYTES = 24;
+
+export const getCalendarFeeds = (): Promise<CalendarFeed[]> => store.getCalendarFeeds();
+
+export const createCalendarFeed = async (scopeKey: string): Promise<CalendarFeed> => {
+    const token = Array.from(crypto.getRandomValues(new Uint8Array(FEED_TOKEN_BYTES)), b => b.toString(16).padStart(2, '0')).join('');
+    const feed: CalendarFeed = { token, scopeKey, createdAt: new Date() };
+    try {
+        await store.putCalendarFeed(feed);
+    } catch (err) {
+        if (isMissingTableError(err)) throw new Error('CALENDAR_FEEDS_MISSING');
+        throw err;
+    }
+    return feed;
+};
+
+export const revokeCalendarFeed = (token: string): Promise<void> => store.deleteCalendarFeed(token);
+
+// Only a remote store has an address calendar apps can reach
+export const getCalendarFeedUrl = (feed: CalendarFeed): string | null => {
+    const root = remoteUrl.trim().replace(/\/+$/, '');
+    if (store.kind === 'supabase') return `${root}/functions/v1/calendar/${feed.token}.ics`;
+    if (store.kind === 'server') return `${root}/calendar/${feed.token}.ics`;
+    return null;
 };
 
 export const checkConnectionAndSeed = async () => {
+    if (store.kind === 'server') return pingServer(remoteUrl, serverToken);
     if (!useSupabase || !supabase) return;
     const { error } = await supabase.from('projects').select('id').limit(1);
     if (error && error.code === '42P01') throw new Error('TABLES_MISSING');
 };
 
-export const subscribeToChanges = (callback: () => void) => {
-    if (!useSupabase || !supabase) return () => {};
-    const channel = supabase.channel('schema-db-changes').on('postgres_changes', { event: '*', schema: 'public' }, callback).subscribe();
-    return () => { supabase?.removeChannel(channel); };
-};
\ No newline at end of file
+// Row changes written to the active store, in batches (see DataStore.subscribe)
+export const subscribeToChanges = (onChanges: (changes: RealtimeChange[]) => void, onResync: () => void) =>
+    store.subscribe(onChanges, onResync);
@@ -0,0 +1,16 @@
+import { DataStore } from './dataService';
+import { buildICalendar, parseScopeKey } from '../utils/icalUtils';
+
+// --- Calendar Feeds ---
+// What a subscribed calendar app fetches, built from the store at the moment it asks, so a feed is never older
+// than the data behind it. Served by the self-hosted server (server/api.ts) and the Supabase function
+// (supabase/functions/calendar).
+
+// null when no feed has the token: never made, or revoked since
+export async function renderCalendarFeed(store: DataStore, token: string): Promise<string | null> {
+    const feed = await store.getCalendarFeed(token);
+    const scope = feed && parseScopeKey(feed.scopeKey);
+    if (!scope) return null;
+    const [projects, departments, employees] = await Promise.all([store.getProjects(), store.getDepartments(), store.getEmployees()]);
+    return buildICalendar(scope, projects, departments, employees);
+}
@@ -0,0 +1,424 @@
+import { jsPDF } from 'jspdf';
+import { Project, Task, Employee } from '../types';
+import { addDays, formatDate, getDaysBetween } from '../utils/dateUtils';
+import { WorkCalendar, isWorkingDay } from '../utils/calendarUtils';
+import { buildTimelineColumns, groupTimelineColumns, startOfZoomUnit } from '../utils/timelineUtils';
+import { downloadBlob } from '../utils/downloadUtils';
+import { PaperSize, PAPER_SIZES, PRINT_METRICS, PrintRow, buildPrintRows, getPrintRowHeight, getPrintBodyHeight, paginateRows, choosePrintZoom } from '../utils/printLayoutUtils';
+
+export interface ChartExportOptions {
+    title: string;
+    filterLabel: string;
+    startDate: Date;
+    endDate: Date;
+    paper: PaperSize;
+    projects: Project[];
+    employees: Employee[];
+    workCalendar: WorkCalendar;
+}
+
+const RENDER_SCALE = 2;
+// Browsers refuse canvases much taller than this, so a long single-image export is drawn at a lower scale
+const MAX_CANVAS_SIDE = 32000;
+const FONT_FAMILY = "'Pretendard', sans-serif";
+
+// Exports always use the light palette, whichever theme the app is showing
+const COLORS = {
+    background: '#ffffff',
+    text: '#111827',
+    muted: '#6b7280',
+    border: '#d1d5db',
+    grid: '#eef0f3',
+    headerBackground: '#f9fafb',
+    projectBackground: '#eef2ff',
+    dayOff: '#f3f4f6',
+    today: '#ef4444',
+    summary: '#374151',
+    milestone: '#f59e0b',
+};
+
+const BAR_COLORS: Record<string, string> = {
+    'bg-blue-500': '#3b82f6',
+    'bg-amber-500': '#f59e0b',
+    'bg-indigo-500': '#6366f1',
+    'bg-emerald-500': '#10b981',
+    'bg-sky-500': '#0ea5e9',
+    'bg-violet-500': '#8b5cf6',
+    'bg-orange-500': '#f97316',
+    'bg-teal-500': '#14b8a6',
+    'bg-pink-500': '#ec4899',
+    'bg-lime-500': '#84cc16',
+    'bg-rose-500': '#f43f5e',
+    'bg-red-500': '#ef4444',
+};
+
+// Fixed sidebar columns; the task name column takes whatever the paper width allows
+const DETAIL_COLUMNS = [
+    { label: '담당자', width: 64 },
+    { label: '시작', width: 48 },
+    { label: '종료', width: 48 },
+    { label: '진행', width: 40 },
+];
+const NAME_COLUMN_WIDTH: Record<PaperSize, number> = { A4: 200, A3: 280 };
+
+const font = (size: number, bold = false) => `${bold ? '700' : '400'} ${size}px ${FONT_FAMILY}`;
+
+const fitText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+    if (ctx.measureText(text).width <= maxWidth) return text;
+    let fitted = text;
+    while (fitted.length > 0 && ctx.measureText(`${fitted}…`).width > maxWidth) fitted = fitted.slice(0, -1);
+    return `${fitted}…`;
+};
+
+const shortDate = (date: Date) => `${date.getMonth() + 1}/${date.getDate()}`;
+
+interface ChartGeometry {
+    left: number;
+    width: number;
+    sidebarWidth: number;
+    timelineLeft: number;
+    timelineWidth: number;
+    pixelsPerDay: number;
+    start: Date;
+    end: Date;
+}
+
+const getGeometry = (options: ChartExportOptions): ChartGeometry => {
+    const { margin } = PRINT_METRICS;
+    const width = PAPER_SIZES[options.paper].width - margin * 2;
+    const sidebarWidth = NAME_COLUMN_WIDTH[options.paper] + DETAIL_COLUMNS.reduce((sum, c) => sum + c.width, 0);
+    const timelineWidth = width - sidebarWidth;
+    return {
+        left: margin,
+        width,
+        sidebarWidth,
+        timelineLeft: margin + sidebarWidth,
+        timelineWidth,
+        pixelsPerDay: timelineWidth / getDaysBetween(options.startDate, options.endDate),
+        start: options.startDate,
+        end: options.endDate,
+    };
+};
+
+// Distance from the range start to the start of a day; negative before the range
+const dayOffset = (geo: ChartGeometry, date: Date) => (getDaysBetween(geo.start, date) - 1) * geo.pixelsPerDay;
+
+// Horizontal span of the days [from, to] clipped to the exported range, or null when it lies outside
+const getSpan = (geo: ChartGeometry, from: Date, to: Date) => {
+    const x1 = Math.max(0, dayOffset(geo, from));
+    const x2 = Math.min(geo.timelineWidth, dayOffset(geo, to) + geo.pixelsPerDay);
+    return x2 > x1 ? { x: geo.timelineLeft + x1, width: x2 - x1 } : null;
+};
+
+const drawTitle = (ctx: CanvasRenderingContext2D, options: ChartExportOptions, geo: ChartGeometry, pageIndex: number, pageCount: number) => {
+    const top = PRINT_METRICS.margin;
+    ctx.fillStyle = COLORS.text;
+    ctx.font = font(18, true);
+    ctx.textBaseline = 'top';
+    ctx.textAlign = 'left';
+    ctx.fillText(fitText(ctx, options.title, geo.width - 80), geo.left, top);
+    ctx.fillStyle = COLORS.muted;
+    ctx.font = font(11);
+    ctx.fillText(`${formatDate(options.startDate)} ~ ${formatDate(options.endDate)} · ${options.filterLabel} · 출력 ${formatDate(new Date())}`, geo.left, top + 26);
+    if (pageCount > 1) {
+        ctx.textAlign = 'right';
+        ctx.fillText(`${pageIndex + 1} / ${pageCount}`, geo.left + geo.width, top + 4);
+    }
+};
+
+const drawHeader = (ctx: CanvasRenderingContext2D, geo: ChartGeometry, top: number) => {
+    const { headerHeight } = PRINT_METRICS;
+    const half = headerHeight / 2;
+    ctx.fillStyle = COLORS.headerBackground;
+    ctx.fillRect(geo.left, top, geo.width, headerHeight);
+
+    // Sidebar column titles
+    ctx.fillStyle = COLORS.muted;
+    ctx.font = font(10, true);
+    ctx.textBaseline = 'middle';
+    ctx.textAlign = 'left';
+    let x = geo.left;
+    [{ label: '작업', width: geo.sidebarWidth - DETAIL_COLUMNS.reduce((sum, c) => sum + c.width, 0) }, ...DETAIL_COLUMNS].forEach(column => {
+        ctx.fillText(column.label, x + 6, top + headerHeight / 2);
+        x += column.width;
+    });
+
+    // Two timeline tiers, reusing the on-screen column rules at a zoom that fits the paper
+    const zoom = choosePrintZoom(geo.pixelsPerDay);
+    const alignedStart = startOfZoomUnit(geo.start, zoom);
+    const columns = buildTimelineColumns(alignedStart, getDaysBetween(alignedStart, geo.end), zoom);
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(geo.timelineLeft, top, geo.timelineWidth, headerHeight);
+    ctx.clip();
+    ctx.textAlign = 'center';
+    let groupStart = alignedStart;
+    groupTimelineColumns(columns, zoom).forEach(group => {
+        const span = getSpan(geo, groupStart, addDays(groupStart, group.days - 1));
+        if (span) {
+            ctx.fillStyle = COLORS.text;
+            ctx.font = font(10, true);
+            ctx.fillText(fitText(ctx, group.label, span.width - 4), span.x + span.width / 2, top + half / 2);
+            ctx.fillStyle = COLORS.border;
+            ctx.fillRect(span.x, top, 1, half);
+        }
+        groupStart = addDays(groupStart, group.days);
+    });
+    columns.forEach(column => {
+        const span = getSpan(geo, column.start, addDays(column.start, column.days - 1));
+        if (!span) return;
+        ctx.fillStyle = COLORS.muted;
+        ctx.font = font(9);
+        ctx.fillText(fitText(ctx, column.label, span.width - 2), span.x + span.width / 2, top + half + half / 2);
+        ctx.fillStyle = COLORS.border;
+        ctx.fillRect(span.x, top + half, 1, half);
+    });
+    ctx.restore();
+
+    ctx.fillStyle = COLORS.border;
+    ctx.fillRect(geo.timelineLeft, top + half, geo.timelineWidth, 1);
+    ctx.fillRect(geo.left, top + headerHeight - 1, geo.width, 1);
+};
+
+// Day-off shading and the today line, drawn under the rows
+const drawTimelineBackground = (ctx: CanvasRenderingContext2D, geo: ChartGeometry, top: number, height: number, calendar: WorkCalendar) => {
+    if (geo.pixelsPerDay >= 2) {
+        ctx.fillStyle = COLORS.dayOff;
+        for (let d = new Date(geo.start); d.getTime() <= geo.end.getTime(); d = addDays(d, 1)) {
+            if (isWorkingDay(d, calendar)) continue;
+            const span = getSpan(geo, d, d);
+            if (span) ctx.fillRect(span.x, top, span.width, height);
+        }
+    }
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const todaySpan = getSpan(geo, today, today);
+    if (todaySpan) {
+        ctx.fillStyle = COLORS.today;
+        ctx.fillRect(todaySpan.x + todaySpan.width / 2 - 0.75, top, 1.5, height);
+    }
+};
+
+const drawTaskBar = (ctx: CanvasRenderingContext2D, geo: ChartGeometry, task: Task, top: number, rowHeight: number) => {
+    const start = new Date(task.startDate);
+    const end = new Date(task.endDate);
+    if (task.kind === 'milestone') {
+        const span = getSpan(geo, start, start);
+        if (!span) return;
+        const cx = span.x + span.width / 2;
+        const cy = top + rowHeight / 2;
+        const r = (rowHeight - 8) / 2;
+        ctx.fillStyle = COLORS.milestone;
+        ctx.beginPath();
+        ctx.moveTo(cx, cy - r);
+        ctx.lineTo(cx + r, cy);
+        ctx.lineTo(cx, cy + r);
+        ctx.lineTo(cx - r, cy);
+        ctx.closePath();
+        ctx.fill();
+        return;
+    }
+    const span = getSpan(geo, start, end);
+    if (!span) return;
+    const barTop = top + 4;
+    const barHeight = rowHeight - 8;
+    const color = BAR_COLORS[task.color] || BAR_COLORS['bg-blue-500'];
+    ctx.fillStyle = color;
+    ctx.globalAlpha = 0.35;
+    ctx.fillRect(span.x, barTop, Math.max(span.width, 1), barHeight);
+    ctx.globalAlpha = 1;
+    // Progress is measured along the whole task, so a bar clipped at the range start shows less of it
+    const fullWidth = dayOffset(geo, end) + geo.pixelsPerDay - dayOffset(geo, start);
+    const progressRight = geo.timelineLeft + dayOffset(geo, start) + fullWidth * (task.progress / 100);
+    const filled = Math.min(span.x + span.width, progressRight) - span.x;
+    if (filled > 0) ctx.fillRect(span.x, barTop, filled, barHeight);
+};
+
+const drawProjectSummary = (ctx: CanvasRenderingContext2D, geo: ChartGeometry, tasks: Task[], top: number, rowHeight: number) => {
+    const start = new Date(Math.min(...tasks.map(t => new Date(t.startDate).getTime())));
+    const end = new Date(Math.max(...tasks.map(t => new Date(t.endDate).getTime())));
+    const span = getSpan(geo, start, end);
+    if (!span) return;
+    const y = top + rowHeight / 2 - 3;
+    ctx.fillStyle = COLORS.summary;
+    ctx.fillRect(span.x, y, span.width, 6);
+    ctx.fillRect(span.x, y, 2, 10);
+    ctx.fillRect(span.x + span.width - 2, y, 2, 10);
+};
+
+const drawRows = (ctx: CanvasRenderingContext2D, options: ChartExportOptions, geo: ChartGeometry, rows: PrintRow[], top: number) => {
+    const employeeNames = new Map(options.employees.map(e => [e.id, e.name]));
+    const nameWidth = geo.sidebarWidth - DETAIL_COLUMNS.reduce((sum, c) => sum + c.width, 0);
+    let y = top;
+    rows.forEach(row => {
+        const height = getPrintRowHeight(row);
+        const isProject = row.type === 'project';
+        if (isProject) {
+            ctx.fillStyle = COLORS.projectBackground;
+            ctx.fillRect(geo.left, y, geo.sidebarWidth, height);
+        }
+        const tasks = row.type === 'project' ? row.tasks : [row.task];
+        const start = new Date(Math.min(...tasks.map(t => new Date(t.startDate).getTime())));
+        const end = new Date(Math.max(...tasks.map(t => new Date(t.endDate).getTime())));
+        const progress = Math.round(tasks.reduce((sum, t) => sum + t.progress, 0) / tasks.length);
+        const cells = [
+            row.type === 'project' ? '' : employeeNames.get(row.task.employeeId) || '',
+            shortDate(start),
+            shortDate(end),
+            `${progress}%`,
+        ];
+
+        ctx.textBaseline = 'middle';
+        ctx.textAlign = 'left';
+        ctx.fillStyle = COLORS.text;
+        ctx.font = font(isProject ? 11 : 10, isProject);
+        const indent = isProject ? 6 : 18;
+        const label = row.type === 'project' ? row.project.name : `${row.task.kind === 'milestone' ? '◆ ' : ''}${row.task.name}`;
+        ctx.fillText(fitText(ctx, label, nameWidth - indent - 4), geo.left + indent, y + height / 2);
+        ctx.font = font(9, isProject);
+        ctx.fillStyle = isProject ? COLORS.text : COLORS.muted;
+        let x = geo.left + nameWidth;
+        DETAIL_COLUMNS.forEach((column, i) => {
+            ctx.fillText(fitText(ctx, cells[i], column.width - 8), x + 4, y + height / 2);
+            x += column.width;
+        });
+
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(geo.timelineLeft, y, geo.timelineWidth, height);
+        ctx.clip();
+        if (row.type === 'project') drawProjectSummary(ctx, geo, row.tasks, y, height);
+        else drawTaskBar(ctx, geo, row.task, y, height);
+        ctx.restore();
+
+        ctx.fillStyle = COLORS.grid;
+        ctx.fillRect(geo.left, y + height - 1, geo.width, 1);
+        y += height;
+    });
+    return y;
+};
+
+const drawLegend = (ctx: CanvasRenderingContext2D, geo: ChartGeometry, top: number) => {
+    const cy = top + PRINT_METRICS.legendHeight / 2 + 2;
+    let x = geo.left;
+    ctx.font = font(9);
+    ctx.textBaseline = 'middle';
+    ctx.textAlign = 'left';
+    const label = (text: string) => {
+        ctx.fillStyle = COLORS.muted;
+        ctx.fillText(text, x, cy);
+        x += ctx.measureText(text).width + 16;
+    };
+    ctx.fillStyle = BAR_COLORS['bg-blue-500'];
+    ctx.globalAlpha = 0.35;
+    ctx.fillRect(x, cy - 5, 24, 10);
+    ctx.globalAlpha = 1;
+    ctx.fillRect(x, cy - 5, 12, 10);
+    x += 30;
+    label('태스크 (진한 부분: 진행률)');
+    ctx.fillStyle = COLORS.milestone;
+    ctx.beginPath();
+    ctx.moveTo(x + 5, cy - 5);
+    ctx.lineTo(x + 10, cy);
+    ctx.lineTo(x + 5, cy + 5);
+    ctx.lineTo(x, cy);
+    ctx.closePath();
+    ctx.fill();
+    x += 16;
+    label('마일스톤');
+    ctx.fillStyle = COLORS.summary;
+    ctx.fillRect(x, cy - 3, 24, 6);
+    x += 30;
+    label('프로젝트 기간');
+    ctx.fillStyle = COLORS.dayOff;
+    ctx.fillRect(x, cy - 6, 12, 12);
+    ctx.strokeStyle = COLORS.border;
+    ctx.strokeRect(x + 0.5, cy - 5.5, 11, 11);
+    x += 18;
+    label('휴무일');
+    ctx.fillStyle = COLORS.today;
+    ctx.fillRect(x + 5, cy - 6, 1.5, 12);
+    x += 14;
+    label('오늘');
+};
+
+// One canvas per page. Without pagination everything goes on a single sheet as tall as the rows need.
+export const renderChartPages = (options: ChartExportOptions, paginate: boolean): HTMLCanvasElement[] => {
+    const { margin, titleHeight, headerHeight, legendHeight } = PRINT_METRICS;
+    const geo = getGeometry(options);
+    const rows = buildPrintRows(options.projects, options.startDate, options.endDate);
+    const pages = paginateRows(rows, paginate ? getPrintBodyHeight(options.paper) : Infinity);
+    return pages.map((pageRows, pageIndex) => {
+        const bodyHeight = paginate ? getPrintBodyHeight(options.paper) : pageRows.reduce((sum, r) => sum + getPrintRowHeight(r), 0);
+        const width = PAPER_SIZES[options.paper].width;
+        const height = paginate ? PAPER_SIZES[options.paper].height : margin * 2 + titleHeight + headerHeight + bodyHeight + legendHeight;
+        const scale = Math.min(RENDER_SCALE, MAX_CANVAS_SIDE / height);
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(width * scale);
+        canvas.height = Math.round(height * scale);
+        const ctx = canvas.getContext('2d')!;
+        ctx.scale(scale, scale);
+        ctx.fillStyle = COLORS.background;
+        ctx.fillRect(0, 0, width, height);
+
+        drawTitle(ctx, options, geo, pageIndex, pages.length);
+        const headerTop = margin + titleHeight;
+        const bodyTop = headerTop + headerHeight;
+        const rowsHeight = pageRows.reduce((sum, r) => sum + getPrintRowHeight(r), 0);
+        drawTimelineBackground(ctx, geo, bodyTop, rowsHeight, options.workCalendar);
+        drawHeader(ctx, geo, headerTop);
+        const bottom = drawRows(ctx, options, geo, pageRows, bodyTop);
+        if (pageRows.length === 0) {
+            ctx.fillStyle = COLORS.muted;
+            ctx.font = font(11);
+            ctx.textAlign = 'center';
+            ctx.fillText('선택한 기간에 표시할 태스크가 없습니다.', geo.left + geo.width / 2, bodyTop + 24);
+        }
+
+        ctx.fillStyle = COLORS.border;
+        ctx.fillRect(geo.timelineLeft - 1, headerTop, 1, bottom - headerTop);
+        ctx.strokeStyle = COLORS.border;
+        ctx.strokeRect(geo.left + 0.5, headerTop + 0.5, geo.width - 1, Math.max(bottom, bodyTop) - headerTop - 1);
+        drawLegend(ctx, geo, headerTop + headerHeight + bodyHeight);
+        return canvas;
+    });
+};
+
+// Fonts load lazily; drawing before they arrive would fall back to a system font
+const renderWhenFontsReady = async (options: ChartExportOptions, paginate: boolean) => {
+    await document.fonts.ready;
+    return renderChartPages(options, paginate);
+};
+
+export const exportChartPng = async (options: ChartExportOptions, fileName: string) => {
+    const [canvas] = await renderWhenFontsReady(options, false);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('PNG encoding failed');
+    downloadBlob(blob, `${fileName}.png`);
+};
+
+export const exportChartPdf = async (options: ChartExportOptions, fileName: string) => {
+    const pages = await renderWhenFontsReady(options, true);
+    const { widthMm, heightMm } = PAPER_SIZES[options.paper];
+    const doc = new jsPDF({ orientation: 'landscape', unit: 'mm', format: options.paper.toLowerCase() });
+    pages.forEach((canvas, i) => {
+        if (i > 0) doc.addPage();
+        doc.addImage(canvas.toDataURL('image/png'), 'PNG', 0, 0, widthMm, heightMm);
+    });
+    doc.save(`${fileName}.pdf`);
+};
+
+// The print window has to be opened inside the click handler, before anything is awaited, or it gets blocked
+export const printChart = async (options: ChartExportOptions) => {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) throw new Error('POPUP_BLOCKED');
+    const pages = await renderWhenFontsReady(options, true);
+    const { widthMm, heightMm } = PAPER_SIZES[options.paper];
+    printWindow.document.write(`<!DOCTYPE html><html><head><title>${options.title.replace(/</g, '&lt;')}</title><style>
+@page { size: ${options.paper} landscape; margin: 0; }
+body { margin: 0; }
+img { display: block; width: ${widthMm}mm; height: ${heightMm}mm; break-after: page; }
+img:last-child { break-after: auto; }
+</style><script>window.onload = () => { window.focus(); window.print(); };</script></head><body>${pages.map(c => `<img src="${c.toDataURL('image/png')}">`).join('')}</body></html>`);
+    printWindow.document.close();
+};
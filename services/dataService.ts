@@ -0,0 +1,1146 @@
+import { Project, Task, Department, Employee, TaskDependency, Baseline, AppData, AppDataChanges, RealtimeChange, AuditEntry, CalendarFeed } from '../types';
+import { addDays } from '../utils/dateUtils';
+import { SupabaseClient } from '@supabase/supabase-js';
+
+// --- Data Stores ---
+// Where projects, tasks, people, links, baselines, shared settings, the audit log and calendar feeds are kept. apiService reads
+// and writes through whichever store is active and adds what every backend shares on top: merging audit entries,
+// the offline queue and moving successors along with a rescheduled task. Each backend must pass dataStoreConformance.
+
+export type DataStoreKind = 'local' | 'memory' | 'supabase' | 'server';
+
+// id → version of the rows a write produced, for backends that report them
+export type RowVersions = Record<string, number>;
+
+export type ProjectRow = Omit<Project, 'tasks'>;
+export type TaskRow = Task & { projectId: string };
+export type DepartmentRow = Omit<Department, 'employees'>;
+
+export interface DataStore {
+    readonly kind: DataStoreKind;
+
+    getProjects(): Promise<Project[]>; // in sidebar order, each with its tasks in order
+    getProject(id: string): Promise<ProjectRow | null>;
+    getTask(id: string): Promise<TaskRow | null>;
+    getDepartments(): Promise<Department[]>; // by name, each with its members
+    getEmployees(): Promise<Employee[]>; // by name
+    getDependencies(): Promise<TaskDependency[]>;
+    getBaselines(): Promise<Baseline[]>; // oldest first
+    getSetting(key: string): Promise<any>; // null if never saved
+
+    // Create or overwrite by id. A new row goes in at its position; an existing one keeps its place
+    // unless a task names another project, which moves it there.
+    putProjects(rows: AppDataChanges['projects']): Promise<void>;
+    putTasks(rows: AppDataChanges['tasks']): Promise<void>;
+    putDepartments(rows: DepartmentRow[]): Promise<void>;
+    putEmployees(rows: Employee[]): Promise<void>;
+    putDependencies(rows: TaskDependency[]): Promise<void>;
+    putBaselines(rows: Baseline[]): Promise<void>;
+    saveSetting(key: string, value: any): Promise<void>;
+
+    // Every write bumps the version of the rows it touches. Given the version the caller read, the write only
+    // applies while the row is still at it and throws a VersionConflictError otherwise.
+    updateProject(id: string, name: string, expectedVersion?: number): Promise<RowVersions>;
+    updateTask(id: string, update: Partial<Task>, expectedVersion?: number): Promise<RowVersions>;
+    setProjectOrder(projects: { id: string; name: string }[], expectedVersions?: RowVersions): Promise<RowVersions>;
+    setTaskOrder(projectId: string, taskIds: string[], expectedVersions?: RowVersions): Promise<RowVersions>;
+
+    // Each returns the removed row, or null if it was already gone
+    deleteProject(id: string): Promise<ProjectRow | null>; // its tasks, their links and its baselines go with it
+    deleteTask(id: string, expectedVersion?: number): Promise<TaskRow | null>; // its links go with it
+    deleteDepartment(id: string): Promise<DepartmentRow | null>; // its members stay, without a department
+    deleteEmployee(id: string): Promise<Employee | null>;
+    deleteDependency(id: string): Promise<TaskDependency | null>;
+    deleteBaseline(id: string): Promise<Baseline | null>;
+
+    // The audit log, newest first; entityId narrows it to one record's history. Entries are only ever added.
+    getAuditLog(options: { entityId?: string; limit: number }): Promise<AuditEntry[]>;
+    appendAudit(entries: AuditEntry[]): Promise<void>;
+
+    // Calendar feeds, oldest first. The feed endpoint looks one up by the token in its URL.
+    getCalendarFeeds(): Promise<CalendarFeed[]>;
+    getCalendarFeed(token: string): Promise<CalendarFeed | null>;
+    putCalendarFeed(feed: CalendarFeed): Promise<void>;
+    deleteCalendarFeed(token: string): Promise<void>;
+
+    // Row changes as they are written, in batches. onResync means changes may have been missed: read everything again.
+    subscribe(onChanges: (changes: RealtimeChange[]) => void, onResync: () => void): () => void;
+}
+
+// Thrown by a versioned write that found the row changed since the caller read it
+export class VersionConflictError extends Error {
+    remote: Partial<Task> | null | undefined; // the row as it is now, null once deleted
+    remoteOrder: string[] | undefined; // for a reorder, the ids in their current order
+
+    constructor(remote: Partial<Task> | null | undefined, remoteOrder?: string[]) {
+        super(remote === null ? '다른 사용자가 이미 삭제한 항목입니다.' : '다른 사용자가 먼저 변경한 항목입니다.');
+        this.name = 'VersionConflictError';
+        this.remote = remote;
+        this.remoteOrder = remoteOrder;
+    }
+}
+
+// --- Errors ---
+
+export const stringifyError = (err: any) => {
+    if (typeof err === 'string') return err;
+    if (err && err.message) return err.message;
+    try { return JSON.stringify(err); } catch { return String(err); }
+};
+
+// Robust column error identification
+export const isMissingColumnError = (error: any, columnName: string) => {
+    if (!error) return false;
+    // Postgres error code for undefined_column is 42703
+    if (error.code === '42703') return true;
+    const msg = String(error.message || "").toLowerCase();
+    const col = columnName.toLowerCase();
+    return msg.includes('column') && msg.includes(col);
+};
+
+// Table not created yet (e.g. the migration SQL has not been re-run)
+export const isMissingTableError = (error: any) => {
+    if (!error) return false;
+    return error.code === '42P01' || error.code === 'PGRST205';
+};
+
+// The RPC is not in the database yet (PostgREST PGRST202, Postgres undefined_function 42883)
+export const isMissingFunctionError = (error: any) => {
+    if (!error) return false;
+    return error.code === 'PGRST202' || error.code === '42883';
+};
+
+export const isNetworkError = (error: any) =>
+    (typeof navigator !== 'undefined' && navigator.onLine === false) ||
+    /failed to fetch|networkerror|load failed|network request failed|fetch failed/i.test(stringifyError(error));
+
+// --- Document Stores (localStorage, memory) ---
+// The whole data set as one AppData document, changed and written back in one step per call. They keep
+// the same rules the Supabase triggers and foreign keys enforce, so the app behaves alike on every backend.
+
+export interface DocumentStorage {
+    read(): AppData;
+    write(data: AppData): void;
+    readSettings(): Record<string, any>;
+    writeSettings(settings: Record<string, any>): void;
+    readAudit(): AuditEntry[]; // newest first
+    writeAudit(entries: AuditEntry[]): void;
+    readFeeds(): CalendarFeed[];
+    writeFeeds(feeds: CalendarFeed[]): void;
+    watch?(onChange: () => void): () => void; // changes written from elsewhere, such as another tab
+}
+
+// The oldest audit entries fall off the end past this many
+const MAX_DOCUMENT_AUDIT = 500;
+
+// Same fields as the tasks_bump_sequence trigger in Supabase: any change to them is a new revision
+export const TASK_DETAIL_FIELDS = ['name', 'kind', 'startDate', 'endDate', 'employeeId', 'progress', 'description'] as const;
+
+const detailValue = (value: any) => {
+    if (value === undefined || value === null || value === '') return null;
+    if (value instanceof Date) return value.toISOString().split('T')[0];
+    return value;
+};
+
+const hasNewDetails = (before: Task, after: Task) => TASK_DETAIL_FIELDS.some(field => detailValue(before[field]) !== detailValue(after[field]));
+
+const byName = <T extends { name: string }>(items: T[]) => [...items].sort((a, b) => a.name.localeCompare(b.name));
+
+export const sortByIds = <T extends { id: string }>(items: T[], ids: string[]) => {
+    const order = new Map(ids.map((id, i) => [id, i]));
+    return [...items].sort((a, b) => (order.get(a.id) ?? ids.length) - (order.get(b.id) ?? ids.length));
+};
+
+export const upsertById = <T extends { id: string }>(list: T[], items: T[]): T[] => {
+    const result = [...list];
+    items.forEach(item => {
+        const index = result.findIndex(x => x.id === item.id);
+        if (index === -1) result.push(item);
+        else result[index] = item;
+    });
+    return result;
+};
+
+export const insertAt = <T>(list: T[], position: number, item: T) => list.splice(Math.min(Math.max(position, 0), list.length), 0, item);
+
+const toProjectRow = ({ tasks, ...project }: Project): ProjectRow => project;
+
+const findTask = (data: AppData, id: string) => {
+    for (const project of data.projects) {
+        const task = project.tasks.find(t => t.id === id);
+        if (task) return { project, task };
+    }
+    return null;
+};
+
+const checkVersion = (row: { version?: number }, expectedVersion: number | undefined) => {
+    if (expectedVersion !== undefined && (row.version ?? 0) !== expectedVersion) throw new VersionConflictError({ ...row });
+};
+
+const checkOrder = (rows: { id: string; version?: number }[], expectedVersions: RowVersions | undefined) => {
+    if (!expectedVersions) return;
+    const current = new Map(rows.map(r => [r.id, r.version ?? 0]));
+    if (Object.entries(expectedVersions).some(([id, v]) => current.get(id) !== v)) {
+        throw new VersionConflictError(undefined, rows.map(r => r.id));
+    }
+};
+
+export const createDocumentStore = (kind: DataStoreKind, storage: DocumentStorage): DataStore => {
+    const listeners = new Set<(changes: RealtimeChange[]) => void>();
+
+    // Positions follow the stored order, so subscribers can place rows the way the Supabase columns do
+    const renumber = (data: AppData, changes: RealtimeChange[]) => {
+        const changedIds = new Set(changes.map(c => `${c.table}:${c.id}`));
+        data.projects.forEach((p, i) => {
+            if (p.position !== i) {
+                p.position = i;
+                if (!changedIds.has(`projects:${p.id}`)) changes.push({ table: 'projects', id: p.id, row: toProjectRow(p) });
+            }
+            p.tasks.forEach((t, j) => {
+                if (t.position === j) return;
+                t.position = j;
+                if (!changedIds.has(`tasks:${t.id}`)) changes.push({ table: 'tasks', id: t.id, row: { ...t, projectId: p.id } });
+            });
+        });
+    };
+
+    // Read, change and write back without yielding, so two calls never interleave. Changed rows are pushed
+    // onto the list as they are written and reach subscribers once the document is saved.
+    const change = <T>(apply: (data: AppData, changes: RealtimeChange[]) => T): T => {
+        const data = storage.read();
+        const changes: RealtimeChange[] = [];
+        const result = apply(data, changes);
+        if (changes.length === 0) return result;
+        renumber(data, changes);
+        // Rows are copied as they end up, after the whole call
+        const final: RealtimeChange[] = changes.map(c => {
+            if (c.table === 'projects' && c.row) {
+                const project = data.projects.find(p => p.id === c.id);
+                return { ...c, row: project ? toProjectRow(project) : c.row };
+            }
+            if (c.table === 'tasks' && c.row) {
+                const found = findTask(data, c.id);
+                return { ...c, row: found ? { ...found.task, projectId: found.project.id } : c.row };
+            }
+            return c;
+        });
+        storage.write(data);
+        setTimeout(() => listeners.forEach(listener => listener(final)), 0);
+        return result;
+    };
+
+    const removeLinks = (data: AppData, taskIds: Set<string>, changes: RealtimeChange[]) => {
+        data.dependencies = data.dependencies.filter(d => {
+            if (!taskIds.has(d.predecessorId) && !taskIds.has(d.successorId)) return true;
+            changes.push({ table: 'task_dependencies', id: d.id, row: null });
+            return false;
+        });
+    };
+
+    const reorderVersions = (rows: { id: string; version?: number }[]) => {
+        rows.forEach(r => { r.version = (r.version ?? 0) + 1; });
+        return Object.fromEntries(rows.map(r => [r.id, r.version!]));
+    };
+
+    return {
+        kind,
+
+        getProjects: async () => storage.read().projects,
+        getProject: async id => {
+            const project = storage.read().projects.find(p => p.id === id);
+            return project ? toProjectRow(project) : null;
+        },
+        getTask: async id => {
+            const found = findTask(storage.read(), id);
+            return found ? { ...found.task, projectId: found.project.id } : null;
+        },
+        getDepartments: async () => {
+            const { departments, employees } = storage.read();
+            return byName(departments).map(d => ({ ...d, employees: byName(employees.filter(e => e.departmentId === d.id)) }));
+        },
+        getEmployees: async () => byName(storage.read().employees),
+        getDependencies: async () => storage.read().dependencies,
+        getBaselines: async () => storage.read().baselines,
+        getSetting: async key => storage.readSettings()[key] ?? null,
+
+        putProjects: async rows => change((data, changes) => {
+            rows.forEach(({ id, name, position }) => {
+                const existing = data.projects.find(p => p.id === id);
+                if (existing) {
+                    existing.name = name;
+                    existing.version = (existing.version ?? 0) + 1;
+                } else {
+                    insertAt(data.projects, position, { id, name, tasks: [], version: 0 });
+                }
+                changes.push({ table: 'projects', id, row: { id, name } });
+            });
+        }),
+        // Tasks of a project that does not exist are skipped, as a restore into a deleted project always was
+        putTasks: async rows => change((data, changes) => {
+            rows.forEach(({ projectId, task, position }) => {
+                const target = data.projects.find(p => p.id === projectId);
+                if (!target) return;
+                const found = findTask(data, task.id);
+                const next: Task = { ...task, version: 0, sequence: task.sequence ?? 0 };
+                if (found) {
+                    next.version = (found.task.version ?? 0) + 1;
+                    next.sequence = hasNewDetails(found.task, next) ? (found.task.sequence ?? 0) + 1 : found.task.sequence ?? 0;
+                }
+                if (found && found.project === target) {
+                    target.tasks = target.tasks.map(t => t.id === task.id ? next : t);
+                } else {
+                    if (found) found.project.tasks = found.project.tasks.filter(t => t.id !== task.id);
+                    insertAt(target.tasks, position, next);
+                }
+                changes.push({ table: 'tasks', id: task.id, row: { ...next, projectId } });
+            });
+        }),
+        putDepartments: async rows => change((data, changes) => {
+            data.departments = upsertById(data.departments, rows.map(({ id, name }) => ({ id, name, employees: [] })));
+            rows.forEach(({ id, name }) => changes.push({ table: 'departments', id, row: { id, name } }));
+        }),
+        putEmployees: async rows => change((data, changes) => {
+            data.employees = upsertById(data.employees, rows.map(e => ({ ...e })));
+            rows.forEach(e => changes.push({ table: 'employees', id: e.id, row: { ...e } }));
+        }),
+        putDependencies: async rows => change((data, changes) => {
+            data.dependencies = upsertById(data.dependencies, rows.map(d => ({ ...d })));
+            rows.forEach(d => changes.push({ table: 'task_dependencies', id: d.id, row: { ...d } }));
+        }),
+        putBaselines: async rows => change((data, changes) => {
+            data.baselines = upsertById(data.baselines, rows.map(b => ({ ...b })));
+            rows.forEach(b => changes.push({ table: 'project_baselines', id: b.id, row: { ...b } }));
+        }),
+        saveSetting: async (key, value) => {
+            storage.writeSettings({ ...storage.readSettings(), [key]: value });
+            setTimeout(() => listeners.forEach(listener => listener([{ table: 'system_settings', id: key, row: { value } }])), 0);
+        },
+
+        updateProject: async (id, name, expectedVersion) => change((data, changes) => {
+            const project = data.projects.find(p => p.id === id);
+            if (!project) {
+                if (expectedVersion !== undefined) throw new VersionConflictError(null);
+                return {};
+            }
+            checkVersion(toProjectRow(project), expectedVersion);
+            project.name = name;
+            project.version = (project.version ?? 0) + 1;
+            changes.push({ table: 'projects', id, row: toProjectRow(project) });
+            return { [id]: project.version };
+        }),
+        updateTask: async (id, update, expectedVersion) => change((data, changes) => {
+            const found = findTask(data, id);
+            if (!found) {
+                if (expectedVersion !== undefined) throw new VersionConflictError(null);
+                return {};
+            }
+            checkVersion(found.task, expectedVersion);
+            const fields = Object.fromEntries(TASK_DETAIL_FIELDS.filter(f => update[f] !== undefined).map(f => [f, update[f]]));
+            const next: Task = { ...found.task, ...fields, version: (found.task.version ?? 0) + 1 };
+            if (hasNewDetails(found.task, next)) next.sequence = (found.task.sequence ?? 0) + 1;
+            found.project.tasks = found.project.tasks.map(t => t.id === id ? next : t);
+            changes.push({ table: 'tasks', id, row: { ...next, projectId: found.project.id } });
+            return { [id]: next.version! };
+        }),
+        setProjectOrder: async (projects, expectedVersions) => change((data, changes) => {
+            checkOrder(data.projects, expectedVersions);
+            const ids = projects.map(p => p.id);
+            data.projects = sortByIds(data.projects, ids);
+            const moved = data.projects.filter(p => ids.includes(p.id));
+            const versions = reorderVersions(moved);
+            moved.forEach(p => changes.push({ table: 'projects', id: p.id, row: toProjectRow(p) }));
+            return versions;
+        }),
+        setTaskOrder: async (projectId, taskIds, expectedVersions) => change((data, changes) => {
+            const project = data.projects.find(p => p.id === projectId);
+            if (!project) return {};
+            checkOrder(project.tasks, expectedVersions);
+            project.tasks = sortByIds(project.tasks, taskIds);
+            const moved = project.tasks.filter(t => taskIds.includes(t.id));
+            const versions = reorderVersions(moved);
+            moved.forEach(t => changes.push({ table: 'tasks', id: t.id, row: { ...t, projectId } }));
+            return versions;
+        }),
+
+        deleteProject: async id => change((data, changes) => {
+            const project = data.projects.find(p => p.id === id);
+            if (!project) return null;
+            data.projects = data.projects.filter(p => p.id !== id);
+            changes.push({ table: 'projects', id, row: null });
+            project.tasks.forEach(t => changes.push({ table: 'tasks', id: t.id, row: null }));
+            removeLinks(data, new Set(project.tasks.map(t => t.id)), changes);
+            data.baselines = data.baselines.filter(b => {
+                if (b.projectId !== id) return true;
+                changes.push({ table: 'project_baselines', id: b.id, row: null });
+                return false;
+            });
+            return toProjectRow(project);
+        }),
+        deleteTask: async (id, expectedVersion) => change((data, changes) => {
+            const found = findTask(data, id);
+            // Already gone is what the caller wanted anyway
+            if (!found) return null;
+            checkVersion(found.task, expectedVersion);
+            found.project.tasks = found.project.tasks.filter(t => t.id !== id);
+            changes.push({ table: 'tasks', id, row: null });
+            removeLinks(data, new Set([id]), changes);
+            return { ...found.task, projectId: found.project.id };
+        }),
+        deleteDepartment: async id => change((data, changes) => {
+            const department = data.departments.find(d => d.id === id);
+            if (!department) return null;
+            data.departments = data.departments.filter(d => d.id !== id);
+            changes.push({ table: 'departments', id, row: null });
+            data.employees = data.employees.map(e => {
+                if (e.departmentId !== id) return e;
+                const member = { ...e, departmentId: '' };
+                changes.push({ table: 'employees', id: e.id, row: member });
+                return member;
+            });
+            return { id: department.id, name: department.name };
+        }),
+        deleteEmployee: async id => change((data, changes) => {
+            const employee = data.employees.find(e => e.id === id);
+            if (!employee) return null;
+            data.employees = data.employees.filter(e => e.id !== id);
+            changes.push({ table: 'employees', id, row: null });
+            return employee;
+        }),
+        deleteDependency: async id => change((data, changes) => {
+            const dependency = data.dependencies.find(d => d.id === id);
+            if (!dependency) return null;
+            data.dependencies = data.dependencies.filter(d => d.id !== id);
+            changes.push({ table: 'task_dependencies', id, row: null });
+            return dependency;
+        }),
+        deleteBaseline: async id => change((data, changes) => {
+            const baseline = data.baselines.find(b => b.id === id);
+            if (!baseline) return null;
+            data.baselines = data.baselines.filter(b => b.id !== id);
+            changes.push({ table: 'project_baselines', id, row: null });
+            return baseline;
+        }),
+
+        getAuditLog: async ({ entityId, limit }) => storage.readAudit().filter(e => !entityId || e.entityId === entityId).slice(0, limit),
+        // Written within the call, so entries appended as the page closes are kept
+        appendAudit: async entries => {
+            const log = [...[...entries].reverse(), ...storage.readAudit()].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+            storage.writeAudit(log.slice(0, MAX_DOCUMENT_AUDIT));
+        },
+
+        getCalendarFeeds: async () => storage.readFeeds().sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+        getCalendarFeed: async token => storage.readFeeds().find(f => f.token === token) ?? null,
+        putCalendarFeed: async feed => storage.writeFeeds([...storage.readFeeds().filter(f => f.token !== feed.token), { ...feed }]),
+        deleteCalendarFeed: async token => storage.writeFeeds(storage.readFeeds().filter(f => f.token !== token)),
+
+        subscribe: (onChanges, onResync) => {
+            listeners.add(onChanges);
+            const unwatch = storage.watch?.(onResync);
+            return () => {
+                listeners.delete(onChanges);
+                unwatch?.();
+            };
+        },
+    };
+};
+
+// --- LocalStorage Store ---
+
+export const LOCAL_DATA_KEY = 'gantt-app-data';
+const LOCAL_SETTINGS_KEY = 'gantt-app-settings';
+const LOCAL_AUDIT_KEY = 'gantt-audit-log';
+const LOCAL_FEEDS_KEY = 'gantt-calendar-feeds';
+
+function getInitialData(): AppData {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return {
+        projects: [
+            {
+                id: 'p1',
+                name: '샘플 프로젝트',
+                tasks: [
+                    { id: 't1', name: '예시 태스크', startDate: addDays(today, 1), endDate: addDays(today, 10), color: 'bg-blue-500', employeeId: '', progress: 0 },
+                ],
+            }
+        ],
+        departments: [],
+        employees: [],
+        dependencies: [],
+        baselines: [],
+    };
+}
+
+// Also reads the offline cache of a remote store, which is kept in the same format
+export function readLocalData(key = LOCAL_DATA_KEY): AppData {
+    try {
+        const rawData = localStorage.getItem(key);
+        if (!rawData) return getInitialData();
+        const parsedData = JSON.parse(rawData);
+        if (parsedData.projects) {
+            parsedData.projects.forEach((p: Project) => {
+                p.tasks?.forEach((t: Task) => {
+                    t.startDate = new Date(t.startDate);
+                    t.endDate = new Date(t.endDate);
+                });
+            });
+        }
+        if (!parsedData.dependencies) parsedData.dependencies = [];
+        if (!parsedData.baselines) parsedData.baselines = [];
+        parsedData.baselines.forEach((b: Baseline) => {
+            b.createdAt = new Date(b.createdAt);
+            b.tasks.forEach(t => {
+                t.startDate = new Date(t.startDate);
+                t.endDate = new Date(t.endDate);
+            });
+        });
+        return parsedData;
+    } catch { return getInitialData(); }
+}
+
+export function writeLocalData(data: AppData, key = LOCAL_DATA_KEY) {
+    localStorage.setItem(key, JSON.stringify(data));
+}
+
+function readLocalAudit(key: string): AuditEntry[] {
+    try {
+        const raw = localStorage.getItem(key);
+        if (!raw) return [];
+        return JSON.parse(raw).map((e: AuditEntry) => ({ ...e, timestamp: new Date(e.timestamp) }));
+    } catch { return []; }
+}
+
+function readLocalFeeds(key: string): CalendarFeed[] {
+    try {
+        return JSON.parse(localStorage.getItem(key) || '[]').map((f: CalendarFeed) => ({ ...f, createdAt: new Date(f.createdAt) }));
+    } catch { return []; }
+}
+
+// This browser's own copy. Another tab writing it brings a resync.
+export const createLocalStorageStore = (key = LOCAL_DATA_KEY, settingsKey = LOCAL_SETTINGS_KEY, auditKey = LOCAL_AUDIT_KEY, feedsKey = LOCAL_FEEDS_KEY): DataStore =>
+    createDocumentStore('local', {
+        read: () => readLocalData(key),
+        write: data => writeLocalData(data, key),
+        readSettings: () => {
+            try { return JSON.parse(localStorage.getItem(settingsKey) || '{}'); } catch { return {}; }
+        },
+        writeSettings: settings => localStorage.setItem(settingsKey, JSON.stringify(settings)),
+        readAudit: () => readLocalAudit(auditKey),
+        writeAudit: entries => localStorage.setItem(auditKey, JSON.stringify(entries)),
+        readFeeds: () => readLocalFeeds(feedsKey),
+        writeFeeds: feeds => localStorage.setItem(feedsKey, JSON.stringify(feeds)),
+        watch: onChange => {
+            if (typeof window === 'undefined') return () => {};
+            const handleStorage = (e: StorageEvent) => { if (e.key === key || e.key === settingsKey) onChange(); };
+            window.addEventListener('storage', handleStorage);
+            return () => window.removeEventListener('storage', handleStorage);
+        },
+    });
+
+// --- Memory Store ---
+
+export const emptyData = (): AppData => ({ projects: [], departments: [], employees: [], dependencies: [], baselines: [] });
+
+// Gone on reload; for demos, trying out an import, and running the conformance suite without touching real data.
+// Reads hand out copies, as a store that serializes would.
+export const createMemoryStore = (initial: AppData = emptyData()): DataStore => {
+    let data = structuredClone(initial);
+    let settings: Record<string, any> = {};
+    let audit: AuditEntry[] = [];
+    let feeds: CalendarFeed[] = [];
+    return createDocumentStore('memory', {
+        read: () => structuredClone(data),
+        write: next => { data = structuredClone(next); },
+        readSettings: () => structuredClone(settings),
+        writeSettings: next => { settings = structuredClone(next); },
+        readAudit: () => structuredClone(audit),
+        writeAudit: next => { audit = structuredClone(next); },
+        readFeeds: () => structuredClone(feeds),
+        writeFeeds: next => { feeds = structuredClone(next); },
+    });
+};
+
+// --- Supabase Store ---
+
+const IMPORT_CHUNK_SIZE = 500;
+const REALTIME_BATCH_MS = 100;
+
+const toDateColumn = (date: Date) => new Date(date).toISOString().split('T')[0];
+
+const fromProjectRow = (p: any): ProjectRow => ({ id: p.id, name: p.name, version: p.version, position: p.position });
+
+const fromTaskRow = (t: any): Task => ({
+    id: t.id,
+    name: t.name,
+    kind: t.kind || 'task',
+    startDate: new Date(t.start_date),
+    endDate: new Date(t.end_date),
+    color: t.color,
+    employeeId: t.employee_id || '',
+    progress: t.progress,
+    description: t.description,
+    sequence: t.sequence || 0,
+    version: t.version,
+    position: t.position
+});
+
+const toTaskRow = (projectId: string, task: Task, position: number) => ({
+    id: task.id,
+    project_id: projectId,
+    name: task.name,
+    kind: task.kind || 'task',
+    start_date: toDateColumn(task.startDate),
+    end_date: toDateColumn(task.endDate),
+    color: task.color,
+    // Unassigned tasks store null so the employees foreign key accepts them
+    employee_id: task.employeeId || null,
+    progress: task.progress,
+    description: task.description,
+    position
+});
+
+// Only the fields the update sets
+const toTaskUpdate = (update: Partial<Task>) => {
+    const values: Record<string, any> = {};
+    if (update.name !== undefined) values.name = update.name;
+    if (update.kind !== undefined) values.kind = update.kind;
+    if (update.startDate) values.start_date = toDateColumn(update.startDate);
+    if (update.endDate) values.end_date = toDateColumn(update.endDate);
+    if (update.employeeId !== undefined) values.employee_id = update.employeeId || null;
+    if (update.progress !== undefined) values.progress = update.progress;
+    if (update.description !== undefined) values.description = update.description;
+    return values;
+};
+
+const fromEmployeeRow = (e: any): Employee => ({ id: e.id, name: e.name, departmentId: e.department_id || '' });
+
+const fromDependencyRow = (d: any): TaskDependency => ({
+    id: d.id,
+    predecessorId: d.predecessor_id,
+    successorId: d.successor_id,
+    type: d.type || 'FS',
+    lagDays: d.lag_days || 0
+});
+
+const toDependencyRow = (d: TaskDependency) => ({
+    id: d.id,
+    predecessor_id: d.predecessorId,
+    successor_id: d.successorId,
+    type: d.type,
+    lag_days: d.lagDays
+});
+
+const fromBaselineRow = (b: any): Baseline => ({
+    id: b.id,
+    projectId: b.project_id,
+    name: b.name,
+    createdAt: new Date(b.created_at),
+    tasks: (b.tasks || []).map((t: any) => ({
+        taskId: t.task_id,
+        startDate: new Date(t.start_date),
+        endDate: new Date(t.end_date),
+        progress: t.progress || 0
+    }))
+});
+
+const toBaselineRow = (b: Baseline) => ({
+    id: b.id,
+    project_id: b.projectId,
+    name: b.name,
+    created_at: new Date(b.createdAt).toISOString(),
+    tasks: b.tasks.map(t => ({
+        task_id: t.taskId,
+        start_date: toDateColumn(t.startDate),
+        end_date: toDateColumn(t.endDate),
+        progress: t.progress
+    }))
+});
+
+const fromAuditRow = (row: any): AuditEntry => ({
+    id: row.id,
+    timestamp: new Date(row.created_at),
+    actor: row.actor,
+    action: row.action,
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    entityName: row.entity_name || undefined,
+    projectId: row.project_id || undefined,
+    note: row.note || undefined,
+    changes: row.changes || []
+});
+
+const toAuditRow = (e: AuditEntry) => ({
+    id: e.id,
+    created_at: new Date(e.timestamp).toISOString(),
+    actor: e.actor,
+    action: e.action,
+    entity_type: e.entityType,
+    entity_id: e.entityId,
+    entity_name: e.entityName,
+    project_id: e.projectId,
+    note: e.note,
+    changes: e.changes
+});
+
+const MISSING_AUDIT_TABLE = "Table 'audit_log' missing. Run the migration SQL to enable the audit log.";
+
+const fromFeedRow = (row: any): CalendarFeed => ({ token: row.token, scopeKey: row.scope_key, createdAt: new Date(row.created_at) });
+
+const toFeedRow = (f: CalendarFeed) => ({ token: f.token, scope_key: f.scopeKey, created_at: new Date(f.createdAt).toISOString() });
+
+const toRealtimeChange = (payload: any): RealtimeChange | null => {
+    const row = payload.eventType === 'DELETE' ? null : payload.new;
+    const old = payload.old || {};
+    switch (payload.table) {
+        case 'projects': return { table: 'projects', id: row?.id ?? old.id, row: row && fromProjectRow(row) };
+        case 'tasks': return { table: 'tasks', id: row?.id ?? old.id, row: row && { ...fromTaskRow(row), projectId: row.project_id } };
+        case 'departments': return { table: 'departments', id: row?.id ?? old.id, row: row && { id: row.id, name: row.name } };
+        case 'employees': return { table: 'employees', id: row?.id ?? old.id, row: row && fromEmployeeRow(row) };
+        case 'task_dependencies': return { table: 'task_dependencies', id: row?.id ?? old.id, row: row && fromDependencyRow(row) };
+        case 'project_baselines': return { table: 'project_baselines', id: row?.id ?? old.id, row: row && fromBaselineRow(row) };
+        case 'system_settings': return { table: 'system_settings', id: row?.key ?? old.key, row: row && { value: row.value } };
+        default: return null;
+    }
+};
+
+const versionsOf = (rows: any[] | null): RowVersions =>
+    Object.fromEntries((rows || []).filter(r => typeof r.version === 'number').map(r => [r.id, r.version]));
+
+// Raised by set_positions when a row has moved on since the order was shown (serialization_failure)
+const STALE_ORDER_CODE = '40001';
+
+export const createSupabaseStore = (client: SupabaseClient): DataStore => {
+    // Sorted by position, or by the fallback column on databases created before position existed
+    async function selectOrdered(table: 'projects' | 'tasks', fallback: string) {
+        const { data, error } = await client.from(table).select('*').order('position', { ascending: true }).order(fallback, { ascending: true });
+        if (!error) return data || [];
+        if (!isMissingColumnError(error, 'position')) throw error;
+        console.warn(`Table '${table}' missing 'position' column. Falling back to '${fallback}'.`);
+        const { data: fallbackData, error: fError } = await client.from(table).select('*').order(fallback, { ascending: true });
+        if (fError) throw fError;
+        return fallbackData || [];
+    }
+
+    // Tables added by later migrations read as empty until the SQL is re-run
+    async function selectOptional(table: string, label: string, order?: string) {
+        let query = client.from(table).select('*');
+        if (order) query = query.order(order, { ascending: true });
+        const { data, error } = await query;
+        if (!error) return data || [];
+        if (!isMissingTableError(error)) throw error;
+        console.warn(`Table '${table}' missing. Run the migration SQL to enable ${label}.`);
+        return [];
+    }
+
+    // Upsert that drops the position column on databases created before it existed
+    async function upsertWithPosition(table: string, rows: any[]) {
+        const { error } = await client.from(table).upsert(rows, { onConflict: 'id' });
+        if (!error) return;
+        if (!isMissingColumnError(error, 'position')) throw error;
+        const { error: retryError } = await client.from(table).upsert(rows.map(({ position, ...rest }) => rest), { onConflict: 'id' });
+        if (retryError) throw retryError;
+    }
+
+    // Chunked, so restoring a large backup stays under the request size limit
+    async function upsertInChunks(table: string, rows: any[], withPosition = false) {
+        for (let i = 0; i < rows.length; i += IMPORT_CHUNK_SIZE) {
+            const chunk = rows.slice(i, i + IMPORT_CHUNK_SIZE);
+            if (withPosition) {
+                await upsertWithPosition(table, chunk);
+                continue;
+            }
+            const { error } = await client.from(table).upsert(chunk, { onConflict: 'id' });
+            if (error) throw error;
+        }
+    }
+
+    async function deleteReturning(table: string, id: string) {
+        const { data, error } = await client.from(table).delete().eq('id', id).select();
+        if (error) throw error;
+        return data?.[0] ?? null;
+    }
+
+    async function findConflict(table: 'projects' | 'tasks', id: string): Promise<VersionConflictError> {
+        const { data: row, error } = await client.from(table).select('*').eq('id', id).maybeSingle();
+        if (error) throw error;
+        if (!row) return new VersionConflictError(null);
+        return new VersionConflictError(table === 'tasks' ? fromTaskRow(row) : { name: row.name, version: row.version });
+    }
+
+    // Without an expected version the write goes through unconditionally
+    async function updateIfCurrent(table: 'projects' | 'tasks', id: string, values: Record<string, any>, expectedVersion: number | undefined) {
+        let query = client.from(table).update(values).eq('id', id);
+        if (expectedVersion !== undefined) query = query.eq('version', expectedVersion);
+        const { data, error } = await query.select();
+        if (error) throw error;
+        if (expectedVersion !== undefined && !data?.length) throw await findConflict(table, id);
+        return versionsOf(data);
+    }
+
+    async function remoteOrder(table: 'projects' | 'tasks', projectId?: string): Promise<string[]> {
+        let query = client.from(table).select('id');
+        if (projectId) query = query.eq('project_id', projectId);
+        const { data, error } = await query.order('position', { ascending: true });
+        if (error) throw error;
+        return (data || []).map((r: any) => r.id);
+    }
+
+    // Reorders rewrite the position of every row, so any of them having moved on makes the whole order stale.
+    // set_positions (in the setup SQL) locks the rows, compares their versions and moves them in one statement,
+    // so a write landing in between cannot be overwritten. Only the position is written.
+    async function setPositions(table: 'projects' | 'tasks', ids: string[], expectedVersions?: RowVersions, projectId?: string): Promise<RowVersions> {
+        const { data, error } = await client.rpc('set_positions', { target: table, ids, expected: expectedVersions || {} });
+        if (!error) return versionsOf(data);
+        if (error.code === STALE_ORDER_CODE) throw new VersionConflictError(undefined, await remoteOrder(table, projectId));
+        if (isMissingFunctionError(error)) {
+            console.warn('Function set_positions missing. Run the migration SQL to make reorders atomic.');
+            return setPositionsByRow(table, ids, expectedVersions, projectId);
+        }
+        // Positions are a later column; without it the order simply is not kept. Any other refusal is the caller's to show.
+        if (isMissingColumnError(error, 'position')) return {};
+        throw error;
+    }
+
+    // Databases set up before set_positions: each row only moves from the version it was shown at, but a
+    // conflict part way through leaves the rows before it moved
+    async function setPositionsByRow(table: 'projects' | 'tasks', ids: string[], expectedVersions: RowVersions | undefined, projectId?: string) {
+        const versions: RowVersions = {};
+        for (const [position, id] of ids.entries()) {
+            let query = client.from(table).update({ position }).eq('id', id);
+            const expected = expectedVersions?.[id];
+            if (expected !== undefined) query = query.eq('version', expected);
+            const { data, error } = await query.select('id, version');
+            if (error && isMissingColumnError(error, 'position')) return versions;
+            if (error) throw error;
+            if (expected !== undefined && !data?.length) throw new VersionConflictError(undefined, await remoteOrder(table, projectId));
+            Object.assign(versions, versionsOf(data));
+        }
+        return versions;
+    }
+
+    return {
+        kind: 'supabase',
+
+        getProjects: async () => {
+            const projects = await selectOrdered('projects', 'created_at');
+            const tasks = await selectOrdered('tasks', 'id');
+            return projects.map((p: any) => ({
+                ...fromProjectRow(p),
+                tasks: tasks.filter((t: any) => t.project_id === p.id).map(fromTaskRow)
+            }));
+        },
+        getProject: async id => {
+            const { data, error } = await client.from('projects').select('*').eq('id', id).maybeSingle();
+            if (error) throw error;
+            return data ? fromProjectRow(data) : null;
+        },
+        getTask: async id => {
+            const { data, error } = await client.from('tasks').select('*').eq('id', id).maybeSingle();
+            if (error) throw error;
+            return data ? { ...fromTaskRow(data), projectId: data.project_id } : null;
+        },
+        getDepartments: async () => {
+            const { data: depts, error } = await client.from('departments').select('*').order('name');
+            if (error) throw error;
+            const { data: emps, error: eError } = await client.from('employees').select('*').order('name');
+            if (eError) throw eError;
+            return (depts || []).map((d: any) => ({
+                id: d.id,
+                name: d.name,
+                employees: (emps || []).filter((e: any) => e.department_id === d.id).map(fromEmployeeRow)
+            }));
+        },
+        getEmployees: async () => {
+            const { data, error } = await client.from('employees').select('*').order('name');
+            if (error) throw error;
+            return (data || []).map(fromEmployeeRow);
+        },
+        getDependencies: async () => (await selectOptional('task_dependencies', 'dependencies')).map(fromDependencyRow),
+        getBaselines: async () => (await selectOptional('project_baselines', 'baselines', 'created_at')).map(fromBaselineRow),
+        getSetting: async key => {
+            const { data, error } = await client.from('system_settings').select('value').eq('key', key).maybeSingle();
+            if (error) throw error;
+            return data?.value ?? null;
+        },
+
+        // Parents go in before children on import, so callers write them in that order
+        putProjects: rows => upsertInChunks('projects', rows.map(({ id, name, position }) => ({ id, name, position })), true),
+        putTasks: rows => upsertInChunks('tasks', rows.map(({ projectId, task, position }) => toTaskRow(projectId, task, position)), true),
+        putDepartments: rows => upsertInChunks('departments', rows.map(({ id, name }) => ({ id, name }))),
+        putEmployees: rows => upsertInChunks('employees', rows.map(e => ({ id: e.id, name: e.name, department_id: e.departmentId || null }))),
+        putDependencies: rows => upsertInChunks('task_dependencies', rows.map(toDependencyRow)),
+        putBaselines: rows => upsertInChunks('project_baselines', rows.map(toBaselineRow)),
+        saveSetting: async (key, value) => {
+            const { error } = await client.from('system_settings').upsert({ key, value });
+            if (error) throw error;
+        },
+
+        updateProject: (id, name, expectedVersion) => updateIfCurrent('projects', id, { name }, expectedVersion),
+        updateTask: (id, update, expectedVersion) => updateIfCurrent('tasks', id, toTaskUpdate(update), expectedVersion),
+        setProjectOrder: (projects, expectedVersions) => setPositions('projects', projects.map(p => p.id), expectedVersions),
+        setTaskOrder: (projectId, taskIds, expectedVersions) => setPositions('tasks', taskIds, expectedVersions, projectId),
+
+        deleteProject: async id => {
+            const row = await deleteReturning('projects', id);
+            return row && fromProjectRow(row);
+        },
+        deleteTask: async (id, expectedVersion) => {
+            let query = client.from('tasks').delete().eq('id', id);
+            if (expectedVersion !== undefined) query = query.eq('version', expectedVersion);
+            const { data, error } = await query.select();
+            if (error) throw error;
+            const row = data?.[0];
+            if (row) return { ...fromTaskRow(row), projectId: row.project_id };
+            if (expectedVersion !== undefined) {
+                // Already gone is what the caller wanted anyway
+                const conflict = await findConflict('tasks', id);
+                if (conflict.remote !== null) throw conflict;
+            }
+            return null;
+        },
+        deleteDepartment: async id => {
+            const row = await deleteReturning('departments', id);
+            return row && { id: row.id, name: row.name };
+        },
+        deleteEmployee: async id => {
+            const row = await deleteReturning('employees', id);
+            return row && fromEmployeeRow(row);
+        },
+        deleteDependency: async id => {
+            const row = await deleteReturning('task_dependencies', id);
+            return row && fromDependencyRow(row);
+        },
+        deleteBaseline: async id => {
+            const row = await deleteReturning('project_baselines', id);
+            return row && fromBaselineRow(row);
+        },
+
+        // Without the table (migration SQL not run yet) the log reads empty and writes go nowhere
+        getAuditLog: async ({ entityId, limit }) => {
+            let query = client.from('audit_log').select('*').order('created_at', { ascending: false }).limit(limit);
+            if (entityId) query = query.eq('entity_id', entityId);
+            const { data, error } = await query;
+            if (error) {
+                if (!isMissingTableError(error)) throw error;
+                console.warn(MISSING_AUDIT_TABLE);
+                return [];
+            }
+            return (data || []).map(fromAuditRow);
+        },
+        // The database replaces the actor with the signed-in account (audit_log_set_actor in the setup SQL)
+        appendAudit: async entries => {
+            const { error } = await client.from('audit_log').insert(entries.map(toAuditRow));
+            if (!error) return;
+            if (!isMissingTableError(error)) throw error;
+            console.warn(MISSING_AUDIT_TABLE);
+        },
+
+        // Readable by signed-in accounts only (the calendar_feeds policies in the setup SQL); the feed function reads
+        // them with the service role key
+        getCalendarFeeds: async () => (await selectOptional('calendar_feeds', 'calendar feeds', 'created_at')).map(fromFeedRow),
+        getCalendarFeed: async token => {
+            const { data, error } = await client.from('calendar_feeds').select('*').eq('token', token).maybeSingle();
+            if (error) throw error;
+            return data && fromFeedRow(data);
+        },
+        putCalendarFeed: async feed => {
+            const { error } = await client.from('calendar_feeds').upsert(toFeedRow(feed));
+            if (error) throw error;
+        },
+        deleteCalendarFeed: async token => {
+            const { error } = await client.from('calendar_feeds').delete().eq('token', token);
+            if (error) throw error;
+        },
+
+        // Row changes arrive one event per row, so a reorder alone brings one per task. They are held for a moment
+        // and handed over as one batch that keeps only the last change of each row. An event older than one already
+        // seen for the same row (by commit time, then version) is dropped. Events missed while the channel was down
+        // are not replayed, so a reconnect after a drop asks for a full resync instead.
+        subscribe: (onChanges, onResync) => {
+            const seen = new Map<string, [number, number]>();
+            let batch = new Map<string, RealtimeChange>();
+            let timer: ReturnType<typeof setTimeout> | null = null;
+            let hasSubscribed = false;
+            let wasInterrupted = false;
+
+            const flush = () => {
+                timer = null;
+                const changes = [...batch.values()];
+                batch = new Map();
+                if (changes.length > 0) onChanges(changes);
+            };
+
+            const handlePayload = (payload: any) => {
+                const change = toRealtimeChange(payload);
+                if (!change || !change.id) return;
+                const key = `${change.table}:${change.id}`;
+                // A delete outranks any write committed in the same millisecond
+                const stamp: [number, number] = [Date.parse(payload.commit_timestamp) || 0, change.row ? payload.new?.version ?? 0 : Number.MAX_SAFE_INTEGER];
+                const previous = seen.get(key);
+                if (previous && (stamp[0] < previous[0] || (stamp[0] === previous[0] && stamp[1] <= previous[1]))) return;
+                seen.set(key, stamp);
+                // Map order stays that of the first change, so a project insert still comes before its tasks
+                batch.set(key, change);
+                if (!timer) timer = setTimeout(flush, REALTIME_BATCH_MS);
+            };
+
+            const channel = client.channel('schema-db-changes')
+                .on('postgres_changes', { event: '*', schema: 'public' }, handlePayload)
+                .subscribe((status: string) => {
+                    if (status !== 'SUBSCRIBED') {
+                        wasInterrupted = true;
+                        return;
+                    }
+                    if (hasSubscribed && wasInterrupted) {
+                        seen.clear();
+                        onResync();
+                    }
+                    hasSubscribed = true;
+                    wasInterrupted = false;
+                });
+            return () => {
+                if (timer) clearTimeout(timer);
+                client.removeChannel(channel);
+            };
+        },
+    };
+};
+
+// --- Server Store ---
+// The self-hosted backend in server/: the same calls as REST requests, and row changes as server-sent events.
+// A stale write answers 409 with the row as it is now, which becomes the usual VersionConflictError.
+// Every call carries the server's access token; a wrong one fails with SERVER_UNAUTHORIZED.
+
+const reviveDates = <T extends { startDate?: Date; endDate?: Date }>(item: T): T => {
+    if (item.startDate) item.startDate = new Date(item.startDate);
+    if (item.endDate) item.endDate = new Date(item.endDate);
+    return item;
+};
+
+export const reviveBaseline = (baseline: Baseline): Baseline => {
+    baseline.createdAt = new Date(baseline.createdAt);
+    baseline.tasks.forEach(reviveDates);
+    return baseline;
+};
+
+const reviveAudit = (entry: AuditEntry): AuditEntry => {
+    entry.timestamp = new Date(entry.timestamp);
+    return entry;
+};
+
+const reviveFeed = (feed: CalendarFeed): CalendarFeed => {
+    feed.createdAt = new Date(feed.createdAt);
+    return feed;
+};
+
+const reviveChange = (change: RealtimeChange): RealtimeChange => {
+    if (change.table === 'tasks' && change.row) reviveDates(change.row);
+    if (change.table === 'project_baselines' && change.row) reviveBaseline(change.row);
+    return change;
+};
+
+const serverRoot = (baseUrl: string) => baseUrl.trim().replace(/\/+$/, '');
+
+const authHeaders = (token: string) => ({ Authorization: `Bearer ${token}` });
+
+// Throws when nothing answers at the address, something other than the server does, or the token is wrong
+export async function pingServer(baseUrl: string, token: string) {
+    const response = await fetch(`${serverRoot(baseUrl)}/session`, { headers: authHeaders(token) });
+    if (response.status === 401) throw new Error('SERVER_UNAUTHORIZED');
+    const data = await response.json().catch(() => null);
+    if (!response.ok || !data?.ok) throw new Error(`No gantt server at ${baseUrl} (${response.status})`);
+}
+
+export const createServerStore = (baseUrl: string, token: string): DataStore => {
+    const root = serverRoot(baseUrl);
+    const path = (...parts: string[]) => parts.map(encodeURIComponent).join('/');
+
+    async function request<T = any>(method: string, url: string, body?: unknown): Promise<T> {
+        const response = await fetch(`${root}/${url}`, {
+            method,
+            headers: body === undefined ? authHeaders(token) : { ...authHeaders(token), 'Content-Type': 'application/json' },
+            body: body === undefined ? undefined : JSON.stringify(body),
+        });
+        if (response.status === 401) throw new Error('SERVER_UNAUTHORIZED');
+        const data = await response.json().catch(() => null);
+        if (response.status === 409) throw new VersionConflictError(data?.remote && reviveDates(data.remote), data?.remoteOrder);
+        if (!response.ok) throw new Error(data?.error || `${method} /${url} failed (${response.status})`);
+        return data;
+    }
+
+    const versionQuery = (expectedVersion: number | undefined) => expectedVersion === undefined ? '' : `?expectedVersion=${expectedVersion}`;
+
+    return {
+        kind: 'server',
+
+        getProjects: async () => {
+            const projects: Project[] = await request('GET', 'projects');
+            projects.forEach(p => p.tasks.forEach(reviveDates));
+            return projects;
+        },
+        getProject: id => request('GET', path('projects', id)),
+        getTask: async id => {
+            const task: TaskRow | null = await request('GET', path('tasks', id));
+            return task && reviveDates(task);
+        },
+        getDepartments: () => request('GET', 'departments'),
+        getEmployees: () => request('GET', 'employees'),
+        getDependencies: () => request('GET', 'dependencies'),
+        getBaselines: async () => (await request<Baseline[]>('GET', 'baselines')).map(reviveBaseline),
+        getSetting: key => request('GET', path('settings', key)),
+
+        putProjects: rows => request('PUT', 'projects', rows),
+        putTasks: rows => request('PUT', 'tasks', rows),
+        putDepartments: rows => request('PUT', 'departments', rows),
+        putEmployees: rows => request('PUT', 'employees', rows),
+        putDependencies: rows => request('PUT', 'dependencies', rows),
+        putBaselines: rows => request('PUT', 'baselines', rows),
+        saveSetting: (key, value) => request('PUT', path('settings', key), { value }),
+
+        updateProject: (id, name, expectedVersion) => request('PATCH', path('projects', id), { name, expectedVersion }),
+        updateTask: (id, update, expectedVersion) => request('PATCH', path('tasks', id), { update, expectedVersion }),
+        setProjectOrder: (projects, expectedVersions) => request('PUT', 'projects/order', { projects, expectedVersions }),
+        setTaskOrder: (projectId, taskIds, expectedVersions) => request('PUT', `${path('projects', projectId)}/task-order`, { taskIds, expectedVersions }),
+
+        deleteProject: id => request('DELETE', path('projects', id)),
+        deleteTask: async (id, expectedVersion) => {
+            const task: TaskRow | null = await request('DELETE', path('tasks', id) + versionQuery(expectedVersion));
+            return task && reviveDates(task);
+        },
+        deleteDepartment: id => request('DELETE', path('departments', id)),
+        deleteEmployee: id => request('DELETE', path('employees', id)),
+        deleteDependency: id => request('DELETE', path('dependencies', id)),
+        deleteBaseline: async id => {
+            const baseline: Baseline | null = await request('DELETE', path('baselines', id));
+            return baseline && reviveBaseline(baseline);
+        },
+
+        getAuditLog: async ({ entityId, limit }) => {
+            const query = new URLSearchParams({ limit: String(limit), ...(entityId && { entityId }) });
+            return (await request<AuditEntry[]>('GET', `audit?${query}`)).map(reviveAudit);
+        },
+        appendAudit: entries => request('POST', 'audit', entries),
+
+        getCalendarFeeds: async () => (await request<CalendarFeed[]>('GET', 'calendar-feeds')).map(reviveFeed),
+        getCalendarFeed: async token => {
+            const feed: CalendarFeed | null = await request('GET', path('calendar-feeds', token));
+            return feed && reviveFeed(feed);
+        },
+        putCalendarFeed: feed => request('PUT', 'calendar-feeds', feed),
+        deleteCalendarFeed: token => request('DELETE', path('calendar-feeds', token)),
+
+        // The browser reconnects a dropped stream by itself, but what was written meanwhile is not replayed
+        subscribe: (onChanges, onResync) => {
+            // EventSource cannot send headers; the server takes the token in the query for this stream only
+            const source = new EventSource(`${root}/changes?access_token=${encodeURIComponent(token)}`);
+            let wasInterrupted = false;
+            source.onmessage = event => onChanges((JSON.parse(event.data) as RealtimeChange[]).map(reviveChange));
+            source.onerror = () => { wasInterrupted = true; };
+            source.onopen = () => {
+                if (wasInterrupted) onResync();
+                wasInterrupted = false;
+            };
+            return () => source.close();
+        },
+    };
+};
@@ -0,0 +1,321 @@
+import { Task, RealtimeChange, AuditEntry, CalendarFeed } from '../types';
+import { DataStore, VersionConflictError } from './dataService';
+
+// --- DataStore Conformance ---
+// What every backend has to do alike, checked against a live store. `npm test` runs it against the memory,
+// localStorage and Prisma stores, and against a Supabase project when one is given (test/dataStores.ts). Each check writes its own rows under fresh ids and
+// removes them again (audit entries excepted, as the log is only ever added to), but it only runs against an
+// empty store, so real data is never touched.
+// A failed check does not stop the rest.
+
+export interface ConformanceResult {
+    name: string;
+    passed: boolean;
+    error?: string;
+}
+
+interface Fixture {
+    store: DataStore;
+    id: (kind: string) => string;
+    cleanup: (undo: () => Promise<unknown>) => void;
+}
+
+// How long a write may take to reach subscribers; Supabase realtime goes through the server
+const SUBSCRIBE_TIMEOUT_MS = 5000;
+const SUBSCRIBE_RETRY_MS = 1000;
+
+const assert = (condition: unknown, message: string) => {
+    if (!condition) throw new Error(message);
+};
+
+const assertEqual = (actual: unknown, expected: unknown, what: string) =>
+    assert(JSON.stringify(actual) === JSON.stringify(expected), `${what}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+
+const expectConflict = async (write: Promise<unknown>, what: string): Promise<VersionConflictError> => {
+    try {
+        await write;
+    } catch (err) {
+        if (err instanceof VersionConflictError) return err;
+        throw err;
+    }
+    throw new Error(`${what}: expected a VersionConflictError`);
+};
+
+// UTC midnight, so the day survives backends that store dates without a time
+const day = (offset: number) => new Date(Date.UTC(2030, 0, 1 + offset));
+const dayOf = (date: Date | undefined) => date && new Date(date).toISOString().split('T')[0];
+
+const makeTask = (id: string, name: string, offset = 0): Task => ({
+    id,
+    name,
+    kind: 'task',
+    startDate: day(offset),
+    endDate: day(offset + 3),
+    color: 'bg-blue-500',
+    employeeId: '',
+    progress: 0,
+});
+
+async function addProject(f: Fixture, name = '적합성 프로젝트') {
+    const id = f.id('project');
+    await f.store.putProjects([{ id, name, position: 999 }]);
+    f.cleanup(() => f.store.deleteProject(id));
+    return id;
+}
+
+async function addTasks(f: Fixture, projectId: string, names: string[]) {
+    const tasks = names.map((name, i) => makeTask(f.id('task'), name, i));
+    await f.store.putTasks(tasks.map(task => ({ projectId, task, position: 999 })));
+    return tasks;
+}
+
+const tasksOf = async (store: DataStore, projectId: string) => (await store.getProjects()).find(p => p.id === projectId)?.tasks || [];
+
+const CHECKS: { name: string; run: (f: Fixture) => Promise<void> }[] = [
+    {
+        name: 'projects: a new project goes in at its position and reads back without tasks',
+        run: async f => {
+            const id = await addProject(f, '새 프로젝트');
+            const projects = await f.store.getProjects();
+            assertEqual(projects[projects.length - 1]?.id, id, 'last project');
+            assertEqual(projects[projects.length - 1].tasks.length, 0, 'task count');
+            assertEqual((await f.store.getProject(id))?.name, '새 프로젝트', 'project name');
+            assertEqual(await f.store.getProject(f.id('missing')), null, 'missing project');
+        },
+    },
+    {
+        name: 'tasks: read back with their fields, dates and project, in position order',
+        run: async f => {
+            const projectId = await addProject(f);
+            const [first, second] = await addTasks(f, projectId, ['첫 번째', '두 번째']);
+            const front = makeTask(f.id('task'), '맨 앞', 5);
+            await f.store.putTasks([{ projectId, task: front, position: 0 }]);
+            assertEqual((await tasksOf(f.store, projectId)).map(t => t.id), [front.id, first.id, second.id], 'task order');
+            const stored = await f.store.getTask(front.id);
+            assertEqual(stored?.projectId, projectId, 'projectId');
+            assertEqual(stored && [stored.name, stored.kind, stored.color, stored.progress], ['맨 앞', 'task', 'bg-blue-500', 0], 'fields');
+            assertEqual([dayOf(stored?.startDate), dayOf(stored?.endDate)], [dayOf(front.startDate), dayOf(front.endDate)], 'dates');
+            assert(stored?.startDate instanceof Date, 'startDate should read back as a Date');
+        },
+    },
+    {
+        name: 'tasks: an update sets only its fields and bumps the version; new details bump the revision',
+        run: async f => {
+            const projectId = await addProject(f);
+            const [task] = await addTasks(f, projectId, ['수정 전']);
+            const before = await f.store.getTask(task.id);
+            const versions = await f.store.updateTask(task.id, { name: '수정 후', progress: 40 });
+            const after = await f.store.getTask(task.id);
+            assertEqual(after && [after.name, after.progress, dayOf(after.startDate)], ['수정 후', 40, dayOf(task.startDate)], 'updated fields');
+            assert((after?.version ?? 0) > (before?.version ?? 0), 'version should go up');
+            if (versions[task.id] !== undefined) assertEqual(versions[task.id], after?.version, 'returned version');
+            assertEqual(after?.sequence, (before?.sequence ?? 0) + 1, 'sequence');
+        },
+    },
+    {
+        name: 'versions: writes made against an older version are rejected and leave the row as it was',
+        run: async f => {
+            const projectId = await addProject(f, '원래 이름');
+            const [task] = await addTasks(f, projectId, ['원래 태스크']);
+            const stale = (await f.store.getTask(task.id))?.version ?? 0;
+            await f.store.updateTask(task.id, { name: '먼저 바뀜' }, stale);
+            const conflict = await expectConflict(f.store.updateTask(task.id, { name: '늦은 수정' }, stale), 'stale task update');
+            assertEqual(conflict.remote?.name, '먼저 바뀜', 'remote row');
+            await expectConflict(f.store.deleteTask(task.id, stale), 'stale task delete');
+            assertEqual((await f.store.getTask(task.id))?.name, '먼저 바뀜', 'task after rejected writes');
+
+            const projectVersion = (await f.store.getProject(projectId))?.version ?? 0;
+            await f.store.updateProject(projectId, '새 이름', projectVersion);
+            await expectConflict(f.store.updateProject(projectId, '늦은 이름', projectVersion), 'stale project update');
+            assertEqual((await f.store.getProject(projectId))?.name, '새 이름', 'project after rejected write');
+        },
+    },
+    {
+        name: 'order: tasks and projects are reordered; an order made against older versions is rejected',
+        run: async f => {
+            const projectId = await addProject(f);
+            const tasks = await addTasks(f, projectId, ['가', '나', '다']);
+            const stale = Object.fromEntries((await tasksOf(f.store, projectId)).map(t => [t.id, t.version ?? 0]));
+            const reversed = tasks.map(t => t.id).reverse();
+            await f.store.setTaskOrder(projectId, reversed, stale);
+            assertEqual((await tasksOf(f.store, projectId)).map(t => t.id), reversed, 'task order');
+            const conflict = await expectConflict(f.store.setTaskOrder(projectId, tasks.map(t => t.id), stale), 'stale task order');
+            assertEqual(conflict.remoteOrder, reversed, 'remote order');
+
+            const otherId = await addProject(f, '다른 프로젝트');
+            const moved = [{ id: otherId, name: '다른 프로젝트' }, { id: projectId, name: '적합성 프로젝트' }];
+            await f.store.setProjectOrder(moved);
+            const order = (await f.store.getProjects()).map(p => p.id).filter(id => id === projectId || id === otherId);
+            assertEqual(order, [otherId, projectId], 'project order');
+        },
+    },
+    {
+        name: 'deletes: a task takes its links along, a project its tasks and baselines',
+        run: async f => {
+            const projectId = await addProject(f);
+            const [first, second, third] = await addTasks(f, projectId, ['선행', '후행', '남음']);
+            const link = { id: f.id('dep'), predecessorId: first.id, successorId: second.id, type: 'FS' as const, lagDays: 0 };
+            const baseline = { id: f.id('base'), projectId, name: '기준', createdAt: new Date(), tasks: [] };
+            await f.store.putDependencies([link]);
+            await f.store.putBaselines([baseline]);
+
+            const removed = await f.store.deleteTask(first.id);
+            assertEqual([removed?.id, removed?.projectId], [first.id, projectId], 'removed task');
+            assert(!(await f.store.getDependencies()).some(d => d.id === link.id), 'link should go with its task');
+            assertEqual(await f.store.deleteTask(first.id), null, 'deleting again');
+
+            assertEqual((await f.store.deleteProject(projectId))?.id, projectId, 'removed project');
+            assertEqual(await f.store.getTask(third.id), null, 'task of removed project');
+            assert(!(await f.store.getBaselines()).some(b => b.id === baseline.id), 'baseline should go with its project');
+        },
+    },
+    {
+        name: 'people: departments list their members by name; a removed department leaves them unassigned',
+        run: async f => {
+            const department = { id: f.id('dept'), name: '적합성 부서' };
+            const members = [
+                { id: f.id('emp'), name: '한 사람', departmentId: department.id },
+                { id: f.id('emp'), name: '가 사람', departmentId: department.id },
+            ];
+            await f.store.putDepartments([department]);
+            f.cleanup(() => f.store.deleteDepartment(department.id));
+            await f.store.putEmployees(members);
+            members.forEach(e => f.cleanup(() => f.store.deleteEmployee(e.id)));
+
+            const listed = (await f.store.getDepartments()).find(d => d.id === department.id);
+            assertEqual(listed?.employees.map(e => e.name), ['가 사람', '한 사람'], 'members');
+            const employees = await f.store.getEmployees();
+            assertEqual(employees.filter(e => e.departmentId === department.id).map(e => e.name), ['가 사람', '한 사람'], 'employees');
+
+            assertEqual(await f.store.deleteDepartment(department.id), department, 'removed department');
+            assertEqual((await f.store.getEmployees()).find(e => e.id === members[0].id)?.departmentId, '', 'member department');
+            assertEqual(await f.store.deleteEmployee(members[0].id), { ...members[0], departmentId: '' }, 'removed employee');
+        },
+    },
+    {
+        name: 'dependencies and baselines: read back as they were written',
+        run: async f => {
+            const projectId = await addProject(f);
+            const [first, second] = await addTasks(f, projectId, ['앞', '뒤']);
+            const link = { id: f.id('dep'), predecessorId: first.id, successorId: second.id, type: 'SS' as const, lagDays: 2 };
+            await f.store.putDependencies([link]);
+            assertEqual((await f.store.getDependencies()).find(d => d.id === link.id), link, 'dependency');
+
+            const baseline = { id: f.id('base'), projectId, name: '1차 기준', createdAt: new Date(), tasks: [{ taskId: first.id, startDate: day(0), endDate: day(3), progress: 20 }] };
+            await f.store.putBaselines([baseline]);
+            const stored = (await f.store.getBaselines()).find(b => b.id === baseline.id);
+            assertEqual(stored && [stored.projectId, stored.name, new Date(stored.createdAt).getTime()], [projectId, '1차 기준', baseline.createdAt.getTime()], 'baseline');
+            assertEqual(stored?.tasks.map(t => [t.taskId, dayOf(t.startDate), dayOf(t.endDate), t.progress]), [[first.id, dayOf(day(0)), dayOf(day(3)), 20]], 'baseline tasks');
+
+            assertEqual((await f.store.deleteDependency(link.id))?.id, link.id, 'removed dependency');
+            assertEqual((await f.store.deleteBaseline(baseline.id))?.id, baseline.id, 'removed baseline');
+        },
+    },
+    {
+        name: 'settings: saved values read back; unknown keys read as null',
+        run: async f => {
+            const key = f.id('setting');
+            assertEqual(await f.store.getSetting(key), null, 'unsaved setting');
+            f.cleanup(() => f.store.saveSetting(key, null));
+            await f.store.saveSetting(key, { zoom: 'week', widths: [1, 2] });
+            assertEqual(await f.store.getSetting(key), { zoom: 'week', widths: [1, 2] }, 'saved setting');
+        },
+    },
+    {
+        name: 'audit: entries read back as written, newest first, narrowed to one record',
+        run: async f => {
+            const taskId = f.id('task');
+            const entry = (id: string, offset: number, changes: AuditEntry['changes']): AuditEntry => ({
+                id, timestamp: day(offset), actor: '적합성 검사', action: 'update', entityType: 'task', entityId: taskId, entityName: '감사 태스크', changes,
+            });
+            const older = entry(f.id('audit'), 0, [{ field: 'progress', before: 0, after: 40 }]);
+            const newer = { ...entry(f.id('audit'), 1, [{ field: 'name', before: '감사 태스크', after: null }]), action: 'delete' as const, projectId: f.id('project'), note: '복원 가능' };
+            const other = { ...entry(f.id('audit'), 2, []), entityId: f.id('task'), action: 'create' as const };
+            await f.store.appendAudit([older]);
+            await f.store.appendAudit([newer, other]);
+
+            const log = await f.store.getAuditLog({ entityId: taskId, limit: 10 });
+            // Changes as lists, since JSON columns may hand keys back in another order
+            const shape = (e: AuditEntry) => [e.id, new Date(e.timestamp).getTime(), e.actor, e.action, e.entityType, e.entityId, e.entityName, e.projectId, e.note, e.changes.map(c => [c.field, c.before, c.after])];
+            assertEqual(log.map(shape), [newer, older].map(shape), 'task history');
+            assertEqual((await f.store.getAuditLog({ entityId: taskId, limit: 1 })).map(e => e.id), [newer.id], 'limited history');
+        },
+    },
+    {
+        name: 'calendar feeds: listed oldest first, found by token, gone once revoked',
+        run: async f => {
+            const older: CalendarFeed = { token: f.id('feed'), scopeKey: 'all', createdAt: day(0) };
+            const newer: CalendarFeed = { token: f.id('feed'), scopeKey: `employee-${f.id('employee')}`, createdAt: day(1) };
+            [older, newer].forEach(feed => f.cleanup(() => f.store.deleteCalendarFeed(feed.token)));
+            await f.store.putCalendarFeed(newer);
+            await f.store.putCalendarFeed(older);
+
+            const shape = (feed: CalendarFeed | null) => feed && [feed.token, feed.scopeKey, new Date(feed.createdAt).getTime()];
+            assertEqual((await f.store.getCalendarFeeds()).map(shape), [older, newer].map(shape), 'feeds');
+            assertEqual(shape(await f.store.getCalendarFeed(newer.token)), shape(newer), 'feed by token');
+            await f.store.deleteCalendarFeed(older.token);
+            assertEqual(await f.store.getCalendarFeed(older.token), null, 'revoked feed');
+            assertEqual((await f.store.getCalendarFeeds()).map(feed => feed.token), [newer.token], 'feeds after revoking');
+        },
+    },
+    {
+        name: 'subscribe: a write reaches subscribers as a row change',
+        run: async f => {
+            let unsubscribe = () => {};
+            const received = new Promise<RealtimeChange[]>((resolve, reject) => {
+                const timer = setTimeout(() => reject(new Error(`no change within ${SUBSCRIBE_TIMEOUT_MS}ms`)), SUBSCRIBE_TIMEOUT_MS);
+                const seen: RealtimeChange[] = [];
+                unsubscribe = f.store.subscribe(changes => {
+                    seen.push(...changes);
+                    if (seen.some(c => c.table === 'projects' && c.row?.name === '구독 확인')) {
+                        clearTimeout(timer);
+                        resolve(seen);
+                    }
+                }, () => {});
+            });
+            f.cleanup(async () => unsubscribe());
+            const id = await addProject(f, '구독 확인');
+            // A realtime channel may still be joining when the first write lands, so the write is repeated until one arrives
+            const repeat = setInterval(() => { f.store.updateProject(id, '구독 확인').catch(() => undefined); }, SUBSCRIBE_RETRY_MS);
+            try {
+                await received;
+            } finally {
+                clearInterval(repeat);
+            }
+        },
+    },
+];
+
+// The checks write, reorder and delete; refusing a store with data in it keeps them away from a real schedule
+async function assertEmpty(store: DataStore) {
+    const [projects, departments, employees, dependencies, baselines] = await Promise.all([
+        store.getProjects(), store.getDepartments(), store.getEmployees(), store.getDependencies(), store.getBaselines(),
+    ]);
+    const rows = projects.length + departments.length + employees.length + dependencies.length + baselines.length;
+    if (rows > 0) throw new Error(`DataStore conformance needs an empty store; this ${store.kind} store holds ${rows} rows`);
+}
+
+export async function runDataStoreConformance(store: DataStore): Promise<ConformanceResult[]> {
+    await assertEmpty(store);
+    const run = `conformance-${Date.now()}`;
+    let counter = 0;
+    const results: ConformanceResult[] = [];
+    for (const check of CHECKS) {
+        const undos: (() => Promise<unknown>)[] = [];
+        const fixture: Fixture = {
+            store,
+            // Zero-padded so ids created later also sort later, for backends that order ties by id
+            id: kind => `${run}-${kind}-${String(++counter).padStart(4, '0')}`,
+            cleanup: undo => { undos.push(undo); },
+        };
+        try {
+            await check.run(fixture);
+            results.push({ name: check.name, passed: true });
+        } catch (err: any) {
+            results.push({ name: check.name, passed: false, error: err?.message || String(err) });
+        }
+        // Newest first, and a row the check already removed is not an error
+        for (const undo of undos.reverse()) await undo().catch(() => undefined);
+    }
+    return results;
+}
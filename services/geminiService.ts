@@ -0,0 +1,223 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import { Project, Employee, Department } from '../types';
+import { WorkCalendar } from '../utils/calendarUtils';
+import { formatDate } from '../utils/dateUtils';
+import { TaskDraft, TaskEntryContext, TaskEntryFields, parseTaskEntryLocally, resolveTaskDraft } from '../utils/taskEntryUtils';
+import { PlanDraft, PlanProposal, PlanRequest, proposePlanLocally, resolvePlanProposal } from '../utils/planUtils';
+import { WeeklyReport, reportToMarkdown, summarizeReportLocally } from '../utils/reportUtils';
+
+// --- AI Providers ---
+// What the app asks of a language model. Gemini answers when GEMINI_API_KEY is set at build time (vite.config.ts);
+// otherwise, and for offline tests, the local provider gives the same shape of answer from fixed rules.
+// setAiProvider swaps in either one, or a fake.
+
+export type AiProviderKind = 'gemini' | 'local';
+
+export interface AiProvider {
+    readonly kind: AiProviderKind;
+    // One sentence such as "김대리 다음주 월요일부터 5일간 도면 검토, 설계 프로젝트" as fields, names unresolved
+    parseTaskEntry(text: string, context: TaskEntryContext): Promise<TaskEntryFields>;
+    // A project brief as a breakdown of steps with durations, order and people, names unresolved
+    generatePlan(request: PlanRequest): Promise<PlanProposal>;
+    // A few paragraphs on a weekly status report, for the top of it
+    summarizeReport(report: WeeklyReport): Promise<string>;
+}
+
+const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+export const createLocalProvider = (): AiProvider => ({
+    kind: 'local',
+    parseTaskEntry: async (text, context) => parseTaskEntryLocally(text, context),
+    generatePlan: async request => proposePlanLocally(request),
+    summarizeReport: async report => summarizeReportLocally(report),
+});
+
+const TASK_ENTRY_SCHEMA = {
+    type: Type.OBJECT,
+    properties: {
+        taskName: { type: Type.STRING, description: '태스크 이름. 담당자, 프로젝트, 날짜, 기간 표현은 뺀다.' },
+        projectName: { type: Type.STRING, description: '프로젝트 이름. 목록에 있으면 목록의 이름 그대로.' },
+        assigneeName: { type: Type.STRING, description: '담당자. 목록에 있으면 목록의 이름 그대로, 없으면 쓰인 그대로 (예: 김대리).' },
+        startDate: { type: Type.STRING, description: '시작일, YYYY-MM-DD' },
+        endDate: { type: Type.STRING, description: '"까지"로 적힌 종료일, YYYY-MM-DD' },
+        durationDays: { type: Type.INTEGER, description: '근무일 기준 기간. 1주는 5일.' },
+        isMilestone: { type: Type.BOOLEAN, description: '마일스톤이면 true' },
+    },
+    required: ['taskName'],
+};
+
+const WEEKDAY_NAMES = ['일', '월', '화', '수', '목', '금', '토'];
+
+const taskEntryInstruction = ({ today, projectNames, employeeNames }: TaskEntryContext) => [
+    '간트 차트에 넣을 태스크 한 건을 설명하는 한국어 문장을 JSON 필드로 나눈다.',
+    `오늘은 ${formatDate(today)} (${WEEKDAY_NAMES[today.getDay()]}요일)이다. 한 주는 월요일에 시작한다.`,
+    '"다음주 월요일", "내일", "3월 5일" 같은 표현은 날짜로 바꾸고, 문장에 없는 필드는 비워 둔다.',
+    `프로젝트 목록: ${projectNames.join(', ') || '(없음)'}`,
+    `직원 목록: ${employeeNames.join(', ') || '(없음)'}`,
+].join('\n');
+
+const PLAN_SCHEMA = {
+    type: Type.OBJECT,
+    properties: {
+        projectName: { type: Type.STRING, description: '짧은 프로젝트 이름' },
+        tasks: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    name: { type: Type.STRING },
+                    durationDays: { type: Type.INTEGER, description: '근무일 기준 기간' },
+                    dependsOn: { type: Type.ARRAY, items: { type: Type.INTEGER }, description: '먼저 끝나야 하는 앞 단계의 번호 (1부터)' },
+                    departmentName: { type: Type.STRING, description: '맡을 부서. 부서 목록의 이름 그대로.' },
+                    assigneeName: { type: Type.STRING, description: '맡을 사람. 그 부서 직원 목록의 이름 그대로.' },
+                    isMilestone: { type: Type.BOOLEAN, description: '기간 없는 검토/승인 시점이면 true' },
+                    description: { type: Type.STRING, description: '한 줄 설명' },
+                },
+                required: ['name', 'durationDays'],
+            },
+        },
+    },
+    required: ['projectName', 'tasks'],
+};
+
+const planInstruction = ({ startDate, departments }: PlanRequest) => [
+    '프로젝트 개요를 읽고 간트 차트에 올릴 작업 분류(WBS)를 제안한다.',
+    `시작일은 ${startDate}이다. 작업은 진행 순서대로 나열하고, 각 작업은 한 사람이 맡을 수 있는 크기로 나눈다.`,
+    '기간은 근무일 기준이며, 동시에 진행할 수 있는 작업은 같은 선행 작업만 가리키게 한다.',
+    '참여 부서와 직원:',
+    ...departments.map(d => `- ${d.name}: ${d.employees.join(', ') || '(직원 없음)'}`),
+].join('\n');
+
+const REPORT_INSTRUCTION = [
+    '팀장이 금요일에 올리는 주간 업무 보고의 요약을 쓴다.',
+    '아래 보고서만 근거로 3~5문장, 존댓말 보고체로 쓴다. 완료된 일, 지연된 일과 그 영향, 다음 주 계획 순서로 정리한다.',
+    '목록을 다시 나열하지 말고, 제목이나 마크다운 서식 없이 문장만 쓴다.',
+].join('\n');
+
+export const createGeminiProvider = (apiKey: string, model = DEFAULT_GEMINI_MODEL): AiProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+    return {
+        kind: 'gemini',
+        parseTaskEntry: async (text, context) => {
+            const response = await ai.models.generateContent({
+                model,
+                contents: text,
+                config: {
+                    systemInstruction: taskEntryInstruction(context),
+                    responseMimeType: 'application/json',
+                    responseSchema: TASK_ENTRY_SCHEMA,
+                },
+            });
+            const fields = JSON.parse(response.text || '{}');
+            if (typeof fields.taskName !== 'string') throw new Error('Gemini response has no taskName');
+            return fields as TaskEntryFields;
+        },
+        generatePlan: async request => {
+            const response = await ai.models.generateContent({
+                model,
+                contents: request.brief,
+                config: {
+                    systemInstruction: planInstruction(request),
+                    responseMimeType: 'application/json',
+                    responseSchema: PLAN_SCHEMA,
+                },
+            });
+            const plan = JSON.parse(response.text || '{}');
+            if (!Array.isArray(plan.tasks) || plan.tasks.length === 0) throw new Error('Gemini response has no tasks');
+            return plan as PlanProposal;
+        },
+        summarizeReport: async report => {
+            const response = await ai.models.generateContent({
+                model,
+                contents: reportToMarkdown(report),
+                config: { systemInstruction: REPORT_INSTRUCTION },
+            });
+            const text = response.text?.trim();
+            if (!text) throw new Error('Gemini response is empty');
+            return text;
+        },
+    };
+};
+
+// vite.config.ts replaces process.env.GEMINI_API_KEY at build time; anywhere else process may not exist
+const readApiKey = (): string => {
+    try {
+        return process.env.GEMINI_API_KEY || process.env.API_KEY || '';
+    } catch {
+        return '';
+    }
+};
+
+const apiKey = readApiKey();
+const localProvider = createLocalProvider();
+let provider: AiProvider = apiKey ? createGeminiProvider(apiKey) : localProvider;
+
+export const isGeminiConfigured = () => Boolean(apiKey);
+
+export const getAiProvider = () => provider;
+
+export const setAiProvider = (next: AiProvider) => {
+    provider = next;
+};
+
+// --- Task Entry ---
+
+export interface TaskEntryData {
+    projects: Project[];
+    employees: Employee[];
+    calendar: WorkCalendar;
+    today?: Date;
+}
+
+// A typed sentence as a task ready for TaskModal. When the model cannot be reached the local rules answer
+// instead, with a note saying so, so the command bar keeps working offline.
+export async function draftTaskFromText(text: string, { projects, employees, calendar, today = new Date() }: TaskEntryData): Promise<TaskDraft> {
+    const context: TaskEntryContext = {
+        today,
+        projectNames: projects.map(p => p.name),
+        employeeNames: employees.map(e => e.name),
+    };
+    let fields: TaskEntryFields;
+    const notes: string[] = [];
+    try {
+        fields = await provider.parseTaskEntry(text, context);
+    } catch (err) {
+        if (provider.kind === 'local') throw err;
+        console.warn('AI task entry failed, using the local rules:', err);
+        fields = await localProvider.parseTaskEntry(text, context);
+        notes.push('AI 해석에 실패해 기본 규칙으로 해석했습니다.');
+    }
+    const draft = resolveTaskDraft(fields, { projects, employees, calendar, today });
+    return { ...draft, notes: [...notes, ...draft.notes] };
+}
+
+// --- Plan Generation ---
+
+// A brief as a plan for the review grid. Like task entry, a failed model call falls back to the local plan.
+export async function draftPlanFromBrief(request: PlanRequest, { employees, departments }: { employees: Employee[]; departments: Department[] }): Promise<PlanDraft> {
+    let proposal: PlanProposal;
+    const notes: string[] = [];
+    try {
+        proposal = await provider.generatePlan(request);
+    } catch (err) {
+        if (provider.kind === 'local') throw err;
+        console.warn('AI plan generation failed, using the local template:', err);
+        proposal = await localProvider.generatePlan(request);
+        notes.push('AI 계획 생성에 실패해 기본 템플릿으로 채웠습니다.');
+    }
+    const draft = resolvePlanProposal(proposal, employees, departments);
+    return { ...draft, notes: [...notes, ...draft.notes] };
+}
+
+// --- Report Summary ---
+
+// The narrative for a weekly report; without the model, a plain count of what is in it
+export async function writeReportNarrative(report: WeeklyReport): Promise<{ text: string; notes: string[] }> {
+    try {
+        return { text: await provider.summarizeReport(report), notes: [] };
+    } catch (err) {
+        if (provider.kind === 'local') throw err;
+        console.warn('AI report summary failed, using the local summary:', err);
+        return { text: await localProvider.summarizeReport(report), notes: ['AI 요약에 실패해 기본 요약으로 채웠습니다.'] };
+    }
+}
@@ -0,0 +1,305 @@
+import { Project, Task, Department, Employee, TaskDependency, Baseline } from '../types';
+import {
+    addProject, updateProject, deleteProject, addTask, updateTask, deleteTask, updateProjects, updateTaskPositions,
+    addDependency, deleteDependency, addBaseline, deleteBaseline, addDepartment, deleteDepartment, addEmployee, deleteEmployee,
+    restoreProject, restoreTask, restoreDependencies, restoreDepartment, restoreEmployees, restoreBaselines
+} from './apiService';
+
+// One reversible API call. Undo and redo replay against whichever backend is active at that time.
+export interface UndoStep {
+    undo: () => Promise<void>;
+    redo: () => Promise<void>;
+}
+
+interface HistoryEntry {
+    label: string;
+    steps: UndoStep[];
+    mergeKey?: string;
+    recordedAt: number;
+}
+
+export interface HistoryState {
+    undoLabel: string | null;
+    redoLabel: string | null;
+}
+
+const MAX_HISTORY = 50;
+// Repeated edits with the same merge key inside this window (e.g. a progress drag) become one entry
+const MERGE_WINDOW_MS = 2000;
+
+let undoStack: HistoryEntry[] = [];
+let redoStack: HistoryEntry[] = [];
+let isReplaying = false;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const subscribeToHistory = (listener: () => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const getHistoryState = (): HistoryState => ({
+    undoLabel: undoStack.length > 0 ? undoStack[undoStack.length - 1].label : null,
+    redoLabel: redoStack.length > 0 ? redoStack[redoStack.length - 1].label : null,
+});
+
+// Called when the backend changes: ids from the old one mean nothing to the new one
+export const clearHistory = () => {
+    undoStack = [];
+    redoStack = [];
+    notify();
+};
+
+export const recordHistory = (label: string, steps: UndoStep[], mergeKey?: string) => {
+    if (steps.length === 0) return;
+    const now = Date.now();
+    const last = undoStack[undoStack.length - 1];
+    if (mergeKey && last && last.mergeKey === mergeKey && now - last.recordedAt < MERGE_WINDOW_MS) {
+        // Keep the first undo, replace the redo with the latest value
+        const firstUndo = last.steps;
+        last.steps = [{ undo: () => runUndo(firstUndo), redo: () => runRedo(steps) }];
+        last.recordedAt = now;
+    } else {
+        undoStack.push({ label, steps, mergeKey, recordedAt: now });
+        if (undoStack.length > MAX_HISTORY) undoStack.shift();
+    }
+    redoStack = [];
+    notify();
+};
+
+const runUndo = async (steps: UndoStep[]) => {
+    for (const step of [...steps].reverse()) await step.undo();
+};
+
+const runRedo = async (steps: UndoStep[]) => {
+    for (const step of steps) await step.redo();
+};
+
+// Returns the label of the reverted entry, or null when there was nothing to do.
+// A failed replay leaves the entry where it was so it can be retried.
+export const undo = async (): Promise<string | null> => {
+    if (isReplaying) return null;
+    const entry = undoStack.pop();
+    if (!entry) return null;
+    isReplaying = true;
+    try {
+        await runUndo(entry.steps);
+        redoStack.push(entry);
+        return entry.label;
+    } catch (e) {
+        undoStack.push(entry);
+        throw e;
+    } finally {
+        isReplaying = false;
+        notify();
+    }
+};
+
+export const redo = async (): Promise<string | null> => {
+    if (isReplaying) return null;
+    const entry = redoStack.pop();
+    if (!entry) return null;
+    isReplaying = true;
+    try {
+        await runRedo(entry.steps);
+        entry.recordedAt = 0; // never merge into a replayed entry
+        undoStack.push(entry);
+        return entry.label;
+    } catch (e) {
+        redoStack.push(entry);
+        throw e;
+    } finally {
+        isReplaying = false;
+        notify();
+    }
+};
+
+// --- Undoable operations ---
+// Each performs the API call and returns how to reverse it. Callers pass the state from before the call.
+
+interface TaskSnapshot { projectId: string; task: Task; index: number; }
+
+// The task plus every task downstream of it, since a date change can push successors forward
+const snapshotDownstream = (projects: Project[], dependencies: TaskDependency[], taskId: string): TaskSnapshot[] => {
+    const ids = new Set([taskId]);
+    const queue = [taskId];
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+        dependencies.filter(d => d.predecessorId === current && !ids.has(d.successorId)).forEach(d => {
+            ids.add(d.successorId);
+            queue.push(d.successorId);
+        });
+    }
+    return projects.flatMap(p => p.tasks.map((task, index) => ({ projectId: p.id, task: { ...task }, index })).filter(s => ids.has(s.task.id)));
+};
+
+const restoreSnapshots = async (snapshots: TaskSnapshot[]) => {
+    for (const s of snapshots) await restoreTask(s.projectId, s.task, s.index);
+};
+
+export const undoableAddProject = async (name: string, position: number): Promise<{ project: Project; step: UndoStep }> => {
+    const created = await addProject(name);
+    return {
+        project: created,
+        step: {
+            undo: async () => { await deleteProject(created.id); },
+            redo: () => restoreProject(created, position),
+        },
+    };
+};
+
+export const undoableUpdateProject = async (before: Project, name: string): Promise<UndoStep> => {
+    await updateProject(before.id, name);
+    return {
+        undo: async () => { await updateProject(before.id, before.name); },
+        redo: async () => { await updateProject(before.id, name); },
+    };
+};
+
+export const undoableDeleteProject = async (projects: Project[], dependencies: TaskDependency[], baselines: Baseline[], projectId: string): Promise<UndoStep> => {
+    const index = projects.findIndex(p => p.id === projectId);
+    const project = projects[index];
+    const taskIds = new Set(project ? project.tasks.map(t => t.id) : []);
+    const links = dependencies.filter(d => taskIds.has(d.predecessorId) || taskIds.has(d.successorId));
+    const ownBaselines = baselines.filter(b => b.projectId === projectId);
+    await deleteProject(projectId);
+    return {
+        undo: async () => {
+            if (!project) return;
+            await restoreProject(project, index);
+            await restoreDependencies(links);
+            await restoreBaselines(ownBaselines);
+        },
+        redo: async () => { await deleteProject(projectId); },
+    };
+};
+
+export const undoableAddTask = async (projectId: string, taskData: Omit<Task, 'id' | 'color' | 'progress'> & { progress?: number }, position: number): Promise<{ task: Task; step: UndoStep }> => {
+    const task = await addTask(projectId, taskData);
+    return {
+        task,
+        step: {
+            undo: async () => { await deleteTask(projectId, task.id); },
+            redo: () => restoreTask(projectId, task, position),
+        },
+    };
+};
+
+// Only the edit itself is version-checked; undo and redo put back what this client wrote
+export const undoableUpdateTask = async (projects: Project[], dependencies: TaskDependency[], projectId: string, taskId: string, updates: Partial<Task>, expectedVersion?: number): Promise<UndoStep> => {
+    const snapshots = snapshotDownstream(projects, dependencies, taskId);
+    await updateTask(projectId, taskId, updates, expectedVersion);
+    return {
+        undo: () => restoreSnapshots(snapshots),
+        redo: async () => { await updateTask(projectId, taskId, updates); },
+    };
+};
+
+export const undoableDeleteTask = async (projects: Project[], dependencies: TaskDependency[], projectId: string, taskId: string): Promise<UndoStep> => {
+    const project = projects.find(p => p.id === projectId);
+    const index = project ? project.tasks.findIndex(t => t.id === taskId) : -1;
+    const task = index !== -1 && project ? { ...project.tasks[index] } : null;
+    const links = dependencies.filter(d => d.predecessorId === taskId || d.successorId === taskId);
+    await deleteTask(projectId, taskId);
+    return {
+        undo: async () => {
+            if (!task) return;
+            await restoreTask(projectId, task, index);
+            await restoreDependencies(links);
+        },
+        redo: async () => { await deleteTask(projectId, taskId); },
+    };
+};
+
+export const undoableReorderProjects = async (before: Project[], after: Project[], baseVersions?: Record<string, number>): Promise<UndoStep> => {
+    await updateProjects(after, baseVersions);
+    return {
+        undo: async () => { await updateProjects(before); },
+        redo: async () => { await updateProjects(after); },
+    };
+};
+
+export const undoableReorderTasks = async (projectId: string, before: Task[], after: Task[], baseVersions?: Record<string, number>): Promise<UndoStep> => {
+    await updateTaskPositions(projectId, after, baseVersions);
+    return {
+        undo: () => updateTaskPositions(projectId, before),
+        redo: () => updateTaskPositions(projectId, after),
+    };
+};
+
+export const undoableAddDependency = async (projects: Project[], dependencies: TaskDependency[], dependency: Omit<TaskDependency, 'id'>): Promise<UndoStep> => {
+    const snapshots = snapshotDownstream(projects, dependencies, dependency.predecessorId)
+        .concat(snapshotDownstream(projects, dependencies, dependency.successorId));
+    const created = await addDependency(dependency);
+    return {
+        undo: async () => {
+            await deleteDependency(created.id);
+            await restoreSnapshots(snapshots);
+        },
+        redo: async () => { await addDependency(created); },
+    };
+};
+
+export const undoableDeleteDependency = async (dependency: TaskDependency): Promise<UndoStep> => {
+    await deleteDependency(dependency.id);
+    return {
+        undo: () => restoreDependencies([dependency]),
+        redo: () => deleteDependency(dependency.id),
+    };
+};
+
+export const undoableAddBaseline = async (project: Project, name: string): Promise<{ baseline: Baseline; step: UndoStep }> => {
+    const baseline = await addBaseline(project, name);
+    return {
+        baseline,
+        step: {
+            undo: () => deleteBaseline(baseline.id),
+            redo: () => restoreBaselines([baseline]),
+        },
+    };
+};
+
+export const undoableDeleteBaseline = async (baseline: Baseline): Promise<UndoStep> => {
+    await deleteBaseline(baseline.id);
+    return {
+        undo: () => restoreBaselines([baseline]),
+        redo: () => deleteBaseline(baseline.id),
+    };
+};
+
+export const undoableAddDepartment = async (name: string): Promise<UndoStep> => {
+    const created = await addDepartment(name);
+    return {
+        undo: () => deleteDepartment(created.id),
+        redo: () => restoreDepartment(created),
+    };
+};
+
+// Members are restored too: Supabase clears their department_id when the department goes
+export const undoableDeleteDepartment = async (department: Department, members: Employee[]): Promise<UndoStep> => {
+    await deleteDepartment(department.id);
+    return {
+        undo: async () => {
+            await restoreDepartment(department);
+            await restoreEmployees(members);
+        },
+        redo: () => deleteDepartment(department.id),
+    };
+};
+
+export const undoableAddEmployee = async (name: string, departmentId: string): Promise<UndoStep> => {
+    const created = await addEmployee(name, departmentId);
+    return {
+        undo: () => deleteEmployee(created.id),
+        redo: () => restoreEmployees([created]),
+    };
+};
+
+export const undoableDeleteEmployee = async (employee: Employee): Promise<UndoStep> => {
+    await deleteEmployee(employee.id);
+    return {
+        undo: () => restoreEmployees([employee]),
+        redo: () => deleteEmployee(employee.id),
+    };
+};
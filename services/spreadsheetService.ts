@@ -0,0 +1,37 @@
+import * as XLSX from 'xlsx';
+import { SpreadsheetCell, toCsv, parseCsv } from '../utils/spreadsheetUtils';
+import { downloadBlob } from '../utils/downloadUtils';
+
+// The BOM makes Excel open the file as UTF-8 instead of the system code page
+export const exportCsv = (rows: SpreadsheetCell[][], fileName: string) => {
+    downloadBlob(new Blob(['\uFEFF' + toCsv(rows)], { type: 'text/csv;charset=utf-8' }), `${fileName}.csv`);
+};
+
+export const exportXlsx = (rows: SpreadsheetCell[][], fileName: string) => {
+    const sheet = XLSX.utils.aoa_to_sheet(rows);
+    // Wide enough for the longest value in each column, capped so descriptions do not sprawl
+    sheet['!cols'] = rows[0].map((_, i) => ({ wch: Math.min(40, Math.max(...rows.map(r => String(r[i] ?? '').length)) + 4) }));
+    const book = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(book, sheet, '일정');
+    XLSX.writeFile(book, `${fileName}.xlsx`);
+};
+
+// Excel on Korean Windows saves CSV as CP949, so fall back to it when the bytes are not valid UTF-8
+const decodeCsv = (buffer: ArrayBuffer) => {
+    try {
+        return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    } catch {
+        return new TextDecoder('euc-kr').decode(buffer);
+    }
+};
+
+// Rows of the first sheet as text, header row included. Date cells come back as YYYY-MM-DD.
+export const readSpreadsheetFile = async (file: File): Promise<string[][]> => {
+    const buffer = await file.arrayBuffer();
+    if (/\.csv$/i.test(file.name)) return parseCsv(decodeCsv(buffer));
+    const book = XLSX.read(buffer, { type: 'array', cellDates: true });
+    const sheet = book.Sheets[book.SheetNames[0]];
+    if (!sheet) return [];
+    const rows = XLSX.utils.sheet_to_json<SpreadsheetCell[]>(sheet, { header: 1, raw: false, dateNF: 'yyyy-mm-dd', defval: '' });
+    return rows.map((r: SpreadsheetCell[]) => r.map(c => String(c))).filter(r => r.some(c => c.trim() !== ''));
+};
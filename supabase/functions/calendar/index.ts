@@ -0,0 +1,33 @@
+import { createClient } from '@supabase/supabase-js';
+import { createSupabaseStore } from '../../../services/dataService';
+import { renderCalendarFeed } from '../../../services/calendarFeedService';
+
+// The Supabase side of calendar feeds: GET <project>/functions/v1/calendar/<feed token>.ics builds the .ics from
+// the tables on every request. Calendar apps send no Supabase token, so deploy it with
+// `supabase functions deploy calendar --no-verify-jwt`; the feed token is the check instead. The service role key,
+// which Supabase hands every function, reads calendar_feeds, which visitors who are not signed in cannot.
+// The app's modules are imported as they are; deno.json maps their extensionless imports to the files.
+
+// Deno's globals, for type-checkers that only know the browser and Node
+declare const Deno: {
+    env: { get(key: string): string | undefined };
+    serve(handler: (req: Request) => Promise<Response>): void;
+};
+
+const FEED_PATH = /\/calendar\/([^/]+)\.ics$/;
+
+const client = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, { auth: { persistSession: false, autoRefreshToken: false } });
+const store = createSupabaseStore(client);
+
+Deno.serve(async req => {
+    const token = req.method === 'GET' ? FEED_PATH.exec(new URL(req.url).pathname)?.[1] : undefined;
+    if (!token) return new Response('Not found', { status: 404 });
+    try {
+        const ics = await renderCalendarFeed(store, decodeURIComponent(token));
+        if (ics === null) return new Response('No such calendar feed', { status: 404 });
+        return new Response(ics, { headers: { 'Content-Type': 'text/calendar; charset=utf-8', 'Cache-Control': 'no-cache' } });
+    } catch (err) {
+        console.error('Calendar feed failed:', err);
+        return new Response('Internal server error', { status: 500 });
+    }
+});
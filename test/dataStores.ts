@@ -0,0 +1,84 @@
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createClient } from '@supabase/supabase-js';
+import { DataStore, createLocalStorageStore, createMemoryStore, createSupabaseStore, emptyData, writeLocalData } from '../services/dataService';
+import { runDataStoreConformance } from '../services/dataStoreConformance';
+import { createPrismaClient } from '../server/database';
+import { createPrismaStore } from '../server/prismaStore';
+
+// `npm test`: the DataStore conformance suite against every backend. The Prisma store gets a fresh SQLite
+// file, or TEST_DATABASE_URL if set (an empty database). The Supabase store runs only when TEST_SUPABASE_URL
+// and TEST_SUPABASE_KEY name a project set up with the settings SQL and holding no data; the key has to be
+// the service role key, as the checks write everything an admin may.
+
+// The part of localStorage the local store uses, kept in a Map
+class MemoryStorage {
+    private items = new Map<string, string>();
+    get length() { return this.items.size; }
+    key(index: number) { return [...this.items.keys()][index] ?? null; }
+    getItem(key: string) { return this.items.get(key) ?? null; }
+    setItem(key: string, value: string) { this.items.set(key, String(value)); }
+    removeItem(key: string) { this.items.delete(key); }
+    clear() { this.items.clear(); }
+}
+
+async function check(label: string, store: DataStore) {
+    const results = await runDataStoreConformance(store);
+    for (const result of results) {
+        console.log(`${result.passed ? 'PASS' : 'FAIL'} ${label}: ${result.name}${result.error ? `\n     ${result.error}` : ''}`);
+    }
+    return results.filter(r => !r.passed).length;
+}
+
+// A throwaway SQLite database with the tables from prisma/schema.prisma
+const createTestDatabase = () => {
+    const dir = mkdtempSync(join(tmpdir(), 'gantt-test-'));
+    const url = `file:${join(dir, 'test.db')}`;
+    execFileSync('npx', ['prisma', 'db', 'push'], { env: { ...process.env, DATABASE_URL: url }, stdio: 'inherit' });
+    return { url, remove: () => rmSync(dir, { recursive: true, force: true }) };
+};
+
+async function main() {
+    let failures = 0;
+
+    failures += await check('memory', createMemoryStore());
+
+    (globalThis as any).localStorage = new MemoryStorage();
+    // Without saved data the local store starts from the sample project
+    writeLocalData(emptyData(), 'test-data');
+    failures += await check('localStorage', createLocalStorageStore('test-data', 'test-settings', 'test-audit', 'test-feeds'));
+
+    const database = process.env.TEST_DATABASE_URL ? { url: process.env.TEST_DATABASE_URL, remove: () => {} } : createTestDatabase();
+    const prisma = createPrismaClient(database.url);
+    try {
+        failures += await check('prisma', createPrismaStore(prisma));
+    } finally {
+        await prisma.$disconnect();
+        database.remove();
+    }
+
+    const supabaseUrl = process.env.TEST_SUPABASE_URL;
+    const supabaseKey = process.env.TEST_SUPABASE_KEY;
+    if (supabaseUrl && supabaseKey) {
+        // Realtime needs a WebSocket, which Node has built in from version 22
+        if (typeof WebSocket === 'undefined') throw new Error('The Supabase run needs Node 22 or later, or NODE_OPTIONS=--experimental-websocket');
+        const client = createClient(supabaseUrl, supabaseKey, { auth: { persistSession: false, autoRefreshToken: false } });
+        try {
+            failures += await check('supabase', createSupabaseStore(client));
+        } finally {
+            await client.removeAllChannels();
+        }
+    } else {
+        console.log('SKIP supabase: set TEST_SUPABASE_URL and TEST_SUPABASE_KEY to run it');
+    }
+
+    console.log(failures === 0 ? 'All stores conform.' : `${failures} check(s) failed.`);
+    if (failures > 0) process.exitCode = 1;
+}
+
+main().catch(err => {
+    console.error(err);
+    process.exitCode = 1;
+});
@@ -0,0 +1,94 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Department, Employee } from '../types';
+import { WorkCalendar } from '../utils/calendarUtils';
+import { formatDate } from '../utils/dateUtils';
+import { PlanProposal, PlanRow, proposePlanLocally, resolvePlanProposal, schedulePlanRows } from '../utils/planUtils';
+import { createLocalProvider, draftPlanFromBrief, setAiProvider } from '../services/geminiService';
+
+// A generated plan: names turned into people and row keys, then laid out on working days
+
+const calendar: WorkCalendar = { weekendDays: [0, 6], useKoreanHolidays: false, companyDaysOff: [] };
+const employees: Employee[] = [
+    { id: 'e1', name: '김철수', departmentId: 'd1' },
+    { id: 'e2', name: '박영희', departmentId: 'd1' },
+    { id: 'e3', name: '이민호', departmentId: 'd2' },
+];
+const departments: Department[] = [
+    { id: 'd1', name: '설계팀', employees: employees.slice(0, 2) },
+    { id: 'd2', name: '시공팀', employees: employees.slice(2) },
+];
+
+const row = (key: string, duration: number, predecessorKeys: string[] = [], kind: PlanRow['kind'] = 'task'): PlanRow =>
+    ({ key, name: key, kind, employeeId: '', duration, predecessorKeys, description: '' });
+
+describe('resolvePlanProposal', () => {
+    const proposal: PlanProposal = {
+        projectName: ' 사옥 리모델링 ',
+        tasks: [
+            { name: '실측', durationDays: 2, assigneeName: '이민호' },
+            { name: '기본 설계', durationDays: 4.6, dependsOn: [1], departmentName: '설계팀' },
+            { name: '실시 설계', durationDays: 5, dependsOn: [2, 2, 4], departmentName: '설계팀', assigneeName: '최과장' },
+            { name: '설계 승인', durationDays: 3, dependsOn: [3], isMilestone: true },
+        ],
+    };
+
+    it('turns names into ids and numbers into row keys', () => {
+        const draft = resolvePlanProposal(proposal, employees, departments);
+        assert.equal(draft.projectName, '사옥 리모델링');
+        assert.deepEqual(draft.rows.map(r => r.employeeId), ['e3', 'e1', 'e2', '']);
+        assert.deepEqual(draft.rows.map(r => r.duration), [2, 5, 5, 1]);
+        assert.equal(draft.rows[3].kind, 'milestone');
+        assert.deepEqual(draft.rows[1].predecessorKeys, [draft.rows[0].key]);
+        // Repeats and later steps are dropped
+        assert.deepEqual(draft.rows[2].predecessorKeys, [draft.rows[1].key]);
+        assert.deepEqual(draft.notes, ["3. 실시 설계: '최과장' 대신 박영희으로 배정했습니다."]);
+    });
+
+    it('hands the local plan to the departments in turn', () => {
+        const request = { brief: '# 신규 홈페이지 구축\n상세 내용', startDate: '2026-10-19', departments: departments.map(d => ({ name: d.name, employees: d.employees.map(e => e.name) })) };
+        const draft = resolvePlanProposal(proposePlanLocally(request), employees, departments);
+        assert.equal(draft.projectName, '신규 홈페이지 구축');
+        assert.deepEqual(draft.rows.map(r => r.employeeId), ['e1', 'e3', 'e2', 'e3', 'e1', 'e3', 'e2']);
+        assert.deepEqual(draft.notes, []);
+    });
+});
+
+describe('schedulePlanRows', () => {
+    it('starts each row the working day after its predecessors end', () => {
+        const rows = [row('a', 3), row('b', 2, ['a']), row('c', 1, ['a']), row('d', 1, ['b', 'c'], 'milestone')];
+        // A Saturday start moves to Monday
+        const schedule = schedulePlanRows(rows, new Date(2026, 9, 17), calendar);
+        const spans = Object.fromEntries([...schedule].map(([key, s]) => [key, `${formatDate(s.startDate)}~${formatDate(s.endDate)}`]));
+        assert.deepEqual(spans, {
+            a: '2026-10-19~2026-10-21',
+            b: '2026-10-22~2026-10-23',
+            c: '2026-10-22~2026-10-22',
+            d: '2026-10-26~2026-10-26',
+        });
+    });
+
+    it('skips company days off', () => {
+        const withDayOff = { ...calendar, companyDaysOff: [{ date: '2026-10-20', name: '창립기념일' }] };
+        const schedule = schedulePlanRows([row('a', 3)], new Date(2026, 9, 19), withDayOff);
+        assert.equal(formatDate(schedule.get('a')!.endDate), '2026-10-22');
+    });
+
+    it('ignores predecessors further down the grid', () => {
+        const schedule = schedulePlanRows([row('a', 1, ['b']), row('b', 1)], new Date(2026, 9, 19), calendar);
+        assert.equal(formatDate(schedule.get('a')!.startDate), '2026-10-19');
+    });
+});
+
+describe('draftPlanFromBrief', () => {
+    afterEach(() => setAiProvider(createLocalProvider()));
+
+    it('falls back to the local plan when the model fails, and says so', async () => {
+        mock.method(console, 'warn', () => undefined);
+        setAiProvider({ ...createLocalProvider(), kind: 'gemini', generatePlan: async () => { throw new Error('offline'); } });
+        const draft = await draftPlanFromBrief({ brief: '사옥 리모델링', startDate: '2026-10-19', departments: [] }, { employees, departments });
+        assert.equal(draft.rows.length, 7);
+        assert.deepEqual(draft.notes, ['AI 계획 생성에 실패해 기본 템플릿으로 채웠습니다.']);
+        mock.restoreAll();
+    });
+});
@@ -0,0 +1,115 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Employee, Project } from '../types';
+import { WorkCalendar } from '../utils/calendarUtils';
+import { parseTaskEntryLocally, resolveTaskDraft } from '../utils/taskEntryUtils';
+import { AiProvider, createLocalProvider, draftTaskFromText, setAiProvider } from '../services/geminiService';
+
+// One sentence typed into the command bar, read by the local rules and matched against the data.
+// Today is a Monday throughout, and the calendar has weekends only, so no holiday moves a date.
+
+const today = new Date(2026, 9, 19);
+const calendar: WorkCalendar = { weekendDays: [0, 6], useKoreanHolidays: false, companyDaysOff: [] };
+const projects: Project[] = [{ id: 'p1', name: '설계', tasks: [] }, { id: 'p2', name: '시공', tasks: [] }];
+const employees: Employee[] = [{ id: 'e1', name: '김철수', departmentId: 'd1' }, { id: 'e2', name: '박영희', departmentId: 'd1' }];
+const context = { today, projectNames: projects.map(p => p.name), employeeNames: employees.map(e => e.name) };
+
+describe('parseTaskEntryLocally', () => {
+    it('reads a person, a start, a length and a project out of one sentence', () => {
+        assert.deepEqual(parseTaskEntryLocally('김대리 다음주 월요일부터 5일간 도면 검토, 설계 프로젝트', context), {
+            taskName: '도면 검토',
+            projectName: '설계',
+            assigneeName: '김대리',
+            startDate: '2026-10-26',
+            endDate: undefined,
+            durationDays: 5,
+            isMilestone: undefined,
+        });
+    });
+
+    it('reads a day of the month before 까지 as an end date, not a length', () => {
+        const fields = parseTaskEntryLocally('5일까지 검토', context);
+        assert.equal(fields.taskName, '검토');
+        assert.equal(fields.endDate, '2026-11-05');
+        assert.equal(fields.durationDays, undefined);
+    });
+
+    it('keeps a day count followed by 동안 as a length', () => {
+        const fields = parseTaskEntryLocally('5일 동안 검토', context);
+        assert.equal(fields.durationDays, 5);
+        assert.equal(fields.endDate, undefined);
+    });
+
+    it('takes a day of this month that is still ahead', () => {
+        assert.equal(parseTaskEntryLocally('25일부터 점검', context).startDate, '2026-10-25');
+    });
+
+    it('reads words for lengths and marks milestones', () => {
+        const fields = parseTaskEntryLocally('내일 사흘간 현장 점검', context);
+        assert.equal(fields.startDate, '2026-10-20');
+        assert.equal(fields.durationDays, 3);
+        assert.equal(parseTaskEntryLocally('금요일 설계 승인 마일스톤', context).isMilestone, true);
+    });
+});
+
+describe('resolveTaskDraft', () => {
+    it('matches the project by name and the person by surname', () => {
+        const fields = parseTaskEntryLocally('김대리 다음주 월요일부터 5일간 도면 검토, 설계 프로젝트', context);
+        assert.deepEqual(resolveTaskDraft(fields, { projects, employees, calendar, today }), {
+            projectId: 'p1',
+            projectNote: null,
+            name: '도면 검토',
+            kind: 'task',
+            employeeId: 'e1',
+            startDate: '2026-10-26',
+            duration: 5,
+            description: '',
+            notes: [],
+        });
+    });
+
+    it('counts the working days up to an end date', () => {
+        const draft = resolveTaskDraft(parseTaskEntryLocally('5일까지 검토', context), { projects, employees, calendar, today });
+        assert.equal(draft.startDate, '2026-10-19');
+        // 10/19 to 11/5 without the weekends
+        assert.equal(draft.duration, 14);
+    });
+
+    it('explains what it could not match', () => {
+        const draft = resolveTaskDraft({ taskName: '검토', projectName: '없는', assigneeName: '최부장' }, { projects, employees, calendar, today });
+        assert.equal(draft.projectId, null);
+        assert.equal(draft.projectNote, "'없는' 프로젝트를 찾지 못했습니다.");
+        assert.equal(draft.employeeId, '');
+        assert.deepEqual(draft.notes, ["'최부장' 직원을 찾지 못했습니다.", '기간이 없어 3일로 잡았습니다.']);
+    });
+});
+
+describe('draftTaskFromText', () => {
+    const failing: AiProvider = {
+        kind: 'gemini',
+        parseTaskEntry: async () => { throw new Error('offline'); },
+        generatePlan: async () => { throw new Error('offline'); },
+        summarizeReport: async () => { throw new Error('offline'); },
+    };
+
+    afterEach(() => setAiProvider(createLocalProvider()));
+
+    it('resolves what the provider answers', async () => {
+        setAiProvider({ ...createLocalProvider(), parseTaskEntry: async () => ({ taskName: '도면 검토', projectName: '시공', assigneeName: '박영희', durationDays: 2 }) });
+        const draft = await draftTaskFromText('아무 문장', { projects, employees, calendar, today });
+        assert.equal(draft.projectId, 'p2');
+        assert.equal(draft.employeeId, 'e2');
+        assert.equal(draft.duration, 2);
+    });
+
+    it('falls back to the local rules when the model fails, and says so', async () => {
+        mock.method(console, 'warn', () => undefined);
+        setAiProvider(failing);
+        const draft = await draftTaskFromText('김대리 다음주 월요일부터 5일간 도면 검토, 설계 프로젝트', { projects, employees, calendar, today });
+        assert.equal(draft.name, '도면 검토');
+        assert.equal(draft.projectId, 'p1');
+        assert.equal(draft.employeeId, 'e1');
+        assert.deepEqual(draft.notes, ['AI 해석에 실패해 기본 규칙으로 해석했습니다.']);
+        mock.restoreAll();
+    });
+});
@@ -0,0 +1,105 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Department, Employee, Project, Task } from '../types';
+import { WorkCalendar } from '../utils/calendarUtils';
+import { formatDate } from '../utils/dateUtils';
+import { buildWeeklyReport, getExpectedProgress } from '../utils/reportUtils';
+import { createLocalProvider, setAiProvider, writeReportNarrative } from '../services/geminiService';
+
+// The Friday report: what finished, what is behind and what starts next week, per department.
+// The week shown runs from Monday 10/19; today is the Wednesday of it.
+
+const calendar: WorkCalendar = { weekendDays: [0, 6], useKoreanHolidays: false, companyDaysOff: [] };
+const today = new Date(2026, 9, 21);
+
+const task = (id: string, start: [number, number], end: [number, number], progress: number, employeeId = 'e1'): Task => ({
+    id,
+    name: id,
+    startDate: new Date(2026, start[0] - 1, start[1]),
+    endDate: new Date(2026, end[0] - 1, end[1]),
+    color: 'bg-blue-500',
+    employeeId,
+    progress,
+});
+
+const departments: Department[] = [{ id: 'd1', name: '설계팀', employees: [] }, { id: 'd2', name: '시공팀', employees: [] }];
+const employees: Employee[] = [{ id: 'e1', name: '김철수', departmentId: 'd1' }, { id: 'e2', name: '박영희', departmentId: '' }];
+const projects: Project[] = [{
+    id: 'p1',
+    name: '사옥 리모델링',
+    tasks: [
+        task('이번 주 완료', [10, 19], [10, 21], 100),
+        task('지난주 완료', [10, 12], [10, 16], 100),
+        task('지연', [10, 19], [10, 23], 20),
+        task('정상', [10, 19], [10, 23], 80),
+        task('크게 지연', [10, 19], [10, 23], 0),
+        task('다음 주 시작', [10, 27], [10, 30], 0),
+        task('기한 지남', [10, 12], [10, 16], 50, 'e2'),
+    ],
+}];
+
+const names = (items: { taskName: string }[]) => items.map(i => i.taskName);
+
+describe('getExpectedProgress', () => {
+    const week = task('t', [10, 19], [10, 23], 0);
+
+    it('is the share of working days passed, the day itself included', () => {
+        assert.equal(getExpectedProgress(week, new Date(2026, 9, 21), calendar), 60);
+    });
+
+    it('is 0 before the start and 100 from the end', () => {
+        assert.equal(getExpectedProgress(week, new Date(2026, 9, 18), calendar), 0);
+        assert.equal(getExpectedProgress(week, new Date(2026, 9, 23), calendar), 100);
+    });
+
+    it('does not count the weekend', () => {
+        assert.equal(getExpectedProgress(task('t', [10, 19], [10, 30], 0), new Date(2026, 9, 25), calendar), 50);
+    });
+});
+
+describe('buildWeeklyReport', () => {
+    const report = buildWeeklyReport({ type: 'all' }, projects, departments, employees, new Date(2026, 9, 22), calendar, today);
+
+    it('covers Monday to Sunday of the given week, as of today', () => {
+        assert.equal(report.scopeName, '전체 일정');
+        assert.equal(formatDate(report.weekStart), '2026-10-19');
+        assert.equal(formatDate(report.weekEnd), '2026-10-25');
+        assert.equal(formatDate(report.asOf), '2026-10-21');
+    });
+
+    it('sorts tasks into finished, behind and upcoming, the furthest behind first', () => {
+        const [design, unassigned] = report.departments;
+        assert.equal(design.name, '설계팀');
+        assert.deepEqual(names(design.completed), ['이번 주 완료']);
+        assert.deepEqual(names(design.behind), ['크게 지연', '지연']);
+        assert.deepEqual(names(design.upcoming), ['다음 주 시작']);
+        assert.deepEqual(design.behind.map(i => i.expectedProgress), [60, 60]);
+        assert.equal(unassigned.name, '부서 없음');
+        assert.deepEqual(names(unassigned.behind), ['기한 지남']);
+        assert.equal(unassigned.behind[0].overdue, true);
+    });
+
+    it('leaves out departments with nothing to report', () => {
+        assert.deepEqual(report.departments.map(d => d.departmentId), ['d1', '']);
+    });
+
+    it('keeps to the scope', () => {
+        const scoped = buildWeeklyReport({ type: 'employee', id: 'e2' }, projects, departments, employees, today, calendar, today);
+        assert.equal(scoped.scopeName, '박영희');
+        assert.deepEqual(scoped.departments.map(d => d.departmentId), ['']);
+    });
+});
+
+describe('writeReportNarrative', () => {
+    afterEach(() => setAiProvider(createLocalProvider()));
+
+    it('falls back to the local summary when the model fails, and says so', async () => {
+        mock.method(console, 'warn', () => undefined);
+        setAiProvider({ ...createLocalProvider(), kind: 'gemini', summarizeReport: async () => { throw new Error('offline'); } });
+        const report = buildWeeklyReport({ type: 'all' }, projects, departments, employees, today, calendar, today);
+        const { text, notes } = await writeReportNarrative(report);
+        assert.ok(text.length > 0);
+        assert.deepEqual(notes, ['AI 요약에 실패해 기본 요약으로 채웠습니다.']);
+        mock.restoreAll();
+    });
+});
@@ -1,18 +1,29 @@
+// A milestone is a single-day event: startDate and endDate are the same day
+export type TaskKind = 'task' | 'milestone';
+
 export interface Task {
   id: string;
   name: string;
+  kind?: TaskKind;
   startDate: Date;
   endDate: Date;
   color: string;
   employeeId: string;
   progress: number;
   description?: string;
+  // Bumped whenever the details above change; becomes the iCalendar SEQUENCE
+  sequence?: number;
+  // Bumped by every write to the row, position included; a write made against an older version is rejected
+  version?: number;
+  position?: number; // order within the project as stored in Supabase
 }
 
 export interface Project {
   id: string;
   name: string;
   tasks: Task[];
+  version?: number; // as on Task
+  position?: number;
 }
 
 export interface Employee {
@@ -25,4 +36,149 @@ export interface Department {
   id: string;
   name: string;
   employees: Employee[];
-}
\ No newline at end of file
+}
+// FS: finish-to-start, SS: start-to-start, FF: finish-to-finish
+export type DependencyType = 'FS' | 'SS' | 'FF';
+
+export interface TaskDependency {
+  id: string;
+  predecessorId: string;
+  successorId: string;
+  type: DependencyType;
+  lagDays: number;
+}
+
+// Task dates and progress as they were when a baseline was saved
+export interface BaselineTask {
+  taskId: string;
+  startDate: Date;
+  endDate: Date;
+  progress: number;
+}
+
+export interface Baseline {
+  id: string;
+  projectId: string;
+  name: string;
+  createdAt: Date;
+  tasks: BaselineTask[];
+}
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'reorder' | 'restore';
+export type AuditEntityType = 'project' | 'task' | 'department' | 'employee' | 'dependency' | 'baseline' | 'user';
+
+// Field values are stored as display-ready strings (dates as YYYY-MM-DD)
+export interface AuditChange {
+  field: string;
+  before: string | number | null;
+  after: string | number | null;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: Date;
+  actor: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  entityName?: string;
+  projectId?: string;
+  note?: string;
+  changes: AuditChange[];
+}
+
+// A subscribable calendar. The token is the secret part of its URL; deleting the feed revokes the URL.
+export interface CalendarFeed {
+  token: string;
+  scopeKey: string; // see getScopeKey in utils/icalUtils
+  createdAt: Date;
+}
+
+export interface AuthUser {
+  id: string;
+  email: string;
+}
+
+export type UserRole = 'viewer' | 'editor' | 'department_manager' | 'admin';
+
+export interface UserRoleAssignment {
+  userId: string;
+  email: string;
+  role: UserRole;
+  departmentId?: string; // only meaningful for department managers
+  rolesMissing?: boolean; // no roles table yet (migration SQL not run), so role is the viewer fallback
+}
+
+// Everything the app stores; also the shape of the offline localStorage blob
+export interface AppData {
+  projects: Project[];
+  departments: Department[];
+  employees: Employee[];
+  dependencies: TaskDependency[];
+  baselines: Baseline[];
+}
+
+// Records to write in one go when restoring a backup. Positions place new rows in the sidebar order.
+export interface AppDataChanges {
+  departments: Department[];
+  employees: Employee[];
+  projects: { id: string; name: string; position: number }[];
+  tasks: { projectId: string; task: Task; position: number }[];
+  dependencies: TaskDependency[];
+  baselines: Baseline[];
+}
+
+// A write waiting to reach Supabase or the server, or the audit entries that describe it.
+// Base versions are those of the rows the change was made against, so a write can tell whether someone else changed them since.
+export type SyncMutation =
+  | { type: 'addProject'; projectId: string; name: string }
+  | { type: 'updateProject'; projectId: string; name: string; baseVersion?: number }
+  | { type: 'deleteProject'; projectId: string }
+  | { type: 'addTask'; projectId: string; task: Task }
+  | { type: 'updateTask'; projectId: string; taskId: string; update: Partial<Task>; baseVersion?: number }
+  | { type: 'deleteTask'; projectId: string; taskId: string; baseVersion?: number }
+  | { type: 'reorderProjects'; projects: { id: string; name: string }[]; baseVersions?: Record<string, number> }
+  | { type: 'reorderTasks'; projectId: string; taskIds: string[]; baseVersions?: Record<string, number> }
+  | { type: 'restoreProject'; project: Project; position: number }
+  | { type: 'restoreTask'; projectId: string; task: Task; position: number }
+  | { type: 'putDepartments'; departments: { id: string; name: string }[] }
+  | { type: 'deleteDepartment'; departmentId: string }
+  | { type: 'putEmployees'; employees: Employee[] }
+  | { type: 'deleteEmployee'; employeeId: string }
+  | { type: 'putDependencies'; dependencies: TaskDependency[]; shiftSuccessors?: boolean } // shifting for a new link, not a restored one
+  | { type: 'deleteDependency'; dependencyId: string }
+  | { type: 'putBaselines'; baselines: Baseline[] }
+  | { type: 'deleteBaseline'; baselineId: string }
+  | { type: 'audit'; entries: AuditEntry[] };
+
+// failed: rejected by the server, conflict: the row changed remotely after the edit was queued
+export type SyncEntryStatus = 'pending' | 'failed' | 'conflict';
+
+export interface SyncEntry {
+  id: string;
+  mutation: SyncMutation;
+  label: string;
+  queuedAt: Date;
+  status: SyncEntryStatus;
+  force?: boolean; // replay without the conflict check, once the user kept their version
+  error?: string;
+  remote?: Partial<Task> | null; // the row as it is now for a conflict; null when it was deleted
+  remoteOrder?: string[]; // for a reorder conflict, the ids in their current remote order
+}
+
+export interface SyncStatus {
+  entries: SyncEntry[]; // audit entries are left out
+  pending: number;
+  failed: number; // conflicts included
+  isReplaying: boolean;
+}
+
+// One row change pushed by Supabase realtime, already in app shape. row is null for a delete.
+export type RealtimeChange =
+  | { table: 'projects'; id: string; row: Omit<Project, 'tasks'> | null }
+  | { table: 'tasks'; id: string; row: (Task & { projectId: string }) | null }
+  | { table: 'departments'; id: string; row: { id: string; name: string } | null }
+  | { table: 'employees'; id: string; row: Employee | null }
+  | { table: 'task_dependencies'; id: string; row: TaskDependency | null }
+  | { table: 'project_baselines'; id: string; row: Baseline | null }
+  | { table: 'system_settings'; id: string; row: { value: any } | null }; // id is the setting key
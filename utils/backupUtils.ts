@@ -0,0 +1,292 @@
+import { AppData, AppDataChanges, Baseline, Department, Employee, Project, Task, TaskDependency } from '../types';
+import { formatDate } from './dateUtils';
+
+export const BACKUP_FORMAT = 'dahyun-gantt-backup';
+export const BACKUP_VERSION = 1;
+
+// Shared settings travel under their system_settings keys
+export const BACKUP_SETTING_KEYS = ['ui_settings', 'column_widths', 'work_calendar', 'people_order', 'active_baselines'] as const;
+export type BackupSettingKey = typeof BACKUP_SETTING_KEYS[number];
+export type BackupSettings = Partial<Record<BackupSettingKey, unknown>>;
+
+export interface BackupFile {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    exportedAt: string | null; // unknown for files upgraded from a raw localStorage copy
+    source: 'local' | 'supabase' | 'server';
+    data: AppData;
+    settings: BackupSettings;
+}
+
+// Array order carries the sidebar order of projects and tasks
+export const createBackupFile = (data: AppData, settings: BackupSettings, source: BackupFile['source'], now: Date = new Date()): BackupFile => ({
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: now.toISOString(),
+    source,
+    data,
+    settings,
+});
+
+// Each step lifts a file by one version. Version 0 is the gantt-app-data blob copied straight out of localStorage.
+const BACKUP_UPGRADES: Record<number, (file: any) => any> = {
+    0: blob => ({ format: BACKUP_FORMAT, version: 1, exportedAt: null, source: 'local', data: blob, settings: {} }),
+};
+
+const readList = (value: unknown, label: string): any[] => {
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value)) throw new Error(`${label} 목록이 올바르지 않습니다.`);
+    value.forEach(item => {
+        if (!item || typeof item.id !== 'string') throw new Error(`${label} 목록에 id가 없는 항목이 있습니다.`);
+    });
+    return value;
+};
+
+const readDate = (value: unknown, label: string) => {
+    const date = new Date(value as string);
+    if ((typeof value !== 'string' && !(value instanceof Date)) || isNaN(date.getTime())) throw new Error(`${label}의 날짜를 읽을 수 없습니다.`);
+    return date;
+};
+
+const reviveData = (data: any): AppData => {
+    if (!data || !Array.isArray(data.projects)) throw new Error('프로젝트 목록이 없는 백업입니다.');
+    return {
+        projects: readList(data.projects, '프로젝트').map((p): Project => ({
+            id: p.id,
+            name: String(p.name ?? ''),
+            tasks: readList(p.tasks, `'${p.name}' 태스크`).map((t): Task => ({
+                ...t,
+                name: String(t.name ?? ''),
+                startDate: readDate(t.startDate, `태스크 '${t.name}'`),
+                endDate: readDate(t.endDate, `태스크 '${t.name}'`),
+                employeeId: t.employeeId || '',
+                progress: Number(t.progress) || 0,
+            })),
+        })),
+        departments: readList(data.departments, '부서').map((d): Department => ({ id: d.id, name: String(d.name ?? ''), employees: [] })),
+        employees: readList(data.employees, '직원').map((e): Employee => ({ id: e.id, name: String(e.name ?? ''), departmentId: e.departmentId || '' })),
+        dependencies: readList(data.dependencies, '연결').map((d): TaskDependency => ({ ...d, lagDays: Number(d.lagDays) || 0 })),
+        baselines: readList(data.baselines, '베이스라인').map((b): Baseline => ({
+            ...b,
+            createdAt: readDate(b.createdAt, `베이스라인 '${b.name}'`),
+            tasks: (b.tasks || []).map((t: any) => ({ ...t, startDate: readDate(t.startDate, `베이스라인 '${b.name}'`), endDate: readDate(t.endDate, `베이스라인 '${b.name}'`) })),
+        })),
+    };
+};
+
+const NOT_A_BACKUP = '간트 차트 백업 파일이 아닙니다.';
+
+// Accepts any version up to the current one and returns it upgraded, with dates revived
+export const parseBackupFile = (text: string): BackupFile => {
+    let file: any;
+    try {
+        file = JSON.parse(text);
+    } catch {
+        throw new Error('JSON 형식의 파일이 아닙니다.');
+    }
+    let version = file?.format === BACKUP_FORMAT ? Number(file.version) : Array.isArray(file?.projects) ? 0 : NaN;
+    if (!Number.isInteger(version) || version < 0) throw new Error(NOT_A_BACKUP);
+    if (version > BACKUP_VERSION) throw new Error(`이 앱보다 새로운 형식(v${version})의 백업입니다. 앱을 업데이트한 뒤 다시 시도하세요.`);
+    while (version < BACKUP_VERSION) {
+        // Only versions this app has written have a step; anything else is not one of its backups
+        const upgrade = BACKUP_UPGRADES[version];
+        if (!upgrade) throw new Error(NOT_A_BACKUP);
+        file = upgrade(file);
+        version = file.version;
+    }
+    const settings: BackupSettings = {};
+    BACKUP_SETTING_KEYS.forEach(key => {
+        if (file.settings?.[key] != null) settings[key] = file.settings[key];
+    });
+    return { ...file, data: reviveData(file.data), settings };
+};
+
+export const countRecords = (data: AppData) => ({
+    departments: data.departments.length,
+    employees: data.employees.length,
+    projects: data.projects.length,
+    tasks: data.projects.reduce((sum, p) => sum + p.tasks.length, 0),
+    dependencies: data.dependencies.length,
+    baselines: data.baselines.length,
+});
+
+export type BackupEntity = keyof ReturnType<typeof countRecords>;
+
+export const BACKUP_ENTITY_LABELS: Record<BackupEntity, string> = {
+    departments: '부서',
+    employees: '직원',
+    projects: '프로젝트',
+    tasks: '태스크',
+    dependencies: '연결',
+    baselines: '베이스라인',
+};
+
+// What happens to a record whose id already exists in the target with different content
+export type ConflictStrategy = 'keep' | 'overwrite' | 'duplicate';
+
+export const CONFLICT_STRATEGY_LABELS: Record<ConflictStrategy, string> = {
+    keep: '기존 데이터 유지',
+    overwrite: '가져온 데이터로 덮어쓰기',
+    duplicate: '새 ID로 사본 추가',
+};
+
+export type ImportOutcome = 'created' | 'updated' | 'duplicated' | 'skipped' | 'unchanged';
+
+export const IMPORT_OUTCOME_LABELS: Record<ImportOutcome, string> = {
+    created: '추가',
+    updated: '덮어쓰기',
+    duplicated: '사본',
+    skipped: '충돌 유지',
+    unchanged: '동일',
+};
+
+export interface ImportPlan {
+    changes: AppDataChanges;
+    counts: Record<BackupEntity, Record<ImportOutcome, number>>;
+    warnings: string[];
+    // Incoming id → id in the target for every record that ends up there, copied or already present
+    idMap: Map<string, string>;
+    targetIsEmpty: boolean;
+}
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const taskKey = (projectId: string, t: Task) => JSON.stringify([projectId, t.name, t.kind || 'task', formatDate(new Date(t.startDate)), formatDate(new Date(t.endDate)), t.employeeId || '', t.progress, t.description || '', t.color]);
+
+const baselineKey = (b: Baseline) => JSON.stringify([b.projectId, b.name, b.tasks.map(t => [t.taskId, formatDate(new Date(t.startDate)), formatDate(new Date(t.endDate)), t.progress])]);
+
+const createId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+// Dry run of merging `incoming` into `existing`. Nothing is written: `changes` goes to importAppData once confirmed.
+// Records match by id; departments also match by name and employees by name within the same department, since
+// two offline browsers create the same people under different ids. References are rewritten to the matched ids.
+export const planImport = (incoming: AppData, existing: AppData, strategy: ConflictStrategy): ImportPlan => {
+    const changes: AppDataChanges = { departments: [], employees: [], projects: [], tasks: [], dependencies: [], baselines: [] };
+    const counts = Object.fromEntries(Object.keys(BACKUP_ENTITY_LABELS).map(k => [k, { created: 0, updated: 0, duplicated: 0, skipped: 0, unchanged: 0 }])) as ImportPlan['counts'];
+    const warnings: string[] = [];
+    const idMap = new Map<string, string>();
+    const mapId = (id: string) => idMap.get(id) ?? id;
+
+    // Same id with other content is a conflict, settled by the strategy
+    const resolve = (entity: BackupEntity, id: string, prefix: string, key: string, existingKey: string | undefined): { outcome: ImportOutcome; id: string } => {
+        let outcome: ImportOutcome;
+        if (existingKey === undefined) outcome = 'created';
+        else if (existingKey === key) outcome = 'unchanged';
+        else outcome = strategy === 'keep' ? 'skipped' : strategy === 'overwrite' ? 'updated' : 'duplicated';
+        counts[entity][outcome]++;
+        const targetId = outcome === 'duplicated' ? createId(prefix) : id;
+        idMap.set(id, targetId);
+        return { outcome, id: targetId };
+    };
+    const writes = (outcome: ImportOutcome) => outcome === 'created' || outcome === 'updated' || outcome === 'duplicated';
+
+    const departmentsById = new Map(existing.departments.map(d => [d.id, d]));
+    incoming.departments.forEach(d => {
+        const namesake = !departmentsById.has(d.id) && existing.departments.find(x => sameName(x.name, d.name));
+        if (namesake) {
+            idMap.set(d.id, namesake.id);
+            counts.departments.unchanged++;
+            return;
+        }
+        const { outcome, id } = resolve('departments', d.id, 'dept', d.name.trim(), departmentsById.get(d.id)?.name.trim());
+        if (writes(outcome)) changes.departments.push({ id, name: d.name, employees: [] });
+    });
+
+    const departmentIds = new Set([...existing.departments.map(d => d.id), ...idMap.values()]);
+    const employeesById = new Map(existing.employees.map(e => [e.id, e]));
+    incoming.employees.forEach(e => {
+        const departmentId = mapId(e.departmentId);
+        if (!departmentIds.has(departmentId)) {
+            warnings.push(`직원 '${e.name}'의 부서가 백업에 없어 가져오지 않습니다.`);
+            return;
+        }
+        const namesake = !employeesById.has(e.id) && existing.employees.find(x => x.departmentId === departmentId && sameName(x.name, e.name));
+        if (namesake) {
+            idMap.set(e.id, namesake.id);
+            counts.employees.unchanged++;
+            return;
+        }
+        const current = employeesById.get(e.id);
+        const { outcome, id } = resolve('employees', e.id, 'emp', `${e.name.trim()}|${departmentId}`, current && `${current.name.trim()}|${current.departmentId}`);
+        if (writes(outcome)) changes.employees.push({ id, name: e.name, departmentId });
+    });
+
+    const employeeIds = new Set([...existing.employees.map(e => e.id), ...changes.employees.map(e => e.id)]);
+    const projectIndex = new Map(existing.projects.map((p, i) => [p.id, i]));
+    const existingTasks = new Map(existing.projects.flatMap(p => p.tasks.map((t, i) => [t.id, { task: t, projectId: p.id, index: i }] as const)));
+    const taskCounts = new Map(existing.projects.map(p => [p.id, p.tasks.length]));
+    let projectCount = existing.projects.length;
+
+    incoming.projects.forEach(p => {
+        const index = projectIndex.get(p.id);
+        const { outcome, id: projectId } = resolve('projects', p.id, 'project', p.name.trim(), index === undefined ? undefined : existing.projects[index].name.trim());
+        if (writes(outcome)) changes.projects.push({ id: projectId, name: p.name, position: outcome === 'updated' ? index! : projectCount++ });
+        if (!taskCounts.has(projectId)) taskCounts.set(projectId, 0);
+
+        p.tasks.forEach(t => {
+            let employeeId = t.employeeId ? mapId(t.employeeId) : '';
+            if (employeeId && !employeeIds.has(employeeId)) {
+                warnings.push(`태스크 '${t.name}'의 담당자를 찾을 수 없어 미지정으로 가져옵니다.`);
+                employeeId = '';
+            }
+            const task = { ...t, employeeId };
+            // A copied project brings copies of all its tasks, so the original keeps its own
+            if (outcome === 'duplicated') {
+                counts.tasks.duplicated++;
+                const id = createId('task');
+                idMap.set(t.id, id);
+                changes.tasks.push({ projectId, task: { ...task, id }, position: taskCounts.get(projectId)! });
+                taskCounts.set(projectId, taskCounts.get(projectId)! + 1);
+                return;
+            }
+            const current = existingTasks.get(t.id);
+            const resolved = resolve('tasks', t.id, 'task', taskKey(projectId, task), current && taskKey(current.projectId, current.task));
+            if (!writes(resolved.outcome)) return;
+            const keepsPlace = resolved.outcome === 'updated' && current!.projectId === projectId;
+            changes.tasks.push({ projectId, task: { ...task, id: resolved.id }, position: keepsPlace ? current!.index : taskCounts.get(projectId)! });
+            if (!keepsPlace) taskCounts.set(projectId, taskCounts.get(projectId)! + 1);
+        });
+    });
+
+    const taskIds = new Set([...existingTasks.keys(), ...changes.tasks.map(c => c.task.id)]);
+    const dependenciesById = new Map(existing.dependencies.map(d => [d.id, d]));
+    const dependencyKey = (d: TaskDependency) => `${d.predecessorId}|${d.successorId}|${d.type}|${d.lagDays}`;
+    incoming.dependencies.forEach(d => {
+        const link = { ...d, predecessorId: mapId(d.predecessorId), successorId: mapId(d.successorId) };
+        if (!taskIds.has(link.predecessorId) || !taskIds.has(link.successorId)) {
+            warnings.push('태스크가 없는 작업 연결을 건너뜁니다.');
+            return;
+        }
+        // The same link under another id is the same link
+        if (!dependenciesById.has(d.id) && existing.dependencies.some(x => x.predecessorId === link.predecessorId && x.successorId === link.successorId)) {
+            counts.dependencies.unchanged++;
+            return;
+        }
+        const current = dependenciesById.get(d.id);
+        const { outcome, id } = resolve('dependencies', d.id, 'dep', dependencyKey(link), current && dependencyKey(current));
+        if (writes(outcome)) changes.dependencies.push({ ...link, id });
+    });
+
+    const projectIds = new Set([...existing.projects.map(p => p.id), ...changes.projects.map(p => p.id)]);
+    const baselinesById = new Map(existing.baselines.map(b => [b.id, b]));
+    incoming.baselines.forEach(b => {
+        const baseline = { ...b, projectId: mapId(b.projectId), tasks: b.tasks.map(t => ({ ...t, taskId: mapId(t.taskId) })) };
+        if (!projectIds.has(baseline.projectId)) {
+            warnings.push(`프로젝트가 없는 베이스라인 '${b.name}'을(를) 건너뜁니다.`);
+            return;
+        }
+        const current = baselinesById.get(b.id);
+        const { outcome, id } = resolve('baselines', b.id, 'base', baselineKey(baseline), current && baselineKey(current));
+        if (writes(outcome)) changes.baselines.push({ ...baseline, id });
+    });
+
+    const targetIsEmpty = Object.values(countRecords(existing)).every(n => n === 0);
+    return { changes, counts, warnings: summarizeWarnings(warnings), idMap, targetIsEmpty };
+};
+
+// Identical messages collapse into one line with a count
+const summarizeWarnings = (warnings: string[]) => {
+    const tally = new Map<string, number>();
+    warnings.forEach(w => tally.set(w, (tally.get(w) || 0) + 1));
+    return [...tally].map(([w, n]) => n > 1 ? `${w} (${n}건)` : w);
+};
@@ -0,0 +1,34 @@
+import { Baseline, BaselineTask, Task } from '../types';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Positive values mean the task now starts / finishes later than the baseline promised
+export interface TaskVariance {
+    startDays: number;
+    finishDays: number;
+}
+
+const diffInDays = (current: Date, planned: Date) => Math.round((new Date(current).getTime() - new Date(planned).getTime()) / MS_PER_DAY);
+
+export const getTaskVariance = (task: Task, baselineTask: BaselineTask): TaskVariance => ({
+    startDays: diffInDays(task.startDate, baselineTask.startDate),
+    finishDays: diffInDays(task.endDate, baselineTask.endDate),
+});
+
+// Finish variance of the whole project: latest current end vs latest baselined end
+export const getProjectFinishVariance = (tasks: Task[], baseline: Baseline): number | null => {
+    const baselined = tasks.filter(t => baseline.tasks.some(b => b.taskId === t.id));
+    if (baselined.length === 0 || baseline.tasks.length === 0) return null;
+    const currentEnd = Math.max(...baselined.map(t => new Date(t.endDate).getTime()));
+    const plannedEnd = Math.max(...baseline.tasks.map(b => new Date(b.endDate).getTime()));
+    return Math.round((currentEnd - plannedEnd) / MS_PER_DAY);
+};
+
+// The baseline picked for a project, or its most recent one when none is picked
+export const getActiveBaseline = (baselines: Baseline[], projectId: string, selectedId?: string): Baseline | undefined => {
+    const own = baselines.filter(b => b.projectId === projectId);
+    return own.find(b => b.id === selectedId)
+        || own.reduce<Baseline | undefined>((latest, b) => !latest || new Date(b.createdAt).getTime() > new Date(latest.createdAt).getTime() ? b : latest, undefined);
+};
+
+export const formatVariance = (days: number) => days === 0 ? '±0' : days > 0 ? `+${days}` : `${days}`;
@@ -0,0 +1,155 @@
+import { addDays, formatDate } from './dateUtils';
+
+export interface CompanyDayOff {
+    date: string; // YYYY-MM-DD
+    name: string;
+}
+
+// Stored in system_settings under 'work_calendar' (and localStorage offline)
+export interface WorkCalendar {
+    weekendDays: number[]; // Date.getDay() values
+    useKoreanHolidays: boolean;
+    companyDaysOff: CompanyDayOff[];
+}
+
+export const DEFAULT_WORK_CALENDAR: WorkCalendar = {
+    weekendDays: [0, 6],
+    useKoreanHolidays: true,
+    companyDaysOff: [],
+};
+
+// Solar dates of lunar holidays (설날 당일, 부처님오신날, 추석 당일) in Korean time. Extend this table for later years.
+const LUNAR_HOLIDAYS: Record<number, { seollal: string; buddha: string; chuseok: string }> = {
+    2020: { seollal: '01-25', buddha: '04-30', chuseok: '10-01' },
+    2021: { seollal: '02-12', buddha: '05-19', chuseok: '09-21' },
+    2022: { seollal: '02-01', buddha: '05-08', chuseok: '09-10' },
+    2023: { seollal: '01-22', buddha: '05-27', chuseok: '09-29' },
+    2024: { seollal: '02-10', buddha: '05-15', chuseok: '09-17' },
+    2025: { seollal: '01-29', buddha: '05-05', chuseok: '10-06' },
+    2026: { seollal: '02-17', buddha: '05-24', chuseok: '09-25' },
+    2027: { seollal: '02-07', buddha: '05-13', chuseok: '09-15' },
+    2028: { seollal: '01-27', buddha: '05-02', chuseok: '10-03' },
+    2029: { seollal: '02-13', buddha: '05-20', chuseok: '09-22' },
+    2030: { seollal: '02-03', buddha: '05-09', chuseok: '09-12' },
+    2031: { seollal: '01-23', buddha: '05-28', chuseok: '10-01' },
+    2032: { seollal: '02-11', buddha: '05-16', chuseok: '09-19' },
+    2033: { seollal: '01-31', buddha: '05-06', chuseok: '09-08' },
+    2034: { seollal: '02-19', buddha: '05-25', chuseok: '09-27' },
+    2035: { seollal: '02-08', buddha: '05-15', chuseok: '09-16' },
+};
+
+// Outside the table 설날, 부처님오신날 and 추석 count as working days; the settings say so for the years in view
+export const hasLunarHolidays = (year: number) => year in LUNAR_HOLIDAYS;
+
+const holidayCache = new Map<number, Map<string, string>>();
+
+const dateOf = (year: number, monthDay: string) => {
+    const [month, day] = monthDay.split('-').map(Number);
+    return new Date(year, month - 1, day);
+};
+
+// Korean public holidays for a year, including 대체공휴일 under the current rules
+export const getKoreanHolidays = (year: number): Map<string, string> => {
+    const cached = holidayCache.get(year);
+    if (cached) return cached;
+
+    const holidays = new Map<string, string>();
+    const add = (date: Date, name: string) => {
+        const key = formatDate(date);
+        if (!holidays.has(key)) holidays.set(key, name);
+    };
+
+    // Fixed solar holidays; the flag marks those that get a substitute when they fall on a weekend
+    const solar: { date: Date; name: string; substitute: boolean }[] = [
+        { date: dateOf(year, '01-01'), name: '신정', substitute: false },
+        { date: dateOf(year, '03-01'), name: '삼일절', substitute: year >= 2022 },
+        { date: dateOf(year, '05-05'), name: '어린이날', substitute: true },
+        { date: dateOf(year, '06-06'), name: '현충일', substitute: false },
+        { date: dateOf(year, '08-15'), name: '광복절', substitute: year >= 2021 },
+        { date: dateOf(year, '10-03'), name: '개천절', substitute: year >= 2021 },
+        { date: dateOf(year, '10-09'), name: '한글날', substitute: year >= 2021 },
+        { date: dateOf(year, '12-25'), name: '성탄절', substitute: year >= 2023 },
+    ];
+    solar.forEach(h => add(h.date, h.name));
+
+    const lunar = LUNAR_HOLIDAYS[year];
+    const blocks: { days: Date[]; name: string }[] = [];
+    if (lunar) {
+        const seollal = dateOf(year, lunar.seollal);
+        const chuseok = dateOf(year, lunar.chuseok);
+        blocks.push({ days: [addDays(seollal, -1), seollal, addDays(seollal, 1)], name: '설날' });
+        blocks.push({ days: [addDays(chuseok, -1), chuseok, addDays(chuseok, 1)], name: '추석' });
+        blocks.forEach(b => b.days.forEach(d => add(d, b.name)));
+        add(dateOf(year, lunar.buddha), '부처님오신날');
+    }
+
+    // Substitute holidays go to the next weekday that is not already a holiday.
+    // Overlapping holidays share one substitute, so each source date is substituted at most once.
+    const substituted = new Set<string>();
+    const addSubstitute = (sources: Date[]) => {
+        if (sources.some(s => substituted.has(formatDate(s)))) return;
+        sources.forEach(s => substituted.add(formatDate(s)));
+        let d = addDays(sources[sources.length - 1], 1);
+        while (d.getDay() === 0 || d.getDay() === 6 || holidays.has(formatDate(d))) d = addDays(d, 1);
+        add(d, '대체공휴일');
+    };
+    const overlapCount = (date: Date) => solar.filter(h => formatDate(h.date) === formatDate(date)).length
+        + blocks.filter(b => b.days.some(d => formatDate(d) === formatDate(date))).length
+        + (lunar && formatDate(dateOf(year, lunar.buddha)) === formatDate(date) ? 1 : 0);
+
+    // 설날/추석: a Sunday or another holiday inside the three days adds one day after the block
+    blocks.forEach(b => {
+        if (b.days.some(d => d.getDay() === 0 || overlapCount(d) > 1)) addSubstitute(b.days);
+    });
+    solar.filter(h => h.substitute).forEach(h => {
+        const day = h.date.getDay();
+        if (day === 0 || day === 6 || overlapCount(h.date) > 1) addSubstitute([h.date]);
+    });
+    if (lunar && year >= 2023) {
+        const buddha = dateOf(year, lunar.buddha);
+        if (buddha.getDay() === 0 || buddha.getDay() === 6 || overlapCount(buddha) > 1) addSubstitute([buddha]);
+    }
+
+    holidayCache.set(year, holidays);
+    return holidays;
+};
+
+// Name of the day off (holiday, company day off or '주말'), or null on a working day
+export const getNonWorkingDayName = (date: Date, calendar: WorkCalendar): string | null => {
+    const key = formatDate(date);
+    const companyDay = calendar.companyDaysOff.find(d => d.date === key);
+    if (companyDay) return companyDay.name || '회사 휴무';
+    if (calendar.useKoreanHolidays) {
+        const holiday = getKoreanHolidays(date.getFullYear()).get(key);
+        if (holiday) return holiday;
+    }
+    if (calendar.weekendDays.includes(date.getDay())) return '주말';
+    return null;
+};
+
+export const isWorkingDay = (date: Date, calendar: WorkCalendar): boolean => getNonWorkingDayName(date, calendar) === null;
+
+export const nextWorkingDay = (date: Date, calendar: WorkCalendar): Date => {
+    let d = new Date(date);
+    // Bounded so a calendar with every weekday off cannot loop forever
+    for (let i = 0; i < 366 && !isWorkingDay(d, calendar); i++) d = addDays(d, 1);
+    return d;
+};
+
+// Number of working days in [startDate, endDate] (inclusive)
+export const countWorkingDays = (startDate: Date, endDate: Date, calendar: WorkCalendar): number => {
+    let count = 0;
+    for (let d = new Date(startDate); d.getTime() <= endDate.getTime(); d = addDays(d, 1)) {
+        if (isWorkingDay(d, calendar)) count++;
+    }
+    return count;
+};
+
+// End date of a task that starts on startDate and lasts `workingDays` working days
+export const getWorkingEndDate = (startDate: Date, workingDays: number, calendar: WorkCalendar): Date => {
+    let d = nextWorkingDay(startDate, calendar);
+    for (let remaining = Math.max(1, workingDays) - 1; remaining > 0; remaining--) {
+        d = nextWorkingDay(addDays(d, 1), calendar);
+    }
+    return d;
+};
@@ -0,0 +1,52 @@
+import { AuditChange } from '../types';
+import { formatDate } from './dateUtils';
+
+export type ConflictChoice = 'mine' | 'theirs';
+
+export interface ConflictField {
+    field: string;
+    mine: AuditChange['before'];
+    theirs: AuditChange['before'];
+}
+
+// Values as compared and shown. Rows kept in storage come back with their dates as strings.
+export const toConflictValue = (field: string, value: any): AuditChange['before'] => {
+    if (value === undefined || value === null || value === '') return null;
+    if (field === 'startDate' || field === 'endDate') return formatDate(new Date(value));
+    return typeof value === 'number' ? value : String(value);
+};
+
+// The part of an edit that differs from what the user started from; a form sends back every field
+export const changedFields = <T extends Record<string, any>>(base: Record<string, any>, edit: T): Partial<T> =>
+    Object.fromEntries(Object.entries(edit).filter(([field, value]) => toConflictValue(field, value) !== toConflictValue(field, base[field]))) as Partial<T>;
+
+// Fields of an edit that someone else set to something different since `base` was read.
+// A field only one side changed is not a conflict: the edit simply goes on top of the remote row.
+export const getConflictFields = (base: Record<string, any>, mine: Record<string, any>, theirs: Record<string, any>): ConflictField[] =>
+    Object.keys(mine)
+        .map(field => ({
+            field,
+            base: toConflictValue(field, base[field]),
+            mine: toConflictValue(field, mine[field]),
+            theirs: toConflictValue(field, theirs[field]),
+        }))
+        .filter(f => f.theirs !== f.base && f.theirs !== f.mine)
+        .map(({ field, mine, theirs }) => ({ field, mine, theirs }));
+
+// The edit without the fields the user chose to leave at the remote value
+export const mergeEdit = <T extends Record<string, any>>(mine: T, choices: Record<string, ConflictChoice>): Partial<T> =>
+    Object.fromEntries(Object.entries(mine).filter(([field]) => choices[field] !== 'theirs')) as Partial<T>;
+
+// id → version of the rows a reorder was made against, or undefined when the backend keeps no versions
+export const collectVersions = (rows: { id: string; version?: number }[]): Record<string, number> | undefined => {
+    const versioned = rows.filter(r => r.version !== undefined);
+    return versioned.length > 0 ? Object.fromEntries(versioned.map(r => [r.id, r.version!])) : undefined;
+};
+
+// A stale reorder only matters if the rows it was made against now stand in a different order;
+// edits to them or rows added elsewhere in the list leave it free to go through.
+export const isSameOrder = (ids: string[], remoteOrder: string[]) => {
+    const known = new Set(ids);
+    const remote = remoteOrder.filter(id => known.has(id));
+    return remote.length === ids.length && remote.every((id, i) => id === ids[i]);
+};
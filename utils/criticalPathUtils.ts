@@ -0,0 +1,100 @@
+import { Project, TaskDependency } from '../types';
+import { addDays, getDaysBetween } from './dateUtils';
+
+export interface TaskSchedule {
+    earlyStart: Date;
+    earlyFinish: Date;
+    lateStart: Date;
+    lateFinish: Date;
+    totalFloat: number; // days the task can slip without moving the project finish
+    isCritical: boolean;
+}
+
+export interface CriticalPathResult {
+    tasks: Map<string, TaskSchedule>;
+    finishDate: Date | null;
+}
+
+interface Node {
+    duration: number;
+    es: number; ef: number;
+    ls: number; lf: number;
+}
+
+// Critical path method over one project's tasks. Day numbers are offsets from the project's
+// first start; links to tasks outside the project are ignored.
+export const computeCriticalPath = (project: Project, dependencies: TaskDependency[]): CriticalPathResult => {
+    if (project.tasks.length === 0) return { tasks: new Map(), finishDate: null };
+
+    const origin = new Date(Math.min(...project.tasks.map(t => new Date(t.startDate).getTime())));
+    const offsetOf = (date: Date) => getDaysBetween(origin, date) - 1;
+
+    const nodes = new Map<string, Node>();
+    project.tasks.forEach(t => {
+        const start = offsetOf(new Date(t.startDate));
+        const duration = getDaysBetween(new Date(t.startDate), new Date(t.endDate));
+        nodes.set(t.id, { duration, es: start, ef: start + duration - 1, ls: 0, lf: 0 });
+    });
+    const links = dependencies.filter(d => nodes.has(d.predecessorId) && nodes.has(d.successorId));
+
+    // Kahn's topological order; a cycle leaves tasks unordered and we bail out
+    const inDegree = new Map<string, number>(Array.from(nodes.keys()).map(id => [id, 0]));
+    links.forEach(l => inDegree.set(l.successorId, (inDegree.get(l.successorId) || 0) + 1));
+    const order: string[] = [];
+    const ready = Array.from(inDegree.entries()).filter(([, n]) => n === 0).map(([id]) => id);
+    while (ready.length > 0) {
+        const id = ready.shift() as string;
+        order.push(id);
+        links.filter(l => l.predecessorId === id).forEach(l => {
+            const n = (inDegree.get(l.successorId) || 0) - 1;
+            inDegree.set(l.successorId, n);
+            if (n === 0) ready.push(l.successorId);
+        });
+    }
+    if (order.length !== nodes.size) {
+        console.warn(`Dependency cycle in project ${project.id}; critical path skipped.`);
+        return { tasks: new Map(), finishDate: null };
+    }
+
+    // Forward pass: a task starts at its scheduled date or later if a link demands it
+    order.forEach(id => {
+        const node = nodes.get(id) as Node;
+        links.filter(l => l.successorId === id).forEach(l => {
+            const pred = nodes.get(l.predecessorId) as Node;
+            const minStart = l.type === 'SS' ? pred.es + l.lagDays
+                : l.type === 'FF' ? pred.ef + l.lagDays - node.duration + 1
+                : pred.ef + 1 + l.lagDays;
+            node.es = Math.max(node.es, minStart);
+        });
+        node.ef = node.es + node.duration - 1;
+    });
+    const projectFinish = Math.max(...Array.from(nodes.values()).map(n => n.ef));
+
+    // Backward pass
+    [...order].reverse().forEach(id => {
+        const node = nodes.get(id) as Node;
+        node.lf = projectFinish;
+        links.filter(l => l.predecessorId === id).forEach(l => {
+            const succ = nodes.get(l.successorId) as Node;
+            const maxFinish = l.type === 'SS' ? succ.ls - l.lagDays + node.duration - 1
+                : l.type === 'FF' ? succ.lf - l.lagDays
+                : succ.ls - 1 - l.lagDays;
+            node.lf = Math.min(node.lf, maxFinish);
+        });
+        node.ls = node.lf - node.duration + 1;
+    });
+
+    const tasks = new Map<string, TaskSchedule>();
+    nodes.forEach((n, id) => {
+        const totalFloat = n.ls - n.es;
+        tasks.set(id, {
+            earlyStart: addDays(origin, n.es),
+            earlyFinish: addDays(origin, n.ef),
+            lateStart: addDays(origin, n.ls),
+            lateFinish: addDays(origin, n.lf),
+            totalFloat,
+            isCritical: totalFloat <= 0,
+        });
+    });
+    return { tasks, finishDate: addDays(origin, projectFinish) };
+};
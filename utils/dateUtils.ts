@@ -25,3 +25,23 @@ export const formatDate = (date: Date): string => {
     const day = date.getDate().toString().padStart(2, '0');
     return `${year}-${month}-${day}`;
 };
+
+// Helper to add calendar months, clamping to the last day of shorter months
+export const addMonths = (date: Date, months: number): Date => {
+    const result = new Date(date);
+    const day = result.getDate();
+    result.setDate(1);
+    result.setMonth(result.getMonth() + months);
+    const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+    result.setDate(Math.min(day, lastDay));
+    return result;
+};
+
+// ISO-8601 week number (weeks start on Monday, week 1 contains the first Thursday)
+export const getISOWeek = (date: Date): number => {
+    const d = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    const dayNum = (d.getDay() + 6) % 7;
+    d.setDate(d.getDate() - dayNum + 3);
+    const firstThursday = new Date(d.getFullYear(), 0, 4);
+    return 1 + Math.round(((d.getTime() - firstThursday.getTime()) / 86400000 - 3 + ((firstThursday.getDay() + 6) % 7)) / 7);
+};
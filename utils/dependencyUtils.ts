@@ -0,0 +1,71 @@
+import { Project, TaskDependency } from '../types';
+import { addDays, getDaysBetween } from './dateUtils';
+
+export interface TaskShift {
+    projectId: string;
+    taskId: string;
+    startDate: Date;
+    endDate: Date;
+}
+
+interface ScheduledTask {
+    projectId: string;
+    startDate: Date;
+    endDate: Date;
+}
+
+// Signed number of days from `from` to `to`
+const dayOffset = (from: Date, to: Date): number => getDaysBetween(from, to) - 1;
+
+// How many days the successor has to move forward to satisfy the link (<= 0 means already satisfied)
+const requiredShiftDays = (dep: TaskDependency, pred: ScheduledTask, succ: ScheduledTask): number => {
+    switch (dep.type) {
+        case 'SS': return dayOffset(succ.startDate, addDays(pred.startDate, dep.lagDays));
+        case 'FF': return dayOffset(succ.endDate, addDays(pred.endDate, dep.lagDays));
+        case 'FS':
+        default: return dayOffset(succ.startDate, addDays(pred.endDate, 1 + dep.lagDays));
+    }
+};
+
+// Walks the dependency graph from a task whose dates changed and returns every successor
+// that has to be pushed forward (durations are kept). Successors are never pulled back.
+export const computeDependencyShifts = (projects: Project[], dependencies: TaskDependency[], changedTaskId: string): TaskShift[] => {
+    const schedule = new Map<string, ScheduledTask>();
+    projects.forEach(p => p.tasks.forEach(t => schedule.set(t.id, { projectId: p.id, startDate: new Date(t.startDate), endDate: new Date(t.endDate) })));
+
+    const shifted = new Map<string, TaskShift>();
+    const queue = [changedTaskId];
+    // Guard against cycles that slipped into the data
+    let remaining = (dependencies.length + 1) * (schedule.size + 1);
+    while (queue.length > 0 && remaining-- > 0) {
+        const predId = queue.shift() as string;
+        const pred = schedule.get(predId);
+        if (!pred) continue;
+        dependencies.filter(d => d.predecessorId === predId && d.successorId !== changedTaskId).forEach(dep => {
+            const succ = schedule.get(dep.successorId);
+            if (!succ) return;
+            const days = requiredShiftDays(dep, pred, succ);
+            if (days <= 0) return;
+            succ.startDate = addDays(succ.startDate, days);
+            succ.endDate = addDays(succ.endDate, days);
+            shifted.set(dep.successorId, { projectId: succ.projectId, taskId: dep.successorId, startDate: succ.startDate, endDate: succ.endDate });
+            queue.push(dep.successorId);
+        });
+    }
+    return Array.from(shifted.values());
+};
+
+// True if linking predecessorId -> successorId would close a loop
+export const wouldCreateCycle = (dependencies: TaskDependency[], predecessorId: string, successorId: string): boolean => {
+    if (predecessorId === successorId) return true;
+    const visited = new Set<string>();
+    const stack = [successorId];
+    while (stack.length > 0) {
+        const current = stack.pop() as string;
+        if (current === predecessorId) return true;
+        if (visited.has(current)) continue;
+        visited.add(current);
+        dependencies.filter(d => d.predecessorId === current).forEach(d => stack.push(d.successorId));
+    }
+    return false;
+};
@@ -0,0 +1,128 @@
+import { Project, Task, Employee, Department } from '../types';
+import { addDays, formatDate } from './dateUtils';
+
+export type CalendarScopeType = 'all' | 'department' | 'employee' | 'project';
+
+export interface CalendarScope {
+    type: CalendarScopeType;
+    id?: string; // unused for 'all'
+}
+
+export const CALENDAR_SCOPE_LABELS: Record<CalendarScopeType, string> = {
+    all: '전체',
+    department: '부서',
+    employee: '직원',
+    project: '프로젝트',
+};
+
+const CALENDAR_PRODID = '-//Dahyun//Gantt Planner//KO';
+const UID_DOMAIN = 'dahyun-gantt';
+const MAX_LINE_OCTETS = 75;
+
+// Stored with each calendar feed, so it must stay stable for a given scope
+export const getScopeKey = (scope: CalendarScope) => scope.type === 'all' ? 'all' : `${scope.type}-${scope.id}`;
+
+export const parseScopeKey = (key: string): CalendarScope | null => {
+    if (key === 'all') return { type: 'all' };
+    const separator = key.indexOf('-');
+    const type = key.slice(0, separator) as CalendarScopeType;
+    if (separator === -1 || !['department', 'employee', 'project'].includes(type)) return null;
+    return { type, id: key.slice(separator + 1) };
+};
+
+export const getScopeName = (scope: CalendarScope, projects: Project[], departments: Department[], employees: Employee[]) => {
+    switch (scope.type) {
+        case 'department': return departments.find(d => d.id === scope.id)?.name || '삭제된 부서';
+        case 'employee': return employees.find(e => e.id === scope.id)?.name || '삭제된 직원';
+        case 'project': return projects.find(p => p.id === scope.id)?.name || '삭제된 프로젝트';
+        default: return '전체 일정';
+    }
+};
+
+export const getScopeTasks = (scope: CalendarScope, projects: Project[], employees: Employee[]): { task: Task; project: Project }[] => {
+    const departmentOf = new Map(employees.map(e => [e.id, e.departmentId]));
+    return projects.flatMap(project => project.tasks
+        .filter(task => {
+            if (scope.type === 'employee') return task.employeeId === scope.id;
+            if (scope.type === 'department') return departmentOf.get(task.employeeId) === scope.id;
+            if (scope.type === 'project') return project.id === scope.id;
+            return true;
+        })
+        .map(task => ({ task, project })));
+};
+
+// TEXT values escape backslashes, separators and line breaks (RFC 5545 3.3.11)
+const escapeText = (text: string) => text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const utf8Length = (char: string) => {
+    const code = char.codePointAt(0)!;
+    return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+};
+
+// Lines longer than 75 octets continue on the next line after a space, never splitting a character
+const foldLine = (line: string) => {
+    const parts: string[] = [];
+    let current = '';
+    let octets = 0;
+    for (const char of line) {
+        const size = utf8Length(char);
+        const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+        if (octets + size > limit) {
+            parts.push(current);
+            current = '';
+            octets = 0;
+        }
+        current += char;
+        octets += size;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+};
+
+const toDateValue = (date: Date) => formatDate(date).replace(/-/g, '');
+
+const toUtcTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const buildEvent = (task: Task, project: Project, employeeName: string | undefined, stamp: string) => {
+    const details = [
+        `프로젝트: ${project.name}`,
+        `담당자: ${employeeName || '미지정'}`,
+        `진행률: ${task.progress}%`,
+    ];
+    if (task.description) details.push('', task.description);
+    return [
+        'BEGIN:VEVENT',
+        `UID:${task.id}@${UID_DOMAIN}`,
+        `DTSTAMP:${stamp}`,
+        `SEQUENCE:${task.sequence || 0}`,
+        // All-day events end on the day after the last one (DTEND is exclusive)
+        `DTSTART;VALUE=DATE:${toDateValue(new Date(task.startDate))}`,
+        `DTEND;VALUE=DATE:${toDateValue(addDays(new Date(task.endDate), 1))}`,
+        `SUMMARY:${escapeText(`${task.kind === 'milestone' ? '◆ ' : ''}${task.name} (${project.name})`)}`,
+        `DESCRIPTION:${escapeText(details.join('\n'))}`,
+        'TRANSP:TRANSPARENT',
+        'END:VEVENT',
+    ];
+};
+
+// RFC 5545 calendar with one all-day VEVENT per task. UIDs come from task ids so re-imports update instead of duplicating.
+export const buildICalendar = (scope: CalendarScope, projects: Project[], departments: Department[], employees: Employee[], now: Date = new Date()): string => {
+    const employeeNames = new Map(employees.map(e => [e.id, e.name]));
+    const stamp = toUtcTimestamp(now);
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${CALENDAR_PRODID}`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(`다현산업 일정 - ${getScopeName(scope, projects, departments, employees)}`)}`,
+        'X-WR-TIMEZONE:Asia/Seoul',
+        ...getScopeTasks(scope, projects, employees).flatMap(({ task, project }) => buildEvent(task, project, employeeNames.get(task.employeeId), stamp)),
+        'END:VCALENDAR',
+    ];
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,27 @@
+export interface LaneItem {
+    id: string;
+    startDate: Date;
+    endDate: Date;
+}
+
+export interface LanePacking {
+    lanes: Map<string, number>; // item id → 0-based lane index
+    laneCount: number;
+}
+
+// Greedy interval packing: each item goes to the first lane whose last item ended before it starts.
+// Items on the same day never share a lane, since ranges are inclusive.
+export const packIntoLanes = (items: LaneItem[]): LanePacking => {
+    const sorted = [...items].sort((a, b) =>
+        new Date(a.startDate).getTime() - new Date(b.startDate).getTime() || new Date(a.endDate).getTime() - new Date(b.endDate).getTime());
+    const laneEnds: number[] = [];
+    const lanes = new Map<string, number>();
+    sorted.forEach(item => {
+        const start = new Date(item.startDate).getTime();
+        let lane = laneEnds.findIndex(end => end < start);
+        if (lane === -1) { lane = laneEnds.length; laneEnds.push(0); }
+        laneEnds[lane] = new Date(item.endDate).getTime();
+        lanes.set(item.id, lane);
+    });
+    return { lanes, laneCount: laneEnds.length };
+};
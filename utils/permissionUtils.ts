@@ -0,0 +1,39 @@
+import { Employee, Task, UserRole } from '../types';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+    viewer: '뷰어',
+    editor: '편집자',
+    department_manager: '부서 관리자',
+    admin: '관리자',
+};
+
+export interface Permissions {
+    role: UserRole;
+    canEditProjects: boolean;       // create, rename and reorder projects, manage baselines
+    canDeleteProjects: boolean;
+    canCreateTasks: boolean;
+    canReorderTasks: boolean;
+    canManageOrganization: boolean; // departments, employees, roles, work calendar, connection
+    canEditTask: (task: Pick<Task, 'employeeId'>) => boolean;
+    // Employees a new or edited task may be assigned to; null means anyone
+    assignableEmployeeIds: Set<string> | null;
+}
+
+// Mirrors the Row Level Security policies generated in the settings SQL, which are what actually enforce this
+export const getPermissions = (role: UserRole, departmentId: string | undefined, employees: Employee[]): Permissions => {
+    const isAdmin = role === 'admin';
+    const isEditor = isAdmin || role === 'editor';
+    const scoped = role === 'department_manager'
+        ? new Set(employees.filter(e => !!departmentId && e.departmentId === departmentId).map(e => e.id))
+        : null;
+    return {
+        role,
+        canEditProjects: isEditor,
+        canDeleteProjects: isAdmin,
+        canCreateTasks: isEditor || (!!scoped && scoped.size > 0),
+        canReorderTasks: isEditor,
+        canManageOrganization: isAdmin,
+        canEditTask: task => isEditor || (!!scoped && scoped.has(task.employeeId)),
+        assignableEmployeeIds: isEditor ? null : scoped || new Set(),
+    };
+};
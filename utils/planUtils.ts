@@ -0,0 +1,174 @@
+import { Department, Employee, TaskKind } from '../types';
+import { addDays, formatDate } from './dateUtils';
+import { WorkCalendar, getWorkingEndDate, nextWorkingDay } from './calendarUtils';
+import { matchEmployees } from './taskEntryUtils';
+
+// What a plan is generated from: the brief as pasted, the first day and the departments taking part
+export interface PlanRequest {
+    brief: string;
+    startDate: string; // YYYY-MM-DD
+    departments: { name: string; employees: string[] }[];
+}
+
+// One step of a proposed plan, with people and order by name and number as a model writes them
+export interface PlanTaskProposal {
+    name: string;
+    durationDays: number; // working days
+    dependsOn?: number[]; // 1-based numbers of earlier steps
+    departmentName?: string;
+    assigneeName?: string;
+    isMilestone?: boolean;
+    description?: string;
+}
+
+export interface PlanProposal {
+    projectName: string;
+    tasks: PlanTaskProposal[];
+}
+
+// A row of the review grid. Keys stay put when rows are added or removed, so predecessors survive edits.
+export interface PlanRow {
+    key: string;
+    name: string;
+    kind: TaskKind;
+    employeeId: string;
+    duration: number; // working days
+    predecessorKeys: string[];
+    description: string;
+}
+
+export interface PlanDraft {
+    projectName: string;
+    rows: PlanRow[];
+    notes: string[];
+}
+
+let rowCounter = 0;
+export const newPlanRowKey = () => `row-${Date.now().toString(36)}-${(rowCounter++).toString(36)}`;
+
+// --- Local Plan ---
+// The stand-in for a model: the same phases for every brief, handed to the departments in turn.
+// Deterministic, so it also serves as the canned answer in offline tests.
+
+const LOCAL_PHASES: { name: string; durationDays: number; isMilestone?: boolean }[] = [
+    { name: '착수 회의', durationDays: 1 },
+    { name: '요구사항 정리', durationDays: 5 },
+    { name: '설계', durationDays: 10 },
+    { name: '설계 검토', durationDays: 1, isMilestone: true },
+    { name: '구현', durationDays: 15 },
+    { name: '테스트', durationDays: 5 },
+    { name: '완료 보고', durationDays: 2 },
+];
+
+const MAX_PROJECT_NAME = 40;
+
+// The first line of the brief, shortened
+export const projectNameFromBrief = (brief: string) => {
+    const firstLine = brief.split('\n').map(line => line.trim()).find(Boolean) || '';
+    const name = firstLine.replace(/^#+\s*/, '');
+    if (!name) return '새 프로젝트';
+    return name.length > MAX_PROJECT_NAME ? `${name.slice(0, MAX_PROJECT_NAME)}…` : name;
+};
+
+export const proposePlanLocally = ({ brief, departments }: PlanRequest): PlanProposal => {
+    const taken = new Map<string, number>();
+    return {
+        projectName: projectNameFromBrief(brief),
+        tasks: LOCAL_PHASES.map((phase, index) => {
+            const department = departments.length > 0 ? departments[index % departments.length] : undefined;
+            // Each department's people take its steps in turn
+            const turn = department ? taken.get(department.name) ?? 0 : 0;
+            if (department) taken.set(department.name, turn + 1);
+            return {
+                name: phase.name,
+                durationDays: phase.durationDays,
+                dependsOn: index > 0 ? [index] : [],
+                departmentName: department?.name,
+                assigneeName: department && department.employees.length > 0 ? department.employees[turn % department.employees.length] : undefined,
+                isMilestone: phase.isMilestone,
+            };
+        }),
+    };
+};
+
+// --- Resolving ---
+
+// Names become ids: an assignee by name, else someone from the named department with the fewest steps so far.
+// Predecessors may only point backwards, which keeps the plan free of loops.
+export const resolvePlanProposal = (proposal: PlanProposal, employees: Employee[], departments: Department[]): PlanDraft => {
+    const notes: string[] = [];
+    const load = new Map<string, number>();
+    const keys = proposal.tasks.map(() => newPlanRowKey());
+
+    const pickFromDepartment = (departmentName: string | undefined) => {
+        const department = departmentName ? departments.find(d => d.name.trim() === departmentName.trim()) : undefined;
+        const people = employees.filter(e => e.departmentId === department?.id);
+        return [...people].sort((a, b) => (load.get(a.id) ?? 0) - (load.get(b.id) ?? 0))[0];
+    };
+
+    const rows = proposal.tasks.map((proposed, index): PlanRow => {
+        const matches = proposed.assigneeName ? matchEmployees(proposed.assigneeName, employees) : [];
+        const assignee = matches.length === 1 ? matches[0] : pickFromDepartment(proposed.departmentName);
+        if (proposed.assigneeName && matches.length !== 1) {
+            notes.push(`${index + 1}. ${proposed.name}: '${proposed.assigneeName}' 대신 ${assignee ? assignee.name : '미정'}으로 배정했습니다.`);
+        }
+        if (assignee) load.set(assignee.id, (load.get(assignee.id) ?? 0) + 1);
+        const predecessorKeys = [...new Set(proposed.dependsOn || [])]
+            .filter(n => Number.isInteger(n) && n >= 1 && n <= index)
+            .map(n => keys[n - 1]);
+        return {
+            key: keys[index],
+            name: proposed.name.trim(),
+            kind: proposed.isMilestone ? 'milestone' : 'task',
+            employeeId: assignee?.id || '',
+            duration: proposed.isMilestone ? 1 : Math.max(1, Math.round(proposed.durationDays || 1)),
+            predecessorKeys,
+            description: proposed.description?.trim() || '',
+        };
+    });
+    return { projectName: proposal.projectName.trim() || '새 프로젝트', rows, notes };
+};
+
+// --- Scheduling ---
+
+export interface PlanRowSchedule {
+    startDate: Date;
+    endDate: Date;
+}
+
+// Each row starts on the first working day after its last predecessor ends, or on the plan start.
+// Predecessors later in the grid are ignored, as they would be scheduled after this row.
+export const schedulePlanRows = (rows: PlanRow[], start: Date, calendar: WorkCalendar): Map<string, PlanRowSchedule> => {
+    const schedule = new Map<string, PlanRowSchedule>();
+    const planStart = nextWorkingDay(start, calendar);
+    for (const row of rows) {
+        let earliest = planStart;
+        for (const key of row.predecessorKeys) {
+            const predecessor = schedule.get(key);
+            if (predecessor) {
+                const after = nextWorkingDay(addDays(predecessor.endDate, 1), calendar);
+                if (after > earliest) earliest = after;
+            }
+        }
+        const endDate = row.kind === 'milestone' ? earliest : getWorkingEndDate(earliest, row.duration, calendar);
+        schedule.set(row.key, { startDate: earliest, endDate });
+    }
+    return schedule;
+};
+
+// "1, 3" in the grid → keys of earlier rows; numbers out of range are dropped
+export const parsePredecessorNumbers = (text: string, rows: PlanRow[], index: number): string[] =>
+    [...new Set(text.split(/[\s,]+/).filter(Boolean).map(Number))]
+        .filter(n => Number.isInteger(n) && n >= 1 && n <= index)
+        .map(n => rows[n - 1].key);
+
+export const formatPredecessorNumbers = (row: PlanRow, rows: PlanRow[]) =>
+    row.predecessorKeys.map(key => rows.findIndex(r => r.key === key) + 1).filter(n => n > 0).join(', ');
+
+export const describePlanSpan = (schedule: Map<string, PlanRowSchedule>) => {
+    const spans = [...schedule.values()];
+    if (spans.length === 0) return '';
+    const first = spans.reduce((min, s) => s.startDate < min ? s.startDate : min, spans[0].startDate);
+    const last = spans.reduce((max, s) => s.endDate > max ? s.endDate : max, spans[0].endDate);
+    return `${formatDate(first)} ~ ${formatDate(last)}`;
+};
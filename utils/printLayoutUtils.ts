@@ -0,0 +1,68 @@
+import { Project, Task } from '../types';
+import { ZoomLevel } from './timelineUtils';
+
+export type PaperSize = 'A4' | 'A3';
+
+// Landscape sheets in CSS pixels (96 dpi) and millimetres
+export const PAPER_SIZES: Record<PaperSize, { width: number; height: number; widthMm: number; heightMm: number }> = {
+    A4: { width: 1123, height: 794, widthMm: 297, heightMm: 210 },
+    A3: { width: 1587, height: 1123, widthMm: 420, heightMm: 297 },
+};
+
+export const PRINT_METRICS = {
+    margin: 32,
+    titleHeight: 48,
+    headerHeight: 36,
+    legendHeight: 28,
+    projectRowHeight: 24,
+    taskRowHeight: 20,
+};
+
+export type PrintRow =
+    | { type: 'project'; project: Project; tasks: Task[] }
+    | { type: 'task'; project: Project; task: Task };
+
+const overlaps = (task: Task, start: Date, end: Date) =>
+    new Date(task.startDate).getTime() <= end.getTime() && new Date(task.endDate).getTime() >= start.getTime();
+
+// A project row followed by its tasks that touch [start, end]; projects with none are left out
+export const buildPrintRows = (projects: Project[], start: Date, end: Date): PrintRow[] =>
+    projects.flatMap(project => {
+        const tasks = project.tasks.filter(t => overlaps(t, start, end));
+        if (tasks.length === 0) return [];
+        return [{ type: 'project' as const, project, tasks }, ...tasks.map(task => ({ type: 'task' as const, project, task }))];
+    });
+
+export const getPrintRowHeight = (row: PrintRow) => row.type === 'project' ? PRINT_METRICS.projectRowHeight : PRINT_METRICS.taskRowHeight;
+
+// Room left for rows once the title block, column headers and legend are placed
+export const getPrintBodyHeight = (paper: PaperSize) => {
+    const { margin, titleHeight, headerHeight, legendHeight } = PRINT_METRICS;
+    return PAPER_SIZES[paper].height - margin * 2 - titleHeight - headerHeight - legendHeight;
+};
+
+// Fills pages top to bottom. A project row never ends a page, so it always sits above its first task.
+export const paginateRows = (rows: PrintRow[], bodyHeight: number): PrintRow[][] => {
+    const pages: PrintRow[][] = [[]];
+    let used = 0;
+    rows.forEach((row, i) => {
+        const height = getPrintRowHeight(row);
+        const next = rows[i + 1];
+        const needed = row.type === 'project' && next ? height + getPrintRowHeight(next) : height;
+        if (used + needed > bodyHeight && pages[pages.length - 1].length > 0) {
+            pages.push([]);
+            used = 0;
+        }
+        pages[pages.length - 1].push(row);
+        used += height;
+    });
+    return pages;
+};
+
+// Finest header unit whose columns are still wide enough to label
+export const choosePrintZoom = (pixelsPerDay: number): ZoomLevel => {
+    if (pixelsPerDay >= 16) return 'day';
+    if (pixelsPerDay * 7 >= 28) return 'week';
+    if (pixelsPerDay * 30 >= 24) return 'month';
+    return 'quarter';
+};
@@ -0,0 +1,97 @@
+import { Project, Task, Department, Employee, TaskDependency, Baseline, RealtimeChange } from '../types';
+
+type RealtimeTable = RealtimeChange['table'];
+type ChangeOf<T extends RealtimeTable> = Extract<RealtimeChange, { table: T }>;
+
+const changesFor = <T extends RealtimeTable>(changes: RealtimeChange[], table: T) =>
+    changes.filter((c): c is ChangeOf<T> => c.table === table);
+
+// Stable, so rows without a stored position keep their current order
+const byPosition = <T extends { position?: number }>(items: T[]) => [...items].sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+
+const byName = <T extends { name: string }>(items: T[]) => [...items].sort((a, b) => a.name.localeCompare(b.name));
+
+// Replaces or appends each changed row and drops deleted ones; untouched rows keep their objects
+const applyRows = <T extends { id: string }>(rows: T[], changes: { id: string; row: T | null }[]) => {
+    if (changes.length === 0) return rows;
+    const changed = new Map(changes.map(c => [c.id, c.row]));
+    const next = rows.filter(r => changed.get(r.id) !== null).map(r => changed.get(r.id) || r);
+    const known = new Set(rows.map(r => r.id));
+    changes.forEach(c => { if (c.row && !known.has(c.id)) next.push(c.row); });
+    return next;
+};
+
+// Rows only move when a change gives them a new position, as a reorder does
+export const applyProjectChanges = (projects: Project[], changes: RealtimeChange[]): Project[] => {
+    const projectChanges = changesFor(changes, 'projects');
+    const taskChanges = changesFor(changes, 'tasks');
+    if (projectChanges.length === 0 && taskChanges.length === 0) return projects;
+
+    let next = projects;
+    let moved = false;
+    projectChanges.forEach(({ id, row }) => {
+        const existing = next.find(p => p.id === id);
+        if (!row) {
+            next = next.filter(p => p.id !== id); // its tasks go with it, as the cascade does
+        } else if (existing) {
+            moved = moved || existing.position !== row.position;
+            next = next.map(p => p.id === id ? { ...p, ...row } : p);
+        } else {
+            moved = true;
+            next = [...next, { ...row, tasks: [] }];
+        }
+    });
+    if (moved) next = byPosition(next);
+
+    taskChanges.forEach(({ id, row }) => {
+        const owner = next.find(p => p.tasks.some(t => t.id === id));
+        if (!row) {
+            if (owner) next = next.map(p => p === owner ? { ...p, tasks: p.tasks.filter(t => t.id !== id) } : p);
+            return;
+        }
+        const { projectId, ...task } = row;
+        next = next.map(p => {
+            if (p.id === projectId) {
+                const existing = p.tasks.find(t => t.id === id);
+                const tasks: Task[] = existing ? p.tasks.map(t => t.id === id ? task : t) : [...p.tasks, task];
+                return { ...p, tasks: existing && existing.position === task.position ? tasks : byPosition(tasks) };
+            }
+            // Moved to another project
+            return p === owner ? { ...p, tasks: p.tasks.filter(t => t.id !== id) } : p;
+        });
+    });
+    return next;
+};
+
+// Same order as getEmployees: by name
+export const applyEmployeeChanges = (employees: Employee[], changes: RealtimeChange[]): Employee[] => {
+    const employeeChanges = changesFor(changes, 'employees');
+    return employeeChanges.length === 0 ? employees : byName(applyRows(employees, employeeChanges));
+};
+
+// Departments hold their members too, so employee changes land here as well
+export const applyDepartmentChanges = (departments: Department[], changes: RealtimeChange[]): Department[] => {
+    const departmentChanges = changesFor(changes, 'departments');
+    const employeeChanges = changesFor(changes, 'employees');
+    if (departmentChanges.length === 0 && employeeChanges.length === 0) return departments;
+
+    const members = new Map(departments.map(d => [d.id, d.employees]));
+    const next = byName(applyRows(
+        departments.map(({ employees, ...d }) => d),
+        departmentChanges,
+    )).map(d => ({ ...d, employees: members.get(d.id) || [] }));
+    if (employeeChanges.length === 0) return next;
+
+    const changedIds = new Set(employeeChanges.map(c => c.id));
+    return next.map(d => {
+        const joined = employeeChanges.flatMap(c => c.row && c.row.departmentId === d.id ? [c.row] : []);
+        const kept = d.employees.filter(e => !changedIds.has(e.id));
+        return kept.length === d.employees.length && joined.length === 0 ? d : { ...d, employees: byName([...kept, ...joined]) };
+    });
+};
+
+export const applyDependencyChanges = (dependencies: TaskDependency[], changes: RealtimeChange[]): TaskDependency[] =>
+    applyRows(dependencies, changesFor(changes, 'task_dependencies'));
+
+export const applyBaselineChanges = (baselines: Baseline[], changes: RealtimeChange[]): Baseline[] =>
+    applyRows(baselines, changesFor(changes, 'project_baselines'));
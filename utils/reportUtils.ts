@@ -0,0 +1,224 @@
+import { Project, Task, Employee, Department } from '../types';
+import { addDays, formatDate } from './dateUtils';
+import { WorkCalendar, countWorkingDays } from './calendarUtils';
+import { CalendarScope, getScopeName, getScopeTasks } from './icalUtils';
+
+// --- Weekly Status Report ---
+// What a team lead writes up on Friday: per department, what finished during the week, what is behind and
+// what starts the week after. "Behind" compares progress with the share of working days already elapsed,
+// counted up to the end of the week or today, whichever comes first.
+
+export interface ReportItem {
+    projectName: string;
+    taskName: string;
+    employeeName: string;
+    startDate: Date;
+    endDate: Date;
+    progress: number;
+    expectedProgress: number; // 0–100, from elapsed working days
+    overdue: boolean;
+}
+
+export interface DepartmentReport {
+    departmentId: string; // '' for tasks without a department
+    name: string;
+    completed: ReportItem[];
+    behind: ReportItem[];
+    upcoming: ReportItem[];
+}
+
+export interface WeeklyReport {
+    scopeName: string;
+    weekStart: Date;
+    weekEnd: Date;
+    asOf: Date;
+    departments: DepartmentReport[];
+}
+
+export const REPORT_SECTION_LABELS = {
+    completed: '이번 주 완료',
+    behind: '지연',
+    upcoming: '다음 주 시작',
+} as const;
+
+type ReportSection = keyof typeof REPORT_SECTION_LABELS;
+const SECTIONS = Object.keys(REPORT_SECTION_LABELS) as ReportSection[];
+
+const startOfDay = (date: Date) => {
+    const d = new Date(date);
+    d.setHours(0, 0, 0, 0);
+    return d;
+};
+
+// Weeks run Monday to Sunday, as the timeline draws them
+export const getWeekStart = (date: Date) => {
+    const d = startOfDay(date);
+    return addDays(d, -((d.getDay() + 6) % 7));
+};
+
+// Share of the task's working days that have passed by asOf, asOf included
+export const getExpectedProgress = (task: Task, asOf: Date, calendar: WorkCalendar) => {
+    const start = startOfDay(task.startDate);
+    const end = startOfDay(task.endDate);
+    if (asOf < start) return 0;
+    if (asOf >= end) return 100;
+    const total = countWorkingDays(start, end, calendar);
+    if (total === 0) return 100;
+    return Math.round(countWorkingDays(start, asOf, calendar) / total * 100);
+};
+
+export const buildWeeklyReport = (
+    scope: CalendarScope,
+    projects: Project[],
+    departments: Department[],
+    employees: Employee[],
+    weekStart: Date,
+    calendar: WorkCalendar,
+    today: Date = new Date(),
+): WeeklyReport => {
+    const start = getWeekStart(weekStart);
+    const end = addDays(start, 6);
+    const nextStart = addDays(start, 7);
+    const nextEnd = addDays(start, 13);
+    const todayStart = startOfDay(today);
+    const asOf = todayStart < end ? todayStart : end;
+    const employeeById = new Map(employees.map(e => [e.id, e]));
+
+    const byDepartment = new Map<string, DepartmentReport>();
+    const reportFor = (departmentId: string) => {
+        let report = byDepartment.get(departmentId);
+        if (!report) {
+            report = { departmentId, name: departments.find(d => d.id === departmentId)?.name || '부서 없음', completed: [], behind: [], upcoming: [] };
+            byDepartment.set(departmentId, report);
+        }
+        return report;
+    };
+
+    for (const { task, project } of getScopeTasks(scope, projects, employees)) {
+        const taskStart = startOfDay(task.startDate);
+        const taskEnd = startOfDay(task.endDate);
+        const employee = employeeById.get(task.employeeId);
+        const item: ReportItem = {
+            projectName: project.name,
+            taskName: task.name,
+            employeeName: employee?.name || '미배정',
+            startDate: taskStart,
+            endDate: taskEnd,
+            progress: task.progress,
+            expectedProgress: getExpectedProgress(task, asOf, calendar),
+            overdue: task.progress < 100 && taskEnd < asOf,
+        };
+        const report = reportFor(employee?.departmentId || '');
+        if (task.progress >= 100) {
+            if (taskEnd >= start && taskEnd <= end) report.completed.push(item);
+        } else if (taskStart <= asOf && item.progress < item.expectedProgress) {
+            report.behind.push(item);
+        }
+        if (taskStart >= nextStart && taskStart <= nextEnd) report.upcoming.push(item);
+    }
+
+    // Departments in their usual order, the unassigned last; empty ones are left out
+    const order = [...departments.map(d => d.id), ''];
+    const reports = order
+        .map(id => byDepartment.get(id))
+        .filter((r): r is DepartmentReport => !!r && SECTIONS.some(section => r[section].length > 0));
+    for (const report of reports) {
+        report.completed.sort((a, b) => a.endDate.getTime() - b.endDate.getTime());
+        // The furthest behind first
+        report.behind.sort((a, b) => (b.expectedProgress - b.progress) - (a.expectedProgress - a.progress));
+        report.upcoming.sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+    }
+
+    return { scopeName: getScopeName(scope, projects, departments, employees), weekStart: start, weekEnd: end, asOf, departments: reports };
+};
+
+export const countReportItems = (report: WeeklyReport) =>
+    Object.fromEntries(SECTIONS.map(section => [section, report.departments.reduce((sum, d) => sum + d[section].length, 0)])) as Record<ReportSection, number>;
+
+// The narrative without a model: counts per section and the tasks furthest behind
+export const summarizeReportLocally = (report: WeeklyReport): string => {
+    const counts = countReportItems(report);
+    if (counts.completed + counts.behind + counts.upcoming === 0) return '이번 주에 보고할 작업이 없습니다.';
+    const lines = [`이번 주 완료 ${counts.completed}건, 지연 ${counts.behind}건, 다음 주 시작 ${counts.upcoming}건입니다.`];
+    const behind = report.departments.flatMap(d => d.behind).sort((a, b) => (b.expectedProgress - b.progress) - (a.expectedProgress - a.progress));
+    if (behind.length > 0) {
+        lines.push(`가장 늦은 작업은 ${behind.slice(0, 3).map(item => `${item.projectName} / ${item.taskName} (${item.progress}%, 예정 ${item.expectedProgress}%)`).join(', ')}입니다.`);
+    }
+    for (const department of report.departments) {
+        const parts = SECTIONS.filter(section => department[section].length > 0).map(section => `${REPORT_SECTION_LABELS[section]} ${department[section].length}건`);
+        lines.push(`${department.name}: ${parts.join(', ')}.`);
+    }
+    return lines.join('\n');
+};
+
+// --- Output ---
+
+const describeItem = (item: ReportItem, section: ReportSection) => {
+    const dates = `${formatDate(item.startDate)} ~ ${formatDate(item.endDate)}`;
+    if (section === 'completed') return dates;
+    if (section === 'upcoming') return `${formatDate(item.startDate)} 시작`;
+    return `진행률 ${item.progress}% / 예정 ${item.expectedProgress}%${item.overdue ? ', 종료일 지남' : ''} (${dates})`;
+};
+
+export const getReportTitle = (report: WeeklyReport) => `주간 업무 보고 (${formatDate(report.weekStart)} ~ ${formatDate(report.weekEnd)})`;
+
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]#|<>])/g, '\\$1');
+
+export const reportToMarkdown = (report: WeeklyReport, narrative?: string): string => {
+    const lines = [`# ${getReportTitle(report)}`, '', `범위: ${escapeMarkdown(report.scopeName)} · 기준일: ${formatDate(report.asOf)}`, ''];
+    if (narrative?.trim()) lines.push('## 요약', '', narrative.trim(), '');
+    if (report.departments.length === 0) lines.push('이번 주에 보고할 작업이 없습니다.', '');
+    for (const department of report.departments) {
+        lines.push(`## ${escapeMarkdown(department.name)}`, '');
+        for (const section of SECTIONS) {
+            const items = department[section];
+            if (items.length === 0) continue;
+            lines.push(`### ${REPORT_SECTION_LABELS[section]} (${items.length})`, '');
+            for (const item of items) {
+                lines.push(`- **${escapeMarkdown(item.taskName)}** · ${escapeMarkdown(item.projectName)} · ${escapeMarkdown(item.employeeName)} · ${describeItem(item, section)}`);
+            }
+            lines.push('');
+        }
+    }
+    return lines.join('\n');
+};
+
+const escapeHtml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// A standalone page with inline styles, so it survives being pasted into a mail or saved as a file
+export const reportToHtml = (report: WeeklyReport, narrative?: string): string => {
+    const title = escapeHtml(getReportTitle(report));
+    const body: string[] = [
+        `<h1 style="font-size:20px;margin:0 0 4px">${title}</h1>`,
+        `<p style="color:#6b7280;margin:0 0 16px">범위: ${escapeHtml(report.scopeName)} · 기준일: ${formatDate(report.asOf)}</p>`,
+    ];
+    if (narrative?.trim()) {
+        body.push('<h2 style="font-size:16px;margin:16px 0 8px">요약</h2>');
+        body.push(...narrative.trim().split(/\n{2,}/).map(paragraph => `<p style="margin:0 0 8px;white-space:pre-line">${escapeHtml(paragraph)}</p>`));
+    }
+    if (report.departments.length === 0) body.push('<p>이번 주에 보고할 작업이 없습니다.</p>');
+    for (const department of report.departments) {
+        body.push(`<h2 style="font-size:16px;margin:20px 0 8px;border-bottom:1px solid #e5e7eb;padding-bottom:4px">${escapeHtml(department.name)}</h2>`);
+        for (const section of SECTIONS) {
+            const items = department[section];
+            if (items.length === 0) continue;
+            body.push(`<h3 style="font-size:14px;margin:12px 0 4px">${REPORT_SECTION_LABELS[section]} (${items.length})</h3>`, '<ul style="margin:0;padding-left:20px">');
+            for (const item of items) {
+                body.push(`<li><strong>${escapeHtml(item.taskName)}</strong> · ${escapeHtml(item.projectName)} · ${escapeHtml(item.employeeName)} · ${escapeHtml(describeItem(item, section))}</li>`);
+            }
+            body.push('</ul>');
+        }
+    }
+    return [
+        '<!DOCTYPE html>',
+        '<html lang="ko"><head><meta charset="utf-8">',
+        `<title>${title}</title></head>`,
+        '<body style="font-family:-apple-system,\'Malgun Gothic\',sans-serif;font-size:13px;color:#111827;max-width:760px;margin:24px auto;padding:0 16px">',
+        ...body,
+        '</body></html>',
+    ].join('\n');
+};
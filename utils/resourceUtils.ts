@@ -0,0 +1,72 @@
+import { Project, Task } from '../types';
+import { addDays, formatDate } from './dateUtils';
+import { WorkCalendar, isWorkingDay } from './calendarUtils';
+
+// employeeId → YYYY-MM-DD → ids of the tasks booked on that working day
+export type ResourceLoad = Map<string, Map<string, string[]>>;
+
+export interface BookingConflict {
+    task: Task;
+    projectName: string;
+    overlapDays: number; // working days shared with the requested range
+}
+
+// More than one task on the same working day counts as double-booked
+export const MAX_TASKS_PER_DAY = 1;
+
+// Milestones are events, not work, so they never add load
+const addsLoad = (task: Task) => task.kind !== 'milestone' && !!task.employeeId;
+
+export const computeResourceLoad = (projects: Project[], calendar: WorkCalendar): ResourceLoad => {
+    const load: ResourceLoad = new Map();
+    projects.forEach(project => project.tasks.forEach(task => {
+        if (!addsLoad(task)) return;
+        let days = load.get(task.employeeId);
+        if (!days) { days = new Map(); load.set(task.employeeId, days); }
+        const end = new Date(task.endDate).getTime();
+        for (let d = new Date(task.startDate); d.getTime() <= end; d = addDays(d, 1)) {
+            if (!isWorkingDay(d, calendar)) continue;
+            const key = formatDate(d);
+            const taskIds = days.get(key);
+            if (taskIds) taskIds.push(task.id);
+            else days.set(key, [task.id]);
+        }
+    }));
+    return load;
+};
+
+// Tasks that share at least one working day with another task of the same employee
+export const findOverallocatedTaskIds = (load: ResourceLoad): Set<string> => {
+    const result = new Set<string>();
+    load.forEach(days => days.forEach(taskIds => {
+        if (taskIds.length > MAX_TASKS_PER_DAY) taskIds.forEach(id => result.add(id));
+    }));
+    return result;
+};
+
+// Highest number of concurrent tasks on any day in [start, start + days)
+export const getPeakLoad = (days: Map<string, string[]> | undefined, start: Date, dayCount: number): number => {
+    if (!days) return 0;
+    let peak = 0;
+    for (let i = 0; i < dayCount; i++) {
+        peak = Math.max(peak, days.get(formatDate(addDays(start, i)))?.length ?? 0);
+    }
+    return peak;
+};
+
+// Existing bookings of an employee that overlap [startDate, endDate] on working days
+export const getBookingConflicts = (projects: Project[], employeeId: string, startDate: Date, endDate: Date, calendar: WorkCalendar, excludeTaskId?: string): BookingConflict[] => {
+    if (!employeeId) return [];
+    return projects.flatMap(project => project.tasks
+        .filter(task => task.id !== excludeTaskId && task.employeeId === employeeId && addsLoad(task))
+        .map(task => {
+            const from = Math.max(new Date(task.startDate).getTime(), startDate.getTime());
+            const to = Math.min(new Date(task.endDate).getTime(), endDate.getTime());
+            let overlapDays = 0;
+            for (let d = new Date(from); d.getTime() <= to; d = addDays(d, 1)) {
+                if (isWorkingDay(d, calendar)) overlapDays++;
+            }
+            return { task, projectName: project.name, overlapDays };
+        })
+        .filter(conflict => conflict.overlapDays > 0));
+};
@@ -0,0 +1,244 @@
+import { Project, Employee, Department, TaskKind } from '../types';
+import { formatDate } from './dateUtils';
+import { WorkCalendar, countWorkingDays, getWorkingEndDate, nextWorkingDay } from './calendarUtils';
+
+export type SpreadsheetField = 'project' | 'task' | 'kind' | 'department' | 'employee' | 'startDate' | 'endDate' | 'duration' | 'progress' | 'description';
+
+// Export column order; the aliases let import recognise sheets made elsewhere
+export const SPREADSHEET_COLUMNS: { field: SpreadsheetField; label: string; aliases: string[] }[] = [
+    { field: 'project', label: '프로젝트', aliases: ['project', '프로젝트명'] },
+    { field: 'task', label: '태스크', aliases: ['task', 'name', '태스크명', '작업', '작업명', '업무'] },
+    { field: 'kind', label: '유형', aliases: ['kind', 'type', '구분'] },
+    { field: 'department', label: '부서', aliases: ['department', 'dept', '부서명'] },
+    { field: 'employee', label: '담당자', aliases: ['employee', 'assignee', 'owner', '직원', '담당'] },
+    { field: 'startDate', label: '시작일', aliases: ['start', 'startdate', '시작'] },
+    { field: 'endDate', label: '종료일', aliases: ['end', 'enddate', 'finish', '종료', '마감일'] },
+    { field: 'duration', label: '기간(근무일)', aliases: ['duration', 'days', '기간', '근무일'] },
+    { field: 'progress', label: '진행률(%)', aliases: ['progress', '진행률', '진척률'] },
+    { field: 'description', label: '설명', aliases: ['description', 'note', 'notes', '비고', '메모'] },
+];
+
+// Column index per field, -1 when the sheet has no such column
+export type ColumnMapping = Record<SpreadsheetField, number>;
+
+export type SpreadsheetCell = string | number;
+
+const KIND_LABELS: Record<TaskKind, string> = { task: '태스크', milestone: '마일스톤' };
+
+// Header row plus one row per task. Projects without tasks get a row of their own so they survive a round trip.
+export const buildExportRows = (projects: Project[], employees: Employee[], departments: Department[], calendar: WorkCalendar): SpreadsheetCell[][] => {
+    const employeeMap = new Map(employees.map(e => [e.id, e]));
+    const departmentNames = new Map(departments.map(d => [d.id, d.name]));
+    const rows: SpreadsheetCell[][] = [SPREADSHEET_COLUMNS.map(c => c.label)];
+    projects.forEach(project => {
+        if (project.tasks.length === 0) {
+            rows.push([project.name, '', '', '', '', '', '', '', '', '']);
+            return;
+        }
+        project.tasks.forEach(task => {
+            const employee = employeeMap.get(task.employeeId);
+            const start = new Date(task.startDate);
+            const end = new Date(task.endDate);
+            const isMilestone = task.kind === 'milestone';
+            rows.push([
+                project.name,
+                task.name,
+                KIND_LABELS[task.kind || 'task'],
+                employee ? departmentNames.get(employee.departmentId) || '' : '',
+                employee?.name || '',
+                formatDate(start),
+                formatDate(end),
+                isMilestone ? '' : countWorkingDays(start, end, calendar),
+                task.progress,
+                task.description || '',
+            ]);
+        });
+    });
+    return rows;
+};
+
+// Spreadsheet apps run a text cell that starts with one of these as a formula (CSV injection)
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// A leading ' makes Excel show such a cell as text; import takes it off again
+const escapeCsvCell = (cell: SpreadsheetCell) => {
+    const text = typeof cell === 'string' && FORMULA_START.test(cell) ? `'${cell}` : String(cell);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: SpreadsheetCell[][]) => rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n');
+
+// RFC 4180 parsing: quoted cells may hold commas, doubled quotes and line breaks
+export const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+    const source = text.replace(/^\uFEFF/, '');
+    for (let i = 0; i < source.length; i++) {
+        const ch = source[i];
+        if (inQuotes) {
+            if (ch === '"' && source[i + 1] === '"') { cell += '"'; i++; }
+            else if (ch === '"') inQuotes = false;
+            else cell += ch;
+        } else if (ch === '"') {
+            inQuotes = true;
+        } else if (ch === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && source[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += ch;
+        }
+    }
+    if (cell !== '' || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(c => c.trim() !== ''));
+};
+
+const normalizeHeader = (text: string) => text.toLowerCase().replace(/[\s_()%\-]/g, '');
+
+// Each field takes the first unclaimed column whose header matches its label or one of its aliases
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+    const normalized = headers.map(h => normalizeHeader(String(h)));
+    const claimed = new Set<number>();
+    const mapping = {} as ColumnMapping;
+    SPREADSHEET_COLUMNS.forEach(({ field, label, aliases }) => {
+        const names = [label, ...aliases].map(normalizeHeader);
+        const index = normalized.findIndex((h, i) => !claimed.has(i) && names.includes(h));
+        if (index !== -1) claimed.add(index);
+        mapping[field] = index;
+    });
+    return mapping;
+};
+
+// Fields without which no row can be imported
+export const REQUIRED_FIELDS: SpreadsheetField[] = ['project', 'task', 'employee', 'startDate'];
+
+export const getMissingFields = (mapping: ColumnMapping): SpreadsheetField[] => {
+    const missing = REQUIRED_FIELDS.filter(f => mapping[f] === -1);
+    if (mapping.endDate === -1 && mapping.duration === -1) missing.push('endDate');
+    return missing;
+};
+
+export interface ImportTaskData {
+    name: string;
+    kind: TaskKind;
+    employeeId: string;
+    startDate: Date;
+    endDate: Date;
+    progress: number;
+    description?: string;
+}
+
+export interface ImportRow {
+    rowNumber: number; // row in the sheet, counting the header as 1
+    projectName: string;
+    task: ImportTaskData | null; // null for a row that only names a project
+    errors: string[];
+}
+
+// Accepts 2024-03-05, 2024/3/5, 2024.03.05 and Excel serial day numbers
+export const parseDateCell = (value: string): Date | null => {
+    const text = value.trim();
+    const match = text.match(/^(\d{4})[-./](\d{1,2})[-./](\d{1,2})\.?$/);
+    if (match) {
+        const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+        const date = new Date(year, month - 1, day);
+        return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+    }
+    if (/^\d{5}(\.\d+)?$/.test(text)) {
+        // Excel serials count days from 1899-12-30 for every date after February 1900
+        return new Date(1899, 11, 30 + Math.floor(Number(text)));
+    }
+    return null;
+};
+
+const parseKind = (value: string): TaskKind | null => {
+    const text = value.trim().toLowerCase();
+    if (['', 'task', '태스크', '작업'].includes(text)) return 'task';
+    if (['milestone', '마일스톤'].includes(text)) return 'milestone';
+    return null;
+};
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const validateImportRows = (rows: string[][], mapping: ColumnMapping, employees: Employee[], departments: Department[], calendar: WorkCalendar): ImportRow[] =>
+    rows.map((cells, index) => {
+        const get = (field: SpreadsheetField) => mapping[field] === -1 ? '' : String(cells[mapping[field]] ?? '').replace(/^'(?=[=+\-@\t\r])/, '').trim();
+        const errors: string[] = [];
+        const projectName = get('project');
+        const name = get('task');
+        if (!projectName) errors.push('프로젝트 이름이 비어 있습니다');
+
+        const otherFields = SPREADSHEET_COLUMNS.filter(c => c.field !== 'project').map(c => get(c.field));
+        if (otherFields.every(v => v === '')) {
+            return { rowNumber: index + 2, projectName, task: null, errors };
+        }
+        if (!name) errors.push('태스크 이름이 비어 있습니다');
+
+        const kind = parseKind(get('kind'));
+        if (!kind) errors.push(`알 수 없는 유형 '${get('kind')}'`);
+
+        // Employee names are matched case-insensitively; a department column settles duplicates
+        let employeeId = '';
+        const employeeName = get('employee');
+        const departmentName = get('department');
+        if (!employeeName) {
+            errors.push('담당자가 비어 있습니다');
+        } else {
+            let candidates = employees.filter(e => sameName(e.name, employeeName));
+            if (departmentName) {
+                const department = departments.find(d => sameName(d.name, departmentName));
+                if (!department) errors.push(`부서 '${departmentName}'을(를) 찾을 수 없습니다`);
+                else candidates = candidates.filter(e => e.departmentId === department.id);
+            }
+            if (candidates.length === 1) employeeId = candidates[0].id;
+            else if (candidates.length === 0) errors.push(`담당자 '${employeeName}'을(를) 찾을 수 없습니다`);
+            else errors.push(`담당자 '${employeeName}'이(가) 여러 부서에 있습니다. 부서 열을 지정하세요`);
+        }
+
+        // Given dates are kept as they are; a start plus a duration is scheduled like the task form does
+        let startDate = parseDateCell(get('startDate'));
+        let endDate: Date | null = null;
+        if (!startDate) {
+            errors.push(get('startDate') ? `시작일 '${get('startDate')}'을(를) 읽을 수 없습니다` : '시작일이 비어 있습니다');
+        } else if (kind === 'milestone') {
+            endDate = startDate;
+        } else if (get('endDate')) {
+            endDate = parseDateCell(get('endDate'));
+            if (!endDate) errors.push(`종료일 '${get('endDate')}'을(를) 읽을 수 없습니다`);
+            else if (endDate.getTime() < startDate.getTime()) errors.push('종료일이 시작일보다 빠릅니다');
+        } else if (get('duration')) {
+            const duration = Number(get('duration'));
+            if (!Number.isInteger(duration) || duration < 1) {
+                errors.push(`기간 '${get('duration')}'은(는) 1 이상의 정수여야 합니다`);
+            } else {
+                startDate = nextWorkingDay(startDate, calendar);
+                endDate = getWorkingEndDate(startDate, duration, calendar);
+            }
+        } else {
+            errors.push('종료일 또는 기간이 필요합니다');
+        }
+
+        let progress = 0;
+        if (get('progress')) {
+            progress = Number(get('progress').replace(/%$/, ''));
+            if (!Number.isFinite(progress) || progress < 0 || progress > 100) {
+                errors.push(`진행률 '${get('progress')}'은(는) 0~100 사이여야 합니다`);
+                progress = 0;
+            }
+        }
+
+        const task = errors.length === 0 && kind && startDate && endDate
+            ? { name, kind, employeeId, startDate, endDate, progress: Math.round(progress), description: get('description') || undefined }
+            : null;
+        return { rowNumber: index + 2, projectName, task, errors };
+    });
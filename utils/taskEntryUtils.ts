@@ -0,0 +1,277 @@
+import { Project, Employee, TaskKind } from '../types';
+import { addDays, formatDate } from './dateUtils';
+import { WorkCalendar, countWorkingDays, nextWorkingDay } from './calendarUtils';
+import { parseDateCell } from './spreadsheetUtils';
+
+// What a model (or the local rules) pulls out of one sentence, before anything is matched against the data.
+// Names are as written; dates are YYYY-MM-DD.
+export interface TaskEntryFields {
+    taskName: string;
+    projectName?: string;
+    assigneeName?: string;
+    startDate?: string;
+    endDate?: string;
+    durationDays?: number; // working days
+    isMilestone?: boolean;
+}
+
+export interface TaskEntryContext {
+    today: Date;
+    projectNames: string[];
+    employeeNames: string[];
+}
+
+// A new task ready for TaskModal, with what could not be matched explained in notes
+export interface TaskDraft {
+    projectId: string | null;
+    // Why projectId is null, for whoever picks the project
+    projectNote: string | null;
+    name: string;
+    kind: TaskKind;
+    employeeId: string;
+    startDate: string; // YYYY-MM-DD
+    duration: number; // working days
+    description: string;
+    notes: string[];
+}
+
+// Same default as a new task in TaskModal
+const DEFAULT_DURATION = 3;
+
+const WEEKDAYS = ['일', '월', '화', '수', '목', '금', '토'];
+const TITLES = ['대리', '과장', '차장', '부장', '사원', '주임', '팀장', '실장', '이사', '책임', '선임', '수석', '연구원', '매니저', '님', '씨'];
+const NUMBER_WORDS: Record<string, number> = { 하루: 1, 이틀: 2, 사흘: 3, 나흘: 4, 닷새: 5, 엿새: 6, 이레: 7, 열흘: 10 };
+
+const normalizeName = (name: string) => name.replace(/\s+/g, '').replace(/프로젝트$/, '').toLowerCase();
+
+const stripTitle = (name: string): string => {
+    const compact = name.replace(/\s+/g, '');
+    const title = TITLES.find(t => compact.endsWith(t) && compact.length > t.length);
+    // Titles can stack with an honorific: 박과장님 → 박
+    return title ? stripTitle(compact.slice(0, -title.length)) : compact;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Monday-based, as the timeline draws weeks
+const startOfWeek = (date: Date) => addDays(date, -((date.getDay() + 6) % 7));
+
+const startOfDay = (date: Date) => {
+    const d = new Date(date);
+    d.setHours(0, 0, 0, 0);
+    return d;
+};
+
+// --- Local Rules ---
+// Reads the common ways of writing a task in Korean without a model: dates relative to today ("다음주 월요일",
+// "내일", "3월 5일", "20일까지"), lengths ("5일간", "2주 동안", "사흘"), a person ("김대리", or a known name) and a project
+// ("설계 프로젝트", or a known name). Whatever is left over becomes the task name. Deterministic for a given today.
+
+interface DateMatch {
+    date: Date;
+    until: boolean; // followed by 까지: an end date
+    text: string;
+}
+
+const DATE_PATTERNS: { pattern: RegExp; toDate: (m: RegExpMatchArray, today: Date) => Date | null }[] = [
+    { pattern: /(\d{4}[-./]\d{1,2}[-./]\d{1,2})/, toDate: m => parseDateCell(m[1]) },
+    {
+        pattern: /(\d{1,2})\s*월\s*(\d{1,2})\s*일/,
+        toDate: (m, today) => {
+            const date = new Date(today.getFullYear(), Number(m[1]) - 1, Number(m[2]));
+            // A day already past this year means next year's
+            return date < today ? new Date(today.getFullYear() + 1, Number(m[1]) - 1, Number(m[2])) : date;
+        },
+    },
+    // A day without a month, only before 까지 or 부터 so that "5일 동안" stays a length: this month's, or next month's once past
+    {
+        pattern: /(?<!\d)(\d{1,2})\s*일(?=\s*(?:까지|부터))/,
+        toDate: (m, today) => {
+            const day = Number(m[1]);
+            for (const month of [today.getMonth(), today.getMonth() + 1]) {
+                const date = new Date(today.getFullYear(), month, day);
+                if (date.getDate() === day && date >= today) return date;
+            }
+            return null;
+        },
+    },
+    {
+        pattern: /(이번\s*주|금주|다음\s*주|담주|차주|다다음\s*주)\s*([월화수목금토일])요일/,
+        toDate: (m, today) => {
+            const weeks = /다다음/.test(m[1]) ? 2 : /이번|금주/.test(m[1]) ? 0 : 1;
+            return addDays(startOfWeek(today), weeks * 7 + (WEEKDAYS.indexOf(m[2]) + 6) % 7);
+        },
+    },
+    {
+        pattern: /(이번\s*주|금주|다음\s*주|담주|차주|다다음\s*주)/,
+        toDate: (m, today) => {
+            const weeks = /다다음/.test(m[1]) ? 2 : /이번|금주/.test(m[1]) ? 0 : 1;
+            return weeks === 0 ? today : addDays(startOfWeek(today), weeks * 7);
+        },
+    },
+    { pattern: /(다음\s*달|다음\s*월|내달)/, toDate: (_, today) => new Date(today.getFullYear(), today.getMonth() + 1, 1) },
+    // The coming one, today included
+    { pattern: /([월화수목금토일])요일/, toDate: (m, today) => addDays(today, (WEEKDAYS.indexOf(m[1]) - today.getDay() + 7) % 7) },
+    { pattern: /(오늘|금일)/, toDate: (_, today) => today },
+    { pattern: /(내일|명일)/, toDate: (_, today) => addDays(today, 1) },
+    { pattern: /(모레)/, toDate: (_, today) => addDays(today, 2) },
+];
+
+// Takes dates out of the text one at a time, earliest pattern first, with the particle that follows them
+const takeDates = (text: string, today: Date): { dates: DateMatch[]; rest: string } => {
+    const dates: DateMatch[] = [];
+    let rest = text;
+    for (const { pattern, toDate } of DATE_PATTERNS) {
+        const withParticle = new RegExp(`${pattern.source}\\s*(부터|에서|까지|에)?`);
+        let match = rest.match(withParticle);
+        while (match && match.index !== undefined) {
+            const date = toDate(match, today);
+            if (date) dates.push({ date: startOfDay(date), until: match[match.length - 1] === '까지', text: match[0] });
+            rest = rest.slice(0, match.index) + ' ' + rest.slice(match.index + match[0].length);
+            match = rest.match(withParticle);
+        }
+    }
+    return { dates, rest };
+};
+
+const takeDuration = (text: string): { days?: number; rest: string } => {
+    const numeric = text.match(/(\d+)\s*(일|주|개월|달)\s*(간|동안)?/);
+    if (numeric && numeric.index !== undefined) {
+        const n = Number(numeric[1]);
+        const days = numeric[2] === '일' ? n : numeric[2] === '주' ? n * 5 : n * 20;
+        return { days, rest: text.slice(0, numeric.index) + ' ' + text.slice(numeric.index + numeric[0].length) };
+    }
+    const words = text.match(new RegExp(`(${Object.keys(NUMBER_WORDS).join('|')}|일주일|한\\s*주|두\\s*주)\\s*(간|동안)?`));
+    if (words && words.index !== undefined) {
+        const word = words[1].replace(/\s+/g, '');
+        const days = NUMBER_WORDS[word] ?? (word === '두주' ? 10 : 5);
+        return { days, rest: text.slice(0, words.index) + ' ' + text.slice(words.index + words[0].length) };
+    }
+    return { rest: text };
+};
+
+// A known name wins; otherwise anything written as "<name> 프로젝트"
+const takeProject = (text: string, projectNames: string[]): { name?: string; rest: string } => {
+    const known = [...projectNames].sort((a, b) => b.length - a.length).find(name => name.trim() && text.includes(name));
+    if (known) {
+        const rest = text.replace(new RegExp(`${escapeRegExp(known)}(\\s*프로젝트)?\\s*(에서|에|의|로)?`), ' ');
+        return { name: known, rest };
+    }
+    const written = text.match(/([^\s,]+)\s*프로젝트\s*(에서|에|의|로)?/);
+    if (written && written.index !== undefined) {
+        return { name: written[1], rest: text.slice(0, written.index) + ' ' + text.slice(written.index + written[0].length) };
+    }
+    return { rest: text };
+};
+
+// A known name wins; otherwise a word ending in a job title, such as 김대리 or 박 과장님
+const takeAssignee = (text: string, employeeNames: string[]): { name?: string; rest: string } => {
+    const known = [...employeeNames].sort((a, b) => b.length - a.length).find(name => name.trim() && text.includes(name));
+    const titles = TITLES.join('|');
+    const pattern = known
+        ? new RegExp(`${escapeRegExp(known)}\\s*(?:${titles})?(?:님)?\\s*(이|가|은|는|에게|께서)?(?=\\s|,|$)`)
+        : new RegExp(`(?<![가-힣])([가-힣]{1,4}\\s?(?:${titles})(?:님)?)\\s*(이|가|은|는|에게|께서)?(?=\\s|,|$)`);
+    const match = text.match(pattern);
+    if (!match || match.index === undefined) return { name: known, rest: text };
+    const name = known || match[1].replace(/\s+/g, '');
+    return { name, rest: text.slice(0, match.index) + ' ' + text.slice(match.index + match[0].length) };
+};
+
+// What remains once everything else is taken out, without leftover particles and commas
+const cleanTaskName = (text: string) => text
+    .replace(/마일스톤/g, ' ')
+    .split(/[,\n]/)
+    .map(part => part.replace(/\s+/g, ' ').replace(/^(을|를|은|는|이|가|로|으로)\s/, '').replace(/\s*(을|를)?\s*(진행|하기)$/, '').trim())
+    .filter(Boolean)
+    .join(', ');
+
+export const parseTaskEntryLocally = (text: string, context: TaskEntryContext): TaskEntryFields => {
+    const today = startOfDay(context.today);
+    const project = takeProject(text, context.projectNames);
+    const assignee = takeAssignee(project.rest, context.employeeNames);
+    const { dates, rest: withoutDates } = takeDates(assignee.rest, today);
+    const duration = takeDuration(withoutDates);
+    const start = dates.find(d => !d.until);
+    const end = dates.find(d => d.until);
+    return {
+        taskName: cleanTaskName(duration.rest),
+        projectName: project.name,
+        assigneeName: assignee.name,
+        startDate: start ? formatDate(start.date) : undefined,
+        endDate: end ? formatDate(end.date) : undefined,
+        durationDays: duration.days,
+        isMilestone: /마일스톤/.test(text) || undefined,
+    };
+};
+
+// --- Resolving ---
+
+const findProject = (name: string, projects: Project[]) => {
+    const target = normalizeName(name);
+    const exact = projects.filter(p => normalizeName(p.name) === target);
+    if (exact.length > 0) return exact;
+    return projects.filter(p => normalizeName(p.name).includes(target) || target.includes(normalizeName(p.name)));
+};
+
+// Exact name first, then the name with its title taken off, then a surname alone ("김대리" → 김*)
+export const matchEmployees = (name: string, employees: Employee[]) => {
+    const compact = name.replace(/\s+/g, '');
+    const exact = employees.filter(e => e.name.replace(/\s+/g, '') === compact);
+    if (exact.length > 0) return exact;
+    const bare = stripTitle(compact);
+    const byName = employees.filter(e => e.name.replace(/\s+/g, '') === bare);
+    if (byName.length > 0) return byName;
+    return employees.filter(e => e.name.startsWith(bare));
+};
+
+export const resolveTaskDraft = (fields: TaskEntryFields, { projects, employees, calendar, today }: { projects: Project[]; employees: Employee[]; calendar: WorkCalendar; today: Date }): TaskDraft => {
+    const notes: string[] = [];
+
+    let projectId: string | null = null;
+    let projectNote: string | null = null;
+    if (fields.projectName) {
+        const matches = findProject(fields.projectName, projects);
+        if (matches.length === 1) projectId = matches[0].id;
+        else if (matches.length > 1) projectNote = `'${fields.projectName}'에 해당하는 프로젝트가 여러 개입니다: ${matches.map(p => p.name).join(', ')}`;
+        else projectNote = `'${fields.projectName}' 프로젝트를 찾지 못했습니다.`;
+    } else {
+        projectNote = '프로젝트가 지정되지 않았습니다.';
+    }
+
+    let employeeId = '';
+    if (fields.assigneeName) {
+        const matches = matchEmployees(fields.assigneeName, employees);
+        if (matches.length === 1) employeeId = matches[0].id;
+        else if (matches.length > 1) notes.push(`'${fields.assigneeName}'에 해당하는 직원이 여러 명입니다: ${matches.map(e => e.name).join(', ')}`);
+        else notes.push(`'${fields.assigneeName}' 직원을 찾지 못했습니다.`);
+    } else {
+        notes.push('담당자가 지정되지 않았습니다.');
+    }
+
+    const kind: TaskKind = fields.isMilestone ? 'milestone' : 'task';
+    const parsedStart = fields.startDate ? parseDateCell(fields.startDate) : null;
+    if (fields.startDate && !parsedStart) notes.push(`시작일 '${fields.startDate}'을 해석하지 못했습니다.`);
+    const start = parsedStart || startOfDay(today);
+    const parsedEnd = fields.endDate ? parseDateCell(fields.endDate) : null;
+
+    let duration = DEFAULT_DURATION;
+    if (fields.durationDays && fields.durationDays > 0) {
+        duration = Math.round(fields.durationDays);
+    } else if (parsedEnd && parsedEnd >= start) {
+        duration = Math.max(1, countWorkingDays(nextWorkingDay(start, calendar), parsedEnd, calendar));
+    } else if (kind === 'task') {
+        notes.push(`기간이 없어 ${DEFAULT_DURATION}일로 잡았습니다.`);
+    }
+
+    return {
+        projectId,
+        projectNote,
+        name: fields.taskName.trim(),
+        kind,
+        employeeId,
+        startDate: formatDate(start),
+        duration: kind === 'milestone' ? 1 : duration,
+        description: '',
+        notes,
+    };
+};
@@ -0,0 +1,101 @@
+import { addDays, addMonths, formatDate, getDaysBetween, getISOWeek } from './dateUtils';
+
+export type ZoomLevel = 'day' | 'week' | 'month' | 'quarter';
+
+export const ZOOM_LEVELS: ZoomLevel[] = ['day', 'week', 'month', 'quarter'];
+
+export const ZOOM_LABELS: Record<ZoomLevel, string> = {
+    day: '일',
+    week: '주',
+    month: '월',
+    quarter: '분기',
+};
+
+// One header/grid column: a day, an ISO week, a month or a quarter
+export interface TimelineColumn {
+    start: Date;
+    days: number;
+    label: string;
+    subLabel?: string;
+}
+
+// Column width of one unit relative to the day width setting
+const UNIT_WIDTH_FACTOR: Record<ZoomLevel, number> = {
+    day: 1,
+    week: 1.6,
+    month: 2.4,
+    quarter: 3.2,
+};
+
+const UNIT_NOMINAL_DAYS: Record<ZoomLevel, number> = {
+    day: 1,
+    week: 7,
+    month: 30.44,
+    quarter: 91.31,
+};
+
+// Horizontal scale used to place bars: every zoom level is linear in days
+export const getPixelsPerDay = (zoom: ZoomLevel, dayWidth: number): number => dayWidth * UNIT_WIDTH_FACTOR[zoom] / UNIT_NOMINAL_DAYS[zoom];
+
+// Snaps a date back to the start of the unit it falls in (weeks start on Monday)
+export const startOfZoomUnit = (date: Date, zoom: ZoomLevel): Date => {
+    const d = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    if (zoom === 'week') return addDays(d, -((d.getDay() + 6) % 7));
+    if (zoom === 'month') return new Date(d.getFullYear(), d.getMonth(), 1);
+    if (zoom === 'quarter') return new Date(d.getFullYear(), Math.floor(d.getMonth() / 3) * 3, 1);
+    return d;
+};
+
+// Moves the view by one navigation step; day view keeps the familiar one-week step
+export const shiftByZoomUnit = (date: Date, zoom: ZoomLevel, direction: 1 | -1): Date => {
+    if (zoom === 'month') return addMonths(date, direction);
+    if (zoom === 'quarter') return addMonths(date, direction * 3);
+    return addDays(date, direction * 7);
+};
+
+const nextUnitStart = (start: Date, zoom: ZoomLevel): Date => {
+    if (zoom === 'week') return addDays(start, 7);
+    if (zoom === 'month') return addMonths(start, 1);
+    if (zoom === 'quarter') return addMonths(start, 3);
+    return addDays(start, 1);
+};
+
+const columnLabels = (start: Date, zoom: ZoomLevel): { label: string; subLabel?: string } => {
+    if (zoom === 'week') return { label: `W${getISOWeek(start)}`, subLabel: `${start.getMonth() + 1}/${start.getDate()}` };
+    if (zoom === 'month') return { label: `${start.getMonth() + 1}월` };
+    if (zoom === 'quarter') return { label: `Q${Math.floor(start.getMonth() / 3) + 1}` };
+    return { label: String(start.getDate()), subLabel: start.toLocaleString('ko-KR', { weekday: 'short' }) };
+};
+
+// Builds consecutive columns from an aligned start until at least minDays are covered
+export const buildTimelineColumns = (timelineStart: Date, minDays: number, zoom: ZoomLevel): TimelineColumn[] => {
+    const columns: TimelineColumn[] = [];
+    let start = timelineStart;
+    let covered = 0;
+    while (covered < minDays) {
+        const next = nextUnitStart(start, zoom);
+        const days = getDaysBetween(start, next) - 1;
+        columns.push({ start, days, ...columnLabels(start, zoom) });
+        covered += days;
+        start = next;
+    }
+    return columns;
+};
+
+// Upper header tier: months over days/weeks, years over months/quarters
+export const groupTimelineColumns = (columns: TimelineColumn[], zoom: ZoomLevel): { label: string; days: number }[] => {
+    const groups: { key: string; label: string; days: number }[] = [];
+    columns.forEach(col => {
+        const year = col.start.getFullYear();
+        const key = zoom === 'day' || zoom === 'week' ? `${year}-${col.start.getMonth()}` : String(year);
+        const label = zoom === 'day' || zoom === 'week' ? `${year}년 ${col.start.getMonth() + 1}월` : `${year}년`;
+        const last = groups[groups.length - 1];
+        if (last && last.key === key) last.days += col.days;
+        else groups.push({ key, label, days: col.days });
+    });
+    return groups.map(({ label, days }) => ({ label, days }));
+};
+
+// dateString is YYYY-MM-DD, so plain string comparison orders dates correctly
+export const columnContainsDate = (column: TimelineColumn, dateString: string): boolean =>
+    formatDate(column.start) <= dateString && dateString < formatDate(addDays(column.start, column.days));